@@ -9,6 +9,7 @@
  */
 
 import type * as parsers from "../parsers.js";
+import type * as pipelineVersions from "../pipelineVersions.js";
 import type * as pipelines from "../pipelines.js";
 import type * as projects from "../projects.js";
 import type * as sqliteArtifacts from "../sqliteArtifacts.js";
@@ -22,6 +23,7 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   parsers: typeof parsers;
+  pipelineVersions: typeof pipelineVersions;
   pipelines: typeof pipelines;
   projects: typeof projects;
   sqliteArtifacts: typeof sqliteArtifacts;
@@ -4,6 +4,7 @@
 
 import { v } from "convex/values";
 import { parseCSV } from "@/lib/parsers/csv";
+import { decodeText, isSupportedEncoding } from "@/lib/parsers/encoding";
 import { parseExcel } from "@/lib/parsers/excel";
 import type { ParseOptions, ParseResult } from "@/lib/parsers/types";
 import { ParseError } from "@/lib/parsers/types";
@@ -63,6 +64,12 @@ export const parseFile = action({
         if (upload.parseConfig.endColumn !== undefined) {
           options.endColumn = upload.parseConfig.endColumn;
         }
+        if (upload.parseConfig.encoding !== undefined) {
+          options.encoding = upload.parseConfig.encoding;
+        }
+        if (upload.parseConfig.numberLocale !== undefined) {
+          options.numberLocale = upload.parseConfig.numberLocale;
+        }
         options.hasHeaders = upload.parseConfig.hasHeaders;
       } else {
         // Default: hasHeaders = true if no parseConfig
@@ -72,9 +79,8 @@ export const parseFile = action({
       // Parse based on file type
       let result: ParseResult;
       if (upload.mimeType === "text/csv" || upload.mimeType === "text/plain") {
-        // Convert ArrayBuffer to string for CSV
-        const decoder = new TextDecoder("utf-8");
-        const content = decoder.decode(arrayBuffer);
+        // Convert ArrayBuffer to string for CSV (detecting the encoding unless configured)
+        const content = decodeText(arrayBuffer, options.encoding);
         result = parseCSV(content, options);
       } else if (
         upload.mimeType === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
@@ -112,6 +118,8 @@ export const parseFileInternal = internalAction({
         maxRows: v.optional(v.number()),
         inferTypes: v.optional(v.boolean()),
         delimiter: v.optional(v.string()),
+        encoding: v.optional(v.string()),
+        numberLocale: v.optional(v.string()),
         sheetName: v.optional(v.string()),
         sheetIndex: v.optional(v.number()),
         startRow: v.optional(v.number()),
@@ -130,6 +138,10 @@ export const parseFileInternal = internalAction({
         throw new ParseError("File not found in storage", "FILE_NOT_FOUND");
       }
 
+      if (args.options?.encoding !== undefined && !isSupportedEncoding(args.options.encoding)) {
+        throw new ParseError(`Unsupported encoding: ${args.options.encoding}`, "INVALID_OPTIONS");
+      }
+
       // Read file content as ArrayBuffer
       const arrayBuffer = await file.arrayBuffer();
 
@@ -138,6 +150,8 @@ export const parseFileInternal = internalAction({
         inferTypes: args.options?.inferTypes !== false,
         maxRows: args.options?.maxRows,
         delimiter: args.options?.delimiter,
+        encoding: args.options?.encoding,
+        numberLocale: args.options?.numberLocale,
         sheetName: args.options?.sheetName,
         sheetIndex: args.options?.sheetIndex,
         startRow: args.options?.startRow,
@@ -150,9 +164,8 @@ export const parseFileInternal = internalAction({
       // Parse based on file type
       let result: ParseResult;
       if (args.fileType === "text/csv" || args.fileType === "text/plain") {
-        // Convert ArrayBuffer to string for CSV
-        const decoder = new TextDecoder("utf-8");
-        const content = decoder.decode(arrayBuffer);
+        // Convert ArrayBuffer to string for CSV (detecting the encoding unless configured)
+        const content = decodeText(arrayBuffer, options.encoding);
         result = parseCSV(content, options);
       } else if (
         args.fileType === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
@@ -195,6 +208,12 @@ export const validateCast = action({
       v.literal("date"),
     ),
     format: v.optional(v.string()),
+    dateOrder: v.optional(v.union(v.literal("day_first"), v.literal("month_first"))),
+    timezone: v.optional(v.string()),
+    locale: v.optional(v.string()),
+    decimalSeparator: v.optional(v.string()),
+    groupSeparator: v.optional(v.string()),
+    outputFormat: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     try {
@@ -234,6 +253,9 @@ export const validateCast = action({
         if (upload.parseConfig.startColumn)
           parseOptions.startColumn = upload.parseConfig.startColumn;
         if (upload.parseConfig.endColumn) parseOptions.endColumn = upload.parseConfig.endColumn;
+        if (upload.parseConfig.encoding) parseOptions.encoding = upload.parseConfig.encoding;
+        if (upload.parseConfig.numberLocale)
+          parseOptions.numberLocale = upload.parseConfig.numberLocale;
         parseOptions.hasHeaders = upload.parseConfig.hasHeaders;
       } else {
         parseOptions.hasHeaders = true;
@@ -258,7 +280,15 @@ export const validateCast = action({
       const result = validateCastFn(
         columnValues,
         args.targetType,
-        args.format,
+        {
+          format: args.format,
+          dateOrder: args.dateOrder,
+          timezone: args.timezone,
+          locale: args.locale,
+          decimalSeparator: args.decimalSeparator,
+          groupSeparator: args.groupSeparator,
+          outputFormat: args.outputFormat,
+        },
         5, // maxSamples
         500, // maxRows (matches parse limit)
       );
@@ -0,0 +1,139 @@
+/**
+ * Convex functions for pipeline version history
+ * Every saved step list is kept as a version, so edits can be compared and reverted.
+ */
+
+import { v } from "convex/values";
+import { diffPipelineSteps } from "@/lib/pipeline/versions";
+import type { Doc, Id } from "./_generated/dataModel";
+import { type MutationCtx, mutation, query } from "./_generated/server";
+
+/**
+ * Record a step list as the next version of a pipeline
+ * Pipelines saved before version history existed get their current steps recorded first,
+ * so the state before the change can still be restored.
+ */
+export async function recordVersion(
+  ctx: MutationCtx,
+  pipeline: Doc<"pipelines">,
+  steps: Doc<"pipelines">["steps"],
+  message?: string,
+): Promise<Id<"pipelineVersions">> {
+  const latest = await ctx.db
+    .query("pipelineVersions")
+    .withIndex("by_pipeline", (q) => q.eq("pipelineId", pipeline._id))
+    .order("desc")
+    .first();
+
+  let version = latest?.version ?? 0;
+  if (!latest) {
+    version++;
+    await ctx.db.insert("pipelineVersions", {
+      pipelineId: pipeline._id,
+      version,
+      steps: pipeline.steps,
+      message: "Before version history",
+      createdAt: pipeline.updatedAt,
+    });
+  }
+
+  return await ctx.db.insert("pipelineVersions", {
+    pipelineId: pipeline._id,
+    version: version + 1,
+    steps,
+    message,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Delete every version of a pipeline
+ */
+export async function deleteVersions(ctx: MutationCtx, pipelineId: Id<"pipelines">) {
+  const versions = await ctx.db
+    .query("pipelineVersions")
+    .withIndex("by_pipeline", (q) => q.eq("pipelineId", pipelineId))
+    .collect();
+
+  for (const version of versions) {
+    await ctx.db.delete(version._id);
+  }
+}
+
+/**
+ * List the versions of a pipeline (newest first)
+ */
+export const list = query({
+  args: { pipelineId: v.id("pipelines") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("pipelineVersions")
+      .withIndex("by_pipeline", (q) => q.eq("pipelineId", args.pipelineId))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Step-level diff of a version against another one
+ * Compares with the previous version unless `againstId` is given.
+ */
+export const diff = query({
+  args: {
+    versionId: v.id("pipelineVersions"),
+    againstId: v.optional(v.id("pipelineVersions")),
+  },
+  handler: async (ctx, args) => {
+    const version = await ctx.db.get(args.versionId);
+    if (!version) {
+      throw new Error(`Version ${args.versionId} not found`);
+    }
+
+    let against: Doc<"pipelineVersions"> | null;
+    if (args.againstId) {
+      against = await ctx.db.get(args.againstId);
+      if (!against || against.pipelineId !== version.pipelineId) {
+        throw new Error("Versions must belong to the same pipeline");
+      }
+    } else {
+      against = await ctx.db
+        .query("pipelineVersions")
+        .withIndex("by_pipeline", (q) =>
+          q.eq("pipelineId", version.pipelineId).lt("version", version.version),
+        )
+        .order("desc")
+        .first();
+    }
+
+    return {
+      version: version.version,
+      againstVersion: against?.version ?? null,
+      changes: diffPipelineSteps(against?.steps ?? [], version.steps),
+    };
+  },
+});
+
+/**
+ * Restore the steps of a version
+ * The restored steps are saved as a new version, so the restore itself can be undone.
+ */
+export const restore = mutation({
+  args: { versionId: v.id("pipelineVersions") },
+  handler: async (ctx, args) => {
+    const version = await ctx.db.get(args.versionId);
+    if (!version) {
+      throw new Error(`Version ${args.versionId} not found`);
+    }
+
+    const pipeline = await ctx.db.get(version.pipelineId);
+    if (!pipeline) {
+      throw new Error(`Pipeline ${version.pipelineId} not found`);
+    }
+
+    await recordVersion(ctx, pipeline, version.steps, `Restored version ${version.version}`);
+    await ctx.db.patch(pipeline._id, {
+      steps: version.steps,
+      updatedAt: Date.now(),
+    });
+  },
+});
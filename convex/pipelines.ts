@@ -3,7 +3,15 @@
  */
 
 import { v } from "convex/values";
+import { isSupportedEncoding } from "@/lib/parsers/encoding";
+import { isValidLocale } from "@/lib/pipeline/casting/dates";
+import { assertStepsFitColumns } from "@/lib/pipeline/schema";
+import type { TransformationStep } from "@/lib/pipeline/types";
 import { mutation, query } from "./_generated/server";
+import { deleteVersions, recordVersion } from "./pipelineVersions";
+
+/** Input columns of the pipeline (computed by the server), required to check the steps when there are any */
+const inputColumnsValidator = v.optional(v.array(v.object({ name: v.string(), type: v.string() })));
 
 /**
  * List all pipelines globally (sorted by creation date, newest first)
@@ -58,6 +66,8 @@ export const create = mutation({
         id: v.string(),
         type: v.string(),
         config: v.any(),
+        enabled: v.optional(v.boolean()),
+        group: v.optional(v.string()),
       }),
     ),
     parseConfig: v.optional(
@@ -69,10 +79,28 @@ export const create = mutation({
         startColumn: v.optional(v.number()),
         endColumn: v.optional(v.number()),
         hasHeaders: v.boolean(),
+        encoding: v.optional(v.string()),
+        numberLocale: v.optional(v.string()),
       }),
     ),
+    errorMode: v.optional(v.union(v.literal("fail"), v.literal("quarantine"))),
+    inputColumns: inputColumnsValidator,
   },
   handler: async (ctx, args) => {
+    assertStepsFitColumns(args.steps as TransformationStep[], args.inputColumns);
+    if (
+      args.parseConfig?.encoding !== undefined &&
+      !isSupportedEncoding(args.parseConfig.encoding)
+    ) {
+      throw new Error(`Unsupported encoding: ${args.parseConfig.encoding}`);
+    }
+    if (
+      args.parseConfig?.numberLocale !== undefined &&
+      !isValidLocale(args.parseConfig.numberLocale)
+    ) {
+      throw new Error(`Invalid number locale: ${args.parseConfig.numberLocale}`);
+    }
+
     // Validate name
     const trimmedName = args.name.trim();
     if (!trimmedName) {
@@ -98,10 +126,19 @@ export const create = mutation({
       projectId: args.projectId,
       steps: args.steps,
       parseConfig: args.parseConfig,
+      errorMode: args.errorMode,
       createdAt: now,
       updatedAt: now,
     });
 
+    await ctx.db.insert("pipelineVersions", {
+      pipelineId,
+      version: 1,
+      steps: args.steps,
+      message: "Created",
+      createdAt: now,
+    });
+
     return pipelineId;
   },
 });
@@ -112,12 +149,15 @@ export const create = mutation({
 export const remove = mutation({
   args: { id: v.id("pipelines") },
   handler: async (ctx, args) => {
+    await deleteVersions(ctx, args.id);
     await ctx.db.delete(args.id);
   },
 });
 
 /**
- * Update a pipeline (change steps or parseConfig)
+ * Update a pipeline (change steps, parseConfig or errorMode)
+ * New steps are recorded as a version, with an optional message describing the change.
+ * New steps must come with the input columns; steps that don't fit them are rejected.
  */
 export const update = mutation({
   args: {
@@ -128,6 +168,8 @@ export const update = mutation({
           id: v.string(),
           type: v.string(),
           config: v.any(),
+          enabled: v.optional(v.boolean()),
+          group: v.optional(v.string()),
         }),
       ),
     ),
@@ -140,13 +182,48 @@ export const update = mutation({
         startColumn: v.optional(v.number()),
         endColumn: v.optional(v.number()),
         hasHeaders: v.boolean(),
+        encoding: v.optional(v.string()),
+        numberLocale: v.optional(v.string()),
       }),
     ),
+    errorMode: v.optional(v.union(v.literal("fail"), v.literal("quarantine"))),
+    message: v.optional(v.string()),
+    inputColumns: inputColumnsValidator,
   },
   handler: async (ctx, args) => {
+    if (
+      args.parseConfig?.encoding !== undefined &&
+      !isSupportedEncoding(args.parseConfig.encoding)
+    ) {
+      throw new Error(`Unsupported encoding: ${args.parseConfig.encoding}`);
+    }
+    if (
+      args.parseConfig?.numberLocale !== undefined &&
+      !isValidLocale(args.parseConfig.numberLocale)
+    ) {
+      throw new Error(`Invalid number locale: ${args.parseConfig.numberLocale}`);
+    }
+
+    // A new parse config can change the input columns, so the kept steps are checked again
+    if (args.steps !== undefined || args.parseConfig !== undefined) {
+      const pipeline = await ctx.db.get(args.id);
+      if (!pipeline) {
+        throw new Error(`Pipeline ${args.id} not found`);
+      }
+      assertStepsFitColumns(
+        (args.steps ?? pipeline.steps) as TransformationStep[],
+        args.inputColumns,
+      );
+
+      if (args.steps !== undefined) {
+        await recordVersion(ctx, pipeline, args.steps, args.message);
+      }
+    }
+
     const updateData: {
       steps?: typeof args.steps;
       parseConfig?: typeof args.parseConfig;
+      errorMode?: typeof args.errorMode;
       updatedAt: number;
     } = {
       updatedAt: Date.now(),
@@ -160,6 +237,10 @@ export const update = mutation({
       updateData.parseConfig = args.parseConfig;
     }
 
+    if (args.errorMode !== undefined) {
+      updateData.errorMode = args.errorMode;
+    }
+
     await ctx.db.patch(args.id, updateData);
   },
 });
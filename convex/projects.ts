@@ -4,6 +4,7 @@
 
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { deleteVersions } from "./pipelineVersions";
 
 /**
  * List all projects globally (sorted by creation date, newest first)
@@ -152,6 +153,7 @@ export const remove = mutation({
       .collect();
 
     for (const pipeline of pipelines) {
+      await deleteVersions(ctx, pipeline._id);
       await ctx.db.delete(pipeline._id);
     }
 
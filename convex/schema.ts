@@ -18,6 +18,8 @@ export default defineSchema({
         startColumn: v.optional(v.number()),
         endColumn: v.optional(v.number()),
         hasHeaders: v.boolean(),
+        encoding: v.optional(v.string()),
+        numberLocale: v.optional(v.string()),
       }),
     ),
   }).index("by_uploadedAt", ["uploadedAt"]),
@@ -43,13 +45,18 @@ export default defineSchema({
         startColumn: v.optional(v.number()),
         endColumn: v.optional(v.number()),
         hasHeaders: v.boolean(),
+        encoding: v.optional(v.string()),
+        numberLocale: v.optional(v.string()),
       }),
     ), // Optional - overrides project/upload defaults
+    errorMode: v.optional(v.union(v.literal("fail"), v.literal("quarantine"))), // Row errors: stop (default) or divert to a rejects table
     steps: v.array(
       v.object({
         id: v.string(),
         type: v.string(),
         config: v.any(),
+        enabled: v.optional(v.boolean()), // False mutes the step
+        group: v.optional(v.string()), // Named block of related steps
       }),
     ),
     createdAt: v.number(),
@@ -58,6 +65,22 @@ export default defineSchema({
     .index("by_project", ["projectId"])
     .index("by_created", ["createdAt"]),
 
+  pipelineVersions: defineTable({
+    pipelineId: v.id("pipelines"),
+    version: v.number(), // 1, 2, 3... per pipeline
+    steps: v.array(
+      v.object({
+        id: v.string(),
+        type: v.string(),
+        config: v.any(),
+        enabled: v.optional(v.boolean()),
+        group: v.optional(v.string()),
+      }),
+    ),
+    message: v.optional(v.string()), // What changed, e.g. "Deleted step 3"
+    createdAt: v.number(),
+  }).index("by_pipeline", ["pipelineId", "version"]),
+
   sqliteArtifacts: defineTable({
     projectId: v.id("projects"),
     uploadId: v.id("uploads"),
@@ -1,4 +1,6 @@
 import { v } from "convex/values";
+import { isSupportedEncoding } from "@/lib/parsers/encoding";
+import { isValidLocale } from "@/lib/pipeline/casting/dates";
 import {
   getMaxFileSize,
   sanitizeFilename,
@@ -118,6 +120,8 @@ export const updateParseConfig = mutation({
       startColumn: v.optional(v.number()),
       endColumn: v.optional(v.number()),
       hasHeaders: v.boolean(),
+      encoding: v.optional(v.string()),
+      numberLocale: v.optional(v.string()),
     }),
   },
   handler: async (ctx, args) => {
@@ -147,6 +151,18 @@ export const updateParseConfig = mutation({
     if (args.parseConfig.sheetIndex !== undefined && args.parseConfig.sheetIndex < 0) {
       throw new Error("sheetIndex must be >= 0");
     }
+    if (
+      args.parseConfig.encoding !== undefined &&
+      !isSupportedEncoding(args.parseConfig.encoding)
+    ) {
+      throw new Error(`Unsupported encoding: ${args.parseConfig.encoding}`);
+    }
+    if (
+      args.parseConfig.numberLocale !== undefined &&
+      !isValidLocale(args.parseConfig.numberLocale)
+    ) {
+      throw new Error(`Invalid number locale: ${args.parseConfig.numberLocale}`);
+    }
 
     // Update the upload with the new parse config
     await ctx.db.patch(args.uploadId, {
@@ -5,8 +5,11 @@ import type { Doc, Id } from "@convex/dataModel";
 import { convertToModelMessages, stepCountIs, streamText, type UIMessage } from "ai";
 import { z } from "zod";
 import { downloadFileFromConvex, getConvexClient, getUpload } from "@/lib/convex/client";
+import type { ColumnMetadata } from "@/lib/parsers/types";
 import { transformationStepsSchema } from "@/lib/pipeline/assistantSchemas";
-import { TRANSFORMATION_TYPES } from "@/lib/pipeline/types";
+import { loadPipelineInputColumns } from "@/lib/pipeline/input";
+import { formatSchemaErrors, propagateSchema } from "@/lib/pipeline/schema";
+import { TRANSFORMATION_TYPES, type TransformationStep } from "@/lib/pipeline/types";
 import { listUploadSheets } from "@/lib/services/sheets";
 import {
   ensureLocalDatabase,
@@ -399,13 +402,6 @@ export async function POST(req: Request) {
           parseSettings?: Doc<"pipelines">["parseConfig"];
           confirmed: boolean;
         }) => {
-          if (!params.confirmed) {
-            return {
-              error: "User approval required",
-              message: "Ask the user to confirm before creating the pipeline.",
-            };
-          }
-
           const parseConfig = params.parseConfig ?? params.parseSettings;
           const normalizedParseConfig = parseConfig
             ? {
@@ -431,11 +427,34 @@ export async function POST(req: Request) {
             };
           }
 
+          // Steps are checked against the columns of the pipeline's own parse settings, if any
+          const inputColumns = await loadPipelineInputColumns(
+            db,
+            projectUploadId,
+            normalizedParseConfig,
+          );
+          if (!inputColumns) {
+            return { error: "Upload not found" };
+          }
+          const schemaError = checkStepSchema(
+            inputColumns,
+            stepsResult.data as TransformationStep[],
+          );
+          if (schemaError) return schemaError;
+
+          if (!params.confirmed) {
+            return {
+              error: "User approval required",
+              message: "Ask the user to confirm before creating the pipeline.",
+            };
+          }
+
           const pipelineId = await convex.mutation(api.pipelines.create, {
             projectId: projectId as Id<"projects">,
             name: params.name,
             steps: stepsResult.data as Doc<"pipelines">["steps"],
             parseConfig: normalizedParseConfig,
+            inputColumns: inputColumns.map(({ name, type }) => ({ name, type })),
           });
 
           return { pipelineId };
@@ -516,13 +535,6 @@ export async function POST(req: Request) {
           parseSettings?: Doc<"pipelines">["parseConfig"];
           confirmed: boolean;
         }) => {
-          if (!params.confirmed) {
-            return {
-              error: "User approval required",
-              message: "Ask the user to confirm before updating the pipeline.",
-            };
-          }
-
           const parseConfig = params.parseConfig ?? params.parseSettings;
           const normalizedParseConfig = parseConfig
             ? {
@@ -548,10 +560,36 @@ export async function POST(req: Request) {
             };
           }
 
+          // Steps are checked against the columns of the pipeline's own parse settings, if any
+          let inputColumns: ColumnMetadata[] | null = null;
+          if (params.steps !== undefined || normalizedParseConfig !== undefined) {
+            const pipelineParseConfig =
+              normalizedParseConfig ??
+              pipelines.find((pipeline) => pipeline._id === params.pipelineId)?.parseConfig;
+            inputColumns = await loadPipelineInputColumns(db, projectUploadId, pipelineParseConfig);
+            if (!inputColumns) {
+              return { error: "Upload not found" };
+            }
+            const schemaError = checkStepSchema(
+              inputColumns,
+              stepsResult.data as TransformationStep[],
+            );
+            if (schemaError) return schemaError;
+          }
+
+          if (!params.confirmed) {
+            return {
+              error: "User approval required",
+              message: "Ask the user to confirm before updating the pipeline.",
+            };
+          }
+
           await convex.mutation(api.pipelines.update, {
             id: params.pipelineId as Id<"pipelines">,
             steps: stepsResult.data as Doc<"pipelines">["steps"] | undefined,
             parseConfig: normalizedParseConfig,
+            message: "Updated by assistant",
+            inputColumns: inputColumns?.map(({ name, type }) => ({ name, type })),
           });
 
           return { success: true };
@@ -618,6 +656,21 @@ export async function POST(req: Request) {
   }
 }
 
+/**
+ * Check steps against the project columns before they are proposed
+ * Returns a tool error listing the steps that would fail, or null.
+ */
+function checkStepSchema(columns: ColumnMetadata[], steps: TransformationStep[]) {
+  const { errors } = propagateSchema(columns, steps);
+  if (errors.length === 0) return null;
+
+  return {
+    error: "Invalid pipeline steps",
+    message: `Some steps don't fit the data's columns: ${formatSchemaErrors(errors)}`,
+    details: errors,
+  };
+}
+
 /**
  * Build system context for the AI assistant
  */
@@ -641,17 +694,23 @@ function buildSystemContext(
 
 **Current Project:**
 - Name: ${project.name}
+- Upload ID: ${project.uploadId} (use as the source uploadId when joining or appending other sheets of this file)
 
 ${fileContext}
 
 **Available Pipelines:** ${pipelines.length}
-${pipelines.map((p, i) => `${i + 1}. ${p.name} (${p.steps.length} steps)`).join("\n")}
+${pipelines.map((p, i) => `${i + 1}. ${p.name} (${p.steps.length} steps, id: ${p._id})`).join("\n")}
 
 ${
   selectedPipeline
     ? `**Selected Pipeline:** ${selectedPipeline.name}
 - Steps: ${selectedPipeline.steps.length}
-${selectedPipeline.steps.map((s, i) => `  ${i + 1}. ${s.type}`).join("\n")}`
+${selectedPipeline.steps
+  .map(
+    (s, i) =>
+      `  ${i + 1}. ${s.type}${s.enabled === false ? " (disabled)" : ""}${s.group ? ` [${s.group}]` : ""}`,
+  )
+  .join("\n")}`
     : ""
 }
 
@@ -685,11 +744,11 @@ ${selectedPipeline.steps.map((s, i) => `  ${i + 1}. ${s.type}`).join("\n")}`
  - trim: Remove leading and trailing whitespace
  - uppercase: Convert text to uppercase
  - lowercase: Convert text to lowercase
- - deduplicate: Remove duplicate rows
- - filter: Keep only rows matching a condition (operators: equals, not_equals, contains, not_contains, greater_than, less_than, is_null, not_null)
+ - deduplicate: Remove duplicate rows (columns to compare, default all; keep: first, last or none; orderBy {name, direction} decides which row of a group is first/last, e.g. keep "last" by updated_at asc keeps the latest; ignoreCase, ignoreWhitespace; mode "flag" keeps every row and adds is_duplicate and duplicate_group columns instead)
+ - filter: Keep only rows matching a condition tree. Use config.condition with nodes {kind: "condition", column, operator, value?, values?}, {kind: "and"|"or", conditions: [...]} or {kind: "not", condition}. Operators: equals, not_equals, contains, not_contains, starts_with, ends_with, matches_regex, greater_than, greater_or_equal, less_than, less_or_equal, between (values: [min, max]), in / not_in (values: [...]), is_null, not_null. Date columns compare as dates
  - rename_column: Rename a column
  - remove_column: Remove one or more columns
- - cast_column: Convert column values to a different data type
+ - cast_column: Convert column values to a different data type (numbers: locale, decimalSeparator and groupSeparator, e.g. locale "de-DE" reads "1.234,56"; currency symbols, percent signs, (123) and 123- are understood; dates: format with tokens yyyy, yy, MMMM, MMM, MM, M, dd, d, HH, hh, mm, ss, SSS, a, e.g. "dd.MM.yyyy" or "yyyyMMdd", or "excel" for Excel serial numbers; dateOrder day_first or month_first for numeric dates without a format; timezone (IANA, default UTC); locale for month names; outputFormat writes dates as text in that format)
  - unpivot: Convert columns into rows (wide → long)
  - pivot: Convert rows into columns (long → wide)
  - split_column: Split one column into multiple columns
@@ -697,6 +756,17 @@ ${selectedPipeline.steps.map((s, i) => `  ${i + 1}. ${s.type}`).join("\n")}`
  - fill_down: Fill empty cells with value from above
  - fill_across: Fill empty cells with value from left
  - sort: Sort rows by one or more columns
+ - calculated_column: Add a column computed from an expression, e.g. "qty * unit_price" or "first || ' ' || last". Reference columns by name or [Column Name]; supports + - * / %, ||, comparisons, AND/OR/NOT, IF, CASE WHEN, COALESCE, ROUND, ABS, FLOOR, CEIL, MIN, MAX, LEN, UPPER, LOWER, TRIM, LEFT, RIGHT, SUBSTR, REPLACE, CONCAT, DATE_DIFF('day', start, end), YEAR, MONTH, DAY, TO_NUMBER, TO_TEXT, TO_DATE
+ - replace: Find and replace text in columns (literal or regex with $1 backreferences; options: caseSensitive, matchEntireCell), e.g. "N/A" → "" or "St." → "Street"
+ - join: Merge columns from another upload or another pipeline's result on key columns (joinType: left, inner, full, anti; source: {type: "upload", uploadId, sheetName?} or {type: "pipeline", pipelineId}; on: [{left, right}]; clashing names get suffix, default "_right")
+ - group_by: Collapse rows by key columns (groupBy) and compute aggregates into new columns (aggregations: [{column, aggregation, newColumn, separator?}]; aggregation: sum, mean, min, max, median, count, count_distinct, first, last, string_agg; count without column counts rows)
+ - append: Stack rows from other sheets of the same workbook (source {type: "upload", uploadId, sheetName}), other uploads or pipeline results below the current rows, aligning columns by name (columnMode: union or intersection; optional sourceColumn tags each row with its source label, currentLabel tags the existing rows)
+ - assert: Check the data against rules without changing it, to guarantee an output contract (rules: [{kind, ..., severity?}]; kind: not_null {column}, unique {columns}, in_set {column, values}, matches_regex {column, pattern}, range {column, min?, max?}, row_count {min?, max?}, column_type {column, columnType?}; severity "fail" (default) stops the pipeline or quarantines failing rows, "warn" only reports them)
+ - format_number: Render number columns as text for export, with fixed decimals, grouping and currency in a locale's style (decimals 0-20, grouping default true, locale e.g. "de-DE", currency ISO code e.g. "EUR"); non-numeric values are left unchanged
+ - cluster_values: Merge variants of the same value in a column into a canonical value, e.g. "Acme, Inc" and "ACME Inc." → "ACME Inc." (column; clusters: [{canonical, values: [variants, matched exactly]}]; method fingerprint, metaphone, levenshtein, jaro_winkler or token_set and threshold record how the clusters were found). Only propose clusters of values you have seen in the data
+ - map_values: Recode a column's values with a lookup table, e.g. country names to codes or "A" → "Active" (column; mappings: [{from, to}], from matches the whole cell; caseSensitive default true; defaultValue replaces non-empty values without a mapping, otherwise they are left unchanged; map from "" to fill empty cells)
+
+Every step may also set enabled: false to keep it in the pipeline without running it, and group: "<name>" to label a block of related steps (e.g. "address cleanup").
 
 **Guidelines:**
 - Always sample data before making recommendations
@@ -0,0 +1,378 @@
+/**
+ * Integration tests for the pipeline update, preview, execute, value cluster and
+ * recipe import routes
+ *
+ * Convex is replaced by an in-memory fake answering the HTTP client's requests;
+ * the project database is a real SQLite file.
+ */
+
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import type { Doc, Id } from "@convex/dataModel";
+import { NextRequest } from "next/server";
+import { createRecipe, serializeRecipe } from "@/lib/pipeline/recipes";
+import { assertStepsFitColumns } from "@/lib/pipeline/schema";
+import type { TransformationStep } from "@/lib/pipeline/types";
+import { resetDatabaseCache } from "@/lib/sqlite/cache";
+import { deleteDatabase, getDatabase, getPipelineResultData } from "@/lib/sqlite/database";
+import { parseStoreAndPersist } from "@/lib/sqlite/parser";
+import { GET as findClusters } from "../clusters/route";
+import { PATCH as updatePipeline } from "../pipelines/[pipelineId]/route";
+import { POST as execute } from "../pipelines/[pipelineId]/execute/route";
+import { POST as preview } from "../pipelines/[pipelineId]/preview/route";
+import { POST as importRecipe } from "../recipes/route";
+
+const TEST_PROJECT_ID = "test-routes-project-001" as Id<"projects">;
+const TEST_UPLOAD_ID = "test-routes-upload-001" as Id<"uploads">;
+const TEST_PIPELINE_ID = "test-routes-pipeline-001" as Id<"pipelines">;
+const TEST_DATA_DIR = path.join(process.cwd(), "data", "sqlite", "test-routes");
+const CONVEX_URL = "https://routes-test.convex.cloud";
+const CSV_FILE = "name,city\nalice,NYC\nbob,LA\n";
+
+process.env.SQLITE_DB_DIR = TEST_DATA_DIR;
+process.env.NEXT_PUBLIC_CONVEX_URL = CONVEX_URL;
+
+/**
+ * Documents and artifacts served by the fake Convex backend
+ */
+const convex = {
+  pipeline: null as Doc<"pipelines"> | null,
+  artifacts: [] as Array<Record<string, unknown>>,
+  storedFiles: 0,
+  updates: [] as Array<Record<string, unknown>>,
+};
+
+const originalFetch = globalThis.fetch;
+
+async function fakeConvexFetch(input: string | URL | Request, init?: RequestInit) {
+  const url = String(input);
+  if (url === `${CONVEX_URL}/upload`) {
+    convex.storedFiles++;
+    return Response.json({ storageId: `storage-${convex.storedFiles}` });
+  }
+  if (url === `${CONVEX_URL}/file`) {
+    return new Response(CSV_FILE);
+  }
+
+  const { path: name, args } = JSON.parse(String(init?.body)) as {
+    path: string;
+    args: Array<Record<string, unknown>>;
+  };
+  const run = () => {
+    switch (name) {
+      case "projects:get":
+        return {
+          _id: TEST_PROJECT_ID,
+          _creationTime: 0,
+          name: "Routes",
+          uploadId: TEST_UPLOAD_ID,
+          createdAt: 0,
+          updatedAt: 0,
+        };
+      case "pipelines:get":
+        return convex.pipeline;
+      case "pipelines:update": {
+        // Checked like the mutation does
+        const update = args[0] as {
+          steps?: TransformationStep[];
+          parseConfig?: unknown;
+          inputColumns?: [];
+        };
+        convex.updates.push(args[0]);
+        if (update.steps !== undefined || update.parseConfig !== undefined) {
+          assertStepsFitColumns(
+            update.steps ?? (convex.pipeline?.steps as TransformationStep[]),
+            update.inputColumns,
+          );
+        }
+        return null;
+      }
+      case "uploads:getUpload":
+        return {
+          convexStorageId: "storage-file",
+          originalName: "people.csv",
+          mimeType: "text/csv",
+        };
+      case "uploads:getFileUrl":
+        return `${CONVEX_URL}/file`;
+      case "sqliteArtifacts:getLatest":
+        return convex.artifacts.at(-1) ?? null;
+      case "sqliteArtifacts:upsert":
+        convex.artifacts.push(args[0]);
+        return null;
+      case "uploads:generateUploadUrl":
+        return `${CONVEX_URL}/upload`;
+      default:
+        throw new Error(`Unexpected Convex function: ${name}`);
+    }
+  };
+
+  try {
+    return Response.json({ status: "success", value: run() });
+  } catch (error) {
+    return Response.json({ status: "error", errorMessage: (error as Error).message });
+  }
+}
+
+function savePipeline(steps: Doc<"pipelines">["steps"]): void {
+  convex.pipeline = {
+    _id: TEST_PIPELINE_ID,
+    _creationTime: 0,
+    name: "Clean",
+    projectId: TEST_PROJECT_ID,
+    steps,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+function routeParams() {
+  return { params: Promise.resolve({ projectId: TEST_PROJECT_ID, pipelineId: TEST_PIPELINE_ID }) };
+}
+
+async function runUpdate(body: Record<string, unknown>) {
+  const request = new NextRequest("http://localhost/pipeline", {
+    method: "PATCH",
+    body: JSON.stringify(body),
+  });
+  const response = await updatePipeline(request, routeParams());
+  return { status: response.status, data: await response.json() };
+}
+
+async function runImportRecipe(body: Record<string, unknown>) {
+  const request = new NextRequest("http://localhost/recipes", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+  const response = await importRecipe(request, routeParams());
+  return { status: response.status, data: await response.json() };
+}
+
+async function runPreview(upToStep?: number) {
+  const request = new NextRequest("http://localhost/preview", {
+    method: "POST",
+    body: JSON.stringify({ upToStep }),
+  });
+  const response = await preview(request, routeParams());
+  assert.equal(response.status, 200);
+  return response.json();
+}
+
+async function runExecute() {
+  const response = await execute(new NextRequest("http://localhost/execute"), routeParams());
+  assert.equal(response.status, 200);
+  return response.json();
+}
+
+async function runFindClusters(query: Record<string, string>) {
+  const request = new NextRequest(`http://localhost/clusters?${new URLSearchParams(query)}`);
+  const response = await findClusters(request, routeParams());
+  assert.equal(response.status, 200);
+  return response.json();
+}
+
+describe("Pipeline routes", () => {
+  before(async () => {
+    fs.mkdirSync(TEST_DATA_DIR, { recursive: true });
+    globalThis.fetch = fakeConvexFetch as typeof fetch;
+
+    const buffer = new TextEncoder().encode(CSV_FILE).buffer;
+    await parseStoreAndPersist(TEST_PROJECT_ID, TEST_UPLOAD_ID, buffer, "people.csv", "text/csv");
+  });
+
+  beforeEach(() => {
+    savePipeline([]);
+    convex.updates = [];
+  });
+
+  after(() => {
+    globalThis.fetch = originalFetch;
+    deleteDatabase(TEST_PROJECT_ID);
+    resetDatabaseCache();
+    fs.rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  describe("pipeline updates", () => {
+    const upper: Doc<"pipelines">["steps"][number] = {
+      id: "upper",
+      type: "uppercase",
+      config: { type: "uppercase", columns: ["name"] },
+    };
+
+    it("should check the steps against the project's columns, not the client's", async () => {
+      const { status } = await runUpdate({
+        steps: [upper],
+        inputColumns: [{ name: "anything", type: "string" }],
+      });
+
+      assert.equal(status, 200);
+      assert.deepEqual(convex.updates[0].inputColumns, [
+        { name: "name", type: "string" },
+        { name: "city", type: "string" },
+      ]);
+    });
+
+    it("should check the saved steps again when the parse config changes", async () => {
+      savePipeline([upper]);
+
+      const { status, data } = await runUpdate({ parseConfig: { hasHeaders: false } });
+
+      assert.equal(status, 400);
+      assert.match(data.details, /Invalid pipeline steps/);
+      assert.ok(convex.updates[0].inputColumns);
+    });
+
+    it("should reject an unsupported encoding", async () => {
+      savePipeline([upper]);
+
+      const { status, data } = await runUpdate({
+        parseConfig: { hasHeaders: true, encoding: "not-an-encoding" },
+      });
+
+      assert.equal(status, 400);
+      assert.equal(data.error, "Invalid request body");
+      assert.equal(convex.updates.length, 0);
+    });
+
+    it("should not need the columns to change only the error mode", async () => {
+      savePipeline([upper]);
+
+      const { status } = await runUpdate({ errorMode: "quarantine" });
+
+      assert.equal(status, 200);
+      assert.equal(convex.updates[0].inputColumns, undefined);
+    });
+  });
+
+  describe("muted steps", () => {
+    beforeEach(() => {
+      savePipeline([
+        { id: "upper", type: "uppercase", config: { type: "uppercase", columns: ["name"] } },
+        {
+          id: "muted",
+          type: "rename_column",
+          config: { type: "rename_column", oldName: "city", newName: "town" },
+          enabled: false,
+          group: "Tidy",
+        },
+      ]);
+    });
+
+    it("should skip muted steps in the preview", async () => {
+      const data = await runPreview();
+
+      assert.deepEqual(data.data, [
+        { name: "ALICE", city: "NYC" },
+        { name: "BOB", city: "LA" },
+      ]);
+      assert.equal(data.stepResults[1].skipped, true);
+    });
+
+    it("should skip muted steps when executing", async () => {
+      const data = await runExecute();
+
+      assert.equal(data.stepResults[1].success, true);
+      assert.deepEqual(getPipelineResultData(getDatabase(TEST_PROJECT_ID), TEST_PIPELINE_ID), [
+        { name: "ALICE", city: "NYC" },
+        { name: "BOB", city: "LA" },
+      ]);
+    });
+  });
+
+  describe("value clusters", () => {
+    beforeEach(() => {
+      savePipeline([
+        {
+          id: "rename",
+          type: "rename_column",
+          config: { type: "rename_column", oldName: "name", newName: "person" },
+        },
+        {
+          id: "fix",
+          type: "replace",
+          config: { type: "replace", columns: ["person"], find: "bob", replaceWith: "Alice!" },
+        },
+      ]);
+    });
+
+    it("should read the column after the steps before the clustered one", async () => {
+      const data = await runFindClusters({
+        column: "person",
+        pipelineId: TEST_PIPELINE_ID,
+        stepIndex: "2",
+      });
+
+      assert.equal(data.distinctValues, 2);
+      assert.equal(data.clusters.length, 1);
+      assert.deepEqual(
+        data.clusters[0].values.map((entry: { value: string }) => entry.value).sort(),
+        ["Alice!", "alice"],
+      );
+    });
+
+    it("should not run the clustered step or the ones after it", async () => {
+      const data = await runFindClusters({
+        column: "person",
+        pipelineId: TEST_PIPELINE_ID,
+        stepIndex: "1",
+      });
+
+      assert.equal(data.distinctValues, 2);
+      assert.deepEqual(data.clusters, []);
+    });
+  });
+
+  describe("step cache", () => {
+    it("should reuse cached preview steps after executing", async () => {
+      savePipeline([
+        { id: "upper", type: "uppercase", config: { type: "uppercase", columns: ["city"] } },
+      ]);
+
+      await runPreview();
+      await runExecute();
+      const data = await runPreview();
+
+      assert.deepEqual(data.cache, { cachedSteps: 1, executedSteps: 0 });
+    });
+  });
+
+  describe("recipe import", () => {
+    // Reads the file without headers: its columns are Column1 and Column2
+    const recipe = serializeRecipe(
+      createRecipe({
+        name: "Headerless",
+        columns: ["Column1"],
+        steps: [
+          {
+            id: "upper",
+            type: "uppercase",
+            config: { type: "uppercase", columns: ["Column1"] },
+          },
+        ],
+        parseConfig: { hasHeaders: false },
+      }),
+      "json",
+    );
+
+    it("should check the recipe against the columns of its own parse settings", async () => {
+      const { status, data } = await runImportRecipe({ recipe, dryRun: true });
+
+      assert.equal(status, 200);
+      assert.deepEqual(data.columns, ["Column1", "Column2"]);
+      assert.deepEqual(data.missingColumns, []);
+    });
+
+    it("should only map to columns of the recipe's parse settings", async () => {
+      const { status, data } = await runImportRecipe({
+        recipe,
+        columnMapping: { Column1: "name" },
+        dryRun: true,
+      });
+
+      assert.equal(status, 400);
+      assert.equal(data.error, "Mapped columns not found: name");
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { api } from "@convex/api";
+import type { Id } from "@convex/dataModel";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getConvexClient } from "@/lib/convex/client";
+import { transformationStepsSchema } from "@/lib/pipeline/assistantSchemas";
+import {
+  CLUSTER_METHODS,
+  findClusters,
+  isKeyingMethod,
+  MAX_NEAREST_NEIGHBOR_VALUES,
+} from "@/lib/pipeline/clustering/clusters";
+import { loadPipelineInput } from "@/lib/pipeline/input";
+import { loadStepSources } from "@/lib/pipeline/sources";
+import { executePipelineSQL, releaseResult } from "@/lib/pipeline/sql/executor";
+import { ensureLocalDatabase } from "@/lib/sqlite/artifacts";
+import { getDatabase } from "@/lib/sqlite/database";
+import { isProjectDataInitialized } from "@/lib/sqlite/parser";
+import { readJSONValueCounts, readValueCounts } from "@/lib/sqlite/tables";
+
+// Distinct values read for key collision methods
+const MAX_KEYED_VALUES = 50000;
+
+const querySchema = z.object({
+  column: z.string().min(1),
+  method: z.enum(CLUSTER_METHODS).default("fingerprint"),
+  threshold: z.coerce.number().gt(0).max(1).optional(),
+  pipelineId: z.string().min(1).optional(),
+  stepIndex: z.coerce.number().int().min(0).optional(), // Steps before the clustered one, all by default
+});
+
+/**
+ * Find clusters of variants of the same value in a column of the project's data
+ * GET /api/projects/[projectId]/clusters?column=vendor&method=fingerprint
+ *
+ * With a pipelineId, the column is read from the pipeline's table at stepIndex:
+ * its input after the steps before that position have run.
+ *
+ * Nearest-neighbour methods (levenshtein, jaro_winkler, token_set) take an
+ * optional threshold; `truncated` is set when only the most frequent values
+ * were compared.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> },
+) {
+  try {
+    const { projectId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+
+    // Validate query parameters
+    const validation = querySchema.safeParse({
+      column: searchParams.get("column"),
+      method: searchParams.get("method") ?? undefined,
+      threshold: searchParams.get("threshold") ?? undefined,
+      pipelineId: searchParams.get("pipelineId") ?? undefined,
+      stepIndex: searchParams.get("stepIndex") ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: validation.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const { column, method, threshold, pipelineId, stepIndex } = validation.data;
+
+    // Verify project exists
+    const convex = getConvexClient();
+    const project = await convex.query(api.projects.get, {
+      id: projectId as Id<"projects">,
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Get database
+    const projectIdTyped = projectId as Id<"projects">;
+    const initialized = await isProjectDataInitialized(projectIdTyped);
+    if (!initialized) {
+      return NextResponse.json(
+        { error: "Project data not initialized. Please parse the file first." },
+        { status: 400 },
+      );
+    }
+
+    await ensureLocalDatabase(projectIdTyped);
+    const db = getDatabase(projectId);
+
+    // Distinct text values of the column, most frequent first
+    const limit = isKeyingMethod(method) ? MAX_KEYED_VALUES : MAX_NEAREST_NEIGHBOR_VALUES;
+    let counts: Array<{ value: unknown; count: number }>;
+
+    if (pipelineId) {
+      const pipeline = await convex.query(api.pipelines.get, {
+        id: pipelineId as Id<"pipelines">,
+      });
+
+      if (!pipeline || pipeline.projectId !== projectId) {
+        return NextResponse.json({ error: "Pipeline not found" }, { status: 404 });
+      }
+
+      const stepValidation = transformationStepsSchema.safeParse(pipeline.steps);
+      if (!stepValidation.success) {
+        return NextResponse.json(
+          { error: "Pipeline contains invalid steps", details: stepValidation.error.errors },
+          { status: 400 },
+        );
+      }
+      const stepsBefore = stepValidation.data.slice(0, stepIndex);
+
+      const source = await loadPipelineInput(db, project.uploadId, pipeline.parseConfig);
+      if (!source) {
+        return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+      }
+
+      // Run the earlier steps over all rows, then read the column from their result
+      const executionResult = executePipelineSQL(db, source, stepsBefore, {
+        sources: await loadStepSources(db, stepsBefore),
+        rowErrorMode: pipeline.errorMode ?? "fail",
+      });
+
+      try {
+        const failedStep = executionResult.stepResults.find((result) => !result.success);
+        if (failedStep) {
+          return NextResponse.json(
+            { error: "An earlier step failed", details: failedStep.error },
+            { status: 400 },
+          );
+        }
+        counts = readJSONValueCounts(db, executionResult.table.from, column, limit + 1);
+      } finally {
+        releaseResult(db, executionResult);
+      }
+    } else {
+      counts = readValueCounts(db, "raw_data", column, limit + 1);
+    }
+
+    const values = counts
+      .slice(0, limit)
+      .filter(
+        (entry): entry is { value: string; count: number } => typeof entry.value === "string",
+      );
+
+    const clusters = findClusters(values, method, threshold);
+
+    return NextResponse.json({
+      column,
+      method,
+      clusters,
+      distinctValues: values.length,
+      truncated: counts.length > limit,
+    });
+  } catch (error) {
+    console.error("Error finding value clusters:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to find value clusters",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -4,14 +4,24 @@ import { type NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getConvexClient } from "@/lib/convex/client";
 import { ensureLocalDatabase } from "@/lib/sqlite/artifacts";
-import { getColumns, getDatabase, getRawData, getRowCount } from "@/lib/sqlite/database";
+import { getColumns, getDatabase, getRowCount } from "@/lib/sqlite/database";
 import { isProjectDataInitialized } from "@/lib/sqlite/parser";
+import { queryTableRows } from "@/lib/sqlite/queries";
+import { parseTableQueryParams } from "@/lib/sqlite/queryParams";
 
 const querySchema = z.object({
   limit: z.coerce.number().int().min(1).max(1000).default(100),
   offset: z.coerce.number().int().min(0).default(0),
 });
 
+/**
+ * Get the project's parsed data
+ * GET /api/projects/[projectId]/data?limit=100&offset=0
+ *
+ * Optional sort, filter.<column> and search params (see queryParams) sort and
+ * filter the whole table before pagination; `pagination.total` counts the
+ * matching rows and `pagination.totalRows` the rows of the table.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ projectId: string }> },
@@ -34,6 +44,7 @@ export async function GET(
     }
 
     const { limit, offset } = validation.data;
+    const query = parseTableQueryParams(searchParams);
 
     // Verify project exists
     const convex = getConvexClient();
@@ -58,8 +69,8 @@ export async function GET(
     await ensureLocalDatabase(projectIdTyped);
     const db = getDatabase(projectId);
 
-    // Get paginated data
-    const rawData = getRawData(db, offset, limit);
+    // Get the matching rows of the requested page
+    const { rows, total } = queryTableRows(db, "raw_data", query, offset, limit);
 
     // Get columns
     const columns = getColumns(db);
@@ -68,7 +79,7 @@ export async function GET(
     const totalRows = getRowCount(db);
 
     // Extract data from RawDataRow format
-    const data = rawData.map((row) => row.data);
+    const data = rows.map((row) => row.data);
 
     return NextResponse.json({
       data,
@@ -76,8 +87,9 @@ export async function GET(
       pagination: {
         offset,
         limit,
-        total: totalRows,
-        hasMore: offset + limit < totalRows,
+        total,
+        totalRows,
+        hasMore: offset + limit < total,
       },
     });
   } catch (error) {
@@ -6,7 +6,9 @@ import { type NextRequest, NextResponse } from "next/server";
 import { getConvexClient } from "@/lib/convex/client";
 import { ensureLocalDatabase } from "@/lib/sqlite/artifacts";
 import { getDatabase } from "@/lib/sqlite/database";
+import { type ExportSheet, generateXLSX, XLSX_CONTENT_TYPE } from "@/lib/sqlite/export";
 import { isProjectDataInitialized } from "@/lib/sqlite/parser";
+import { readRows } from "@/lib/sqlite/tables";
 import type { ColumnMetadata, RawDataRow } from "@/lib/sqlite/types";
 
 /**
@@ -14,14 +16,29 @@ import type { ColumnMetadata, RawDataRow } from "@/lib/sqlite/types";
  * - raw_data.csv (original parsed data)
  * - {pipeline_name}.csv for each executed pipeline
  *
+ * With format=xlsx, a single workbook is exported instead, with a raw_data
+ * sheet and a sheet per executed pipeline.
+ *
  * GET /api/projects/[projectId]/export-all
+ *
+ * Query params:
+ * - format=csv|xlsx: Output format (default: csv)
  */
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ projectId: string }> },
 ) {
   try {
     const { projectId } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get("format") || "csv";
+
+    if (format !== "csv" && format !== "xlsx") {
+      return NextResponse.json(
+        { error: `Unsupported export format: ${format}. Use csv or xlsx.` },
+        { status: 400 },
+      );
+    }
 
     // Verify project exists
     const convex = getConvexClient();
@@ -50,6 +67,40 @@ export async function GET(
 
     await ensureLocalDatabase(projectIdTyped);
     const db = getDatabase(projectId);
+    const projectName = project.name.replace(/[^a-zA-Z0-9-_]/g, "_");
+
+    if (format === "xlsx") {
+      const sheets: ExportSheet[] = [
+        { name: "raw_data", tableName: "raw_data", columns: getRawDataColumns(db) },
+      ];
+
+      for (const pipeline of pipelines) {
+        const sanitized = pipeline._id.replace(/-/g, "_");
+        const resultTableName = `pipeline_${sanitized}_result`;
+
+        const tableExists = db
+          .prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name=?`)
+          .get(resultTableName);
+
+        if (tableExists) {
+          sheets.push({
+            name: pipeline.name,
+            tableName: resultTableName,
+            columns: getPipelineColumns(db, `pipeline_${sanitized}_columns`),
+          });
+        }
+      }
+
+      const workbook = generateXLSX(db, sheets);
+
+      return new Response(new Uint8Array(workbook), {
+        headers: {
+          "Content-Type": XLSX_CONTENT_TYPE,
+          "Content-Disposition": `attachment; filename="${projectName}_export.xlsx"`,
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
 
     // Create ZIP archive
     const archive = archiver("zip", {
@@ -112,7 +163,6 @@ export async function GET(
     archive.finalize();
 
     // Generate filename
-    const projectName = project.name.replace(/[^a-zA-Z0-9-_]/g, "_");
     const filename = `${projectName}_export.zip`;
 
     return new Response(readable, {
@@ -191,22 +241,7 @@ function getRows(
   offset: number,
   limit: number,
 ): RawDataRow[] {
-  const stmt = db.prepare(`
-    SELECT row_id, data
-    FROM ${tableName}
-    ORDER BY row_id
-    LIMIT ? OFFSET ?
-  `);
-
-  const rows = stmt.all(limit, offset) as Array<{
-    row_id: number;
-    data: string;
-  }>;
-
-  return rows.map((row) => ({
-    row_id: row.row_id,
-    data: JSON.parse(row.data),
-  }));
+  return readRows(db, tableName, offset, limit);
 }
 
 /**
@@ -7,6 +7,7 @@ import type { Id } from "@convex/dataModel";
 import { type NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { downloadFileFromConvex, getProject, getUpload } from "@/lib/convex/client";
+import { isSupportedEncoding } from "@/lib/parsers/encoding";
 import type { ParseOptions } from "@/lib/parsers/types";
 import { ensureLocalDatabase } from "@/lib/sqlite/artifacts";
 import { getColumns, getDatabase, getRowCount } from "@/lib/sqlite/database";
@@ -21,6 +22,11 @@ const ParseRequestSchema = z.object({
       maxRows: z.number().optional(),
       inferTypes: z.boolean().optional(),
       delimiter: z.string().optional(),
+      encoding: z
+        .string()
+        .refine(isSupportedEncoding, { message: "Unsupported encoding" })
+        .optional(),
+      numberLocale: z.string().optional(),
       sheetName: z.string().optional(),
       sheetIndex: z.number().optional(),
       startRow: z.number().optional(),
@@ -73,6 +79,8 @@ export async function POST(
           "endColumn",
           "hasHeaders",
           "delimiter",
+          "encoding",
+          "numberLocale",
         ];
         shouldForce = parseConfigKeys.some((key) => {
           const currentValue = currentConfig?.[key as keyof typeof currentConfig];
@@ -2,12 +2,17 @@ import { api } from "@convex/api";
 import type { Id } from "@convex/dataModel";
 import type Database from "better-sqlite3";
 import { type NextRequest, NextResponse } from "next/server";
-import { downloadFileFromConvex, getConvexClient, getUpload } from "@/lib/convex/client";
-import { parseCSV } from "@/lib/parsers/csv";
-import { parseExcel } from "@/lib/parsers/excel";
-import type { ColumnMetadata, ParseOptions, ParseResult } from "@/lib/parsers/types";
+import { getConvexClient } from "@/lib/convex/client";
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
 import { transformationStepsSchema } from "@/lib/pipeline/assistantSchemas";
-import { executePipeline } from "@/lib/pipeline/executor";
+import { loadPipelineInput } from "@/lib/pipeline/input";
+import { loadStepSources } from "@/lib/pipeline/sources";
+import {
+  copyResultRows,
+  executePipelineSQL,
+  releaseResult,
+  type SQLExecutionResult,
+} from "@/lib/pipeline/sql/executor";
 import type { TransformationStep } from "@/lib/pipeline/types";
 import { TRANSFORMATION_TYPES } from "@/lib/pipeline/types";
 import {
@@ -15,9 +20,10 @@ import {
   finalizeDatabaseForArtifact,
   storeDatabaseArtifact,
 } from "@/lib/sqlite/artifacts";
-import { getColumns, getDatabase, getRawData, getRowCount } from "@/lib/sqlite/database";
+import { getDatabase, insertPipelineRejects } from "@/lib/sqlite/database";
 import { isProjectDataInitialized } from "@/lib/sqlite/parser";
 import { createPipelineTables, dropPipelineTables, getParseConfig } from "@/lib/sqlite/schema";
+import { storeNumbers } from "@/lib/sqlite/tables";
 
 /**
  * Execute full pipeline and store results in SQLite
@@ -72,110 +78,13 @@ export async function POST(
     await ensureLocalDatabase(projectIdTyped);
     const db = getDatabase(projectId);
 
-    // Get current project parse config
-    const currentParseConfig = getParseConfig(db);
-
-    // Check if pipeline has custom parseConfig that differs from project default
-    const parseConfigKeys: Array<keyof NonNullable<typeof pipeline.parseConfig>> = [
-      "sheetName",
-      "sheetIndex",
-      "startRow",
-      "endRow",
-      "startColumn",
-      "endColumn",
-      "hasHeaders",
-    ];
-    const needsCustomParse = Boolean(
-      pipeline.parseConfig &&
-        parseConfigKeys.some(
-          (key) =>
-            pipeline.parseConfig?.[key] !==
-            (currentParseConfig?.[key as keyof typeof currentParseConfig] ?? undefined),
-        ),
-    );
-
-    let parseResult: ParseResult;
-
-    if (needsCustomParse && pipeline.parseConfig) {
-      // Re-parse with pipeline-specific config (full data, not preview)
-      const upload = await getUpload(project.uploadId);
-      if (!upload) {
-        return NextResponse.json({ error: "Upload not found" }, { status: 404 });
-      }
-
-      // Download file from Convex Storage
-      const fileBuffer = await downloadFileFromConvex(upload.convexStorageId);
-
-      // Parse with pipeline's custom config
-      const parseOptions: ParseOptions = {
-        ...upload.parseConfig,
-        ...pipeline.parseConfig,
-      };
-
-      // Determine file type and parse
-      const isExcel =
-        upload.mimeType?.includes("spreadsheet") || upload.originalName?.match(/\.(xlsx?|xls)$/i);
-
-      parseResult = isExcel
-        ? await parseExcel(fileBuffer, parseOptions)
-        : await parseCSV(new TextDecoder().decode(fileBuffer), parseOptions);
-    } else {
-      // Load raw data from SQLite (all rows for full execution)
-      const totalRows = getRowCount(db);
-      const rawDataRows = getRawData(db, 0, totalRows);
-      const columns = getColumns(db);
-
-      // Convert SQLite format to ParseResult format
-      parseResult = {
-        rows: rawDataRows.map((row) => row.data),
-        columns: columns.map((col) => ({
-          name: col.name,
-          type: col.type as "string" | "number" | "boolean" | "date" | "null",
-          nonNullCount: totalRows - col.nullCount,
-          nullCount: col.nullCount,
-          sampleValues: col.sampleValues || [],
-        })),
-        rowCount: totalRows,
-        warnings: [],
-      };
-    }
-
-    // If no steps, just store the raw data
-    if (pipeline.steps.length === 0) {
-      // Create pipeline tables
-      createPipelineTables(db, pipelineId);
-
-      // Store raw data as pipeline result
-      storePipelineResults(db, pipelineId, parseResult.rows, parseResult.columns);
-
-      const duration = Date.now() - startTime;
-
-      finalizeDatabaseForArtifact(projectIdTyped, db);
-      await storeDatabaseArtifact({
-        projectId: projectIdTyped,
-        uploadId: project.uploadId,
-        parseOptions: undefined,
-        databaseProjectId: projectId,
-      });
-
-      return NextResponse.json({
-        success: true,
-        rowCount: parseResult.rowCount,
-        columnCount: parseResult.columns.length,
-        duration,
-        warnings: parseResult.warnings,
-        stepResults: [],
-      });
+    const source = await loadPipelineInput(db, project.uploadId, pipeline.parseConfig);
+    if (!source) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
     }
 
-    // Convert Convex steps to TransformationStep format
-    const stepValidation = transformationStepsSchema.safeParse(
-      pipeline.steps.map((step) => ({
-        id: step.id,
-        type: step.type,
-        config: step.config,
-      })),
-    );
+    // Convert Convex steps to TransformationStep format, keeping `enabled` so muted steps are skipped
+    const stepValidation = transformationStepsSchema.safeParse(pipeline.steps);
     if (!stepValidation.success) {
       return NextResponse.json(
         {
@@ -193,12 +102,30 @@ export async function POST(
 
     const transformationSteps: TransformationStep[] = stepValidation.data;
 
+    // Resolve secondary tables for join/append steps
+    let sources: Record<string, ParseResult>;
+    try {
+      sources = await loadStepSources(db, transformationSteps);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: "Failed to load step source",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 },
+      );
+    }
+
     // Execute full pipeline
-    const executionResult = executePipeline(parseResult, transformationSteps);
+    const executionResult = executePipelineSQL(db, source, transformationSteps, {
+      sources,
+      rowErrorMode: pipeline.errorMode ?? "fail",
+    });
 
     // Check for execution errors
     const failedSteps = executionResult.stepResults.filter((s) => !s.success);
     if (failedSteps.length > 0) {
+      releaseResult(db, executionResult);
       return NextResponse.json(
         {
           success: false,
@@ -218,7 +145,12 @@ export async function POST(
     createPipelineTables(db, pipelineId);
 
     // Store results in SQLite
-    storePipelineResults(db, pipelineId, executionResult.table.rows, executionResult.table.columns);
+    storePipelineResults(
+      db,
+      pipelineId,
+      executionResult,
+      pipeline.parseConfig?.numberLocale ?? getParseConfig(db)?.numberLocale,
+    );
 
     finalizeDatabaseForArtifact(projectIdTyped, db);
     await storeDatabaseArtifact({
@@ -237,10 +169,13 @@ export async function POST(
       columnCount: executionResult.table.columns.length,
       duration,
       warnings: executionResult.table.warnings,
+      rejectedRowCount: executionResult.rejectedRows.length,
       stepResults: executionResult.stepResults.map((s) => ({
         stepId: s.stepId,
         success: s.success,
         rowsAffected: s.rowsAffected,
+        rejectedRows: s.rejectedRows,
+        duplicateGroups: s.duplicateGroups,
       })),
     });
   } catch (error) {
@@ -261,27 +196,21 @@ export async function POST(
 function storePipelineResults(
   db: Database.Database,
   pipelineId: string,
-  rows: Array<Record<string, unknown>>,
-  columns: ColumnMetadata[],
+  result: SQLExecutionResult,
+  numberLocale: string | undefined,
 ): void {
   const sanitized = pipelineId.replace(/-/g, "_");
   const resultTableName = `pipeline_${sanitized}_result`;
   const columnsTableName = `pipeline_${sanitized}_columns`;
 
-  // Insert rows in batches for better performance
-  const insertRow = db.prepare(`
-    INSERT INTO ${resultTableName} (data)
-    VALUES (?)
-  `);
-
-  const insertRowsBatch = db.transaction((rows: Array<Record<string, unknown>>) => {
-    for (const row of rows) {
-      insertRow.run(JSON.stringify(row));
-    }
-  });
-
-  // Store rows
-  insertRowsBatch(rows);
+  // Copy rows from the last step table
+  copyResultRows(db, result, resultTableName);
+  storeNumbers(
+    db,
+    resultTableName,
+    result.table.columns.filter((col) => col.type === "number").map((col) => col.name),
+    numberLocale ? { locale: numberLocale } : undefined,
+  );
 
   // Insert column metadata
   const insertColumn = db.prepare(`
@@ -300,5 +229,8 @@ function storePipelineResults(
     }
   });
 
-  insertColumnsBatch(columns);
+  insertColumnsBatch(result.table.columns);
+
+  // Rows diverted in quarantine mode
+  insertPipelineRejects(db, pipelineId, result.rejectedRows);
 }
@@ -4,16 +4,29 @@ import type Database from "better-sqlite3";
 import { type NextRequest, NextResponse } from "next/server";
 import { getConvexClient } from "@/lib/convex/client";
 import { ensureLocalDatabase } from "@/lib/sqlite/artifacts";
-import { getDatabase } from "@/lib/sqlite/database";
+import { getDatabase, PIPELINE_REJECT_COLUMNS, pipelineRejectsExist } from "@/lib/sqlite/database";
+import {
+  generateStream,
+  generateXLSX,
+  STREAM_CONTENT_TYPES,
+  type StreamFormat,
+  toReadableStream,
+  XLSX_CONTENT_TYPE,
+} from "@/lib/sqlite/export";
 import { isProjectDataInitialized } from "@/lib/sqlite/parser";
+import { readRows } from "@/lib/sqlite/tables";
 import type { ColumnMetadata, RawDataRow } from "@/lib/sqlite/types";
 
+const EXPORT_FORMATS = ["csv", "xlsx", "json", "ndjson", "parquet"];
+
 /**
- * Export pipeline results or raw data as CSV
+ * Export pipeline results or raw data as CSV, XLSX, JSON, NDJSON or Parquet
  * GET /api/projects/[projectId]/pipelines/[pipelineId]/export
  *
  * Query params:
  * - raw=true: Export raw data instead of pipeline results
+ * - rejects=true: Export the rows quarantined during execution instead of pipeline results
+ * - format=csv|xlsx|json|ndjson|parquet: Output format (default: csv)
  */
 export async function GET(
   request: NextRequest,
@@ -23,6 +36,17 @@ export async function GET(
     const { projectId, pipelineId } = await params;
     const { searchParams } = new URL(request.url);
     const exportRaw = searchParams.get("raw") === "true";
+    const exportRejects = searchParams.get("rejects") === "true";
+    const format = searchParams.get("format") || "csv";
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        {
+          error: `Unsupported export format: ${format}. Use one of: ${EXPORT_FORMATS.join(", ")}.`,
+        },
+        { status: 400 },
+      );
+    }
 
     // Verify project exists
     const convex = getConvexClient();
@@ -68,12 +92,30 @@ export async function GET(
     let tableName: string;
     let columns: ColumnMetadata[];
     let fileName: string;
+    let sheetName: string;
 
     if (exportRaw) {
       // Export raw data
       tableName = "raw_data";
       columns = getRawDataColumns(db);
-      fileName = `${project.name.replace(/[^a-zA-Z0-9-_]/g, "_")}_raw.csv`;
+      fileName = `${project.name.replace(/[^a-zA-Z0-9-_]/g, "_")}_raw.${format}`;
+      sheetName = "raw_data";
+    } else if (exportRejects) {
+      // Export quarantined rows
+      if (!pipelineRejectsExist(db, pipelineId)) {
+        return NextResponse.json(
+          {
+            error: "Pipeline rejects not found. Please execute the pipeline first.",
+            executed: false,
+          },
+          { status: 404 },
+        );
+      }
+
+      tableName = `pipeline_${pipelineId.replace(/-/g, "_")}_rejects`;
+      columns = PIPELINE_REJECT_COLUMNS;
+      fileName = `${project.name.replace(/[^a-zA-Z0-9-_]/g, "_")}_${pipeline.name.replace(/[^a-zA-Z0-9-_]/g, "_")}_rejects.${format}`;
+      sheetName = `${pipeline.name} rejects`;
     } else {
       // Export pipeline results
       const sanitized = pipelineId.replace(/-/g, "_");
@@ -96,7 +138,33 @@ export async function GET(
       }
 
       columns = getPipelineColumns(db, columnsTableName);
-      fileName = `${project.name.replace(/[^a-zA-Z0-9-_]/g, "_")}_${pipeline.name.replace(/[^a-zA-Z0-9-_]/g, "_")}.csv`;
+      fileName = `${project.name.replace(/[^a-zA-Z0-9-_]/g, "_")}_${pipeline.name.replace(/[^a-zA-Z0-9-_]/g, "_")}.${format}`;
+      sheetName = pipeline.name;
+    }
+
+    if (format === "xlsx") {
+      const workbook = generateXLSX(db, [{ name: sheetName, tableName, columns }]);
+
+      return new Response(new Uint8Array(workbook), {
+        headers: {
+          "Content-Type": XLSX_CONTENT_TYPE,
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    if (format !== "csv") {
+      const streamFormat = format as StreamFormat;
+      const chunks = generateStream(db, streamFormat, tableName, columns);
+
+      return new Response(toReadableStream(chunks), {
+        headers: {
+          "Content-Type": STREAM_CONTENT_TYPES[streamFormat],
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+          "Cache-Control": "no-cache",
+        },
+      });
     }
 
     // Stream CSV response
@@ -143,10 +211,10 @@ export async function GET(
       },
     });
   } catch (error) {
-    console.error("Error exporting CSV:", error);
+    console.error("Error exporting data:", error);
     return NextResponse.json(
       {
-        error: "Failed to export CSV",
+        error: "Failed to export data",
         details: error instanceof Error ? error.message : String(error),
       },
       { status: 500 },
@@ -220,22 +288,7 @@ function getRows(
   offset: number,
   limit: number,
 ): RawDataRow[] {
-  const stmt = db.prepare(`
-    SELECT row_id, data
-    FROM ${tableName}
-    ORDER BY row_id
-    LIMIT ? OFFSET ?
-  `);
-
-  const rows = stmt.all(limit, offset) as Array<{
-    row_id: number;
-    data: string;
-  }>;
-
-  return rows.map((row) => ({
-    row_id: row.row_id,
-    data: JSON.parse(row.data),
-  }));
+  return readRows(db, tableName, offset, limit);
 }
 
 /**
@@ -4,13 +4,16 @@ import { type NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { downloadFileFromConvex, getConvexClient, getUpload } from "@/lib/convex/client";
 import { parseCSV } from "@/lib/parsers/csv";
+import { decodeText } from "@/lib/parsers/encoding";
 import { parseExcel } from "@/lib/parsers/excel";
 import type { ParseOptions, ParseResult } from "@/lib/parsers/types";
 import { transformationStepsSchema } from "@/lib/pipeline/assistantSchemas";
-import { executePipeline, executeUntilStep } from "@/lib/pipeline/executor";
-import type { ExecutionResult, TransformationStep } from "@/lib/pipeline/types";
+import { needsCustomParse } from "@/lib/pipeline/input";
+import { loadStepSources } from "@/lib/pipeline/sources";
+import { executeWithStepCache, getStepCacheDatabase } from "@/lib/pipeline/stepCache";
+import type { TransformationStep } from "@/lib/pipeline/types";
 import { TRANSFORMATION_TYPES } from "@/lib/pipeline/types";
-import { ensureLocalDatabase } from "@/lib/sqlite/artifacts";
+import { ensureLocalDatabase, getParseOptionsJson } from "@/lib/sqlite/artifacts";
 import { getColumns, getDatabase, getRawData, getRowCount } from "@/lib/sqlite/database";
 import { isProjectDataInitialized } from "@/lib/sqlite/parser";
 import { getParseConfig } from "@/lib/sqlite/schema";
@@ -85,94 +88,81 @@ export async function POST(
     // Get current project parse config
     const currentParseConfig = getParseConfig(db);
 
-    // Check if pipeline has custom parseConfig that differs from project default
-    const parseConfigKeys: Array<keyof NonNullable<typeof pipeline.parseConfig>> = [
-      "sheetName",
-      "sheetIndex",
-      "startRow",
-      "endRow",
-      "startColumn",
-      "endColumn",
-      "hasHeaders",
-    ];
-    const needsCustomParse = Boolean(
-      pipeline.parseConfig &&
-        parseConfigKeys.some(
-          (key) =>
-            pipeline.parseConfig?.[key] !==
-            (currentParseConfig?.[key as keyof typeof currentParseConfig] ?? undefined),
-        ),
-    );
-
-    let parseResult: ParseResult;
+    // Input table identity for the step cache, and how to load it when nothing is cached
+    let baseKey: string;
+    let loadParseResult: () => Promise<ParseResult>;
 
-    if (needsCustomParse && pipeline.parseConfig) {
+    if (needsCustomParse(db, pipeline.parseConfig) && pipeline.parseConfig) {
       // Re-parse with pipeline-specific config
       const upload = await getUpload(project.uploadId);
       if (!upload) {
         return NextResponse.json({ error: "Upload not found" }, { status: 404 });
       }
 
-      // Download file from Convex Storage
-      const fileBuffer = await downloadFileFromConvex(upload.convexStorageId);
-
-      // Parse with pipeline's custom config
       const parseOptions: ParseOptions = {
         ...upload.parseConfig,
         ...pipeline.parseConfig,
       };
+      baseKey = `upload:${project.uploadId}:${getParseOptionsJson(parseOptions)}`;
+
+      loadParseResult = async () => {
+        // Download file from Convex Storage
+        const fileBuffer = await downloadFileFromConvex(upload.convexStorageId);
 
-      // Determine file type and parse
-      const isExcel =
-        upload.mimeType?.includes("spreadsheet") || upload.originalName?.match(/\.(xlsx?|xls)$/i);
+        // Determine file type and parse
+        const isExcel =
+          upload.mimeType?.includes("spreadsheet") || upload.originalName?.match(/\.(xlsx?|xls)$/i);
 
-      const parsedData = isExcel
-        ? await parseExcel(fileBuffer, parseOptions)
-        : await parseCSV(new TextDecoder().decode(fileBuffer), parseOptions);
+        const parsedData = isExcel
+          ? await parseExcel(fileBuffer, parseOptions)
+          : await parseCSV(decodeText(fileBuffer, parseOptions.encoding), parseOptions);
 
-      // Limit to first 1000 rows for preview
-      parseResult = {
-        ...parsedData,
-        rows: parsedData.rows.slice(0, 1000),
+        // Limit to first 1000 rows for preview
+        return {
+          ...parsedData,
+          rows: parsedData.rows.slice(0, 1000),
+        };
       };
     } else {
-      // Load raw data from SQLite (first 1000 rows for preview)
-      const rawDataRows = getRawData(db, 0, 1000);
-      const columns = getColumns(db);
-      const totalRows = getRowCount(db);
-
-      // Convert SQLite format to ParseResult format
-      parseResult = {
-        rows: rawDataRows.map((row) => row.data),
-        columns: columns.map((col) => ({
-          name: col.name,
-          type: col.type as "string" | "number" | "boolean" | "date" | "null",
-          nonNullCount: totalRows - col.nullCount,
-          nullCount: col.nullCount,
-          sampleValues: col.sampleValues || [],
-        })),
-        rowCount: totalRows,
-        warnings: [],
+      // Executing stores a new artifact but leaves raw_data as is, so key on what it was parsed from
+      baseKey = `raw:${project.uploadId}:${getParseOptionsJson(currentParseConfig ?? undefined)}`;
+
+      loadParseResult = async () => {
+        // Load raw data from SQLite (first 1000 rows for preview)
+        const rawDataRows = getRawData(db, 0, 1000);
+        const columns = getColumns(db);
+        const totalRows = getRowCount(db);
+
+        // Convert SQLite format to ParseResult format
+        return {
+          rows: rawDataRows.map((row) => row.data),
+          columns: columns.map((col) => ({
+            name: col.name,
+            type: col.type as "string" | "number" | "boolean" | "date" | "null",
+            nonNullCount: totalRows - col.nullCount,
+            nullCount: col.nullCount,
+            sampleValues: col.sampleValues || [],
+          })),
+          rowCount: totalRows,
+          warnings: [],
+        };
       };
     }
 
     // If normalizedUpToStep is -1 or no steps, return raw data
     if (normalizedUpToStep === -1 || pipeline.steps.length === 0) {
+      const parseResult = await loadParseResult();
       return NextResponse.json({
         data: parseResult.rows.slice(0, 100), // Return only first 100 for preview
         columns: parseResult.columns,
+        inputColumns: parseResult.columns,
         upToStep: -1,
         rowCount: parseResult.rowCount,
       });
     }
 
-    const stepValidation = transformationStepsSchema.safeParse(
-      pipeline.steps.map((step) => ({
-        id: step.id,
-        type: step.type,
-        config: step.config,
-      })),
-    );
+    // Whole steps, keeping `enabled` so muted steps are skipped
+    const stepValidation = transformationStepsSchema.safeParse(pipeline.steps);
     if (!stepValidation.success) {
       return NextResponse.json(
         {
@@ -189,21 +179,45 @@ export async function POST(
     // Convert Convex steps to TransformationStep format
     const transformationSteps: TransformationStep[] = stepValidation.data;
 
-    // Execute pipeline
-    let executionResult: ExecutionResult;
-    if (normalizedUpToStep !== undefined && normalizedUpToStep < transformationSteps.length) {
-      executionResult = executeUntilStep(parseResult, transformationSteps, normalizedUpToStep);
-    } else {
-      executionResult = executePipeline(parseResult, transformationSteps);
+    const stepsToExecute =
+      normalizedUpToStep === undefined
+        ? transformationSteps
+        : transformationSteps.slice(0, normalizedUpToStep + 1);
+
+    // Resolve secondary tables for join/append steps
+    let sources: Record<string, ParseResult>;
+    try {
+      sources = await loadStepSources(db, stepsToExecute);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: "Failed to load step source",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 },
+      );
     }
 
-    // Return preview data (first 100 rows)
+    // Execute pipeline, resuming from cached step results
+    const executionResult = await executeWithStepCache(getStepCacheDatabase(projectId), {
+      pipelineId,
+      baseKey,
+      loadTable: loadParseResult,
+      steps: stepsToExecute,
+      context: { sources, rowErrorMode: pipeline.errorMode ?? "fail" },
+    });
+
+    // Return preview data (first 100 rows and rejected rows)
     return NextResponse.json({
       data: executionResult.table.rows.slice(0, 100),
       columns: executionResult.table.columns,
+      inputColumns: executionResult.typeEvolution[0], // Columns before the first step
       upToStep: normalizedUpToStep ?? transformationSteps.length - 1,
       rowCount: executionResult.table.rowCount,
       stepResults: executionResult.stepResults,
+      cache: executionResult.cache,
+      rejectedRows: executionResult.rejectedRows.slice(0, 100),
+      rejectedRowCount: executionResult.rejectedRows.length,
     });
   } catch (error) {
     console.error("Error generating pipeline preview:", error);
@@ -0,0 +1,105 @@
+import { api } from "@convex/api";
+import type { Id } from "@convex/dataModel";
+import { type NextRequest, NextResponse } from "next/server";
+import { getConvexClient } from "@/lib/convex/client";
+import { createRecipe, type RecipeFileFormat, serializeRecipe } from "@/lib/pipeline/recipes";
+import type { TransformationStep } from "@/lib/pipeline/types";
+import { ensureLocalDatabase } from "@/lib/sqlite/artifacts";
+import { getColumns, getDatabase } from "@/lib/sqlite/database";
+import { isProjectDataInitialized } from "@/lib/sqlite/parser";
+
+const RECIPE_FORMATS: RecipeFileFormat[] = ["json", "yaml"];
+
+const RECIPE_CONTENT_TYPES: Record<RecipeFileFormat, string> = {
+  json: "application/json; charset=utf-8",
+  yaml: "application/yaml; charset=utf-8",
+};
+
+/**
+ * Export a pipeline as a portable recipe (steps and parse settings)
+ * GET /api/projects/[projectId]/pipelines/[pipelineId]/recipe
+ *
+ * Query params:
+ * - format=json|yaml: Recipe file format (default: json)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; pipelineId: string }> },
+) {
+  try {
+    const { projectId, pipelineId } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get("format") || "json") as RecipeFileFormat;
+
+    if (!RECIPE_FORMATS.includes(format)) {
+      return NextResponse.json(
+        {
+          error: `Unsupported recipe format: ${format}. Use one of: ${RECIPE_FORMATS.join(", ")}.`,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Verify project exists
+    const convex = getConvexClient();
+    const project = await convex.query(api.projects.get, {
+      id: projectId as Id<"projects">,
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Verify pipeline exists
+    const pipeline = await convex.query(api.pipelines.get, {
+      id: pipelineId as Id<"pipelines">,
+    });
+
+    if (!pipeline) {
+      return NextResponse.json({ error: "Pipeline not found" }, { status: 404 });
+    }
+
+    // Verify pipeline belongs to project
+    if (pipeline.projectId !== projectId) {
+      return NextResponse.json(
+        { error: "Pipeline does not belong to this project" },
+        { status: 400 },
+      );
+    }
+
+    // Record the project's columns, so importing can map them to differently named ones
+    let columns: string[] = [];
+    const projectIdTyped = projectId as Id<"projects">;
+    if (await isProjectDataInitialized(projectIdTyped)) {
+      await ensureLocalDatabase(projectIdTyped);
+      columns = getColumns(getDatabase(projectId)).map((column) => column.name);
+    }
+
+    const recipe = createRecipe({
+      name: pipeline.name,
+      columns,
+      steps: pipeline.steps as TransformationStep[],
+      parseConfig: pipeline.parseConfig,
+      errorMode: pipeline.errorMode,
+    });
+
+    const fileName = `${pipeline.name.replace(/[^a-zA-Z0-9-_]/g, "_")}.recipe.${format}`;
+
+    return new Response(serializeRecipe(recipe, format), {
+      headers: {
+        "Content-Type": RECIPE_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting recipe:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to export recipe",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
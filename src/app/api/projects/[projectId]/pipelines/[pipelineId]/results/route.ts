@@ -5,9 +5,11 @@ import { type NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getConvexClient } from "@/lib/convex/client";
 import { ensureLocalDatabase } from "@/lib/sqlite/artifacts";
-import { getDatabase } from "@/lib/sqlite/database";
+import { getDatabase, PIPELINE_REJECT_COLUMNS, pipelineRejectsExist } from "@/lib/sqlite/database";
 import { isProjectDataInitialized } from "@/lib/sqlite/parser";
-import type { ColumnMetadata, RawDataRow } from "@/lib/sqlite/types";
+import { queryTableRows } from "@/lib/sqlite/queries";
+import { parseTableQueryParams } from "@/lib/sqlite/queryParams";
+import type { ColumnMetadata } from "@/lib/sqlite/types";
 
 const querySchema = z.object({
   limit: z.coerce.number().int().min(1).max(1000).default(100),
@@ -17,6 +19,11 @@ const querySchema = z.object({
 /**
  * Get stored pipeline execution results
  * GET /api/projects/[projectId]/pipelines/[pipelineId]/results?limit=100&offset=0
+ *
+ * With rejects=true, returns the rows quarantined during execution instead.
+ * Optional sort, filter.<column> and search params (see queryParams) sort and
+ * filter the whole table before pagination; `pagination.total` counts the
+ * matching rows and `pagination.totalRows` the rows of the table.
  */
 export async function GET(
   request: NextRequest,
@@ -40,6 +47,8 @@ export async function GET(
     }
 
     const { limit, offset } = validation.data;
+    const rejects = searchParams.get("rejects") === "true";
+    const query = parseTableQueryParams(searchParams);
 
     // Verify project exists
     const convex = getConvexClient();
@@ -100,13 +109,34 @@ export async function GET(
       );
     }
 
-    // Get pipeline results
-    const results = getPipelineResults(db, pipelineId, offset, limit);
+    if (rejects) {
+      const rejectsTableName = `pipeline_${sanitized}_rejects`;
+      const hasRejects = pipelineRejectsExist(db, pipelineId);
+      const matches = hasRejects
+        ? queryTableRows(db, rejectsTableName, query, offset, limit)
+        : { rows: [], total: 0 };
+      return NextResponse.json({
+        data: matches.rows.map((row) => row.data),
+        columns: PIPELINE_REJECT_COLUMNS.map((col) => ({
+          name: col.name,
+          type: col.type,
+        })),
+        pagination: {
+          offset,
+          limit,
+          total: matches.total,
+          totalRows: hasRejects ? getTableRowCount(db, rejectsTableName) : 0,
+        },
+      });
+    }
+
+    // Get the matching pipeline results of the requested page
+    const { rows, total } = queryTableRows(db, resultTableName, query, offset, limit);
     const columns = getPipelineColumns(db, pipelineId);
     const totalRows = getPipelineResultRowCount(db, pipelineId);
 
     return NextResponse.json({
-      data: results.map((row) => row.data),
+      data: rows.map((row) => row.data),
       columns: columns.map((col) => ({
         name: col.name,
         type: col.type,
@@ -114,7 +144,8 @@ export async function GET(
       pagination: {
         offset,
         limit,
-        total: totalRows,
+        total,
+        totalRows,
       },
     });
   } catch (error) {
@@ -129,36 +160,6 @@ export async function GET(
   }
 }
 
-/**
- * Helper: Get pipeline results with pagination
- */
-function getPipelineResults(
-  db: Database.Database,
-  pipelineId: string,
-  offset: number,
-  limit: number,
-): RawDataRow[] {
-  const sanitized = pipelineId.replace(/-/g, "_");
-  const tableName = `pipeline_${sanitized}_result`;
-
-  const stmt = db.prepare(`
-    SELECT row_id, data
-    FROM ${tableName}
-    ORDER BY row_id
-    LIMIT ? OFFSET ?
-  `);
-
-  const rows = stmt.all(limit, offset) as Array<{
-    row_id: number;
-    data: string;
-  }>;
-
-  return rows.map((row) => ({
-    row_id: row.row_id,
-    data: JSON.parse(row.data),
-  }));
-}
-
 /**
  * Helper: Get pipeline column metadata
  */
@@ -191,8 +192,13 @@ function getPipelineColumns(db: Database.Database, pipelineId: string): ColumnMe
  */
 function getPipelineResultRowCount(db: Database.Database, pipelineId: string): number {
   const sanitized = pipelineId.replace(/-/g, "_");
-  const tableName = `pipeline_${sanitized}_result`;
+  return getTableRowCount(db, `pipeline_${sanitized}_result`);
+}
 
+/**
+ * Helper: Count the rows of a table
+ */
+function getTableRowCount(db: Database.Database, tableName: string): number {
   const stmt = db.prepare(`SELECT COUNT(*) as count FROM ${tableName}`);
   const result = stmt.get() as { count: number };
   return result.count;
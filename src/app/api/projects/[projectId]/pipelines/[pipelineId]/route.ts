@@ -0,0 +1,153 @@
+import { api } from "@convex/api";
+import type { Doc, Id } from "@convex/dataModel";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getConvexClient } from "@/lib/convex/client";
+import { isSupportedEncoding } from "@/lib/parsers/encoding";
+import { loadPipelineInputColumns } from "@/lib/pipeline/input";
+import { ensureLocalDatabase } from "@/lib/sqlite/artifacts";
+import { getDatabase } from "@/lib/sqlite/database";
+import { isProjectDataInitialized } from "@/lib/sqlite/parser";
+
+const requestSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        id: z.string(),
+        type: z.string(),
+        config: z.any(),
+        enabled: z.boolean().optional(),
+        group: z.string().optional(),
+      }),
+    )
+    .optional(),
+  parseConfig: z
+    .object({
+      sheetName: z.string().optional(),
+      sheetIndex: z.number().optional(),
+      startRow: z.number().optional(),
+      endRow: z.number().optional(),
+      startColumn: z.number().optional(),
+      endColumn: z.number().optional(),
+      hasHeaders: z.boolean(),
+      encoding: z
+        .string()
+        .refine(isSupportedEncoding, { message: "Unsupported encoding" })
+        .optional(),
+      numberLocale: z.string().optional(),
+    })
+    .optional(),
+  errorMode: z.enum(["fail", "quarantine"]).optional(),
+  message: z.string().optional(), // Version message when the steps change
+});
+
+/**
+ * Update a pipeline's steps and settings
+ * PATCH /api/projects/[projectId]/pipelines/[pipelineId]
+ *
+ * When the steps or the parse config change, the steps are checked against the
+ * pipeline's input columns, computed here from the project data (never taken
+ * from the client).
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; pipelineId: string }> },
+) {
+  try {
+    const { projectId, pipelineId } = await params;
+
+    // Parse request body
+    const body = await request.json();
+    const validation = requestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const { steps, parseConfig, errorMode, message } = validation.data;
+
+    // Verify project exists
+    const convex = getConvexClient();
+    const project = await convex.query(api.projects.get, {
+      id: projectId as Id<"projects">,
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Verify pipeline exists
+    const pipeline = await convex.query(api.pipelines.get, {
+      id: pipelineId as Id<"pipelines">,
+    });
+
+    if (!pipeline) {
+      return NextResponse.json({ error: "Pipeline not found" }, { status: 404 });
+    }
+
+    // Verify pipeline belongs to project
+    if (pipeline.projectId !== projectId) {
+      return NextResponse.json(
+        { error: "Pipeline does not belong to this project" },
+        { status: 400 },
+      );
+    }
+
+    // Columns the steps are checked against, with the parse config being saved
+    let inputColumns: Array<{ name: string; type: string }> | undefined;
+    if (steps !== undefined || parseConfig !== undefined) {
+      const projectIdTyped = projectId as Id<"projects">;
+      const initialized = await isProjectDataInitialized(projectIdTyped);
+      if (!initialized) {
+        return NextResponse.json(
+          { error: "Project data not initialized. Please parse the file first." },
+          { status: 400 },
+        );
+      }
+
+      await ensureLocalDatabase(projectIdTyped);
+      const columns = await loadPipelineInputColumns(
+        getDatabase(projectId),
+        project.uploadId,
+        parseConfig ?? pipeline.parseConfig,
+      );
+      if (!columns) {
+        return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+      }
+      inputColumns = columns.map(({ name, type }) => ({ name, type }));
+    }
+
+    try {
+      await convex.mutation(api.pipelines.update, {
+        id: pipeline._id,
+        steps: steps as Doc<"pipelines">["steps"] | undefined,
+        parseConfig,
+        errorMode,
+        message,
+        inputColumns,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: "Failed to update pipeline",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating pipeline:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to update pipeline",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { api } from "@convex/api";
+import type { Id } from "@convex/dataModel";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getConvexClient } from "@/lib/convex/client";
+import { loadPipelineInputColumns } from "@/lib/pipeline/input";
+import {
+  applyColumnMapping,
+  checkRecipeColumns,
+  type PipelineRecipe,
+  parseRecipe,
+  RecipeError,
+} from "@/lib/pipeline/recipes";
+import { ensureLocalDatabase } from "@/lib/sqlite/artifacts";
+import { getDatabase } from "@/lib/sqlite/database";
+import { isProjectDataInitialized } from "@/lib/sqlite/parser";
+
+const requestSchema = z.object({
+  recipe: z.string().min(1), // Recipe file content (JSON or YAML)
+  name: z.string().optional(), // Pipeline name (default: the recipe name)
+  columnMapping: z.record(z.string()).optional(), // Recipe column → project column
+  dryRun: z.boolean().optional(), // Only check the recipe against the project columns
+});
+
+/**
+ * Import a recipe as a new pipeline of the project
+ * POST /api/projects/[projectId]/recipes
+ *
+ * With dryRun, returns the recipe and the steps that read columns missing from
+ * the project data (parsed with the recipe's settings), so a column mapping can
+ * be chosen before importing.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> },
+) {
+  try {
+    const { projectId } = await params;
+
+    // Parse request body
+    const body = await request.json();
+    const validation = requestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const { columnMapping = {}, dryRun } = validation.data;
+
+    let recipe: PipelineRecipe;
+    try {
+      recipe = parseRecipe(validation.data.recipe);
+    } catch (error) {
+      if (error instanceof RecipeError) {
+        return NextResponse.json({ error: error.message, details: error.details }, { status: 400 });
+      }
+      throw error;
+    }
+
+    // Verify project exists
+    const convex = getConvexClient();
+    const project = await convex.query(api.projects.get, {
+      id: projectId as Id<"projects">,
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Get database
+    const projectIdTyped = projectId as Id<"projects">;
+    const initialized = await isProjectDataInitialized(projectIdTyped);
+    if (!initialized) {
+      return NextResponse.json(
+        { error: "Project data not initialized. Please parse the file first." },
+        { status: 400 },
+      );
+    }
+
+    await ensureLocalDatabase(projectIdTyped);
+    const db = getDatabase(projectId);
+
+    // Columns the recipe's steps read: those of its own parse settings, if any
+    const inputColumns = await loadPipelineInputColumns(db, project.uploadId, recipe.parseConfig);
+    if (!inputColumns) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+    const columns = inputColumns.map((column) => column.name);
+
+    const invalidMappings = Object.values(columnMapping).filter(
+      (column) => !columns.includes(column),
+    );
+    if (invalidMappings.length > 0) {
+      return NextResponse.json(
+        { error: `Mapped columns not found: ${invalidMappings.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    const { missingColumns, stepIssues } = checkRecipeColumns(recipe, columns, columnMapping);
+
+    if (dryRun) {
+      return NextResponse.json({
+        recipe: {
+          name: recipe.name,
+          version: recipe.version,
+          columns: recipe.columns,
+          steps: recipe.steps.map((step) => ({ id: step.id, type: step.type })),
+        },
+        columns,
+        missingColumns,
+        stepIssues,
+      });
+    }
+
+    let pipelineId: Id<"pipelines">;
+    try {
+      pipelineId = await convex.mutation(api.pipelines.create, {
+        projectId: projectIdTyped,
+        name: validation.data.name ?? recipe.name,
+        steps: applyColumnMapping(recipe, columnMapping, () => crypto.randomUUID()),
+        parseConfig: recipe.parseConfig,
+        errorMode: recipe.errorMode,
+        inputColumns: inputColumns.map(({ name, type }) => ({ name, type })),
+      });
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: "Failed to create pipeline",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({ pipelineId, missingColumns, stepIssues });
+  } catch (error) {
+    console.error("Error importing recipe:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to import recipe",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
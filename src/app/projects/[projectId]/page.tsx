@@ -1,20 +1,24 @@
 "use client";
 
 import { api } from "@convex/api";
-import type { Id } from "@convex/dataModel";
+import type { Doc, Id } from "@convex/dataModel";
 import { useMutation, useQuery } from "convex/react";
 import {
   ArrowLeft,
   ChevronDown,
   ChevronRight,
   ChevronUp,
+  Eye,
+  EyeOff,
   FileSpreadsheet,
+  FolderInput,
   Layers,
   Pencil,
   Plus,
   Settings,
   Sparkles,
   Trash2,
+  Upload,
 } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
@@ -23,6 +27,7 @@ import { AddStepDialog } from "@/components/AddStepDialog";
 import { AssistantChat } from "@/components/AssistantChat";
 import { DataTable } from "@/components/DataTable";
 import { ExportButton } from "@/components/ExportButton";
+import { ImportRecipeDialog } from "@/components/ImportRecipeDialog";
 import { InteractiveDataTable } from "@/components/InteractiveDataTable";
 import { PipelineSettingsDialog } from "@/components/PipelineSettingsDialog";
 import { SavePipelineDialog } from "@/components/SavePipelineDialog";
@@ -47,11 +52,17 @@ import {
 import { Spinner } from "@/components/ui/spinner";
 import { useToast } from "@/hooks/use-toast";
 import type { ColumnMetadata } from "@/lib/parsers/types";
-import type {
-  TransformationConfig,
-  TransformationStep,
-  TransformationType,
+import type { StepCacheStats } from "@/lib/pipeline/stepCache";
+import {
+  groupSteps,
+  isStepEnabled,
+  type RejectedRow,
+  type TransformationConfig,
+  type TransformationStep,
+  type TransformationType,
 } from "@/lib/pipeline/types";
+import { tableQueryToParams } from "@/lib/sqlite/queryParams";
+import type { TableQuery } from "@/lib/sqlite/types";
 
 export default function ProjectDetailPage({ params }: { params: Promise<{ projectId: string }> }) {
   const { projectId: projectIdString } = use(params);
@@ -60,17 +71,24 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
   const { toast } = useToast();
 
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isImportRecipeDialogOpen, setIsImportRecipeDialogOpen] = useState(false);
   const [isAddStepDialogOpen, setIsAddStepDialogOpen] = useState(false);
   const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false);
   const [editingStepIndex, setEditingStepIndex] = useState<number | null>(null);
   const [selectedPipelineId, setSelectedPipelineId] = useState<Id<"pipelines"> | null>(null);
   const [selectedStepIndex, setSelectedStepIndex] = useState<number | null>(null);
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
   const [previewData, setPreviewData] = useState<{
     rows: Record<string, unknown>[];
     columns: ColumnMetadata[];
+    inputColumns?: ColumnMetadata[]; // Pipeline columns before the first step
     rowCount: number;
     loading: boolean;
+    cache?: StepCacheStats;
+    rejectedRows?: RejectedRow[];
+    rejectedRowCount?: number;
   }>({ rows: [], columns: [], rowCount: 0, loading: false });
+  const [previewTab, setPreviewTab] = useState<"preview" | "rejects">("preview");
   const [isParsingFile, setIsParsingFile] = useState(false);
   const [availableSheets, setAvailableSheets] = useState<string[]>([]);
   const [selectedSheet, setSelectedSheet] = useState<string | null>(null);
@@ -90,7 +108,28 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
   const createPipeline = useMutation(api.pipelines.create);
   const deletePipeline = useMutation(api.pipelines.remove);
   const deleteProject = useMutation(api.projects.remove);
-  const updatePipeline = useMutation(api.pipelines.update);
+
+  // Saved through the API, which checks the steps against the pipeline's input columns
+  const updatePipeline = async (update: {
+    steps?: Doc<"pipelines">["steps"];
+    parseConfig?: Doc<"pipelines">["parseConfig"];
+    errorMode?: "fail" | "quarantine";
+    message?: string;
+  }) => {
+    const response = await fetch(`/api/projects/${projectId}/pipelines/${selectedPipelineId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(update),
+    });
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      throw new Error(
+        typeof errorBody?.details === "string"
+          ? errorBody.details
+          : (errorBody?.error ?? "Failed to update pipeline"),
+      );
+    }
+  };
 
   // Determine if file is Excel (needs to be before useEffect hooks)
   const isExcelFile = !!(
@@ -216,8 +255,12 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
           setPreviewData({
             rows: data.data,
             columns: data.columns,
+            inputColumns: data.inputColumns,
             rowCount: data.rowCount,
             loading: false,
+            cache: data.cache,
+            rejectedRows: data.rejectedRows,
+            rejectedRowCount: data.rejectedRowCount,
           });
         } else {
           // Load raw data
@@ -254,6 +297,24 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
     [selectedPipelineId, selectedPipeline, projectId, selectedStepIndex, toast, checkAndParseFile],
   );
 
+  // Sorted/filtered pages of the raw data, queried over the whole table
+  const fetchRawDataRows = useCallback(
+    async (query: TableQuery, offset: number, limit: number) => {
+      const params = tableQueryToParams(query);
+      params.set("limit", String(limit));
+      params.set("offset", String(offset));
+
+      const response = await fetch(`/api/projects/${projectId}/data?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to load data");
+      }
+
+      const data = await response.json();
+      return { rows: data.data, total: data.pagination.total };
+    },
+    [projectId],
+  );
+
   // Parse file on mount if needed
   useEffect(() => {
     if (project && !isParsingFile) {
@@ -299,6 +360,16 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
     }
   };
 
+  const handleRecipeImported = (pipelineId: string, name: string) => {
+    toast({
+      title: "Recipe imported",
+      description: `Pipeline "${name}" has been created.`,
+    });
+    // Select the new pipeline
+    setSelectedPipelineId(pipelineId as Id<"pipelines">);
+    setSelectedStepIndex(null);
+  };
+
   const handleDeletePipeline = async (pipelineId: Id<"pipelines">, name: string) => {
     if (!confirm(`Are you sure you want to delete pipeline "${name}"?`)) {
       return;
@@ -365,8 +436,8 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
       };
 
       await updatePipeline({
-        id: selectedPipelineId,
         steps: [...selectedPipeline.steps, newStep],
+        message: `Added ${type} step`,
       });
 
       toast({
@@ -398,8 +469,8 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
       };
 
       await updatePipeline({
-        id: selectedPipelineId,
         steps: updatedSteps,
+        message: `Edited step ${editingStepIndex + 1} (${type})`,
       });
 
       toast({
@@ -427,8 +498,8 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
       const updatedSteps = selectedPipeline.steps.filter((_, i) => i !== stepIndex);
 
       await updatePipeline({
-        id: selectedPipelineId,
         steps: updatedSteps,
+        message: `Deleted step ${stepIndex + 1} (${selectedPipeline.steps[stepIndex]?.type})`,
       });
 
       toast({
@@ -462,8 +533,8 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
       updatedSteps.splice(toIndex, 0, movedStep);
 
       await updatePipeline({
-        id: selectedPipelineId,
         steps: updatedSteps,
+        message: `Moved step ${fromIndex + 1} to position ${toIndex + 1}`,
       });
 
       // Adjust selected step index if needed
@@ -488,6 +559,66 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
     }
   };
 
+  const handleToggleStep = async (stepIndex: number) => {
+    if (!selectedPipelineId || !selectedPipeline) return;
+
+    const step = selectedPipeline.steps[stepIndex];
+    const enabled = !isStepEnabled(step);
+    try {
+      const updatedSteps = [...selectedPipeline.steps];
+      const { enabled: _enabled, ...rest } = step;
+      updatedSteps[stepIndex] = enabled ? rest : { ...rest, enabled: false };
+
+      await updatePipeline({
+        steps: updatedSteps,
+        message: `${enabled ? "Enabled" : "Disabled"} step ${stepIndex + 1} (${step.type})`,
+      });
+
+      // Reload preview to show the output with the step toggled
+      loadPreviewData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to toggle step",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSetStepGroup = async (stepIndex: number) => {
+    if (!selectedPipelineId || !selectedPipeline) return;
+
+    const step = selectedPipeline.steps[stepIndex];
+    const input = prompt("Group name (leave empty to remove the step from its group)", step.group);
+    if (input === null) return;
+
+    const group = input.trim() || undefined;
+    try {
+      const updatedSteps = [...selectedPipeline.steps];
+      const { group: _group, ...rest } = step;
+      updatedSteps[stepIndex] = group ? { ...rest, group } : rest;
+
+      await updatePipeline({
+        steps: updatedSteps,
+        message: group
+          ? `Moved step ${stepIndex + 1} to group "${group}"`
+          : `Removed step ${stepIndex + 1} from its group`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to group step",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleGroupCollapsed = (group: string) => {
+    setCollapsedGroups((groups) =>
+      groups.includes(group) ? groups.filter((name) => name !== group) : [...groups, group],
+    );
+  };
+
   const openEditStepDialog = (stepIndex: number) => {
     setEditingStepIndex(stepIndex);
     setIsAddStepDialogOpen(true);
@@ -498,21 +629,35 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
     setIsAddStepDialogOpen(true);
   };
 
-  const handleSaveSettings = async (parseConfig: {
-    sheetName?: string;
-    sheetIndex?: number;
-    startRow?: number;
-    endRow?: number;
-    startColumn?: number;
-    endColumn?: number;
-    hasHeaders: boolean;
-  }) => {
+  const handleVersionRestored = (version: number) => {
+    toast({
+      title: "Version restored",
+      description: `Pipeline steps have been restored to version ${version}.`,
+    });
+
+    setSelectedStepIndex(null);
+    loadPreviewData();
+  };
+
+  const handleSaveSettings = async (
+    parseConfig: {
+      sheetName?: string;
+      sheetIndex?: number;
+      startRow?: number;
+      endRow?: number;
+      startColumn?: number;
+      endColumn?: number;
+      hasHeaders: boolean;
+      numberLocale?: string;
+    },
+    errorMode: "fail" | "quarantine",
+  ) => {
     if (!selectedPipelineId) return;
 
     try {
       await updatePipeline({
-        id: selectedPipelineId,
         parseConfig,
+        errorMode,
       });
 
       toast({
@@ -574,6 +719,107 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
   // Get available columns for step dialog
   const availableColumns = previewData.columns.map((col) => col.name);
 
+  // Step card in the pipeline sidebar
+  const renderStep = (step: TransformationStep, index: number, stepCount: number) => (
+    <div
+      key={step.id}
+      className={`rounded-md border p-3 transition-colors ${
+        selectedStepIndex === index ? "border-primary bg-primary/10" : "hover:bg-muted"
+      } ${isStepEnabled(step) ? "" : "opacity-60"}`}
+    >
+      <div className="cursor-pointer" onClick={() => setSelectedStepIndex(index)}>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-xs">
+            {index + 1}
+          </Badge>
+          <span className="flex-1 font-medium capitalize">{step.type.replace(/_/g, " ")}</span>
+          {!isStepEnabled(step) && (
+            <Badge variant="secondary" className="text-xs">
+              Disabled
+            </Badge>
+          )}
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground line-clamp-2">
+          {JSON.stringify(step.config).slice(0, 80)}
+        </p>
+      </div>
+      <div className="mt-2 flex gap-1">
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2"
+          onClick={(e) => {
+            e.stopPropagation();
+            handleMoveStep(index, index - 1);
+          }}
+          disabled={index === 0}
+        >
+          <ChevronUp className="h-3 w-3" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2"
+          onClick={(e) => {
+            e.stopPropagation();
+            handleMoveStep(index, index + 1);
+          }}
+          disabled={index === stepCount - 1}
+        >
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2"
+          onClick={(e) => {
+            e.stopPropagation();
+            openEditStepDialog(index);
+          }}
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2"
+          onClick={(e) => {
+            e.stopPropagation();
+            handleToggleStep(index);
+          }}
+          title={isStepEnabled(step) ? "Disable step" : "Enable step"}
+        >
+          {isStepEnabled(step) ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2"
+          onClick={(e) => {
+            e.stopPropagation();
+            handleSetStepGroup(index);
+          }}
+          title="Move to group"
+        >
+          <FolderInput className="h-3 w-3" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2 text-destructive hover:text-destructive"
+          onClick={(e) => {
+            e.stopPropagation();
+            if (confirm("Delete this step?")) {
+              handleDeleteStep(index);
+            }
+          }}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+
   if (project === undefined || pipelines === undefined) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -635,6 +881,9 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
                   Assistant
                 </SidebarTrigger>
               </div>
+              {!isParsingFile && selectedPipelineId && (
+                <ExportButton projectId={projectId} pipelineId={selectedPipelineId} />
+              )}
               {!isParsingFile && (pipelines?.length ?? 0) > 0 && (
                 <ExportButton projectId={projectId} exportAll={true} />
               )}
@@ -652,9 +901,20 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
           <Sidebar side="left" className="bg-muted/10">
             <SidebarHeader className="border-b-0 pb-0">
               <h2 className="font-semibold">Pipelines</h2>
-              <Button size="sm" onClick={() => setIsCreateDialogOpen(true)}>
-                <Plus className="h-4 w-4" />
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  aria-label="Import recipe"
+                  title="Import recipe"
+                  onClick={() => setIsImportRecipeDialogOpen(true)}
+                >
+                  <Upload className="h-4 w-4" />
+                </Button>
+                <Button size="sm" onClick={() => setIsCreateDialogOpen(true)}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
             </SidebarHeader>
 
             <SidebarContent className="pt-2">
@@ -799,80 +1059,41 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
                   </div>
                 ) : (
                   <div className="space-y-2">
-                    {selectedPipeline.steps.map((step, index) => (
-                      <div
-                        key={step.id}
-                        className={`rounded-md border p-3 transition-colors ${
-                          selectedStepIndex === index
-                            ? "border-primary bg-primary/10"
-                            : "hover:bg-muted"
-                        }`}
-                      >
-                        <div className="cursor-pointer" onClick={() => setSelectedStepIndex(index)}>
-                          <div className="flex items-center gap-2">
-                            <Badge variant="outline" className="text-xs">
-                              {index + 1}
-                            </Badge>
-                            <span className="flex-1 font-medium capitalize">
-                              {step.type.replace(/_/g, " ")}
-                            </span>
-                          </div>
-                          <p className="mt-1 text-xs text-muted-foreground line-clamp-2">
-                            {JSON.stringify(step.config).slice(0, 80)}
-                          </p>
-                        </div>
-                        <div className="mt-2 flex gap-1">
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            className="h-7 px-2"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleMoveStep(index, index - 1);
-                            }}
-                            disabled={index === 0}
+                    {groupSteps(selectedPipeline.steps as TransformationStep[]).map((block) => {
+                      const first = block.steps[0];
+                      if (!block.group) {
+                        return renderStep(first.step, first.index, selectedPipeline.steps.length);
+                      }
+
+                      const group = block.group;
+                      const collapsed = collapsedGroups.includes(group);
+                      return (
+                        <div key={first.step.id} className="rounded-md border border-dashed">
+                          <button
+                            type="button"
+                            className="flex w-full items-center gap-2 p-2 text-sm font-medium"
+                            onClick={() => toggleGroupCollapsed(group)}
                           >
-                            <ChevronUp className="h-3 w-3" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            className="h-7 px-2"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleMoveStep(index, index + 1);
-                            }}
-                            disabled={index === selectedPipeline.steps.length - 1}
-                          >
-                            <ChevronDown className="h-3 w-3" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            className="h-7 px-2"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              openEditStepDialog(index);
-                            }}
-                          >
-                            <Pencil className="h-3 w-3" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            className="h-7 px-2 text-destructive hover:text-destructive"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              if (confirm("Delete this step?")) {
-                                handleDeleteStep(index);
-                              }
-                            }}
-                          >
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
+                            {collapsed ? (
+                              <ChevronRight className="h-4 w-4" />
+                            ) : (
+                              <ChevronDown className="h-4 w-4" />
+                            )}
+                            <span className="flex-1 truncate text-left">{group}</span>
+                            <Badge variant="secondary" className="text-xs">
+                              {block.steps.length} step{block.steps.length !== 1 ? "s" : ""}
+                            </Badge>
+                          </button>
+                          {!collapsed && (
+                            <div className="space-y-2 p-2 pt-0">
+                              {block.steps.map(({ step, index }) =>
+                                renderStep(step, index, selectedPipeline.steps.length),
+                              )}
+                            </div>
+                          )}
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </div>
@@ -936,7 +1157,77 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
                   </div>
                 )}
 
-                {selectedPipelineId ? (
+                {selectedPipelineId && previewData.cache && (
+                  <p className="mb-2 text-xs text-muted-foreground">
+                    {previewData.cache.cachedSteps > 0
+                      ? `Reused ${previewData.cache.cachedSteps} cached step${previewData.cache.cachedSteps === 1 ? "" : "s"}, ran ${previewData.cache.executedSteps}`
+                      : `Ran ${previewData.cache.executedSteps} step${previewData.cache.executedSteps === 1 ? "" : "s"} (not cached)`}
+                  </p>
+                )}
+
+                {selectedPipelineId && (
+                  <div className="mb-2 flex gap-2">
+                    <Button
+                      variant={previewTab === "preview" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setPreviewTab("preview")}
+                    >
+                      Preview
+                    </Button>
+                    <Button
+                      variant={previewTab === "rejects" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setPreviewTab("rejects")}
+                    >
+                      Rejected rows
+                      {!!previewData.rejectedRowCount && (
+                        <Badge variant="destructive" className="ml-2">
+                          {previewData.rejectedRowCount}
+                        </Badge>
+                      )}
+                    </Button>
+                  </div>
+                )}
+
+                {selectedPipelineId && previewTab === "rejects" ? (
+                  previewData.rejectedRows?.length ? (
+                    <DataTable
+                      data={{
+                        rows: previewData.rejectedRows.map((rejected) => {
+                          const stepIndex =
+                            selectedPipeline?.steps.findIndex(
+                              (step) => step.id === rejected.stepId,
+                            ) ?? -1;
+                          return {
+                            step:
+                              stepIndex === -1
+                                ? rejected.stepId
+                                : `${stepIndex + 1}. ${selectedPipeline?.steps[stepIndex].type}`,
+                            column: rejected.column,
+                            value: rejected.value,
+                            reason: rejected.reason,
+                          };
+                        }),
+                        columns: ["step", "column", "value", "reason"].map((name) => ({
+                          name,
+                          type: "string",
+                          nonNullCount: 0,
+                          nullCount: 0,
+                          sampleValues: [],
+                        })),
+                        rowCount: previewData.rejectedRowCount ?? 0,
+                        warnings: [],
+                      }}
+                      maxRows={100}
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {selectedPipeline?.errorMode === "quarantine"
+                        ? "No rows were rejected"
+                        : "Set row errors to quarantine in the pipeline settings to collect failing rows here"}
+                    </p>
+                  )
+                ) : selectedPipelineId ? (
                   <DataTable
                     data={{
                       rows: previewData.rows,
@@ -956,6 +1247,7 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
                     }}
                     maxRows={100}
                     enableInteraction={true}
+                    fetchRows={fetchRawDataRows}
                   />
                 )}
               </div>
@@ -977,6 +1269,14 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
           onSave={handleCreatePipeline}
         />
 
+        {/* Import Recipe Dialog */}
+        <ImportRecipeDialog
+          open={isImportRecipeDialogOpen}
+          onOpenChange={setIsImportRecipeDialogOpen}
+          onImported={handleRecipeImported}
+          projectId={projectId}
+        />
+
         {/* Add/Edit Step Dialog */}
         {selectedPipelineId && selectedPipeline && (
           <AddStepDialog
@@ -988,12 +1288,16 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
             onAddStep={handleAddStep}
             onEditStep={handleEditStep}
             availableColumns={availableColumns}
+            inputColumns={previewData.inputColumns}
+            steps={selectedPipeline.steps as TransformationStep[]}
             editingStep={
               editingStepIndex !== null
                 ? (selectedPipeline.steps[editingStepIndex] as TransformationStep)
                 : null
             }
             uploadId={project.uploadId}
+            projectId={projectId}
+            pipelineId={selectedPipelineId}
           />
         )}
 
@@ -1004,6 +1308,9 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ projec
             onOpenChange={setIsSettingsDialogOpen}
             onSave={handleSaveSettings}
             currentConfig={selectedPipeline.parseConfig}
+            currentErrorMode={selectedPipeline.errorMode}
+            pipelineId={selectedPipelineId}
+            onRestored={handleVersionRestored}
             isExcelFile={isExcelFile}
             projectId={projectId}
           />
@@ -2,8 +2,8 @@
 
 import { api } from "@convex/api";
 import type { Id } from "@convex/dataModel";
-import { useAction } from "convex/react";
-import { useCallback, useEffect, useState } from "react";
+import { useAction, useQuery } from "convex/react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -14,6 +14,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  cleanFilterTree,
+  FilterConditionEditor,
+  toEditableFilter,
+  validateFilterTree,
+} from "@/components/FilterConditionEditor";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -24,21 +30,62 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Spinner } from "@/components/ui/spinner";
+import { Textarea } from "@/components/ui/textarea";
+import type { ColumnMetadata } from "@/lib/parsers/types";
 import type { ValidationResult } from "@/lib/pipeline/casting/validate";
+import {
+  type ClusterCandidate,
+  DEFAULT_CLUSTER_THRESHOLDS,
+  isKeyingMethod,
+} from "@/lib/pipeline/clustering/clusters";
+import { parseExpression } from "@/lib/pipeline/expression/parser";
+import { getFilterCondition } from "@/lib/pipeline/operations/filter";
+import { parseValueMappings } from "@/lib/pipeline/operations/map-values";
+import { propagateSchema } from "@/lib/pipeline/schema";
 import type {
+  AssertRule,
+  ClusterMethod,
   TransformationConfig,
   TransformationStep,
   TransformationType,
+  ValueMapping,
 } from "@/lib/pipeline/types";
 
+/**
+ * A cluster of values under review (counts are unknown for clusters loaded from a step)
+ */
+interface ClusterReview {
+  canonical: string;
+  values: Array<{ value: string; count?: number }>;
+  merge: boolean;
+}
+
+/**
+ * A value mapping being edited, with an id to key its row
+ */
+interface MappingRow extends ValueMapping {
+  id: string;
+}
+
+/**
+ * Give value mappings row ids for editing
+ */
+function toMappingRows(mappings: ValueMapping[]): MappingRow[] {
+  return mappings.map((mapping) => ({ ...mapping, id: crypto.randomUUID() }));
+}
+
 interface AddStepDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onAddStep: (type: TransformationType, config: TransformationConfig) => void;
   onEditStep?: (type: TransformationType, config: TransformationConfig) => void;
-  availableColumns: string[];
+  availableColumns: string[]; // Used when the pipeline's input columns are not known
+  inputColumns?: ColumnMetadata[]; // Pipeline columns before the first step
+  steps?: TransformationStep[]; // Steps of the pipeline, to work out the columns at the step's position
   editingStep?: TransformationStep | null;
   uploadId?: Id<"uploads">; // For validation preview
+  projectId?: Id<"projects">; // For listing join sources
+  pipelineId?: string; // Excluded from join sources
 }
 
 export function AddStepDialog({
@@ -46,10 +93,34 @@ export function AddStepDialog({
   onOpenChange,
   onAddStep,
   onEditStep,
-  availableColumns,
+  availableColumns: fallbackColumns,
+  inputColumns,
+  steps,
   editingStep,
   uploadId,
+  projectId,
+  pipelineId,
 }: AddStepDialogProps) {
+  // Edited steps keep their position; new steps are added last
+  const stepIndex = steps
+    ? editingStep
+      ? steps.findIndex((step) => step.id === editingStep.id)
+      : steps.length
+    : -1;
+  const stepsBefore = useMemo(
+    () => (steps && stepIndex >= 0 ? steps.slice(0, stepIndex) : null),
+    [steps, stepIndex],
+  );
+
+  // Offer the columns that exist at the step's position
+  const availableColumns = useMemo(
+    () =>
+      inputColumns && stepsBefore
+        ? propagateSchema(inputColumns, stepsBefore).columns.map((column) => column.name)
+        : fallbackColumns,
+    [inputColumns, stepsBefore, fallbackColumns],
+  );
+
   const [selectedOperation, setSelectedOperation] = useState<TransformationType | "">("");
   // TODO: Replace Record<string, any> with proper discriminated union based on TransformationType
   // This requires creating a FormData type that matches each transformation config shape
@@ -63,12 +134,33 @@ export function AddStepDialog({
   const [validationLoading, setValidationLoading] = useState(false);
   const validateCastAction = useAction(api.parsers.validateCast);
 
+  // Value cluster review state
+  const [clusterReview, setClusterReview] = useState<ClusterReview[]>([]);
+  const [clusterSearch, setClusterSearch] = useState<{
+    distinctValues: number;
+    truncated: boolean;
+  } | null>(null);
+  const [clustersLoading, setClustersLoading] = useState(false);
+
+  // Join/append source state
+  const isJoin = selectedOperation === "join";
+  const usesSources = isJoin || selectedOperation === "append";
+  const sourceProjects = useQuery(api.projects.list, usesSources ? {} : "skip");
+  const sourcePipelines = useQuery(
+    api.pipelines.list,
+    usesSources && projectId ? { projectId } : "skip",
+  );
+  const [joinSourceColumns, setJoinSourceColumns] = useState<string[]>([]);
+  const [workbookSheets, setWorkbookSheets] = useState<string[]>([]);
+
   const resetForm = useCallback(() => {
     setSelectedOperation("");
     setFormData({});
     setSelectedColumns([]);
     setError("");
     setValidationResult(null);
+    setClusterReview([]);
+    setClusterSearch(null);
   }, []);
 
   // Populate form when editing a step
@@ -88,13 +180,19 @@ export function AddStepDialog({
 
         case "deduplicate":
           setSelectedColumns(config.columns || []);
+          setFormData({
+            keep: config.keep || "first",
+            orderColumn: config.orderBy?.name,
+            orderDirection: config.orderBy?.direction || "asc",
+            ignoreCase: config.ignoreCase || false,
+            ignoreWhitespace: config.ignoreWhitespace || false,
+            mode: config.mode || "remove",
+          });
           break;
 
         case "filter":
           setFormData({
-            column: config.column,
-            operator: config.operator,
-            value: config.value,
+            filterCondition: toEditableFilter(getFilterCondition(config)),
           });
           break;
 
@@ -111,6 +209,12 @@ export function AddStepDialog({
             targetType: config.targetType,
             onError: config.onError,
             format: config.format,
+            dateOrder: config.dateOrder,
+            timezone: config.timezone,
+            locale: config.locale,
+            decimalSeparator: config.decimalSeparator,
+            groupSeparator: config.groupSeparator,
+            outputFormat: config.outputFormat,
           });
           break;
 
@@ -172,11 +276,113 @@ export function AddStepDialog({
             nullsPosition: config.nullsPosition || "last",
           });
           break;
+
+        case "calculated_column":
+          setFormData({
+            newColumn: config.newColumn,
+            expression: config.expression,
+            onError: config.onError || "fail",
+          });
+          break;
+
+        case "join":
+          setFormData({
+            source:
+              config.source.type === "pipeline"
+                ? `pipeline:${config.source.pipelineId}`
+                : `upload:${config.source.uploadId}`,
+            sheetName: config.source.type === "upload" ? config.source.sheetName : undefined,
+            joinType: config.joinType,
+            joinKeys: config.on,
+            suffix: config.suffix ?? "_right",
+          });
+          break;
+
+        case "append":
+          setFormData({
+            appendSources: config.sources.map((source) => ({
+              value:
+                source.type === "pipeline"
+                  ? `pipeline:${source.pipelineId}`
+                  : source.uploadId === uploadId && source.sheetName !== undefined
+                    ? `sheet:${source.sheetName}`
+                    : `upload:${source.uploadId}`,
+              sheetName: source.type === "upload" ? source.sheetName : undefined,
+              label: source.label,
+            })),
+            columnMode: config.columnMode || "union",
+            sourceColumn: config.sourceColumn,
+            currentLabel: config.currentLabel,
+          });
+          break;
+
+        case "group_by":
+          setSelectedColumns(config.groupBy);
+          setFormData({ aggregations: config.aggregations });
+          break;
+
+        case "assert":
+          setFormData({
+            rules: config.rules.map((rule) => ({
+              ...rule,
+              values: rule.kind === "in_set" ? rule.values.join(", ") : undefined,
+              min: "min" in rule && rule.min !== undefined ? String(rule.min) : undefined,
+              max: "max" in rule && rule.max !== undefined ? String(rule.max) : undefined,
+              severity: rule.severity || "fail",
+            })),
+          });
+          break;
+
+        case "replace":
+          setSelectedColumns(config.columns);
+          setFormData({
+            find: config.find,
+            replaceWith: config.replaceWith,
+            useRegex: config.useRegex || false,
+            caseSensitive: config.caseSensitive !== false, // Default true
+            matchEntireCell: config.matchEntireCell || false,
+          });
+          break;
+
+        case "format_number":
+          setSelectedColumns(config.columns);
+          setFormData({
+            decimals: config.decimals !== undefined ? String(config.decimals) : "",
+            grouping: config.grouping !== false, // Default true
+            locale: config.locale,
+            currency: config.currency,
+          });
+          break;
+
+        case "cluster_values":
+          setFormData({
+            column: config.column,
+            method: config.method || "fingerprint",
+            threshold: config.threshold !== undefined ? String(config.threshold) : "",
+          });
+          setClusterReview(
+            config.clusters.map((cluster) => ({
+              canonical: cluster.canonical,
+              values: [cluster.canonical, ...cluster.values].map((value) => ({ value })),
+              merge: true,
+            })),
+          );
+          break;
+
+        case "map_values":
+          setFormData({
+            column: config.column,
+            mappings: toMappingRows(config.mappings),
+            caseSensitive: config.caseSensitive !== false, // Default true
+            useDefault: config.defaultValue !== undefined,
+            defaultValue: config.defaultValue ?? "",
+          });
+          break;
       }
     } else if (!open) {
       resetForm();
     }
-  }, [editingStep, open, resetForm]);
+  }, [editingStep, open, resetForm, uploadId]);
 
   const operations: { value: TransformationType; label: string; description: string }[] = [
     {
@@ -226,16 +432,115 @@ export function AddStepDialog({
       description: "Fill empty cells with value from left",
     },
     { value: "sort", label: "Sort", description: "Sort rows by one or more columns" },
+    {
+      value: "calculated_column",
+      label: "Calculated Column",
+      description: "Add a column computed from an expression",
+    },
+    {
+      value: "replace",
+      label: "Find & Replace",
+      description: "Replace text or regex matches in columns",
+    },
+    {
+      value: "group_by",
+      label: "Group By",
+      description: "Summarize rows by key columns with aggregates",
+    },
+    {
+      value: "append",
+      label: "Append Rows",
+      description: "Stack rows from other sheets, files or pipelines",
+    },
+    {
+      value: "join",
+      label: "Join",
+      description: "Merge columns from another file or pipeline by key",
+    },
+    {
+      value: "assert",
+      label: "Validate (Assert)",
+      description: "Check rules the data must meet without changing it",
+    },
+    {
+      value: "format_number",
+      label: "Format Numbers",
+      description: "Render numbers as text with decimals, grouping and currency",
+    },
+    {
+      value: "cluster_values",
+      label: "Cluster Values",
+      description: "Find and merge variants of the same value (e.g. company names)",
+    },
+    {
+      value: "map_values",
+      label: "Map Values",
+      description: "Recode values with a lookup table (e.g. country names to codes)",
+    },
   ];
 
-  const filterOperators = [
-    { value: "equals", label: "Equals" },
-    { value: "not_equals", label: "Not Equals" },
-    { value: "contains", label: "Contains" },
-    { value: "not_contains", label: "Not Contains" },
-    { value: "greater_than", label: "Greater Than" },
-    { value: "less_than", label: "Less Than" },
-  ];
+  // Load column names of the selected join source for key suggestions
+  const joinSource: string | undefined = isJoin ? formData.source : undefined;
+  useEffect(() => {
+    if (!joinSource) {
+      setJoinSourceColumns([]);
+      return;
+    }
+
+    const [sourceType, sourceId] = joinSource.split(":");
+    let url: string | null = null;
+    if (sourceType === "pipeline" && projectId) {
+      url = `/api/projects/${projectId}/pipelines/${sourceId}/results?limit=1`;
+    } else if (sourceType === "upload") {
+      const sourceProject = sourceProjects?.find((p) => p.uploadId === sourceId);
+      if (sourceProject) {
+        url = `/api/projects/${sourceProject._id}/columns`;
+      }
+    }
+    if (!url) {
+      setJoinSourceColumns([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(url)
+      .then((response) => (response.ok ? response.json() : { columns: [] }))
+      .then((data: { columns?: Array<{ name: string }> }) => {
+        if (!cancelled) {
+          setJoinSourceColumns((data.columns || []).map((col) => col.name));
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setJoinSourceColumns([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [joinSource, sourceProjects, projectId]);
+
+  // Load sheet names of this project's workbook for appending sheets
+  const isAppend = selectedOperation === "append";
+  useEffect(() => {
+    if (!isAppend || !projectId) {
+      setWorkbookSheets([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/projects/${projectId}/sheets`)
+      .then((response) => (response.ok ? response.json() : { sheets: [] }))
+      .then((data: { sheets?: string[] }) => {
+        if (!cancelled) setWorkbookSheets(data.sheets || []);
+      })
+      .catch(() => {
+        if (!cancelled) setWorkbookSheets([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAppend, projectId]);
 
   // Handle validation preview for cast_column
   const handleValidate = async () => {
@@ -262,7 +567,22 @@ export function AddStepDialog({
         uploadId,
         column: formData.column,
         targetType: formData.targetType as "string" | "number" | "boolean" | "date",
-        format: formData.format,
+        ...(formData.targetType === "date"
+          ? {
+              format: formData.format || undefined,
+              dateOrder: formData.dateOrder || undefined,
+              timezone: formData.timezone || undefined,
+              locale: formData.locale || undefined,
+              outputFormat: formData.outputFormat || undefined,
+            }
+          : {}),
+        ...(formData.targetType === "number"
+          ? {
+              locale: formData.locale || undefined,
+              decimalSeparator: formData.decimalSeparator || undefined,
+              groupSeparator: formData.groupSeparator || undefined,
+            }
+          : {}),
       });
       setValidationResult(result);
     } catch (err) {
@@ -272,6 +592,53 @@ export function AddStepDialog({
     }
   };
 
+  // Find clusters of the selected column's values for review
+  const handleFindClusters = async () => {
+    if (!projectId) {
+      setError("Project ID is required to find clusters");
+      return;
+    }
+
+    if (!formData.column) {
+      setError("Please select a column");
+      return;
+    }
+
+    const method: ClusterMethod = formData.method || "fingerprint";
+    const params = new URLSearchParams({ column: formData.column, method });
+    if (!isKeyingMethod(method) && formData.threshold) {
+      params.set("threshold", String(formData.threshold));
+    }
+    // Cluster the values the step will see, after the steps before it
+    if (pipelineId && stepIndex >= 0) {
+      params.set("pipelineId", pipelineId);
+      params.set("stepIndex", String(stepIndex));
+    }
+
+    setClustersLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/clusters?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to find clusters");
+      }
+      setClusterReview(
+        (data.clusters as ClusterCandidate[]).map((cluster) => ({
+          canonical: cluster.canonical,
+          values: cluster.values,
+          merge: false,
+        })),
+      );
+      setClusterSearch({ distinctValues: data.distinctValues, truncated: data.truncated });
+    } catch (err) {
+      setError(`Finding clusters failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setClustersLoading(false);
+    }
+  };
+
   const handleSubmit = () => {
     setError("");
 
@@ -298,29 +665,34 @@ export function AddStepDialog({
           config = {
             type: "deduplicate",
             columns: selectedColumns.length > 0 ? selectedColumns : undefined,
+            ...(formData.keep && formData.keep !== "first" ? { keep: formData.keep } : {}),
+            ...(formData.orderColumn
+              ? {
+                  orderBy: {
+                    name: formData.orderColumn,
+                    direction: formData.orderDirection || "asc",
+                  },
+                }
+              : {}),
+            ...(formData.ignoreCase ? { ignoreCase: true } : {}),
+            ...(formData.ignoreWhitespace ? { ignoreWhitespace: true } : {}),
+            ...(formData.mode === "flag" ? { mode: "flag" as const } : {}),
           };
           break;
 
-        case "filter":
-          if (!formData.column) {
-            setError("Please select a column");
-            return;
-          }
-          if (!formData.operator) {
-            setError("Please select an operator");
-            return;
-          }
-          if (formData.value === undefined || formData.value === "") {
-            setError("Please enter a value");
+        case "filter": {
+          const condition = cleanFilterTree(toEditableFilter(formData.filterCondition));
+          const filterError = validateFilterTree(condition);
+          if (filterError) {
+            setError(filterError);
             return;
           }
           config = {
             type: "filter",
-            column: formData.column,
-            operator: formData.operator,
-            value: formData.value,
+            condition,
           };
           break;
+        }
 
         case "rename_column":
           if (!formData.oldName) {
@@ -364,7 +736,22 @@ export function AddStepDialog({
             column: formData.column,
             targetType: formData.targetType,
             onError: formData.onError,
-            format: formData.format || undefined,
+            ...(formData.targetType === "date"
+              ? {
+                  format: formData.format || undefined,
+                  dateOrder: formData.dateOrder || undefined,
+                  timezone: formData.timezone || undefined,
+                  locale: formData.locale || undefined,
+                  outputFormat: formData.outputFormat || undefined,
+                }
+              : {}),
+            ...(formData.targetType === "number"
+              ? {
+                  locale: formData.locale || undefined,
+                  decimalSeparator: formData.decimalSeparator || undefined,
+                  groupSeparator: formData.groupSeparator || undefined,
+                }
+              : {}),
           };
           break;
 
@@ -539,86 +926,452 @@ export function AddStepDialog({
           };
           break;
 
-        default:
-          setError("Invalid operation");
-          return;
-      }
+        case "calculated_column":
+          if (!formData.newColumn) {
+            setError("Please enter a new column name");
+            return;
+          }
+          if (!formData.expression?.trim()) {
+            setError("Please enter an expression");
+            return;
+          }
+          try {
+            parseExpression(formData.expression);
+          } catch (err) {
+            setError(`Invalid expression: ${err instanceof Error ? err.message : String(err)}`);
+            return;
+          }
+          config = {
+            type: "calculated_column",
+            newColumn: formData.newColumn,
+            expression: formData.expression,
+            onError: formData.onError || "fail",
+          };
+          break;
 
-      // Call appropriate handler based on mode
-      if (editingStep && onEditStep) {
-        onEditStep(selectedOperation, config);
-      } else {
-        onAddStep(selectedOperation, config);
-      }
+        case "join": {
+          if (!formData.source) {
+            setError("Please select a source to join");
+            return;
+          }
+          const joinKeys = (formData.joinKeys || []).filter(
+            (key: { left: string; right: string }) => key.left && key.right,
+          );
+          if (joinKeys.length === 0) {
+            setError("Please add at least one key column pair");
+            return;
+          }
+          const [sourceType, sourceId] = formData.source.split(":");
+          config = {
+            type: "join",
+            source:
+              sourceType === "pipeline"
+                ? { type: "pipeline", pipelineId: sourceId }
+                : {
+                    type: "upload",
+                    uploadId: sourceId,
+                    sheetName: formData.sheetName || undefined,
+                  },
+            joinType: formData.joinType || "left",
+            on: joinKeys,
+            suffix: formData.suffix ?? "_right",
+          };
+          break;
+        }
 
-      resetForm();
-      onOpenChange(false);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "An error occurred");
-    }
-  };
+        case "append": {
+          const appendSources: Array<{ value: string; sheetName?: string; label?: string }> = (
+            formData.appendSources || []
+          ).filter((source: { value?: string }) => source.value);
+          if (appendSources.length === 0) {
+            setError("Please add at least one source to append");
+            return;
+          }
+          if (appendSources.some((source) => source.value.startsWith("sheet:") && !uploadId)) {
+            setError("Upload ID is required to append sheets");
+            return;
+          }
+          config = {
+            type: "append",
+            sources: appendSources.map((source) => {
+              const separatorIndex = source.value.indexOf(":");
+              const kind = source.value.slice(0, separatorIndex);
+              const id = source.value.slice(separatorIndex + 1);
+              const label = source.label?.trim() || undefined;
+              if (kind === "pipeline") {
+                return { type: "pipeline" as const, pipelineId: id, label };
+              }
+              if (kind === "sheet") {
+                return {
+                  type: "upload" as const,
+                  uploadId: uploadId as string,
+                  sheetName: id,
+                  label,
+                };
+              }
+              return {
+                type: "upload" as const,
+                uploadId: id,
+                sheetName: source.sheetName || undefined,
+                label,
+              };
+            }),
+            columnMode: formData.columnMode || "union",
+            sourceColumn: formData.sourceColumn?.trim() || undefined,
+            currentLabel: formData.currentLabel?.trim() || undefined,
+          };
+          break;
+        }
 
-  const toggleColumn = (column: string) => {
-    setSelectedColumns((prev) =>
-      prev.includes(column) ? prev.filter((c) => c !== column) : [...prev, column],
-    );
-  };
+        case "group_by": {
+          const aggregations = (formData.aggregations || []).map(
+            (agg: {
+              column?: string;
+              aggregation: string;
+              newColumn: string;
+              separator?: string;
+            }) => ({
+              column: agg.column || undefined,
+              aggregation: agg.aggregation,
+              newColumn: agg.newColumn.trim(),
+              separator: agg.aggregation === "string_agg" ? agg.separator : undefined,
+            }),
+          );
+          if (selectedColumns.length === 0 && aggregations.length === 0) {
+            setError("Please select group columns or add an aggregation");
+            return;
+          }
+          if (aggregations.some((agg: { newColumn: string }) => !agg.newColumn)) {
+            setError("Please enter a name for every aggregation");
+            return;
+          }
+          if (
+            aggregations.some(
+              (agg: { column?: string; aggregation: string }) =>
+                !agg.column && agg.aggregation !== "count",
+            )
+          ) {
+            setError("Please select a column for every aggregation except Count rows");
+            return;
+          }
+          config = {
+            type: "group_by",
+            groupBy: selectedColumns,
+            aggregations,
+          };
+          break;
+        }
 
-  const renderOperationForm = () => {
-    if (!selectedOperation) {
-      return (
-        <div className="text-center py-8 text-muted-foreground">
-          <p>Select an operation to configure</p>
-        </div>
-      );
-    }
+        case "replace":
+          if (selectedColumns.length === 0) {
+            setError("Please select at least one column");
+            return;
+          }
+          if (!formData.find) {
+            setError("Please enter text to find");
+            return;
+          }
+          if (formData.useRegex) {
+            try {
+              new RegExp(formData.find);
+            } catch (err) {
+              setError(`Invalid regex: ${err instanceof Error ? err.message : String(err)}`);
+              return;
+            }
+          }
+          config = {
+            type: "replace",
+            columns: selectedColumns,
+            find: formData.find,
+            replaceWith: formData.replaceWith || "",
+            useRegex: formData.useRegex || false,
+            caseSensitive: formData.caseSensitive !== false,
+            matchEntireCell: formData.matchEntireCell || false,
+          };
+          break;
 
-    switch (selectedOperation) {
-      case "trim":
-      case "uppercase":
-      case "lowercase":
-        return (
-          <div className="space-y-4">
-            {selectedOperation === "trim" && (
-              <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
-                <div className="font-semibold mb-1 text-foreground">Example:</div>
-                <div className="text-muted-foreground">
-                  <div>Input: " hello " → Output: "hello"</div>
-                </div>
-              </div>
-            )}
-            {selectedOperation === "uppercase" && (
-              <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
-                <div className="font-semibold mb-1 text-foreground">Example:</div>
-                <div className="text-muted-foreground">
-                  <div>Input: "hello" → Output: "HELLO"</div>
-                </div>
-              </div>
-            )}
-            {selectedOperation === "lowercase" && (
-              <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
-                <div className="font-semibold mb-1 text-foreground">Example:</div>
-                <div className="text-muted-foreground">
-                  <div>Input: "HELLO" → Output: "hello"</div>
-                </div>
-              </div>
-            )}
-            <div>
-              <Label>Select Columns</Label>
-              <p className="text-sm text-muted-foreground mb-2">
-                Choose which columns to apply this transformation to
-              </p>
-              <div className="flex flex-wrap gap-2">
-                {availableColumns.map((col) => (
-                  <Badge
-                    key={col}
-                    variant={selectedColumns.includes(col) ? "default" : "outline"}
-                    className="cursor-pointer"
-                    onClick={() => toggleColumn(col)}
-                  >
-                    {col}
-                  </Badge>
-                ))}
+        case "assert": {
+          const formRules: Array<Record<string, any>> = formData.rules || [];
+          if (formRules.length === 0) {
+            setError("Please add at least one rule");
+            return;
+          }
+          const rules: AssertRule[] = [];
+          for (const rule of formRules) {
+            const severity = rule.severity === "warn" ? "warn" : "fail";
+            const min = rule.min ? Number(rule.min) : undefined;
+            const max = rule.max ? Number(rule.max) : undefined;
+            if (Number.isNaN(min) || Number.isNaN(max)) {
+              setError("Min and max must be numbers");
+              return;
+            }
+
+            switch (rule.kind) {
+              case "unique":
+                if (!rule.columns?.length) {
+                  setError("Please select at least one column for every unique rule");
+                  return;
+                }
+                rules.push({ kind: "unique", columns: rule.columns, severity });
+                continue;
+
+              case "row_count":
+                if (min === undefined && max === undefined) {
+                  setError("Please enter a min or max row count");
+                  return;
+                }
+                rules.push({ kind: "row_count", min, max, severity });
+                continue;
+            }
+
+            if (!rule.column) {
+              setError("Please select a column for every rule");
+              return;
+            }
+
+            switch (rule.kind) {
+              case "not_null":
+                rules.push({ kind: "not_null", column: rule.column, severity });
+                break;
+
+              case "in_set": {
+                const values = String(rule.values || "")
+                  .split(",")
+                  .map((value) => value.trim())
+                  .filter(Boolean);
+                if (values.length === 0) {
+                  setError("Please enter the allowed values, separated by commas");
+                  return;
+                }
+                rules.push({ kind: "in_set", column: rule.column, values, severity });
+                break;
+              }
+
+              case "matches_regex":
+                try {
+                  new RegExp(rule.pattern || "");
+                } catch (err) {
+                  setError(`Invalid regex: ${err instanceof Error ? err.message : String(err)}`);
+                  return;
+                }
+                if (!rule.pattern) {
+                  setError("Please enter a pattern");
+                  return;
+                }
+                rules.push({
+                  kind: "matches_regex",
+                  column: rule.column,
+                  pattern: rule.pattern,
+                  severity,
+                });
+                break;
+
+              case "range":
+                if (min === undefined && max === undefined) {
+                  setError("Please enter a min or max value");
+                  return;
+                }
+                rules.push({ kind: "range", column: rule.column, min, max, severity });
+                break;
+
+              case "column_type":
+                rules.push({
+                  kind: "column_type",
+                  column: rule.column,
+                  columnType: rule.columnType || undefined,
+                  severity,
+                });
+                break;
+            }
+          }
+          config = { type: "assert", rules };
+          break;
+        }
+
+        case "format_number": {
+          if (selectedColumns.length === 0) {
+            setError("Please select at least one column");
+            return;
+          }
+          const decimals = formData.decimals ? Number(formData.decimals) : undefined;
+          if (
+            decimals !== undefined &&
+            (!Number.isInteger(decimals) || decimals < 0 || decimals > 20)
+          ) {
+            setError("Decimals must be a whole number from 0 to 20");
+            return;
+          }
+          config = {
+            type: "format_number",
+            columns: selectedColumns,
+            ...(decimals !== undefined ? { decimals } : {}),
+            grouping: formData.grouping !== false,
+            ...(formData.locale ? { locale: formData.locale } : {}),
+            ...(formData.currency ? { currency: formData.currency.toUpperCase() } : {}),
+          };
+          break;
+        }
+
+        case "cluster_values": {
+          if (!formData.column) {
+            setError("Please select a column");
+            return;
+          }
+          const merged = clusterReview.filter((cluster) => cluster.merge);
+          if (merged.some((cluster) => cluster.canonical === "")) {
+            setError("Please enter a canonical value for every merged cluster");
+            return;
+          }
+          const clusters = merged
+            .map((cluster) => ({
+              canonical: cluster.canonical,
+              values: cluster.values
+                .map((entry) => entry.value)
+                .filter((value) => value !== cluster.canonical),
+            }))
+            .filter((cluster) => cluster.values.length > 0);
+          if (clusters.length === 0) {
+            setError("Please select at least one cluster to merge");
+            return;
+          }
+          const method: ClusterMethod = formData.method || "fingerprint";
+          config = {
+            type: "cluster_values",
+            column: formData.column,
+            clusters,
+            method,
+            ...(!isKeyingMethod(method) && formData.threshold
+              ? { threshold: Number(formData.threshold) }
+              : {}),
+          };
+          break;
+        }
+
+        case "map_values": {
+          if (!formData.column) {
+            setError("Please select a column");
+            return;
+          }
+          const mappings = ((formData.mappings || []) as MappingRow[])
+            .filter((mapping) => mapping.from !== "" || mapping.to !== "")
+            .map(({ from, to }) => ({ from, to }));
+          if (mappings.length === 0) {
+            setError("Please add at least one mapping");
+            return;
+          }
+          const caseSensitive = formData.caseSensitive !== false;
+          const targets = new Map<string, string>();
+          for (const { from, to } of mappings) {
+            const key = caseSensitive ? from : from.toLowerCase();
+            if ((targets.get(key) ?? to) !== to) {
+              setError(`Value "${from}" is mapped more than once`);
+              return;
+            }
+            targets.set(key, to);
+          }
+          config = {
+            type: "map_values",
+            column: formData.column,
+            mappings,
+            caseSensitive,
+            ...(formData.useDefault ? { defaultValue: formData.defaultValue ?? "" } : {}),
+          };
+          break;
+        }
+
+        default:
+          setError("Invalid operation");
+          return;
+      }
+
+      // Check the step against the columns at its position
+      if (inputColumns && stepsBefore) {
+        const { errors } = propagateSchema(inputColumns, [
+          ...stepsBefore,
+          { id: editingStep?.id ?? "new", type: selectedOperation, config },
+        ]);
+        const stepError = errors.find((schemaError) => schemaError.index === stepsBefore.length);
+        if (stepError) {
+          setError(stepError.message);
+          return;
+        }
+      }
+
+      // Call appropriate handler based on mode
+      if (editingStep && onEditStep) {
+        onEditStep(selectedOperation, config);
+      } else {
+        onAddStep(selectedOperation, config);
+      }
+
+      resetForm();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    }
+  };
+
+  const toggleColumn = (column: string) => {
+    setSelectedColumns((prev) =>
+      prev.includes(column) ? prev.filter((c) => c !== column) : [...prev, column],
+    );
+  };
+
+  const renderOperationForm = () => {
+    if (!selectedOperation) {
+      return (
+        <div className="text-center py-8 text-muted-foreground">
+          <p>Select an operation to configure</p>
+        </div>
+      );
+    }
+
+    switch (selectedOperation) {
+      case "trim":
+      case "uppercase":
+      case "lowercase":
+        return (
+          <div className="space-y-4">
+            {selectedOperation === "trim" && (
+              <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+                <div className="font-semibold mb-1 text-foreground">Example:</div>
+                <div className="text-muted-foreground">
+                  <div>Input: " hello " → Output: "hello"</div>
+                </div>
+              </div>
+            )}
+            {selectedOperation === "uppercase" && (
+              <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+                <div className="font-semibold mb-1 text-foreground">Example:</div>
+                <div className="text-muted-foreground">
+                  <div>Input: "hello" → Output: "HELLO"</div>
+                </div>
+              </div>
+            )}
+            {selectedOperation === "lowercase" && (
+              <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+                <div className="font-semibold mb-1 text-foreground">Example:</div>
+                <div className="text-muted-foreground">
+                  <div>Input: "HELLO" → Output: "hello"</div>
+                </div>
+              </div>
+            )}
+            <div>
+              <Label>Select Columns</Label>
+              <p className="text-sm text-muted-foreground mb-2">
+                Choose which columns to apply this transformation to
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {availableColumns.map((col) => (
+                  <Badge
+                    key={col}
+                    variant={selectedColumns.includes(col) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => toggleColumn(col)}
+                  >
+                    {col}
+                  </Badge>
+                ))}
               </div>
             </div>
           </div>
@@ -631,6 +1384,7 @@ export function AddStepDialog({
               <div className="font-semibold mb-1 text-foreground">Example:</div>
               <div className="text-muted-foreground">
                 <div>Removes duplicate rows, keeping only the first occurrence</div>
+                <div>Keep last, ordered by updated_at: keeps the most recent row of each group</div>
               </div>
             </div>
             <div>
@@ -651,6 +1405,107 @@ export function AddStepDialog({
                 ))}
               </div>
             </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="dedupe-keep">Keep</Label>
+                <Select
+                  value={formData.keep || "first"}
+                  onValueChange={(value) => setFormData({ ...formData, keep: value })}
+                >
+                  <SelectTrigger id="dedupe-keep">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="first">First row of each group</SelectItem>
+                    <SelectItem value="last">Last row of each group</SelectItem>
+                    <SelectItem value="none">No duplicated rows</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="dedupe-mode">Duplicates</Label>
+                <Select
+                  value={formData.mode || "remove"}
+                  onValueChange={(value) => setFormData({ ...formData, mode: value })}
+                >
+                  <SelectTrigger id="dedupe-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="remove">Remove them</SelectItem>
+                    <SelectItem value="flag">Flag them (is_duplicate, duplicate_group)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {formData.keep !== "none" && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="dedupe-order">Order Within Groups</Label>
+                  <Select
+                    value={formData.orderColumn || "row"}
+                    onValueChange={(value) =>
+                      setFormData({
+                        ...formData,
+                        orderColumn: value === "row" ? undefined : value,
+                      })
+                    }
+                  >
+                    <SelectTrigger id="dedupe-order">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="row">Row order</SelectItem>
+                      {availableColumns.map((col) => (
+                        <SelectItem key={col} value={col}>
+                          {col}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.orderColumn && (
+                  <div>
+                    <Label htmlFor="dedupe-direction">Direction</Label>
+                    <Select
+                      value={formData.orderDirection || "asc"}
+                      onValueChange={(value) => setFormData({ ...formData, orderDirection: value })}
+                    >
+                      <SelectTrigger id="dedupe-direction">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="asc">Ascending</SelectItem>
+                        <SelectItem value="desc">Descending</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.ignoreCase || false}
+                  onChange={(e) => setFormData({ ...formData, ignoreCase: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm">Ignore case</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.ignoreWhitespace || false}
+                  onChange={(e) => setFormData({ ...formData, ignoreWhitespace: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm">Ignore extra whitespace</span>
+              </label>
+            </div>
           </div>
         );
 
@@ -661,56 +1516,14 @@ export function AddStepDialog({
               <div className="font-semibold mb-1 text-foreground">Example:</div>
               <div className="text-muted-foreground">
                 <div>Keep only rows where Age &gt; 18</div>
-                <div>or City contains "New York"</div>
+                <div>Region = "EU" AND (Amount &gt; 100 OR VIP = true)</div>
               </div>
             </div>
-            <div>
-              <Label htmlFor="filter-column">Column</Label>
-              <Select
-                value={formData.column || ""}
-                onValueChange={(value) => setFormData({ ...formData, column: value })}
-              >
-                <SelectTrigger id="filter-column">
-                  <SelectValue placeholder="Select column" />
-                </SelectTrigger>
-                <SelectContent>
-                  {availableColumns.map((col) => (
-                    <SelectItem key={col} value={col}>
-                      {col}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div>
-              <Label htmlFor="filter-operator">Operator</Label>
-              <Select
-                value={formData.operator || ""}
-                onValueChange={(value) => setFormData({ ...formData, operator: value })}
-              >
-                <SelectTrigger id="filter-operator">
-                  <SelectValue placeholder="Select operator" />
-                </SelectTrigger>
-                <SelectContent>
-                  {filterOperators.map((op) => (
-                    <SelectItem key={op.value} value={op.value}>
-                      {op.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div>
-              <Label htmlFor="filter-value">Value</Label>
-              <Input
-                id="filter-value"
-                placeholder="Enter value"
-                value={formData.value || ""}
-                onChange={(e) => setFormData({ ...formData, value: e.target.value })}
-              />
-            </div>
+            <FilterConditionEditor
+              node={toEditableFilter(formData.filterCondition)}
+              columns={availableColumns}
+              onChange={(filterCondition) => setFormData({ ...formData, filterCondition })}
+            />
           </div>
         );
 
@@ -875,21 +1688,131 @@ export function AddStepDialog({
               </p>
             </div>
 
-            {formData.targetType === "date" && (
-              <div>
-                <Label htmlFor="format">Date Format (Optional)</Label>
-                <Input
-                  id="format"
-                  placeholder="e.g., YYYY-MM-DD or MM/DD/YYYY"
-                  value={formData.format || ""}
-                  onChange={(e) => setFormData({ ...formData, format: e.target.value })}
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Leave empty for automatic detection of common formats
+            {formData.targetType === "number" && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <Label htmlFor="number-locale">Locale (Optional)</Label>
+                    <Input
+                      id="number-locale"
+                      placeholder="e.g., de-DE"
+                      value={formData.locale || ""}
+                      onChange={(e) => setFormData({ ...formData, locale: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="decimal-separator">Decimal</Label>
+                    <Input
+                      id="decimal-separator"
+                      placeholder="."
+                      maxLength={1}
+                      value={formData.decimalSeparator || ""}
+                      onChange={(e) =>
+                        setFormData({ ...formData, decimalSeparator: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="group-separator">Grouping</Label>
+                    <Input
+                      id="group-separator"
+                      placeholder=","
+                      maxLength={1}
+                      value={formData.groupSeparator || ""}
+                      onChange={(e) => setFormData({ ...formData, groupSeparator: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Separators come from the locale unless given (e.g. de-DE reads 1.234,56). Currency
+                  symbols, percent signs, (123) and 123- are understood
                 </p>
               </div>
             )}
 
+            {formData.targetType === "date" && (
+              <>
+                <div>
+                  <Label htmlFor="format">Date Format (Optional)</Label>
+                  <Input
+                    id="format"
+                    placeholder="e.g., dd.MM.yyyy, yyyyMMdd or excel"
+                    value={formData.format || ""}
+                    onChange={(e) => setFormData({ ...formData, format: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Tokens: yyyy, yy, MMMM, MMM, MM, M, dd, d, HH, hh, mm, ss, a. Use
+                    &quot;excel&quot; for Excel serial numbers. Leave empty for automatic detection
+                    of common formats
+                  </p>
+                </div>
+
+                {!formData.format && (
+                  <div>
+                    <Label htmlFor="date-order">Numeric Dates</Label>
+                    <Select
+                      value={formData.dateOrder || "auto"}
+                      onValueChange={(value) =>
+                        setFormData({
+                          ...formData,
+                          dateOrder: value === "auto" ? undefined : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger id="date-order">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Automatic (month first when possible)</SelectItem>
+                        <SelectItem value="day_first">Day first (03/04/2024 = 3 April)</SelectItem>
+                        <SelectItem value="month_first">
+                          Month first (03/04/2024 = March 4)
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="timezone">Timezone (Optional)</Label>
+                    <Input
+                      id="timezone"
+                      placeholder="e.g., Europe/Paris"
+                      value={formData.timezone || ""}
+                      onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="locale">Month Names (Optional)</Label>
+                    <Input
+                      id="locale"
+                      placeholder="e.g., de or fr"
+                      value={formData.locale || ""}
+                      onChange={(e) => setFormData({ ...formData, locale: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Dates are read in UTC unless a timezone is given. Month names are read in English
+                  and the given locale
+                </p>
+
+                <div>
+                  <Label htmlFor="output-format">Output Format (Optional)</Label>
+                  <Input
+                    id="output-format"
+                    placeholder="e.g., yyyy-MM-dd or dd MMM yyyy"
+                    value={formData.outputFormat || ""}
+                    onChange={(e) => setFormData({ ...formData, outputFormat: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Writes dates as text in this format. Leave empty to keep date values
+                  </p>
+                </div>
+              </>
+            )}
+
             {/* Validation Preview */}
             {uploadId && formData.column && formData.targetType && (
               <div className="space-y-2">
@@ -973,6 +1896,23 @@ export function AddStepDialog({
                       </>
                     )}
 
+                    {validationResult.parsedSamples?.length > 0 && (
+                      <div className="text-xs">
+                        <div className="font-medium mb-1">Sample results:</div>
+                        <div className="rounded bg-muted p-2 space-y-1 font-mono max-h-32 overflow-y-auto">
+                          {validationResult.parsedSamples.map((sample) => (
+                            <div key={JSON.stringify(sample.value)} className="text-xs">
+                              <span>{JSON.stringify(sample.value)}</span>
+                              {" → "}
+                              <span className="text-green-700 dark:text-green-300">
+                                {sample.result}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {validationResult.invalid === 0 && (
                       <div className="text-sm text-green-600 dark:text-green-400">
                         ✓ All values can be successfully cast to {formData.targetType}
@@ -1653,6 +2593,1296 @@ export function AddStepDialog({
         );
       }
 
+      case "calculated_column": {
+        let expressionError = "";
+        if (formData.expression?.trim()) {
+          try {
+            parseExpression(formData.expression);
+          } catch (err) {
+            expressionError = err instanceof Error ? err.message : String(err);
+          }
+        }
+
+        const insertColumn = (col: string) => {
+          const reference = /^[A-Za-z_][A-Za-z0-9_]*$/.test(col) ? col : `[${col}]`;
+          const current = formData.expression || "";
+          const spacer = current && !current.endsWith(" ") ? " " : "";
+          setFormData({ ...formData, expression: `${current}${spacer}${reference}` });
+        };
+
+        return (
+          <div className="space-y-4">
+            {/* Example */}
+            <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+              <div className="font-semibold mb-1 text-foreground">Examples:</div>
+              <div className="text-muted-foreground">
+                <div>total = qty * unit_price</div>
+                <div>full_name = first || ' ' || last</div>
+                <div>size = IF(amount &gt; 100, 'large', 'small')</div>
+                <div>age_days = DATE_DIFF('day', [Order Date], [Ship Date])</div>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="calculated-new-column">New Column Name</Label>
+              <Input
+                id="calculated-new-column"
+                placeholder="e.g., total"
+                value={formData.newColumn || ""}
+                onChange={(e) => setFormData({ ...formData, newColumn: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="calculated-expression">Expression</Label>
+              <Textarea
+                id="calculated-expression"
+                className="font-mono"
+                rows={3}
+                placeholder="e.g., ROUND(qty * unit_price, 2)"
+                value={formData.expression || ""}
+                onChange={(e) => setFormData({ ...formData, expression: e.target.value })}
+              />
+              {expressionError ? (
+                <p className="text-xs text-destructive mt-1">{expressionError}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Operators: + - * / % || = != &lt; &gt; AND OR NOT. Functions: IF, CASE WHEN,
+                  COALESCE, ROUND, ABS, LEN, UPPER, LOWER, TRIM, LEFT, RIGHT, SUBSTR, REPLACE,
+                  CONCAT, DATE_DIFF, YEAR, MONTH, DAY, TO_NUMBER, TO_TEXT, TO_DATE
+                </p>
+              )}
+            </div>
+
+            <div>
+              <Label>Insert Column</Label>
+              <p className="text-sm text-muted-foreground mb-2">
+                Click a column to add it to the expression
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {availableColumns.map((col) => (
+                  <Badge
+                    key={col}
+                    variant="outline"
+                    className="cursor-pointer"
+                    onClick={() => insertColumn(col)}
+                  >
+                    {col}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="calculated-on-error">Error Handling</Label>
+              <Select
+                value={formData.onError || "fail"}
+                onValueChange={(value) => setFormData({ ...formData, onError: value })}
+              >
+                <SelectTrigger id="calculated-on-error">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fail">Fail on first error (default)</SelectItem>
+                  <SelectItem value="null">Set to null</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                What to do when a row can't be evaluated (e.g. text used in arithmetic)
+              </p>
+            </div>
+          </div>
+        );
+      }
+
+      case "append": {
+        const appendSources: Array<{ value: string; sheetName?: string; label?: string }> =
+          formData.appendSources || [];
+        const otherPipelines = (sourcePipelines || []).filter((p) => p._id !== pipelineId);
+        const otherProjects = (sourceProjects || []).filter((p) => p._id !== projectId);
+
+        const addAppendSource = () => {
+          setFormData({
+            ...formData,
+            appendSources: [...appendSources, { value: "" }],
+          });
+        };
+
+        const removeAppendSource = (index: number) => {
+          setFormData({
+            ...formData,
+            appendSources: appendSources.filter((_, i) => i !== index),
+          });
+        };
+
+        const updateAppendSource = (index: number, field: string, value: string) => {
+          const updated = [...appendSources];
+          updated[index] = { ...updated[index], [field]: value };
+          setFormData({ ...formData, appendSources: updated });
+        };
+
+        return (
+          <div className="space-y-4">
+            {/* Example */}
+            <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+              <div className="font-semibold mb-1 text-foreground">Example:</div>
+              <div className="text-muted-foreground">
+                <div>Current sheet "Jan" + sheets "Feb", "Mar" → one table</div>
+                <div>Tag column "Month" records which sheet each row came from</div>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label>Sources</Label>
+                <Button type="button" variant="outline" size="sm" onClick={addAppendSource}>
+                  + Add Source
+                </Button>
+              </div>
+
+              {appendSources.length === 0 ? (
+                <div className="text-sm text-muted-foreground p-4 border-2 border-dashed rounded-lg text-center">
+                  Click "Add Source" to append rows from a sheet, file or pipeline
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {appendSources.map((source, index) => (
+                    <div
+                      key={`${source.value}-${index}`}
+                      className="flex flex-wrap items-center gap-2 p-2 border rounded-lg"
+                    >
+                      <select
+                        className="flex-1 h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                        value={source.value}
+                        onChange={(e) => updateAppendSource(index, "value", e.target.value)}
+                      >
+                        <option value="">Select a source</option>
+                        {workbookSheets.length > 0 && (
+                          <optgroup label="Sheets in this workbook">
+                            {workbookSheets.map((sheet) => (
+                              <option key={sheet} value={`sheet:${sheet}`}>
+                                {sheet}
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                        {otherProjects.length > 0 && (
+                          <optgroup label="Other files">
+                            {otherProjects.map((p) => (
+                              <option key={p._id} value={`upload:${p.uploadId}`}>
+                                {p.upload?.originalName ?? p.name}
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                        {otherPipelines.length > 0 && (
+                          <optgroup label="Pipeline results">
+                            {otherPipelines.map((p) => (
+                              <option key={p._id} value={`pipeline:${p._id}`}>
+                                {p.name}
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
+
+                      {source.value.startsWith("upload:") && (
+                        <Input
+                          className="w-32 h-9"
+                          placeholder="Sheet (optional)"
+                          value={source.sheetName || ""}
+                          onChange={(e) => updateAppendSource(index, "sheetName", e.target.value)}
+                        />
+                      )}
+
+                      <Input
+                        className="w-32 h-9"
+                        placeholder="Label"
+                        value={source.label || ""}
+                        onChange={(e) => updateAppendSource(index, "label", e.target.value)}
+                      />
+
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeAppendSource(index)}
+                        className="h-8 w-8 p-0 text-destructive"
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="append-column-mode">Columns</Label>
+              <Select
+                value={formData.columnMode || "union"}
+                onValueChange={(value) => setFormData({ ...formData, columnMode: value })}
+              >
+                <SelectTrigger id="append-column-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="union">Keep all columns (fill missing with null)</SelectItem>
+                  <SelectItem value="intersection">Keep only columns in every source</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="append-source-column">Source Tag Column (Optional)</Label>
+                <Input
+                  id="append-source-column"
+                  placeholder="e.g., Month"
+                  value={formData.sourceColumn || ""}
+                  onChange={(e) => setFormData({ ...formData, sourceColumn: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="append-current-label">Label for Current Rows</Label>
+                <Input
+                  id="append-current-label"
+                  placeholder="current"
+                  value={formData.currentLabel || ""}
+                  onChange={(e) => setFormData({ ...formData, currentLabel: e.target.value })}
+                  disabled={!formData.sourceColumn}
+                />
+              </div>
+            </div>
+          </div>
+        );
+      }
+
+      case "group_by": {
+        const aggregations: Array<{
+          column?: string;
+          aggregation: string;
+          newColumn: string;
+          separator?: string;
+        }> = formData.aggregations || [];
+
+        const valueColumns = availableColumns.filter((col) => !selectedColumns.includes(col));
+
+        const defaultName = (column: string | undefined, aggregation: string) =>
+          column ? `${column}_${aggregation}` : "row_count";
+
+        const addAggregation = () => {
+          const column = valueColumns[0];
+          setFormData({
+            ...formData,
+            aggregations: [
+              ...aggregations,
+              { column, aggregation: "sum", newColumn: defaultName(column, "sum") },
+            ],
+          });
+        };
+
+        const removeAggregation = (index: number) => {
+          setFormData({
+            ...formData,
+            aggregations: aggregations.filter((_, i) => i !== index),
+          });
+        };
+
+        const updateAggregation = (index: number, field: string, value: string) => {
+          const updated = [...aggregations];
+          const previous = updated[index];
+          const next = { ...previous, [field]: value || undefined };
+          // Keep generated names in sync until the user renames the column
+          if (
+            field !== "newColumn" &&
+            previous.newColumn === defaultName(previous.column, previous.aggregation)
+          ) {
+            next.newColumn = defaultName(next.column, next.aggregation);
+          }
+          updated[index] = next;
+          setFormData({ ...formData, aggregations: updated });
+        };
+
+        return (
+          <div className="space-y-4">
+            {/* Example */}
+            <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+              <div className="font-semibold mb-1 text-foreground">Example:</div>
+              <div className="text-muted-foreground">
+                <div>Group by Region, Sales → sum as Total</div>
+                <div>North, 100 + North, 200 → North, Total=300</div>
+              </div>
+            </div>
+
+            <div>
+              <Label>Group By Columns</Label>
+              <p className="text-sm text-muted-foreground mb-2">
+                Rows with the same values in these columns are combined. Leave empty to summarize
+                the whole table.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {availableColumns.map((col) => (
+                  <Badge
+                    key={col}
+                    variant={selectedColumns.includes(col) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => toggleColumn(col)}
+                  >
+                    {col}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label>Aggregations</Label>
+                <Button type="button" variant="outline" size="sm" onClick={addAggregation}>
+                  + Add Aggregation
+                </Button>
+              </div>
+
+              {aggregations.length === 0 ? (
+                <div className="text-sm text-muted-foreground p-4 border-2 border-dashed rounded-lg text-center">
+                  Click "Add Aggregation" to compute values for each group
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {aggregations.map((agg, index) => (
+                    <div
+                      key={`${agg.column}-${agg.aggregation}-${index}`}
+                      className="flex flex-wrap items-center gap-2 p-2 border rounded-lg"
+                    >
+                      <select
+                        className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                        value={agg.aggregation}
+                        onChange={(e) => updateAggregation(index, "aggregation", e.target.value)}
+                      >
+                        <option value="sum">Sum</option>
+                        <option value="mean">Mean</option>
+                        <option value="median">Median</option>
+                        <option value="min">Min</option>
+                        <option value="max">Max</option>
+                        <option value="count">Count</option>
+                        <option value="count_distinct">Count Distinct</option>
+                        <option value="first">First</option>
+                        <option value="last">Last</option>
+                        <option value="string_agg">Join Text</option>
+                      </select>
+
+                      <select
+                        className="flex-1 h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                        value={agg.column ?? ""}
+                        onChange={(e) => updateAggregation(index, "column", e.target.value)}
+                      >
+                        {agg.aggregation === "count" && <option value="">(rows)</option>}
+                        {availableColumns.map((col) => (
+                          <option key={col} value={col}>
+                            {col}
+                          </option>
+                        ))}
+                      </select>
+
+                      <span className="text-sm text-muted-foreground">as</span>
+
+                      <Input
+                        className="flex-1 h-9"
+                        placeholder="Column name"
+                        value={agg.newColumn}
+                        onChange={(e) => updateAggregation(index, "newColumn", e.target.value)}
+                      />
+
+                      {agg.aggregation === "string_agg" && (
+                        <Input
+                          className="w-20 h-9"
+                          placeholder=", "
+                          value={agg.separator ?? ""}
+                          onChange={(e) => updateAggregation(index, "separator", e.target.value)}
+                        />
+                      )}
+
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeAggregation(index)}
+                        className="h-8 w-8 p-0 text-destructive"
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      }
+
+      case "assert": {
+        const rules: Array<Record<string, any>> = formData.rules || [];
+
+        const addRule = () => {
+          setFormData({
+            ...formData,
+            rules: [...rules, { kind: "not_null", column: availableColumns[0], severity: "fail" }],
+          });
+        };
+
+        const removeRule = (index: number) => {
+          setFormData({ ...formData, rules: rules.filter((_, i) => i !== index) });
+        };
+
+        const updateRule = (index: number, field: string, value: unknown) => {
+          const updated = [...rules];
+          updated[index] = { ...updated[index], [field]: value };
+          if (field === "kind" && value === "unique" && !updated[index].columns) {
+            updated[index].columns = updated[index].column ? [updated[index].column] : [];
+          }
+          setFormData({ ...formData, rules: updated });
+        };
+
+        const toggleRuleColumn = (index: number, column: string) => {
+          const columns: string[] = rules[index].columns || [];
+          updateRule(
+            index,
+            "columns",
+            columns.includes(column) ? columns.filter((c) => c !== column) : [...columns, column],
+          );
+        };
+
+        return (
+          <div className="space-y-4">
+            {/* Example */}
+            <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+              <div className="font-semibold mb-1 text-foreground">Example:</div>
+              <div className="text-muted-foreground">
+                <div>email is not null · id is unique · row count ≥ 1</div>
+                <div>Data is unchanged; failing "Fail" rules stop the pipeline</div>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label>Rules</Label>
+                <Button type="button" variant="outline" size="sm" onClick={addRule}>
+                  + Add Rule
+                </Button>
+              </div>
+
+              {rules.length === 0 ? (
+                <div className="text-sm text-muted-foreground p-4 border-2 border-dashed rounded-lg text-center">
+                  Click "Add Rule" to define what the data must satisfy
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {rules.map((rule, index) => (
+                    <div
+                      key={`${rule.kind}-${index}`}
+                      className="flex flex-wrap items-center gap-2 p-2 border rounded-lg"
+                    >
+                      <select
+                        className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                        value={rule.kind}
+                        onChange={(e) => updateRule(index, "kind", e.target.value)}
+                      >
+                        <option value="not_null">Not null</option>
+                        <option value="unique">Unique</option>
+                        <option value="in_set">In value set</option>
+                        <option value="matches_regex">Matches regex</option>
+                        <option value="range">Numeric range</option>
+                        <option value="row_count">Row count</option>
+                        <option value="column_type">Column exists</option>
+                      </select>
+
+                      {rule.kind !== "unique" && rule.kind !== "row_count" && (
+                        <select
+                          className="flex-1 h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                          value={rule.column ?? ""}
+                          onChange={(e) => updateRule(index, "column", e.target.value)}
+                        >
+                          <option value="" disabled>
+                            Column
+                          </option>
+                          {availableColumns.map((col) => (
+                            <option key={col} value={col}>
+                              {col}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+
+                      {rule.kind === "in_set" && (
+                        <Input
+                          className="flex-1 h-9"
+                          placeholder="Allowed values, comma separated"
+                          value={rule.values ?? ""}
+                          onChange={(e) => updateRule(index, "values", e.target.value)}
+                        />
+                      )}
+
+                      {rule.kind === "matches_regex" && (
+                        <Input
+                          className="flex-1 h-9 font-mono"
+                          placeholder="^[A-Z]{2}\d+$"
+                          value={rule.pattern ?? ""}
+                          onChange={(e) => updateRule(index, "pattern", e.target.value)}
+                        />
+                      )}
+
+                      {(rule.kind === "range" || rule.kind === "row_count") && (
+                        <>
+                          <Input
+                            className="w-24 h-9"
+                            type="number"
+                            placeholder="Min"
+                            value={rule.min ?? ""}
+                            onChange={(e) => updateRule(index, "min", e.target.value)}
+                          />
+                          <Input
+                            className="w-24 h-9"
+                            type="number"
+                            placeholder="Max"
+                            value={rule.max ?? ""}
+                            onChange={(e) => updateRule(index, "max", e.target.value)}
+                          />
+                        </>
+                      )}
+
+                      {rule.kind === "column_type" && (
+                        <select
+                          className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                          value={rule.columnType ?? ""}
+                          onChange={(e) => updateRule(index, "columnType", e.target.value)}
+                        >
+                          <option value="">Any type</option>
+                          <option value="string">Text</option>
+                          <option value="number">Number</option>
+                          <option value="boolean">Boolean</option>
+                          <option value="date">Date</option>
+                        </select>
+                      )}
+
+                      <select
+                        className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                        value={rule.severity ?? "fail"}
+                        onChange={(e) => updateRule(index, "severity", e.target.value)}
+                      >
+                        <option value="fail">Fail</option>
+                        <option value="warn">Warn</option>
+                      </select>
+
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeRule(index)}
+                        className="h-8 w-8 p-0 text-destructive"
+                      >
+                        ×
+                      </Button>
+
+                      {rule.kind === "unique" && (
+                        <div className="flex w-full flex-wrap gap-2">
+                          {availableColumns.map((col) => (
+                            <Badge
+                              key={col}
+                              variant={(rule.columns || []).includes(col) ? "default" : "outline"}
+                              className="cursor-pointer"
+                              onClick={() => toggleRuleColumn(index, col)}
+                            >
+                              {col}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Empty values pass every rule except Not null. In quarantine mode, rows failing a Fail
+              rule go to the rejected rows instead of stopping the pipeline.
+            </p>
+          </div>
+        );
+      }
+
+      case "join": {
+        const joinKeys: Array<{ left: string; right: string }> = formData.joinKeys || [];
+        const sourceType = formData.source?.split(":")[0];
+
+        const addJoinKey = () => {
+          const left = availableColumns[0] || "";
+          const right = joinSourceColumns.includes(left) ? left : joinSourceColumns[0] || "";
+          setFormData({ ...formData, joinKeys: [...joinKeys, { left, right }] });
+        };
+
+        const removeJoinKey = (index: number) => {
+          setFormData({ ...formData, joinKeys: joinKeys.filter((_, i) => i !== index) });
+        };
+
+        const updateJoinKey = (index: number, field: "left" | "right", value: string) => {
+          const updated = [...joinKeys];
+          updated[index] = { ...updated[index], [field]: value };
+          setFormData({ ...formData, joinKeys: updated });
+        };
+
+        const otherPipelines = (sourcePipelines || []).filter((p) => p._id !== pipelineId);
+
+        return (
+          <div className="space-y-4">
+            {/* Example */}
+            <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+              <div className="font-semibold mb-1 text-foreground">Example:</div>
+              <div className="text-muted-foreground">
+                <div>Current: code=A1, qty=3 · Source: product_code=A1, name=Widget</div>
+                <div>Left join on code = product_code → code=A1, qty=3, name=Widget</div>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="join-source">Join With</Label>
+              <Select
+                value={formData.source || ""}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, source: value, sheetName: undefined })
+                }
+              >
+                <SelectTrigger id="join-source">
+                  <SelectValue placeholder="Select a file or pipeline" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherPipelines.map((p) => (
+                    <SelectItem key={p._id} value={`pipeline:${p._id}`}>
+                      Pipeline result: {p.name}
+                    </SelectItem>
+                  ))}
+                  {(sourceProjects || []).map((p) => (
+                    <SelectItem key={p._id} value={`upload:${p.uploadId}`}>
+                      File: {p.upload?.originalName ?? p.name}
+                      {p._id === projectId ? " (this project)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {sourceType === "pipeline" && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Uses the stored results, so execute that pipeline first
+                </p>
+              )}
+            </div>
+
+            {sourceType === "upload" && (
+              <div>
+                <Label htmlFor="join-sheet">Sheet Name (Optional)</Label>
+                <Input
+                  id="join-sheet"
+                  placeholder="Defaults to the file's configured sheet"
+                  value={formData.sheetName || ""}
+                  onChange={(e) => setFormData({ ...formData, sheetName: e.target.value })}
+                />
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="join-type">Join Type</Label>
+              <Select
+                value={formData.joinType || "left"}
+                onValueChange={(value) => setFormData({ ...formData, joinType: value })}
+              >
+                <SelectTrigger id="join-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="left">Left (keep all current rows)</SelectItem>
+                  <SelectItem value="inner">Inner (only matching rows)</SelectItem>
+                  <SelectItem value="full">Full (keep all rows from both)</SelectItem>
+                  <SelectItem value="anti">Anti (only rows without a match)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label>Key Columns</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addJoinKey}
+                  disabled={!availableColumns.length}
+                >
+                  + Add Key
+                </Button>
+              </div>
+
+              {joinKeys.length === 0 ? (
+                <div className="text-sm text-muted-foreground p-4 border-2 border-dashed rounded-lg text-center">
+                  Click "Add Key" to match rows on a column
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {joinKeys.map((key, index) => (
+                    <div
+                      key={`${key.left}-${key.right}-${index}`}
+                      className="flex items-center gap-2 p-2 border rounded-lg"
+                    >
+                      <select
+                        className="flex-1 h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                        value={key.left}
+                        onChange={(e) => updateJoinKey(index, "left", e.target.value)}
+                      >
+                        {availableColumns.map((col) => (
+                          <option key={col} value={col}>
+                            {col}
+                          </option>
+                        ))}
+                      </select>
+
+                      <span className="text-sm text-muted-foreground">=</span>
+
+                      <Input
+                        className="flex-1 h-9"
+                        list="join-source-columns"
+                        placeholder="Source column"
+                        value={key.right}
+                        onChange={(e) => updateJoinKey(index, "right", e.target.value)}
+                      />
+
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeJoinKey(index)}
+                        className="h-8 w-8 p-0 text-destructive"
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <datalist id="join-source-columns">
+                {joinSourceColumns.map((col) => (
+                  <option key={col} value={col} />
+                ))}
+              </datalist>
+            </div>
+
+            <div>
+              <Label htmlFor="join-suffix">Suffix for Clashing Columns</Label>
+              <Input
+                id="join-suffix"
+                placeholder="_right"
+                value={formData.suffix ?? "_right"}
+                onChange={(e) => setFormData({ ...formData, suffix: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Source columns whose names already exist get this suffix (e.g. name → name_right)
+              </p>
+            </div>
+          </div>
+        );
+      }
+
+      case "replace":
+        return (
+          <div className="space-y-4">
+            <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+              <div className="font-semibold mb-1 text-foreground">Examples:</div>
+              <div className="text-muted-foreground">
+                <div>Find "St." → Replace "Street": "12 High St." → "12 High Street"</div>
+                <div>Find "N/A" (whole cell) → Replace "": "N/A" → ""</div>
+                <div>Regex "(\d+)-(\d+)" → Replace "$2-$1": "10-20" → "20-10"</div>
+              </div>
+            </div>
+            <div>
+              <Label>Select Columns</Label>
+              <p className="text-sm text-muted-foreground mb-2">
+                Choose which columns to apply this transformation to
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {availableColumns.map((col) => (
+                  <Badge
+                    key={col}
+                    variant={selectedColumns.includes(col) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => toggleColumn(col)}
+                  >
+                    {col}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="replace-find">Find</Label>
+              <Input
+                id="replace-find"
+                className="font-mono"
+                placeholder={formData.useRegex ? "e.g., \\$\\s*" : "e.g., N/A"}
+                value={formData.find || ""}
+                onChange={(e) => setFormData({ ...formData, find: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="replace-with">Replace With</Label>
+              <Input
+                id="replace-with"
+                className="font-mono"
+                placeholder="Leave empty to remove matches"
+                value={formData.replaceWith || ""}
+                onChange={(e) => setFormData({ ...formData, replaceWith: e.target.value })}
+              />
+              {formData.useRegex && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Use $1, $2, ... to insert capture groups
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.useRegex || false}
+                  onChange={(e) => setFormData({ ...formData, useRegex: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm">Use regular expression</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.caseSensitive !== false}
+                  onChange={(e) => setFormData({ ...formData, caseSensitive: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm">Case sensitive</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.matchEntireCell || false}
+                  onChange={(e) => setFormData({ ...formData, matchEntireCell: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm">Match entire cell</span>
+              </label>
+            </div>
+          </div>
+        );
+
+      case "format_number":
+        return (
+          <div className="space-y-4">
+            <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+              <div className="font-semibold mb-1 text-foreground">Examples:</div>
+              <div className="text-muted-foreground">
+                <div>2 decimals: 1234.5 → "1,234.50"</div>
+                <div>Locale de-DE, currency EUR: 1234.5 → "1.234,50 €"</div>
+              </div>
+            </div>
+            <div>
+              <Label>Select Columns</Label>
+              <p className="text-sm text-muted-foreground mb-2">
+                Choose which columns to format (the columns become text)
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {availableColumns.map((col) => (
+                  <Badge
+                    key={col}
+                    variant={selectedColumns.includes(col) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => toggleColumn(col)}
+                  >
+                    {col}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label htmlFor="format-decimals">Decimals</Label>
+                <Input
+                  id="format-decimals"
+                  type="number"
+                  min={0}
+                  max={20}
+                  placeholder="Auto"
+                  value={formData.decimals ?? ""}
+                  onChange={(e) => setFormData({ ...formData, decimals: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="format-locale">Locale</Label>
+                <Input
+                  id="format-locale"
+                  placeholder="en-US"
+                  value={formData.locale || ""}
+                  onChange={(e) => setFormData({ ...formData, locale: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="format-currency">Currency</Label>
+                <Input
+                  id="format-currency"
+                  placeholder="e.g., EUR"
+                  maxLength={3}
+                  value={formData.currency || ""}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.grouping !== false}
+                onChange={(e) => setFormData({ ...formData, grouping: e.target.checked })}
+                className="rounded"
+              />
+              <span className="text-sm">Group thousands</span>
+            </label>
+          </div>
+        );
+
+      case "cluster_values": {
+        const method: ClusterMethod = formData.method || "fingerprint";
+        const updateCluster = (index: number, update: Partial<ClusterReview>) =>
+          setClusterReview(
+            clusterReview.map((cluster, i) => (i === index ? { ...cluster, ...update } : cluster)),
+          );
+        return (
+          <div className="space-y-4">
+            <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+              <div className="font-semibold mb-1 text-foreground">Example:</div>
+              <div className="text-muted-foreground">
+                <div>"ACME Inc.", "Acme, Inc", "acme inc" → "ACME Inc."</div>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="cluster-column">Column</Label>
+              <Select
+                value={formData.column || ""}
+                onValueChange={(value) => {
+                  setFormData({ ...formData, column: value });
+                  setClusterReview([]);
+                  setClusterSearch(null);
+                }}
+              >
+                <SelectTrigger id="cluster-column">
+                  <SelectValue placeholder="Select column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableColumns.map((col) => (
+                    <SelectItem key={col} value={col}>
+                      {col}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="cluster-method">Method</Label>
+                <Select
+                  value={method}
+                  onValueChange={(value) => setFormData({ ...formData, method: value })}
+                >
+                  <SelectTrigger id="cluster-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fingerprint">Fingerprint (same words)</SelectItem>
+                    <SelectItem value="metaphone">Sounds alike (Double Metaphone)</SelectItem>
+                    <SelectItem value="levenshtein">Edit distance (Levenshtein)</SelectItem>
+                    <SelectItem value="jaro_winkler">Jaro-Winkler</SelectItem>
+                    <SelectItem value="token_set">Shared words (token set)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {!isKeyingMethod(method) && (
+                <div>
+                  <Label htmlFor="cluster-threshold">Similarity Threshold</Label>
+                  <Input
+                    id="cluster-threshold"
+                    type="number"
+                    min={0.05}
+                    max={1}
+                    step={0.05}
+                    placeholder={String(DEFAULT_CLUSTER_THRESHOLDS[method])}
+                    value={formData.threshold ?? ""}
+                    onChange={(e) => setFormData({ ...formData, threshold: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+
+            {projectId && (
+              <div className="flex items-center justify-between">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleFindClusters}
+                  disabled={clustersLoading || !formData.column}
+                >
+                  {clustersLoading ? (
+                    <>
+                      <Spinner className="size-3 mr-2" />
+                      Finding clusters...
+                    </>
+                  ) : (
+                    "Find Clusters"
+                  )}
+                </Button>
+                {clusterSearch && (
+                  <span className="text-xs text-muted-foreground">
+                    {clusterReview.length} clusters in {clusterSearch.distinctValues} distinct
+                    values
+                    {clusterSearch.truncated ? " (most frequent values only)" : ""}
+                  </span>
+                )}
+              </div>
+            )}
+
+            {clusterReview.length > 0 && (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                <p className="text-sm text-muted-foreground">
+                  Tick the clusters to merge and choose the value they become. Click a variant to
+                  use it as the canonical value.
+                </p>
+                {clusterReview.map((cluster, index) => (
+                  <div
+                    key={cluster.values.map((entry) => entry.value).join("\u0000")}
+                    className="rounded-lg border p-2 space-y-2"
+                  >
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={cluster.merge}
+                        onChange={(e) => updateCluster(index, { merge: e.target.checked })}
+                        className="rounded"
+                        aria-label="Merge this cluster"
+                      />
+                      <Input
+                        value={cluster.canonical}
+                        onChange={(e) =>
+                          updateCluster(index, { canonical: e.target.value, merge: true })
+                        }
+                        className="h-8"
+                      />
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {cluster.values.map((entry) => (
+                        <Badge
+                          key={entry.value}
+                          variant={entry.value === cluster.canonical ? "default" : "outline"}
+                          className="cursor-pointer font-mono"
+                          onClick={() =>
+                            updateCluster(index, { canonical: entry.value, merge: true })
+                          }
+                        >
+                          {JSON.stringify(entry.value)}
+                          {entry.count !== undefined ? ` ×${entry.count}` : ""}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      case "map_values": {
+        const mappings: MappingRow[] = formData.mappings || [];
+
+        const addMapping = () => {
+          setFormData({
+            ...formData,
+            mappings: [...mappings, { id: crypto.randomUUID(), from: "", to: "" }],
+          });
+        };
+
+        const removeMapping = (index: number) => {
+          setFormData({ ...formData, mappings: mappings.filter((_, i) => i !== index) });
+        };
+
+        const updateMapping = (index: number, field: keyof ValueMapping, value: string) => {
+          setFormData({
+            ...formData,
+            mappings: mappings.map((mapping, i) =>
+              i === index ? { ...mapping, [field]: value } : mapping,
+            ),
+          });
+        };
+
+        // Imported mappings are added after the ones already filled in
+        const importMappings = async (file: File | undefined) => {
+          if (!file) return;
+          try {
+            const imported = parseValueMappings(await file.text(), formData.hasHeaders !== false);
+            if (imported.length === 0) {
+              setError("The file has no mappings");
+              return;
+            }
+            setError("");
+            setFormData({
+              ...formData,
+              mappings: [
+                ...mappings.filter((mapping) => mapping.from !== "" || mapping.to !== ""),
+                ...toMappingRows(imported),
+              ],
+            });
+          } catch (err) {
+            setError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+          }
+        };
+
+        return (
+          <div className="space-y-4">
+            <div className="rounded-lg bg-muted/50 p-3 text-xs font-mono">
+              <div className="font-semibold mb-1 text-foreground">Example:</div>
+              <div className="text-muted-foreground">
+                <div>"UK" → "United Kingdom", "DE" → "Germany"</div>
+                <div>Otherwise "Other": "FR" → "Other"</div>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="map-column">Column</Label>
+              <Select
+                value={formData.column || ""}
+                onValueChange={(value) => setFormData({ ...formData, column: value })}
+              >
+                <SelectTrigger id="map-column">
+                  <SelectValue placeholder="Select column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableColumns.map((col) => (
+                    <SelectItem key={col} value={col}>
+                      {col}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label>Mappings</Label>
+                <Button type="button" variant="outline" size="sm" onClick={addMapping}>
+                  + Add Mapping
+                </Button>
+              </div>
+
+              {mappings.length === 0 ? (
+                <div className="text-sm text-muted-foreground p-4 border-2 border-dashed rounded-lg text-center">
+                  Click "Add Mapping" or import a CSV file of values and replacements
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-80 overflow-y-auto">
+                  <div className="grid grid-cols-[1fr_1fr_2rem] gap-2 text-xs text-muted-foreground">
+                    <span>Value</span>
+                    <span>Replace with</span>
+                  </div>
+                  {mappings.map((mapping, index) => (
+                    <div
+                      key={mapping.id}
+                      className="grid grid-cols-[1fr_1fr_2rem] items-center gap-2"
+                    >
+                      <Input
+                        className="h-8 font-mono"
+                        placeholder="(empty)"
+                        value={mapping.from}
+                        onChange={(e) => updateMapping(index, "from", e.target.value)}
+                      />
+                      <Input
+                        className="h-8 font-mono"
+                        placeholder="(empty)"
+                        value={mapping.to}
+                        onChange={(e) => updateMapping(index, "to", e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeMapping(index)}
+                        className="h-8 w-8 p-0 text-destructive"
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="map-import">Import from CSV</Label>
+              <p className="text-sm text-muted-foreground">
+                Two columns: the value, then its replacement
+              </p>
+              <Input
+                id="map-import"
+                type="file"
+                accept=".csv,.tsv,.txt"
+                onChange={(e) => {
+                  importMappings(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.hasHeaders !== false}
+                  onChange={(e) => setFormData({ ...formData, hasHeaders: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm">First row is a header</span>
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.caseSensitive === false}
+                  onChange={(e) => setFormData({ ...formData, caseSensitive: !e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm">Ignore case</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.useDefault || false}
+                  onChange={(e) => setFormData({ ...formData, useDefault: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm">Replace values without a mapping</span>
+              </label>
+              {formData.useDefault && (
+                <Input
+                  placeholder="Default value (leave empty to clear)"
+                  value={formData.defaultValue || ""}
+                  onChange={(e) => setFormData({ ...formData, defaultValue: e.target.value })}
+                />
+              )}
+            </div>
+          </div>
+        );
+      }
+
       default:
         return null;
     }
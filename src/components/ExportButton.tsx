@@ -1,14 +1,45 @@
 /**
  * Export Button Component
- * Uses server-side SQLite export for streaming CSV downloads
+ * Uses server-side SQLite export for downloads; the format is chosen from a menu.
+ * Single pipelines can also be downloaded as a recipe (steps and parse settings).
  */
 
 "use client";
 
-import { Download } from "lucide-react";
+import { ChevronDown, Download } from "lucide-react";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import type { RecipeFileFormat } from "@/lib/pipeline/recipes";
+
+export type ExportFormat = "csv" | "xlsx" | "json" | "ndjson" | "parquet";
+
+const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel (XLSX)" },
+  { value: "json", label: "JSON" },
+  { value: "ndjson", label: "JSON Lines (NDJSON)" },
+  { value: "parquet", label: "Parquet" },
+];
+
+const RECIPE_FORMATS: Array<{ value: RecipeFileFormat; label: string }> = [
+  { value: "json", label: "Recipe (JSON)" },
+  { value: "yaml", label: "Recipe (YAML)" },
+];
+
+/** Formats of the export-all route */
+const EXPORT_ALL_FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: "csv", label: "CSV files (ZIP)" },
+  { value: "xlsx", label: "Excel workbook (XLSX)" },
+];
 
 interface ExportButtonProps {
   /** Project ID */
@@ -17,7 +48,7 @@ interface ExportButtonProps {
   pipelineId?: string;
   /** Export raw data instead of pipeline results */
   exportRaw?: boolean;
-  /** Export all pipelines as ZIP */
+  /** Export all pipelines (ZIP of CSVs, or one workbook for XLSX) */
   exportAll?: boolean;
   /** Disabled state */
   disabled?: boolean;
@@ -33,7 +64,7 @@ export function ExportButton({
   const { toast } = useToast();
   const [isExporting, setIsExporting] = useState(false);
 
-  const handleExport = async () => {
+  const downloadExport = async (getUrl: () => string, defaultFilename: string) => {
     // Prevent concurrent exports
     if (isExporting) {
       toast({
@@ -47,18 +78,8 @@ export function ExportButton({
     setIsExporting(true);
 
     try {
-      // Build export URL
-      let url: string;
-      if (exportAll) {
-        url = `/api/projects/${projectId}/export-all`;
-      } else if (!pipelineId) {
-        throw new Error("pipelineId is required for single pipeline export");
-      } else {
-        url = `/api/projects/${projectId}/pipelines/${pipelineId}/export${exportRaw ? "?raw=true" : ""}`;
-      }
-
       // Fetch from server
-      const response = await fetch(url);
+      const response = await fetch(getUrl());
 
       if (!response.ok) {
         const error = await response.json();
@@ -68,7 +89,7 @@ export function ExportButton({
       // Get filename from Content-Disposition header
       const contentDisposition = response.headers.get("Content-Disposition");
       const filenameMatch = contentDisposition?.match(/filename="(.+)"/);
-      const filename = filenameMatch?.[1] || (exportAll ? "export.zip" : "export.csv");
+      const filename = filenameMatch?.[1] || defaultFilename;
 
       // Get blob
       const blob = await response.blob();
@@ -102,22 +123,76 @@ export function ExportButton({
     }
   };
 
+  const handleExport = (format: ExportFormat) =>
+    downloadExport(
+      () => {
+        // Build export URL
+        const query = new URLSearchParams();
+        if (format !== "csv") query.set("format", format);
+        if (exportRaw && !exportAll) query.set("raw", "true");
+        const queryString = query.toString() ? `?${query.toString()}` : "";
+
+        if (exportAll) {
+          return `/api/projects/${projectId}/export-all${queryString}`;
+        }
+        if (!pipelineId) {
+          throw new Error("pipelineId is required for single pipeline export");
+        }
+        return `/api/projects/${projectId}/pipelines/${pipelineId}/export${queryString}`;
+      },
+      exportAll && format === "csv" ? "export.zip" : `export.${format}`,
+    );
+
+  const handleExportRecipe = (format: RecipeFileFormat) =>
+    downloadExport(
+      () => `/api/projects/${projectId}/pipelines/${pipelineId}/recipe?format=${format}`,
+      `recipe.${format}`,
+    );
+
+  const formats = exportAll ? EXPORT_ALL_FORMATS : EXPORT_FORMATS;
+  const showRecipes = Boolean(pipelineId) && !exportAll && !exportRaw;
+
   return (
-    <Button
-      onClick={handleExport}
-      disabled={disabled || isExporting}
-      variant="default"
-      size="default"
-      title={
-        exportAll
-          ? "Export all pipelines as ZIP"
-          : exportRaw
-            ? "Export raw data as CSV"
-            : "Export pipeline results as CSV"
-      }
-    >
-      <Download className="mr-2 h-4 w-4" />
-      {isExporting ? "Exporting..." : exportAll ? "Export All (ZIP)" : "Export CSV"}
-    </Button>
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          disabled={disabled || isExporting}
+          variant="default"
+          size="default"
+          title={
+            exportAll
+              ? "Export raw data and all pipelines"
+              : exportRaw
+                ? "Export raw data"
+                : "Export pipeline results"
+          }
+        >
+          <Download className="mr-2 h-4 w-4" />
+          {isExporting ? "Exporting..." : exportAll ? "Export All" : "Export"}
+          <ChevronDown className="ml-2 h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {formats.map((format) => (
+          <DropdownMenuItem key={format.value} onSelect={() => handleExport(format.value)}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+        {showRecipes && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Pipeline recipe</DropdownMenuLabel>
+            {RECIPE_FORMATS.map((format) => (
+              <DropdownMenuItem
+                key={format.value}
+                onSelect={() => handleExportRecipe(format.value)}
+              >
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
   );
 }
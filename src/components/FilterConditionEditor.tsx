@@ -0,0 +1,375 @@
+"use client";
+
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type {
+  FilterCondition,
+  FilterGroup,
+  FilterNode,
+  FilterOperator,
+  FilterValue,
+} from "@/lib/pipeline/types";
+
+export const FILTER_OPERATORS: Array<{ value: FilterOperator; label: string }> = [
+  { value: "equals", label: "Equals" },
+  { value: "not_equals", label: "Not Equals" },
+  { value: "contains", label: "Contains" },
+  { value: "not_contains", label: "Not Contains" },
+  { value: "starts_with", label: "Starts With" },
+  { value: "ends_with", label: "Ends With" },
+  { value: "matches_regex", label: "Matches Regex" },
+  { value: "greater_than", label: "Greater Than" },
+  { value: "greater_or_equal", label: "Greater Or Equal" },
+  { value: "less_than", label: "Less Than" },
+  { value: "less_or_equal", label: "Less Or Equal" },
+  { value: "between", label: "Between" },
+  { value: "in", label: "In List" },
+  { value: "not_in", label: "Not In List" },
+  { value: "is_null", label: "Is Empty" },
+  { value: "not_null", label: "Is Not Empty" },
+];
+
+const selectClassName = "h-9 rounded-md border border-input bg-background px-3 py-1 text-sm";
+
+export function createFilterCondition(): FilterCondition {
+  return { kind: "condition", column: "", operator: "equals", value: "" };
+}
+
+/**
+ * Wrap a condition tree so the editor always starts from an AND/OR group
+ */
+export function toEditableFilter(node: FilterNode | undefined): FilterNode {
+  if (!node) {
+    return { kind: "and", conditions: [createFilterCondition()] };
+  }
+  if (node.kind === "condition") {
+    return { kind: "and", conditions: [node] };
+  }
+  return node;
+}
+
+/**
+ * Drop empty list entries left over from editing
+ */
+export function cleanFilterTree(node: FilterNode): FilterNode {
+  switch (node.kind) {
+    case "and":
+    case "or":
+      return { ...node, conditions: node.conditions.map(cleanFilterTree) };
+    case "not":
+      return { ...node, condition: cleanFilterTree(node.condition) };
+    case "condition":
+      return node.operator === "in" || node.operator === "not_in"
+        ? { ...node, values: (node.values || []).filter((v) => v !== "") }
+        : node;
+  }
+}
+
+/**
+ * Check every condition in the tree is complete
+ * Returns an error message for the first incomplete condition, or null
+ */
+export function validateFilterTree(node: FilterNode): string | null {
+  switch (node.kind) {
+    case "and":
+    case "or":
+      if (node.conditions.length === 0) {
+        return "Each group needs at least one condition";
+      }
+      for (const child of node.conditions) {
+        const error = validateFilterTree(child);
+        if (error) return error;
+      }
+      return null;
+
+    case "not":
+      return validateFilterTree(node.condition);
+
+    case "condition":
+      if (!node.column) {
+        return "Please select a column for every condition";
+      }
+      switch (node.operator) {
+        case "is_null":
+        case "not_null":
+          return null;
+        case "in":
+        case "not_in":
+          return node.values?.some((v) => v !== "")
+            ? null
+            : `Please enter at least one value for ${node.column}`;
+        case "between":
+          return node.values?.length === 2 && node.values.every((v) => v !== "")
+            ? null
+            : `Please enter both bounds for ${node.column}`;
+        default:
+          return node.value === undefined || node.value === ""
+            ? `Please enter a value for ${node.column}`
+            : null;
+      }
+  }
+}
+
+interface FilterConditionEditorProps {
+  node: FilterNode;
+  columns: string[];
+  onChange: (node: FilterNode) => void;
+  onRemove?: () => void;
+}
+
+/**
+ * Editor for a filter condition tree
+ * Groups combine conditions with AND/OR, can be negated and can contain nested groups.
+ */
+export function FilterConditionEditor({
+  node,
+  columns,
+  onChange,
+  onRemove,
+}: FilterConditionEditorProps) {
+  // Keys of the child editors: the tree has no ids, so one is made for each child as it's added
+  const childIds = useRef<string[]>([]);
+
+  if (node.kind === "condition") {
+    return (
+      <ConditionRow condition={node} columns={columns} onChange={onChange} onRemove={onRemove} />
+    );
+  }
+
+  // NOT is edited as a negated group
+  const negated = node.kind === "not";
+  const inner = negated ? node.condition : node;
+  const group: FilterGroup =
+    inner.kind === "and" || inner.kind === "or" ? inner : { kind: "and", conditions: [inner] };
+
+  const update = (updated: FilterGroup, negate = negated) => {
+    onChange(negate ? { kind: "not", condition: updated } : updated);
+  };
+
+  const updateChild = (index: number, child: FilterNode) => {
+    const conditions = [...group.conditions];
+    conditions[index] = child;
+    update({ ...group, conditions });
+  };
+
+  const removeChild = (index: number) => {
+    childIds.current.splice(index, 1);
+    update({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  while (childIds.current.length < group.conditions.length) {
+    childIds.current.push(crypto.randomUUID());
+  }
+  childIds.current.length = group.conditions.length;
+
+  return (
+    <div className="space-y-2 rounded-lg border p-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Match</span>
+        <select
+          className={selectClassName}
+          value={group.kind}
+          onChange={(e) => update({ ...group, kind: e.target.value as FilterGroup["kind"] })}
+        >
+          <option value="and">all (AND)</option>
+          <option value="or">any (OR)</option>
+        </select>
+        <span className="text-muted-foreground">of these conditions</span>
+        <label className="flex items-center space-x-2 ml-auto cursor-pointer">
+          <input
+            type="checkbox"
+            checked={negated}
+            onChange={(e) => update(group, e.target.checked)}
+            className="rounded"
+          />
+          <span className="text-sm">NOT</span>
+        </label>
+        {onRemove && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            className="h-8 w-8 p-0 text-destructive"
+          >
+            ×
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((child, index) => (
+        <FilterConditionEditor
+          key={childIds.current[index]}
+          node={child}
+          columns={columns}
+          onChange={(updated) => updateChild(index, updated)}
+          onRemove={() => removeChild(index)}
+        />
+      ))}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            update({ ...group, conditions: [...group.conditions, createFilterCondition()] })
+          }
+        >
+          + Add Condition
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            update({
+              ...group,
+              conditions: [
+                ...group.conditions,
+                {
+                  kind: group.kind === "and" ? "or" : "and",
+                  conditions: [createFilterCondition()],
+                },
+              ],
+            })
+          }
+        >
+          + Add Group
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ConditionRowProps {
+  condition: FilterCondition;
+  columns: string[];
+  onChange: (node: FilterNode) => void;
+  onRemove?: () => void;
+}
+
+function ConditionRow({ condition, columns, onChange, onRemove }: ConditionRowProps) {
+  const { operator } = condition;
+  const values = condition.values || [];
+
+  const setOperator = (value: FilterOperator) => {
+    // Keep the typed value where it still makes sense
+    const first = condition.value ?? values[0] ?? "";
+    switch (value) {
+      case "in":
+      case "not_in":
+        onChange({
+          ...condition,
+          operator: value,
+          value: undefined,
+          values: values.length > 0 ? values : first === "" ? [] : [first],
+        });
+        break;
+      case "between":
+        onChange({
+          ...condition,
+          operator: value,
+          value: undefined,
+          values: [values[0] ?? first, values[1] ?? ""],
+        });
+        break;
+      case "is_null":
+      case "not_null":
+        onChange({ ...condition, operator: value, value: undefined, values: undefined });
+        break;
+      default:
+        onChange({ ...condition, operator: value, value: first, values: undefined });
+    }
+  };
+
+  const setBound = (index: number, value: FilterValue) => {
+    const bounds = [values[0] ?? "", values[1] ?? ""];
+    bounds[index] = value;
+    onChange({ ...condition, values: bounds });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        className={`flex-1 ${selectClassName}`}
+        value={condition.column}
+        onChange={(e) => onChange({ ...condition, column: e.target.value })}
+      >
+        <option value="">Column</option>
+        {columns.map((col) => (
+          <option key={col} value={col}>
+            {col}
+          </option>
+        ))}
+      </select>
+
+      <select
+        className={selectClassName}
+        value={operator}
+        onChange={(e) => setOperator(e.target.value as FilterOperator)}
+      >
+        {FILTER_OPERATORS.map((op) => (
+          <option key={op.value} value={op.value}>
+            {op.label}
+          </option>
+        ))}
+      </select>
+
+      {(operator === "in" || operator === "not_in") && (
+        <Input
+          className="flex-1 h-9"
+          placeholder="Comma-separated values"
+          value={values.join(", ")}
+          onChange={(e) =>
+            onChange({
+              ...condition,
+              // Empty entries are kept while typing and dropped by cleanFilterTree
+              values: e.target.value.split(",").map((v) => v.trim()),
+            })
+          }
+        />
+      )}
+
+      {operator === "between" && (
+        <>
+          <Input
+            className="w-28 h-9"
+            placeholder="Min"
+            value={String(values[0] ?? "")}
+            onChange={(e) => setBound(0, e.target.value)}
+          />
+          <span className="text-sm text-muted-foreground">and</span>
+          <Input
+            className="w-28 h-9"
+            placeholder="Max"
+            value={String(values[1] ?? "")}
+            onChange={(e) => setBound(1, e.target.value)}
+          />
+        </>
+      )}
+
+      {!["in", "not_in", "between", "is_null", "not_null"].includes(operator) && (
+        <Input
+          className="flex-1 h-9"
+          placeholder={operator === "matches_regex" ? "e.g., ^[A-Z]{2}\\d+$" : "Value"}
+          value={String(condition.value ?? "")}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+        />
+      )}
+
+      {onRemove && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="h-8 w-8 p-0 text-destructive"
+        >
+          ×
+        </Button>
+      )}
+    </div>
+  );
+}
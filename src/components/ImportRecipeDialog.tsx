@@ -0,0 +1,279 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import type { RecipeColumnCheck } from "@/lib/pipeline/recipes";
+
+/** Select value for recipe columns left unmapped */
+const UNMAPPED = "__unmapped__";
+
+interface RecipeCheck extends RecipeColumnCheck {
+  recipe: {
+    name: string;
+    version: number;
+    columns: string[];
+    steps: Array<{ id: string; type: string }>;
+  };
+  columns: string[]; // Project columns
+}
+
+interface ImportRecipeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (pipelineId: string, name: string) => void;
+  projectId: string;
+}
+
+export function ImportRecipeDialog({
+  open,
+  onOpenChange,
+  onImported,
+  projectId,
+}: ImportRecipeDialogProps) {
+  const [recipeText, setRecipeText] = useState("");
+  const [check, setCheck] = useState<RecipeCheck | null>(null);
+  const [name, setName] = useState("");
+  const [columnMapping, setColumnMapping] = useState<Record<string, string>>({});
+  const [error, setError] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const postRecipe = async (body: {
+    recipe: string;
+    columnMapping: Record<string, string>;
+    name?: string;
+    dryRun?: boolean;
+  }) => {
+    const response = await fetch(`/api/projects/${projectId}/recipes`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.details && typeof data.details === "string" ? data.details : data.error);
+    }
+    return data;
+  };
+
+  const checkRecipe = async (text: string, mapping: Record<string, string>) => {
+    setError("");
+    setChecking(true);
+    try {
+      const result: RecipeCheck = await postRecipe({
+        recipe: text,
+        columnMapping: mapping,
+        dryRun: true,
+      });
+      setCheck(result);
+      return result;
+    } catch (err) {
+      setCheck(null);
+      setError(err instanceof Error ? err.message : "Failed to read recipe");
+      return null;
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+
+    const text = await file.text();
+    setRecipeText(text);
+    setColumnMapping({});
+
+    const result = await checkRecipe(text, {});
+    if (result) {
+      setName(result.recipe.name);
+    }
+  };
+
+  const handleMappingChange = (recipeColumn: string, projectColumn: string) => {
+    const mapping = { ...columnMapping };
+    if (projectColumn === UNMAPPED) {
+      delete mapping[recipeColumn];
+    } else {
+      mapping[recipeColumn] = projectColumn;
+    }
+    setColumnMapping(mapping);
+    checkRecipe(recipeText, mapping);
+  };
+
+  const handleImport = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError("Please enter a pipeline name");
+      return;
+    }
+
+    setError("");
+    setImporting(true);
+    try {
+      const result = await postRecipe({ recipe: recipeText, columnMapping, name: trimmedName });
+      onImported(result.pipelineId, trimmedName);
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import recipe");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setRecipeText("");
+      setCheck(null);
+      setName("");
+      setColumnMapping({});
+      setError("");
+    }
+    onOpenChange(open);
+  };
+
+  // Recipe columns the project doesn't have under the same name
+  const unmatchedColumns = check
+    ? check.recipe.columns.filter((column) => !check.columns.includes(column))
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Recipe</DialogTitle>
+          <DialogDescription>
+            Create a pipeline from a recipe file exported from another project.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="recipe-file">Recipe File</Label>
+            <Input
+              id="recipe-file"
+              type="file"
+              accept=".json,.yaml,.yml"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+              disabled={importing}
+            />
+          </div>
+
+          {checking && !check && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Spinner className="h-4 w-4" />
+              Reading recipe...
+            </div>
+          )}
+
+          {check && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="recipe-pipeline-name">Pipeline Name</Label>
+                <Input
+                  id="recipe-pipeline-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={importing}
+                  maxLength={50}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {check.recipe.steps.length} step{check.recipe.steps.length !== 1 ? "s" : ""}
+                </p>
+              </div>
+
+              {/* Column Mapping */}
+              {unmatchedColumns.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Column Mapping</Label>
+                  <p className="text-xs text-muted-foreground">
+                    These recipe columns are not in this project. Map them to project columns to
+                    rename those columns before the recipe&apos;s steps run.
+                  </p>
+                  {unmatchedColumns.map((column) => (
+                    <div key={column} className="grid grid-cols-2 items-center gap-2">
+                      <span className="truncate text-sm font-medium">{column}</span>
+                      <Select
+                        value={columnMapping[column] ?? UNMAPPED}
+                        onValueChange={(value) => handleMappingChange(column, value)}
+                        disabled={importing}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                          {check.columns.map((projectColumn) => (
+                            <SelectItem key={projectColumn} value={projectColumn}>
+                              {projectColumn}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Steps reading missing columns */}
+              {check.stepIssues.length > 0 && (
+                <div className="space-y-2 rounded-md border border-destructive/50 p-3">
+                  <p className="text-sm font-medium text-destructive">
+                    {check.stepIssues.length} step{check.stepIssues.length !== 1 ? "s" : ""} read
+                    missing columns: map them to import the recipe
+                  </p>
+                  <ul className="space-y-1">
+                    {check.stepIssues.map((issue) => (
+                      <li key={issue.stepId} className="flex flex-wrap items-center gap-1 text-sm">
+                        <span>
+                          Step {issue.index + 1} ({issue.type}):
+                        </span>
+                        {issue.missingColumns.map((column) => (
+                          <Badge key={column} variant="destructive">
+                            {column}
+                          </Badge>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={importing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!check || check.stepIssues.length > 0 || checking || importing}
+          >
+            {importing ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
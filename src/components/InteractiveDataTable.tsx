@@ -1,7 +1,16 @@
 "use client";
 
-import { ArrowDown, ArrowUp, ArrowUpDown, Eye, Search, X } from "lucide-react";
-import { useMemo, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  Eye,
+  Search,
+  X,
+} from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -20,16 +29,30 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Spinner } from "@/components/ui/spinner";
 import type { ParseResult } from "@/lib/parsers/types";
+import type { TableQuery, TableSortKey } from "@/lib/sqlite/types";
+
+/** Delay before a changed filter or search is sent to the server */
+const QUERY_DEBOUNCE_MS = 300;
 
 interface InteractiveDataTableProps {
   data: ParseResult;
   maxRows?: number;
   enableInteraction?: boolean;
+  /**
+   * Loads a page of rows matching a query over the full table. When given and
+   * the data has more rows than `data.rows`, sorting, filtering and search run
+   * on the server instead of on the rows already fetched. Must be stable
+   * (useCallback): a new function re-runs the query.
+   */
+  fetchRows?: (
+    query: TableQuery,
+    offset: number,
+    limit: number,
+  ) => Promise<{ rows: Record<string, unknown>[]; total: number }>;
 }
 
-type SortDirection = "asc" | "desc" | null;
-
 interface ColumnState {
   visible: boolean;
   order: number;
@@ -39,6 +62,7 @@ export function InteractiveDataTable({
   data,
   maxRows = 100,
   enableInteraction = false,
+  fetchRows,
 }: InteractiveDataTableProps) {
   // Column visibility and order state
   const [columnStates, setColumnStates] = useState<Record<string, ColumnState>>(() => {
@@ -49,14 +73,23 @@ export function InteractiveDataTable({
     return states;
   });
 
-  // Sorting state
-  const [sortColumn, setSortColumn] = useState<string | null>(null);
-  const [sortDirection, setSortDirection] = useState<SortDirection>(null);
+  // Sorting state (shift-click adds secondary sort columns)
+  const [sortKeys, setSortKeys] = useState<TableSortKey[]>([]);
 
   // Filter state
   const [columnFilters, setColumnFilters] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState("");
   const [showFilters, setShowFilters] = useState(false);
 
+  // Server-driven mode: the data doesn't fit in one page
+  const serverMode = fetchRows !== undefined && data.rowCount > data.rows.length;
+  const [page, setPage] = useState(0);
+  const [serverResult, setServerResult] = useState<{
+    rows: Record<string, unknown>[];
+    total: number;
+  } | null>(null);
+  const [loading, setLoading] = useState(false);
+
   // Get visible columns in order
   const visibleColumns = useMemo(() => {
     return data.columns
@@ -64,8 +97,48 @@ export function InteractiveDataTable({
       .sort((a, b) => (columnStates[a.name]?.order ?? 0) - (columnStates[b.name]?.order ?? 0));
   }, [data.columns, columnStates]);
 
-  // Apply sorting and filtering
+  const query = useMemo<TableQuery>(
+    () => ({
+      ...(sortKeys.length > 0 ? { sort: sortKeys } : {}),
+      ...(Object.keys(columnFilters).length > 0 ? { filters: columnFilters } : {}),
+      ...(search ? { search } : {}),
+    }),
+    [sortKeys, columnFilters, search],
+  );
+  const hasQuery = sortKeys.length > 0 || Object.keys(columnFilters).length > 0 || search !== "";
+
+  // Fetch the matching rows from the server (the first unsorted page is `data`)
+  useEffect(() => {
+    if (!serverMode || !fetchRows || (!hasQuery && page === 0)) {
+      setServerResult(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const result = await fetchRows(query, page * maxRows, maxRows);
+        if (!cancelled) setServerResult(result);
+      } catch (error) {
+        console.error("Error querying rows:", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, QUERY_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [serverMode, fetchRows, hasQuery, query, page, maxRows]);
+
+  // Apply sorting and filtering to the fetched rows
   const processedRows = useMemo(() => {
+    if (serverMode) {
+      return serverResult?.rows ?? data.rows;
+    }
+
     let rows = [...data.rows];
 
     // Apply filters
@@ -73,41 +146,36 @@ export function InteractiveDataTable({
       rows = rows.filter((row) => {
         return Object.entries(columnFilters).every(([col, filterValue]) => {
           if (!filterValue) return true;
-          const value = row[col];
-          const stringValue = value === null || value === undefined ? "" : String(value);
-          return stringValue.toLowerCase().includes(filterValue.toLowerCase());
+          return containsText(row[col], filterValue);
         });
       });
     }
 
-    // Apply sorting
-    if (sortColumn && sortDirection) {
-      rows.sort((a, b) => {
-        const aVal = a[sortColumn];
-        const bVal = b[sortColumn];
-
-        // Handle null/undefined
-        if (aVal === null || aVal === undefined) return sortDirection === "asc" ? 1 : -1;
-        if (bVal === null || bVal === undefined) return sortDirection === "asc" ? -1 : 1;
+    // Apply search across all columns
+    if (search) {
+      rows = rows.filter((row) => data.columns.some((col) => containsText(row[col.name], search)));
+    }
 
-        // Compare values
-        if (typeof aVal === "number" && typeof bVal === "number") {
-          return sortDirection === "asc" ? aVal - bVal : bVal - aVal;
+    // Apply sorting (nulls last, later keys break ties)
+    if (sortKeys.length > 0) {
+      rows.sort((a, b) => {
+        for (const { column, direction } of sortKeys) {
+          const comparison = compareValues(a[column], b[column], direction);
+          if (comparison !== 0) return comparison;
         }
-
-        const aStr = String(aVal);
-        const bStr = String(bVal);
-        const comparison = aStr.localeCompare(bStr);
-        return sortDirection === "asc" ? comparison : -comparison;
+        return 0;
       });
     }
 
     return rows;
-  }, [data.rows, columnFilters, sortColumn, sortDirection]);
+  }, [serverMode, serverResult, data.rows, data.columns, columnFilters, search, sortKeys]);
 
-  const displayRows = processedRows.slice(0, maxRows);
-  const hasMoreRows = processedRows.length > maxRows;
-  const totalFilteredRows = processedRows.length;
+  const displayRows = serverMode ? processedRows : processedRows.slice(0, maxRows);
+  const hasMoreRows = !serverMode && processedRows.length > maxRows;
+  const totalFilteredRows = serverMode
+    ? (serverResult?.total ?? data.rowCount)
+    : processedRows.length;
+  const pageCount = Math.max(1, Math.ceil(totalFilteredRows / maxRows));
 
   // Toggle column visibility
   const toggleColumnVisibility = (columnName: string) => {
@@ -121,25 +189,29 @@ export function InteractiveDataTable({
   };
 
   // Handle column header click for sorting
-  const handleSort = (columnName: string) => {
+  // Cycles asc -> desc -> unsorted; with shift, the column is added to the current sort
+  const handleSort = (columnName: string, additive: boolean) => {
     if (!enableInteraction) return;
 
-    if (sortColumn === columnName) {
-      // Cycle through: asc -> desc -> null
-      if (sortDirection === "asc") {
-        setSortDirection("desc");
-      } else if (sortDirection === "desc") {
-        setSortColumn(null);
-        setSortDirection(null);
+    setPage(0);
+    setSortKeys((prev) => {
+      const current = prev.find((key) => key.column === columnName);
+      const others = additive ? prev.filter((key) => key.column !== columnName) : [];
+      if (!current) {
+        return [...others, { column: columnName, direction: "asc" }];
       }
-    } else {
-      setSortColumn(columnName);
-      setSortDirection("asc");
-    }
+      if (current.direction === "asc") {
+        return additive
+          ? prev.map((key) => (key.column === columnName ? { ...key, direction: "desc" } : key))
+          : [{ column: columnName, direction: "desc" }];
+      }
+      return others;
+    });
   };
 
   // Handle filter change
   const handleFilterChange = (columnName: string, value: string) => {
+    setPage(0);
     setColumnFilters((prev) => {
       if (!value) {
         const { [columnName]: _, ...rest } = prev;
@@ -151,7 +223,15 @@ export function InteractiveDataTable({
 
   // Clear all filters
   const clearFilters = () => {
+    setPage(0);
     setColumnFilters({});
+    setSearch("");
+  };
+
+  // Handle search change
+  const handleSearchChange = (value: string) => {
+    setPage(0);
+    setSearch(value);
   };
 
   // Get type badge color
@@ -174,7 +254,7 @@ export function InteractiveDataTable({
 
   const visibleColumnCount = visibleColumns.length;
   const hiddenColumnCount = data.columns.length - visibleColumnCount;
-  const activeFilterCount = Object.keys(columnFilters).length;
+  const activeFilterCount = Object.keys(columnFilters).length + (search ? 1 : 0);
 
   return (
     <Card>
@@ -191,6 +271,10 @@ export function InteractiveDataTable({
               {data.rowCount.toLocaleString()} rows × {visibleColumnCount} columns
               {hiddenColumnCount > 0 && ` (${hiddenColumnCount} hidden)`}
               {hasMoreRows && ` • showing first ${maxRows}`}
+              {loading && " • loading..."}
+              {serverMode &&
+                totalFilteredRows > maxRows &&
+                ` • page ${page + 1} of ${pageCount.toLocaleString()}`}
             </CardDescription>
           </div>
           {enableInteraction && (
@@ -229,9 +313,34 @@ export function InteractiveDataTable({
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
+          {showFilters && enableInteraction && (
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search all columns..."
+                value={search}
+                onChange={(e) => handleSearchChange(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+          )}
+
           {/* Active Filters Display */}
           {activeFilterCount > 0 && (
             <div className="flex flex-wrap gap-2">
+              {search && (
+                <Badge variant="secondary" className="gap-1 pr-1">
+                  <span className="font-medium">Search:</span> {search}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-4 w-4 p-0 hover:bg-transparent"
+                    onClick={() => handleSearchChange("")}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </Badge>
+              )}
               {Object.entries(columnFilters).map(([col, value]) => (
                 <Badge key={col} variant="secondary" className="gap-1 pr-1">
                   <span className="font-medium">{col}:</span> {value}
@@ -256,54 +365,69 @@ export function InteractiveDataTable({
               <Table>
                 <TableHeader className="sticky top-0 bg-background">
                   <TableRow>
-                    {visibleColumns.map((col) => (
-                      <TableHead key={col.name} className="min-w-[150px]">
-                        <div className="space-y-1">
-                          <div
-                            className={`flex items-center gap-2 ${
-                              enableInteraction ? "cursor-pointer select-none" : ""
-                            }`}
-                            onClick={() => handleSort(col.name)}
-                          >
-                            <div className="flex flex-col gap-1">
-                              <span className="font-semibold">{col.name}</span>
-                              <Badge
-                                variant={getTypeBadgeVariant(col.type)}
-                                className="w-fit text-xs"
-                              >
-                                {col.type}
-                              </Badge>
-                            </div>
-                            {enableInteraction && (
-                              <div className="ml-auto">
-                                {sortColumn === col.name ? (
-                                  sortDirection === "asc" ? (
-                                    <ArrowUp className="h-4 w-4" />
-                                  ) : (
-                                    <ArrowDown className="h-4 w-4" />
-                                  )
-                                ) : (
-                                  <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
-                                )}
+                    {visibleColumns.map((col) => {
+                      const sortIndex = sortKeys.findIndex((key) => key.column === col.name);
+                      const sortKey = sortKeys[sortIndex];
+                      return (
+                        <TableHead key={col.name} className="min-w-[150px]">
+                          <div className="space-y-1">
+                            <div
+                              className={`flex items-center gap-2 ${
+                                enableInteraction ? "cursor-pointer select-none" : ""
+                              }`}
+                              onClick={(e) => handleSort(col.name, e.shiftKey)}
+                            >
+                              <div className="flex flex-col gap-1">
+                                <span className="font-semibold">{col.name}</span>
+                                <Badge
+                                  variant={getTypeBadgeVariant(col.type)}
+                                  className="w-fit text-xs"
+                                >
+                                  {col.type}
+                                </Badge>
                               </div>
+                              {enableInteraction && (
+                                <div className="ml-auto flex items-center gap-1">
+                                  {sortKeys.length > 1 && sortKey && (
+                                    <span className="text-xs text-muted-foreground">
+                                      {sortIndex + 1}
+                                    </span>
+                                  )}
+                                  {sortKey ? (
+                                    sortKey.direction === "asc" ? (
+                                      <ArrowUp className="h-4 w-4" />
+                                    ) : (
+                                      <ArrowDown className="h-4 w-4" />
+                                    )
+                                  ) : (
+                                    <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                            {showFilters && enableInteraction && (
+                              <Input
+                                placeholder="Filter..."
+                                value={columnFilters[col.name] || ""}
+                                onChange={(e) => handleFilterChange(col.name, e.target.value)}
+                                className="h-8"
+                                onClick={(e) => e.stopPropagation()}
+                              />
                             )}
                           </div>
-                          {showFilters && enableInteraction && (
-                            <Input
-                              placeholder="Filter..."
-                              value={columnFilters[col.name] || ""}
-                              onChange={(e) => handleFilterChange(col.name, e.target.value)}
-                              className="h-8"
-                              onClick={(e) => e.stopPropagation()}
-                            />
-                          )}
-                        </div>
-                      </TableHead>
-                    ))}
+                        </TableHead>
+                      );
+                    })}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {displayRows.length === 0 ? (
+                  {loading && displayRows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={visibleColumnCount} className="h-24 text-center">
+                        <Spinner className="mx-auto h-4 w-4" />
+                      </TableCell>
+                    </TableRow>
+                  ) : displayRows.length === 0 ? (
                     <TableRow>
                       <TableCell colSpan={visibleColumnCount} className="h-24 text-center">
                         {activeFilterCount > 0 ? "No results found" : "No data available"}
@@ -330,6 +454,38 @@ export function InteractiveDataTable({
               </Table>
             </div>
           </div>
+
+          {/* Pages of server-driven results */}
+          {serverMode && pageCount > 1 && (
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span className="flex items-center gap-2">
+                {loading && <Spinner className="h-4 w-4" />}
+                Rows {(page * maxRows + 1).toLocaleString()}–
+                {Math.min((page + 1) * maxRows, totalFilteredRows).toLocaleString()} of{" "}
+                {totalFilteredRows.toLocaleString()}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 0 || loading}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page + 1 >= pageCount || loading}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
         </div>
         {data.warnings.length > 0 && (
           <div className="mt-4 space-y-2">
@@ -345,3 +501,26 @@ export function InteractiveDataTable({
     </Card>
   );
 }
+
+/**
+ * Whether a cell's displayed text contains the given text (case-insensitive)
+ */
+function containsText(value: unknown, text: string): boolean {
+  const stringValue = value === null || value === undefined ? "" : String(value);
+  return stringValue.toLowerCase().includes(text.toLowerCase());
+}
+
+/**
+ * Compare two cells for sorting (nulls always last)
+ */
+function compareValues(a: unknown, b: unknown, direction: TableSortKey["direction"]): number {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) return aNull === bNull ? 0 : aNull ? 1 : -1;
+
+  const comparison =
+    typeof a === "number" && typeof b === "number"
+      ? a - b
+      : String(a).localeCompare(String(b), undefined, { sensitivity: "base" });
+  return direction === "asc" ? comparison : -comparison;
+}
@@ -19,6 +19,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Spinner } from "@/components/ui/spinner";
+import { SUPPORTED_ENCODINGS } from "@/lib/parsers/encoding";
 
 type ParseConfig = {
   sheetName?: string;
@@ -28,6 +29,8 @@ type ParseConfig = {
   startColumn?: number;
   endColumn?: number;
   hasHeaders: boolean; // Required field
+  encoding?: string; // CSV only; omitted = auto-detect
+  numberLocale?: string; // Locale of the numbers, e.g. "de-DE"; omitted = 1,234.56
 };
 
 interface ParseConfigPanelProps {
@@ -54,6 +57,8 @@ export function ParseConfigPanel({
   const [startColumn, setStartColumn] = useState<string>("");
   const [endColumn, setEndColumn] = useState<string>("");
   const [hasHeaders, setHasHeaders] = useState<boolean>(true);
+  const [encoding, setEncoding] = useState<string>("auto");
+  const [numberLocale, setNumberLocale] = useState<string>("");
   const [error, setError] = useState<string>("");
   const [saving, setSaving] = useState<boolean>(false);
   const [isOpen, setIsOpen] = useState<boolean>(true); // Collapsible state
@@ -69,6 +74,8 @@ export function ParseConfigPanel({
       setStartColumn(currentConfig.startColumn?.toString() || "");
       setEndColumn(currentConfig.endColumn?.toString() || "");
       setHasHeaders(currentConfig.hasHeaders);
+      setEncoding(currentConfig.encoding || "auto");
+      setNumberLocale(currentConfig.numberLocale || "");
     } else {
       // Set defaults for new config
       setSheetName(availableSheets[0] || "");
@@ -77,6 +84,8 @@ export function ParseConfigPanel({
       setStartColumn("");
       setEndColumn("");
       setHasHeaders(true);
+      setEncoding("auto");
+      setNumberLocale("");
     }
   }, [currentConfig, availableSheets]);
 
@@ -87,6 +96,8 @@ export function ParseConfigPanel({
     setStartColumn("");
     setEndColumn("");
     setHasHeaders(true);
+    setEncoding("auto");
+    setNumberLocale("");
     setError("");
 
     // Save the reset config
@@ -111,6 +122,15 @@ export function ParseConfigPanel({
         config.sheetIndex = availableSheets.indexOf(sheetName);
       }
 
+      // Add encoding override for CSV
+      if (!isExcel && encoding !== "auto") {
+        config.encoding = encoding;
+      }
+
+      if (numberLocale.trim()) {
+        config.numberLocale = numberLocale.trim();
+      }
+
       // Validate and add row range
       if (startRow) {
         const start = parseInt(startRow, 10);
@@ -189,6 +209,7 @@ export function ParseConfigPanel({
     if (endRow) config.endRow = parseInt(endRow, 10);
     if (startColumn) config.startColumn = parseInt(startColumn, 10);
     if (endColumn) config.endColumn = parseInt(endColumn, 10);
+    if (numberLocale.trim()) config.numberLocale = numberLocale.trim();
     await saveConfig(config);
   };
 
@@ -209,6 +230,26 @@ export function ParseConfigPanel({
     if (endRow) config.endRow = parseInt(endRow, 10);
     if (startColumn) config.startColumn = parseInt(startColumn, 10);
     if (endColumn) config.endColumn = parseInt(endColumn, 10);
+    // Include encoding override for CSV
+    if (!isExcel && encoding !== "auto") config.encoding = encoding;
+    if (numberLocale.trim()) config.numberLocale = numberLocale.trim();
+    await saveConfig(config);
+  };
+
+  // Handler for encoding change
+  const handleEncodingChange = async (value: string) => {
+    setEncoding(value);
+    // Auto-save on encoding change - build full config
+    const config: ParseConfig = {
+      hasHeaders,
+    };
+    if (value !== "auto") config.encoding = value;
+    // Include existing row/column ranges if set
+    if (startRow) config.startRow = parseInt(startRow, 10);
+    if (endRow) config.endRow = parseInt(endRow, 10);
+    if (startColumn) config.startColumn = parseInt(startColumn, 10);
+    if (endColumn) config.endColumn = parseInt(endColumn, 10);
+    if (numberLocale.trim()) config.numberLocale = numberLocale.trim();
     await saveConfig(config);
   };
 
@@ -256,6 +297,45 @@ export function ParseConfigPanel({
               </div>
             )}
 
+            {/* CSV Encoding Selection */}
+            {!isExcel && (
+              <div className="space-y-2">
+                <Label htmlFor="encoding-select">Character Encoding</Label>
+                <Select value={encoding} onValueChange={handleEncodingChange}>
+                  <SelectTrigger id="encoding-select">
+                    <SelectValue placeholder="Auto-detect" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Auto-detect</SelectItem>
+                    {SUPPORTED_ENCODINGS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Change this if accented or non-Latin characters look garbled
+                </p>
+              </div>
+            )}
+
+            {/* Number Locale */}
+            <div className="space-y-2">
+              <Label htmlFor="number-locale">Number Format (optional)</Label>
+              <Input
+                id="number-locale"
+                placeholder="e.g., de-DE"
+                value={numberLocale}
+                onChange={(e) => setNumberLocale(e.target.value)}
+                onBlur={() => saveConfig()}
+              />
+              <p className="text-xs text-muted-foreground">
+                Locale of the numbers in the file (e.g. de-DE reads 1.234,56). Leave empty for
+                1,234.56
+              </p>
+            </div>
+
             {/* Row Range */}
             <div className="space-y-3">
               <Label>Row Range</Label>
@@ -1,5 +1,8 @@
 "use client";
 
+import { api } from "@convex/api";
+import type { Id } from "@convex/dataModel";
+import { useMutation, useQuery } from "convex/react";
 import { useCallback, useEffect, useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -22,6 +25,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Spinner } from "@/components/ui/spinner";
+import type { StepChange } from "@/lib/pipeline/versions";
 
 interface ParseConfig {
   sheetName?: string;
@@ -31,30 +35,55 @@ interface ParseConfig {
   startColumn?: number;
   endColumn?: number;
   hasHeaders: boolean;
+  numberLocale?: string;
 }
 
+type ErrorMode = "fail" | "quarantine";
+
 interface PipelineSettingsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (config: ParseConfig) => void;
+  onSave: (config: ParseConfig, errorMode: ErrorMode) => void;
   currentConfig?: ParseConfig | null;
+  currentErrorMode?: ErrorMode;
   isExcelFile?: boolean;
   projectId: string;
+  pipelineId: Id<"pipelines">;
+  onRestored?: (version: number) => void;
 }
 
+const CHANGE_BADGES: Record<Exclude<StepChange["kind"], "unchanged">, string> = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Changed",
+};
+
 export function PipelineSettingsDialog({
   open,
   onOpenChange,
   onSave,
   currentConfig,
+  currentErrorMode = "fail",
   isExcelFile = false,
   projectId,
+  pipelineId,
+  onRestored,
 }: PipelineSettingsDialogProps) {
   const [config, setConfig] = useState<ParseConfig>({
     hasHeaders: true,
   });
+  const [errorMode, setErrorMode] = useState<ErrorMode>(currentErrorMode);
   const [sheets, setSheets] = useState<string[]>([]);
   const [loadingSheets, setLoadingSheets] = useState(false);
+  const [selectedVersionId, setSelectedVersionId] = useState<Id<"pipelineVersions"> | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const versions = useQuery(api.pipelineVersions.list, open ? { pipelineId } : "skip");
+  const versionDiff = useQuery(
+    api.pipelineVersions.diff,
+    open && selectedVersionId ? { versionId: selectedVersionId } : "skip",
+  );
+  const restoreVersion = useMutation(api.pipelineVersions.restore);
 
   const fetchSheetNames = useCallback(async () => {
     setLoadingSheets(true);
@@ -88,14 +117,29 @@ export function PipelineSettingsDialog({
           hasHeaders: true,
         });
       }
+      setErrorMode(currentErrorMode);
+      setSelectedVersionId(null);
     }
-  }, [open, currentConfig]);
+  }, [open, currentConfig, currentErrorMode]);
 
   const handleSave = () => {
-    onSave(config);
+    onSave(config, errorMode);
     onOpenChange(false);
   };
 
+  const handleRestore = async (versionId: Id<"pipelineVersions">, version: number) => {
+    setIsRestoring(true);
+    try {
+      await restoreVersion({ versionId });
+      setSelectedVersionId(null);
+      onRestored?.(version);
+    } catch (error) {
+      console.error("Failed to restore version:", error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
   const handleClear = (field: keyof ParseConfig) => {
     setConfig((prev) => {
       const newConfig = { ...prev };
@@ -106,7 +150,7 @@ export function PipelineSettingsDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Pipeline Settings</DialogTitle>
           <DialogDescription>
@@ -303,13 +347,47 @@ export function PipelineSettingsDialog({
             </div>
           </div>
 
+          {/* Number Locale */}
+          <div className="space-y-2">
+            <Label htmlFor="numberLocale">Number Format</Label>
+            <Input
+              id="numberLocale"
+              placeholder="e.g., de-DE"
+              value={config.numberLocale ?? ""}
+              onChange={(e) =>
+                setConfig({ ...config, numberLocale: e.target.value.trim() || undefined })
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              Locale of the numbers (e.g. de-DE reads 1.234,56). Leave empty for 1,234.56
+            </p>
+          </div>
+
+          {/* Row Errors */}
+          <div className="space-y-2">
+            <Label htmlFor="errorMode">Row Errors</Label>
+            <Select value={errorMode} onValueChange={(value) => setErrorMode(value as ErrorMode)}>
+              <SelectTrigger id="errorMode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fail">Stop the pipeline</SelectItem>
+                <SelectItem value="quarantine">Quarantine failing rows</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Quarantined rows are removed from the results and listed under Rejected rows
+            </p>
+          </div>
+
           {/* Active Settings Summary */}
           {(config.startRow ||
             config.endRow ||
             config.startColumn ||
             config.endColumn ||
             config.sheetName ||
-            config.sheetIndex !== undefined) && (
+            config.sheetIndex !== undefined ||
+            config.numberLocale) && (
             <div className="rounded-md bg-muted p-3">
               <p className="mb-2 text-sm font-medium">Active Settings:</p>
               <div className="flex flex-wrap gap-2">
@@ -323,9 +401,113 @@ export function PipelineSettingsDialog({
                   <Badge variant="secondary">From Col: {config.startColumn}</Badge>
                 )}
                 {config.endColumn && <Badge variant="secondary">To Col: {config.endColumn}</Badge>}
+                {config.numberLocale && (
+                  <Badge variant="secondary">Numbers: {config.numberLocale}</Badge>
+                )}
               </div>
             </div>
           )}
+
+          {/* Version History */}
+          <div className="space-y-2">
+            <Label>Version History</Label>
+            {versions === undefined ? (
+              <div className="flex items-center gap-2 rounded-md border p-2">
+                <Spinner className="h-4 w-4" />
+                <span className="text-sm text-muted-foreground">Loading versions...</span>
+              </div>
+            ) : versions.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                No saved versions yet. Every change to the steps is saved as a version.
+              </p>
+            ) : (
+              <div className="max-h-64 space-y-1 overflow-y-auto rounded-md border p-2">
+                {versions.map((version, index) => (
+                  <div key={version._id} className="space-y-2">
+                    <button
+                      type="button"
+                      className={`flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-sm hover:bg-muted ${
+                        selectedVersionId === version._id ? "bg-muted" : ""
+                      }`}
+                      onClick={() =>
+                        setSelectedVersionId(selectedVersionId === version._id ? null : version._id)
+                      }
+                    >
+                      <Badge variant={index === 0 ? "default" : "outline"}>
+                        v{version.version}
+                      </Badge>
+                      <span className="flex-1 truncate">{version.message || "Saved"}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(version.createdAt).toLocaleString()}
+                      </span>
+                    </button>
+
+                    {selectedVersionId === version._id && (
+                      <div className="space-y-2 pl-2">
+                        {versionDiff === undefined ? (
+                          <Spinner className="h-4 w-4" />
+                        ) : (
+                          <>
+                            <p className="text-xs text-muted-foreground">
+                              {versionDiff.againstVersion === null
+                                ? "First version"
+                                : `Changes since v${versionDiff.againstVersion}`}
+                            </p>
+                            {versionDiff.changes.some(
+                              (change) => change.kind !== "unchanged" || change.moved,
+                            ) ? (
+                              <ul className="space-y-1">
+                                {versionDiff.changes
+                                  .filter((change) => change.kind !== "unchanged" || change.moved)
+                                  .map((change) => (
+                                    <li
+                                      key={`${change.kind}-${change.step.id}`}
+                                      className="flex items-center gap-2 text-sm"
+                                    >
+                                      {change.kind !== "unchanged" && (
+                                        <Badge
+                                          variant={
+                                            change.kind === "removed" ? "destructive" : "secondary"
+                                          }
+                                        >
+                                          {CHANGE_BADGES[change.kind]}
+                                        </Badge>
+                                      )}
+                                      {change.moved && <Badge variant="outline">Moved</Badge>}
+                                      <span className="truncate">
+                                        Step {(change.index ?? change.previousIndex ?? 0) + 1}:{" "}
+                                        {change.step.type}
+                                        {change.previous &&
+                                        change.previous.type !== change.step.type
+                                          ? ` (was ${change.previous.type})`
+                                          : ""}
+                                      </span>
+                                    </li>
+                                  ))}
+                              </ul>
+                            ) : (
+                              <p className="text-sm text-muted-foreground">No step changes</p>
+                            )}
+                          </>
+                        )}
+                        {index > 0 && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isRestoring}
+                            onClick={() => handleRestore(version._id, version.version)}
+                          >
+                            {isRestoring && <Spinner className="mr-2 h-4 w-4" />}
+                            Restore v{version.version}
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
 
         <DialogFooter>
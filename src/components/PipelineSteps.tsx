@@ -1,10 +1,22 @@
 "use client";
 
-import { ChevronDown, ChevronUp, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  Eye,
+  EyeOff,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import type { TransformationStep } from "@/lib/pipeline/types";
+import { describeAssertRule } from "@/lib/pipeline/operations/assert";
+import { describeFilterCondition, getFilterCondition } from "@/lib/pipeline/operations/filter";
+import { groupSteps, isStepEnabled, type TransformationStep } from "@/lib/pipeline/types";
 
 interface PipelineStepsProps {
   steps: TransformationStep[];
@@ -14,6 +26,7 @@ interface PipelineStepsProps {
   onMoveDown?: (index: number) => void;
   onRemove?: (index: number) => void;
   onEdit?: (index: number) => void;
+  onToggleEnabled?: (index: number) => void;
   onAddStep?: () => void;
 }
 
@@ -25,8 +38,17 @@ export function PipelineSteps({
   onMoveDown,
   onRemove,
   onEdit,
+  onToggleEnabled,
   onAddStep,
 }: PipelineStepsProps) {
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+
+  const toggleGroup = (group: string) => {
+    setCollapsedGroups((groups) =>
+      groups.includes(group) ? groups.filter((name) => name !== group) : [...groups, group],
+    );
+  };
+
   // Format step config for display
   const formatConfig = (step: TransformationStep): string => {
     const { config } = step;
@@ -37,11 +59,25 @@ export function PipelineSteps({
       case "lowercase":
         return `Columns: ${config.columns.join(", ")}`;
 
-      case "deduplicate":
-        return config.columns ? `Columns: ${config.columns.join(", ")}` : "All columns";
+      case "deduplicate": {
+        const parts = [config.columns ? `Columns: ${config.columns.join(", ")}` : "All columns"];
+        if (config.keep && config.keep !== "first") {
+          parts.push(config.keep === "none" ? "keep none" : "keep last");
+        }
+        if (config.orderBy) {
+          parts.push(`by ${config.orderBy.name} ${config.orderBy.direction}`);
+        }
+        if (config.ignoreCase || config.ignoreWhitespace) {
+          parts.push("normalized");
+        }
+        if (config.mode === "flag") {
+          parts.push("flag only");
+        }
+        return parts.join(", ");
+      }
 
       case "filter":
-        return `${config.column} ${config.operator} ${config.value}`;
+        return describeFilterCondition(getFilterCondition(config));
 
       case "rename_column":
         return `${config.oldName} → ${config.newName}`;
@@ -82,6 +118,68 @@ export function PipelineSteps({
         return `Sort by: ${sortDesc} (${nulls})`;
       }
 
+      case "calculated_column":
+        return `${config.newColumn} = ${config.expression}`;
+
+      case "join": {
+        const keys = config.on.map((key) => `${key.left} = ${key.right}`).join(", ");
+        const source =
+          config.source.type === "pipeline"
+            ? "pipeline result"
+            : `upload${config.source.sheetName ? ` (${config.source.sheetName})` : ""}`;
+        return `${config.joinType} join ${source} on ${keys}`;
+      }
+
+      case "group_by": {
+        const aggs = config.aggregations
+          .map((agg) => `${agg.newColumn} = ${agg.aggregation}(${agg.column ?? "*"})`)
+          .join(", ");
+        const keys = config.groupBy.length > 0 ? config.groupBy.join(", ") : "all rows";
+        return aggs ? `By ${keys}: ${aggs}` : `By ${keys}`;
+      }
+
+      case "append": {
+        const labels = config.sources
+          .map(
+            (source) =>
+              source.label ??
+              (source.type === "pipeline" ? "pipeline result" : (source.sheetName ?? "upload")),
+          )
+          .join(", ");
+        const mode = config.columnMode === "intersection" ? "shared columns" : "all columns";
+        return `${labels} (${mode})${config.sourceColumn ? ` → ${config.sourceColumn}` : ""}`;
+      }
+
+      case "assert":
+        return config.rules
+          .map((rule) => `${describeAssertRule(rule)}${rule.severity === "warn" ? " (warn)" : ""}`)
+          .join("; ");
+
+      case "replace": {
+        const mode = config.useRegex ? "regex " : "";
+        return `${config.columns.join(", ")}: ${mode}"${config.find}" → "${config.replaceWith}"`;
+      }
+
+      case "format_number": {
+        const details = [
+          config.decimals !== undefined ? `${config.decimals} decimals` : null,
+          config.currency ?? null,
+          config.locale ?? null,
+        ].filter(Boolean);
+        return `${config.columns.join(", ")}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+      }
+
+      case "cluster_values": {
+        const variants = config.clusters.reduce((sum, cluster) => sum + cluster.values.length, 0);
+        return `${config.column}: ${variants} variant${variants === 1 ? "" : "s"} → ${config.clusters.length} value${config.clusters.length === 1 ? "" : "s"}`;
+      }
+
+      case "map_values": {
+        const fallback =
+          config.defaultValue !== undefined ? `, otherwise "${config.defaultValue}"` : "";
+        return `${config.column}: ${config.mappings.length} mapping${config.mappings.length === 1 ? "" : "s"}${config.caseSensitive === false ? " (ignore case)" : ""}${fallback}`;
+      }
+
       default:
         return "";
     }
@@ -105,10 +203,119 @@ export function PipelineSteps({
       fill_down: "Fill Down",
       fill_across: "Fill Across",
       sort: "Sort",
+      calculated_column: "Calculated Column",
+      replace: "Find & Replace",
+      join: "Join",
+      group_by: "Group By",
+      append: "Append Rows",
+      assert: "Validate (Assert)",
+      format_number: "Format Numbers",
+      cluster_values: "Cluster Values",
+      map_values: "Map Values",
     };
     return names[type] || type;
   };
 
+  const renderStep = (step: TransformationStep, index: number) => {
+    const isSelected = selectedStepIndex === index;
+    const isFirst = index === 0;
+    const isLast = index === steps.length - 1;
+    const enabled = isStepEnabled(step);
+
+    return (
+      <div
+        key={step.id}
+        className={`
+          flex items-center gap-3 p-3 rounded-lg border transition-colors
+          ${
+            isSelected
+              ? "border-primary bg-primary/5"
+              : "border-border hover:bg-accent cursor-pointer"
+          }
+          ${enabled ? "" : "opacity-60"}
+        `}
+        onClick={() => onSelectStep?.(index)}
+      >
+        {/* Step number */}
+        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-semibold">
+          {index + 1}
+        </div>
+
+        {/* Step info */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <Badge variant="outline">{step.type}</Badge>
+            <span className="font-medium">{getOperationName(step.type)}</span>
+            {!enabled && <Badge variant="secondary">Disabled</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground truncate">{formatConfig(step)}</p>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              onEdit?.(index);
+            }}
+            title="Edit step"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleEnabled?.(index);
+            }}
+            title={enabled ? "Disable step" : "Enable step"}
+          >
+            {enabled ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              onMoveUp?.(index);
+            }}
+            disabled={isFirst}
+            title="Move up"
+          >
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              onMoveDown?.(index);
+            }}
+            disabled={isLast}
+            title="Move down"
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove?.(index);
+            }}
+            title="Remove step"
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -134,87 +341,38 @@ export function PipelineSteps({
           </div>
         ) : (
           <div className="space-y-2">
-            {steps.map((step, index) => {
-              const isSelected = selectedStepIndex === index;
-              const isFirst = index === 0;
-              const isLast = index === steps.length - 1;
+            {groupSteps(steps).map((block) => {
+              const first = block.steps[0];
+              if (!block.group) {
+                return renderStep(first.step, first.index);
+              }
 
+              const group = block.group;
+              const collapsed = collapsedGroups.includes(group);
+              const disabledCount = block.steps.filter(({ step }) => !isStepEnabled(step)).length;
               return (
-                <div
-                  key={step.id}
-                  className={`
-                    flex items-center gap-3 p-3 rounded-lg border transition-colors
-                    ${
-                      isSelected
-                        ? "border-primary bg-primary/5"
-                        : "border-border hover:bg-accent cursor-pointer"
-                    }
-                  `}
-                  onClick={() => onSelectStep?.(index)}
-                >
-                  {/* Step number */}
-                  <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-semibold">
-                    {index + 1}
-                  </div>
-
-                  {/* Step info */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-1">
-                      <Badge variant="outline">{step.type}</Badge>
-                      <span className="font-medium">{getOperationName(step.type)}</span>
-                    </div>
-                    <p className="text-sm text-muted-foreground truncate">{formatConfig(step)}</p>
-                  </div>
-
-                  {/* Actions */}
-                  <div className="flex items-center gap-1">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onEdit?.(index);
-                      }}
-                      title="Edit step"
-                    >
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onMoveUp?.(index);
-                      }}
-                      disabled={isFirst}
-                      title="Move up"
-                    >
-                      <ChevronUp className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onMoveDown?.(index);
-                      }}
-                      disabled={isLast}
-                      title="Move down"
-                    >
+                <div key={first.step.id} className="rounded-lg border border-dashed">
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 p-3 text-left"
+                    onClick={() => toggleGroup(group)}
+                  >
+                    {collapsed ? (
+                      <ChevronRight className="h-4 w-4" />
+                    ) : (
                       <ChevronDown className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onRemove?.(index);
-                      }}
-                      title="Remove step"
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
-                  </div>
+                    )}
+                    <span className="flex-1 font-medium">{group}</span>
+                    <span className="text-sm text-muted-foreground">
+                      Steps {first.index + 1}–{first.index + block.steps.length}
+                      {disabledCount > 0 ? ` (${disabledCount} disabled)` : ""}
+                    </span>
+                  </button>
+                  {!collapsed && (
+                    <div className="space-y-2 px-3 pb-3">
+                      {block.steps.map(({ step, index }) => renderStep(step, index))}
+                    </div>
+                  )}
                 </div>
               );
             })}
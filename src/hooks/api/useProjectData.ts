@@ -4,6 +4,8 @@
 
 import { useEffect, useState } from "react";
 import type { ColumnMetadata } from "@/lib/parsers/types";
+import type { StepCacheStats } from "@/lib/pipeline/stepCache";
+import type { RejectedRow } from "@/lib/pipeline/types";
 
 /**
  * Fetch raw project data from SQLite
@@ -130,6 +132,8 @@ export function usePipelinePreview({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [rowCount, setRowCount] = useState<number>(0);
+  const [cache, setCache] = useState<StepCacheStats | null>(null);
+  const [rejectedRows, setRejectedRows] = useState<RejectedRow[]>([]);
 
   useEffect(() => {
     if (!projectId || !pipelineId || !enabled) {
@@ -158,11 +162,16 @@ export function usePipelinePreview({
         setData(result.data);
         setColumns(result.columns);
         setRowCount(result.rowCount);
+        setCache(result.cache ?? null);
+        setRejectedRows(result.rejectedRows ?? []);
+        setRejectedRows(result.rejectedRows ?? []);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to execute preview");
         setData([]);
         setColumns([]);
         setRowCount(0);
+        setCache(null);
+        setRejectedRows([]);
       } finally {
         setLoading(false);
       }
@@ -195,15 +204,19 @@ export function usePipelinePreview({
       setData(result.data);
       setColumns(result.columns);
       setRowCount(result.rowCount);
+      setCache(result.cache ?? null);
+      setRejectedRows(result.rejectedRows ?? []);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to execute preview");
       setData([]);
       setColumns([]);
       setRowCount(0);
+      setCache(null);
+      setRejectedRows([]);
     } finally {
       setLoading(false);
     }
   };
 
-  return { data, columns, loading, error, rowCount, refetch };
+  return { data, columns, loading, error, rowCount, cache, rejectedRows, refetch };
 }
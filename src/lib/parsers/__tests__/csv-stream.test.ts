@@ -0,0 +1,153 @@
+/**
+ * Tests for streaming CSV parsing
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CSVTokenizer, parseCSV, parseCSVStream } from "../csv";
+import { ParseError } from "../types";
+
+/**
+ * Split text into chunks of a fixed size
+ */
+function chunk(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function collect(
+  chunks: Iterable<string> | AsyncIterable<string>,
+  options = {},
+  batchSize = 1000,
+) {
+  const batches: Record<string, unknown>[][] = [];
+  const result = await parseCSVStream(
+    chunks,
+    (rows) => void batches.push(rows),
+    options,
+    batchSize,
+  );
+  return { result, batches, rows: batches.flat() };
+}
+
+const csv =
+  'id,name,note\r\n1,Alice,"multi\r\nline, with comma"\r\n2,Bob,"say ""hi"""\r\n3,Carol,\r\n';
+
+describe("CSVTokenizer", () => {
+  it("should produce the same records for any chunk size", () => {
+    const whole = new CSVTokenizer({ delimiter: ",", quoteChar: '"', escapeChar: '"' });
+    const expected = [...whole.push(csv), ...whole.end()];
+
+    for (const size of [1, 2, 3, 7, 16]) {
+      const tokenizer = new CSVTokenizer({ delimiter: ",", quoteChar: '"', escapeChar: '"' });
+      const records = [...chunk(csv, size).flatMap((c) => tokenizer.push(c)), ...tokenizer.end()];
+      assert.deepEqual(records, expected, `chunk size ${size}`);
+    }
+
+    assert.deepEqual(expected, [
+      ["id", "name", "note"],
+      ["1", "Alice", "multi\r\nline, with comma"],
+      ["2", "Bob", 'say "hi"'],
+      ["3", "Carol", ""],
+    ]);
+  });
+
+  it("should only return records once their line break is read", () => {
+    const tokenizer = new CSVTokenizer({ delimiter: ",", quoteChar: '"', escapeChar: '"' });
+
+    assert.deepEqual(tokenizer.push('a,"b\n'), []);
+    assert.deepEqual(tokenizer.push('c"\nd'), [["a", "b\nc"]]);
+    assert.deepEqual(tokenizer.end(), [["d"]]);
+  });
+});
+
+describe("parseCSVStream", () => {
+  it("should match parseCSV", async () => {
+    const { result, rows } = await collect(chunk(csv, 5));
+    const expected = parseCSV(csv);
+
+    assert.deepEqual(rows, expected.rows);
+    assert.deepEqual(result.columns, expected.columns);
+    assert.equal(result.rowCount, expected.rowCount);
+    assert.deepEqual(result.warnings, expected.warnings);
+  });
+
+  it("should deliver rows in batches", async () => {
+    const lines = ["n"];
+    for (let i = 0; i < 25; i++) lines.push(String(i));
+
+    const { result, batches } = await collect([lines.join("\n")], {}, 10);
+
+    assert.deepEqual(
+      batches.map((b) => b.length),
+      [10, 10, 5],
+    );
+    assert.equal(result.rowCount, 25);
+    assert.equal(result.columns[0].type, "number");
+    assert.equal(result.columns[0].nonNullCount, 25);
+  });
+
+  it("should accept async chunk sources and await the batch callback", async () => {
+    async function* source() {
+      yield "a,b\n1,";
+      yield "2\n3,4\n";
+    }
+    const seen: number[] = [];
+
+    const result = await parseCSVStream(
+      source(),
+      async (rows) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        seen.push(rows.length);
+      },
+      {},
+      1,
+    );
+
+    assert.deepEqual(seen, [1, 1]);
+    assert.equal(result.rowCount, 2);
+  });
+
+  it("should respect row and column ranges", async () => {
+    const text = "title\nName,Age,City\nAlice,30,NYC\nBob,25,LA\nCarol,35,SF";
+
+    const { rows, result } = await collect(chunk(text, 4), {
+      startRow: 2,
+      endRow: 4,
+      endColumn: 2,
+      delimiter: ",",
+    });
+
+    assert.deepEqual(
+      result.columns.map((c) => c.name),
+      ["Name", "Age"],
+    );
+    assert.deepEqual(rows, [
+      { Name: "Alice", Age: "30" },
+      { Name: "Bob", Age: "25" },
+    ]);
+  });
+
+  it("should stop reading once maxRows is reached", async () => {
+    let chunksRead = 0;
+    function* source() {
+      yield "n\n";
+      for (let i = 0; i < 1000; i++) {
+        chunksRead++;
+        yield `${i}\n`;
+      }
+    }
+
+    const { result } = await collect(source(), { maxRows: 3, delimiter: "," });
+
+    assert.equal(result.rowCount, 3);
+    assert.ok(chunksRead < 10);
+  });
+
+  it("should throw ParseError for empty input", async () => {
+    await assert.rejects(() => collect([""]), ParseError);
+  });
+});
@@ -4,7 +4,7 @@
 
 import assert from "node:assert/strict";
 import { describe, it } from "node:test";
-import { parseCSV } from "../csv";
+import { CSVTokenizer, parseCSV } from "../csv";
 import { ParseError } from "../types";
 
 describe("parseCSV", () => {
@@ -101,6 +101,89 @@ John,30,"New York"`;
     });
   });
 
+  describe("RFC 4180 fields", () => {
+    it("should keep line breaks inside quoted fields", () => {
+      const csv = 'id,comment,city\n1,"first line\nsecond line",NYC\n2,"a\r\nb",LA';
+
+      const result = parseCSV(csv);
+
+      assert.equal(result.rowCount, 2);
+      assert.equal(result.rows[0].comment, "first line\nsecond line");
+      assert.equal(result.rows[0].city, "NYC");
+      assert.equal(result.rows[1].comment, "a\r\nb");
+      assert.deepEqual(result.warnings, []);
+    });
+
+    it("should count rows by record, not by line", () => {
+      const csv = 'id,comment\n1,"multi\nline"\n2,plain\n3,last';
+
+      const result = parseCSV(csv, { startRow: 1, endRow: 3 });
+
+      assert.deepEqual(
+        result.rows.map((r) => r.id),
+        ["1", "2"],
+      );
+    });
+
+    it("should preserve whitespace inside quotes", () => {
+      const csv = 'name,code\n  John  ,"  A1 "';
+
+      const result = parseCSV(csv);
+
+      assert.deepEqual(result.rows[0], { name: "John", code: "  A1 " });
+    });
+
+    it("should treat a quoted empty line as a row", () => {
+      const csv = 'name\n""\nJane';
+
+      const result = parseCSV(csv);
+
+      assert.equal(result.rowCount, 2);
+      assert.equal(result.rows[0].name, null);
+    });
+
+    it("should support a custom quote character", () => {
+      const csv = "name,note\nJohn,'a, b'";
+
+      const result = parseCSV(csv, { quoteChar: "'" });
+
+      assert.equal(result.rows[0].note, "a, b");
+    });
+
+    it("should support a separate escape character", () => {
+      const csv = 'name,note\nJohn,"say \\"hi\\", ok"';
+
+      const result = parseCSV(csv, { escapeChar: "\\" });
+
+      assert.equal(result.rows[0].note, 'say "hi", ok');
+    });
+
+    it("should detect the delimiter when quoted fields contain line breaks", () => {
+      const csv = 'a;b\n"x\ny";1\n"z";2';
+
+      const result = parseCSV(csv);
+
+      assert.deepEqual(
+        result.columns.map((c) => c.name),
+        ["a", "b"],
+      );
+      assert.equal(result.rows[0].a, "x\ny");
+    });
+
+    it("should warn about unterminated quoted fields", () => {
+      const csv = 'name,note\nJohn,"never closed\nJane,ok';
+
+      const result = parseCSV(csv);
+
+      assert.equal(result.rowCount, 1);
+      assert.ok(result.warnings.some((w) => w.includes("Unterminated")));
+    });
+
+    it("should reject multi-character quote options", () => {
+      assert.throws(() => parseCSV("a\n1", { quoteChar: "''" }), ParseError);
+    });
+  });
+
   describe("empty values", () => {
     it("should convert empty strings to null", () => {
       const csv = `name,age,city
@@ -189,6 +272,17 @@ Bob,35`;
       assert.equal(result.rowCount, 2);
       assert.equal(result.rows.length, 2);
     });
+
+    it("should stop tokenizing once the row limit is reached", (t) => {
+      const csv = `id,name\n${Array.from({ length: 100000 }, (_, i) => `${i},row ${i}`).join("\n")}`;
+      const push = t.mock.method(CSVTokenizer.prototype, "push");
+
+      const result = parseCSV(csv, { maxRows: 3, delimiter: "," });
+
+      assert.equal(result.rowCount, 3);
+      const tokenized = push.mock.calls.reduce((sum, call) => sum + call.arguments[0].length, 0);
+      assert.ok(tokenized < csv.length / 10, `tokenized ${tokenized} of ${csv.length} characters`);
+    });
   });
 
   describe("column metadata", () => {
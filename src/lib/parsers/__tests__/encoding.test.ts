@@ -0,0 +1,124 @@
+/**
+ * Tests for encoding detection and decoding
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decodeText, decodeTextChunks, detectEncoding, isSupportedEncoding } from "../encoding";
+
+/**
+ * Encode text as UTF-16 (TextEncoder only produces UTF-8)
+ */
+function encodeUTF16(text: string, littleEndian: boolean, bom: boolean): Uint8Array {
+  const bytes = new Uint8Array((text.length + (bom ? 1 : 0)) * 2);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  if (bom) {
+    view.setUint16(0, 0xfeff, littleEndian);
+    offset = 2;
+  }
+  for (let i = 0; i < text.length; i++) {
+    view.setUint16(offset + i * 2, text.charCodeAt(i), littleEndian);
+  }
+  return bytes;
+}
+
+// "name,city\nJosé,Zürich\n" in Windows-1252
+const windows1252 = new Uint8Array([
+  0x6e, 0x61, 0x6d, 0x65, 0x2c, 0x63, 0x69, 0x74, 0x79, 0x0a, 0x4a, 0x6f, 0x73, 0xe9, 0x2c, 0x5a,
+  0xfc, 0x72, 0x69, 0x63, 0x68, 0x0a,
+]);
+
+// "名前,カナ\nやまだ,ヤマダ\n" in Shift-JIS
+const shiftJIS = new Uint8Array([
+  0x96, 0xbc, 0x91, 0x4f, 0x2c, 0x83, 0x4a, 0x83, 0x69, 0x0a, 0x82, 0xe2, 0x82, 0xdc, 0x82, 0xbe,
+  0x2c, 0x83, 0x84, 0x83, 0x7d, 0x83, 0x5f, 0x0a,
+]);
+
+describe("detectEncoding", () => {
+  it("should detect byte order marks", () => {
+    assert.deepEqual(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61])), {
+      encoding: "utf-8",
+      source: "bom",
+    });
+    assert.equal(detectEncoding(encodeUTF16("a,b", true, true)).encoding, "utf-16le");
+    assert.equal(detectEncoding(encodeUTF16("a,b", false, true)).encoding, "utf-16be");
+  });
+
+  it("should detect UTF-16 without a BOM", () => {
+    assert.equal(detectEncoding(encodeUTF16("name,city\nA,B\n", true, false)).encoding, "utf-16le");
+    assert.equal(
+      detectEncoding(encodeUTF16("name,city\nA,B\n", false, false)).encoding,
+      "utf-16be",
+    );
+  });
+
+  it("should detect UTF-8", () => {
+    const result = detectEncoding(new TextEncoder().encode("name\nJosé\n"));
+    assert.deepEqual(result, { encoding: "utf-8", source: "heuristic" });
+  });
+
+  it("should detect Shift-JIS", () => {
+    assert.equal(detectEncoding(shiftJIS).encoding, "shift_jis");
+  });
+
+  it("should fall back to Windows-1252 for other single-byte text", () => {
+    assert.equal(detectEncoding(windows1252).encoding, "windows-1252");
+  });
+
+  it("should allow a UTF-8 character cut off by the sample size", () => {
+    const text = `${"a".repeat(64 * 1024 - 1)}é`;
+    assert.equal(detectEncoding(new TextEncoder().encode(text)).encoding, "utf-8");
+  });
+});
+
+describe("decodeText", () => {
+  it("should decode detected encodings", () => {
+    assert.equal(decodeText(windows1252), "name,city\nJosé,Zürich\n");
+    assert.equal(decodeText(shiftJIS), "名前,カナ\nやまだ,ヤマダ\n");
+    assert.equal(decodeText(encodeUTF16("a,é", true, true)), "a,é");
+  });
+
+  it("should strip a UTF-8 BOM", () => {
+    assert.equal(decodeText(new Uint8Array([0xef, 0xbb, 0xbf, 0x61])), "a");
+  });
+
+  it("should use an explicit encoding over detection", () => {
+    const utf8 = new TextEncoder().encode("é");
+    assert.equal(decodeText(utf8, "windows-1252"), "Ã©");
+    assert.equal(decodeText(utf8, "auto"), "é");
+  });
+
+  it("should reject unknown encodings", () => {
+    assert.throws(() => decodeText(windows1252, "klingon"), RangeError);
+  });
+});
+
+describe("decodeTextChunks", () => {
+  it("should decode multi-byte characters split across chunks", () => {
+    const bytes = new TextEncoder().encode("naïve,café\n€1,ü");
+
+    const text = [...decodeTextChunks(bytes, undefined, 3)].join("");
+
+    assert.equal(text, "naïve,café\n€1,ü");
+  });
+
+  it("should decode UTF-16 in odd-sized chunks", () => {
+    const text = [...decodeTextChunks(encodeUTF16("a,ü\nb,c", true, true), undefined, 3)].join("");
+
+    assert.equal(text, "a,ü\nb,c");
+  });
+});
+
+describe("isSupportedEncoding", () => {
+  it("should accept the encodings users can choose", () => {
+    assert.equal(isSupportedEncoding("utf-8"), true);
+    assert.equal(isSupportedEncoding("shift_jis"), true);
+  });
+
+  it("should reject other labels", () => {
+    assert.equal(isSupportedEncoding("not-an-encoding"), false);
+    assert.equal(isSupportedEncoding("auto"), false);
+    assert.equal(isSupportedEncoding("UTF-8"), false);
+  });
+});
@@ -47,6 +47,26 @@ describe("inferColumnTypes", () => {
 
       assert.equal(columns[0].type, "number");
     });
+
+    it("should infer number type for currencies, percents and accounting negatives", () => {
+      const rows = [
+        { amount: "$1,234.50" },
+        { amount: "12.5%" },
+        { amount: "(99)" },
+        { amount: "5-" },
+      ];
+
+      const columns = inferColumnTypes(rows, ["amount"]);
+
+      assert.equal(columns[0].type, "number");
+    });
+
+    it("should use the number separators given", () => {
+      const rows = [{ amount: "1.234,56" }, { amount: "12,5" }, { amount: "1.234.567,8" }];
+
+      assert.equal(inferColumnTypes(rows, ["amount"])[0].type, "string");
+      assert.equal(inferColumnTypes(rows, ["amount"], { locale: "de-DE" })[0].type, "number");
+    });
   });
 
   describe("boolean inference", () => {
@@ -1,22 +1,203 @@
 /**
  * CSV parser implementation
+ *
+ * RFC 4180 compliant: a character-level state machine tokenizes the input, so
+ * quoted fields may contain delimiters, line breaks and escaped quotes. Input can
+ * be fed in chunks (see parseCSVStream) so large files are never split into lines
+ * or held as rows in memory.
  */
 
-import { inferColumnTypes } from "./type-inference";
-import type { ParseOptions, ParseResult } from "./types";
+import { getNumberSeparators, type NumberParseOptions } from "@/lib/pipeline/casting/numbers";
+import { ColumnTypeAccumulator, inferColumnTypes } from "./type-inference";
+import type { ColumnMetadata, ParseOptions, ParseResult, StreamingParseResult } from "./types";
 import { ParseError } from "./types";
 
+/** Amount of text used to detect the delimiter */
+const DELIMITER_SAMPLE_SIZE = 64 * 1024;
+
+/** Amount of text tokenized at a time by parseCSV, so a row limit stops it early */
+const PARSE_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Characters that control tokenizing
+ */
+export interface CSVDialect {
+  delimiter: string;
+  quoteChar: string;
+  escapeChar: string;
+}
+
+type TokenizerState =
+  | "field_start" // Nothing read for the current field yet
+  | "unquoted" // Inside an unquoted field
+  | "quoted" // Inside a quoted field
+  | "quoted_escape" // Escape char read inside a quoted field
+  | "quoted_quote" // Quote read inside a quoted field: closing quote or doubled quote
+  | "after_quoted"; // After the closing quote of a field
+
+/**
+ * Incremental CSV tokenizer
+ * Text is pushed in chunks of any size; complete records are returned as soon as
+ * their line break has been read. Blank lines are skipped.
+ *
+ * Unquoted fields are trimmed; quoted fields keep their content exactly.
+ */
+export class CSVTokenizer {
+  private state: TokenizerState = "field_start";
+  private field = "";
+  private fieldQuoted = false;
+  private record: string[] = [];
+  private recordQuoted = false;
+  private skipLineFeed = false;
+  private line = 1;
+  private recordLine = 1;
+
+  /** Problems found while tokenizing (e.g. unterminated quotes) */
+  readonly warnings: string[] = [];
+
+  constructor(private readonly dialect: CSVDialect) {}
+
+  /**
+   * Tokenize a chunk of text and return the records it completes
+   */
+  push(chunk: string): string[][] {
+    const records: string[][] = [];
+    for (let i = 0; i < chunk.length; i++) {
+      this.consume(chunk[i], records);
+    }
+    return records;
+  }
+
+  /**
+   * Signal the end of input and return the final record, if any
+   */
+  end(): string[][] {
+    const records: string[][] = [];
+
+    if (this.state === "quoted" || this.state === "quoted_escape") {
+      this.warnings.push(
+        `Unterminated quoted field in row starting on line ${this.recordLine}. ` +
+          `The rest of the file was read into that field.`,
+      );
+    }
+
+    if (this.field !== "" || this.fieldQuoted || this.record.length > 0) {
+      this.endField();
+      this.endRecord(records);
+    }
+
+    return records;
+  }
+
+  private consume(char: string, records: string[][]): void {
+    const { delimiter, quoteChar, escapeChar } = this.dialect;
+
+    // "\r\n" is one line break, even when split across chunks
+    if (this.skipLineFeed) {
+      this.skipLineFeed = false;
+      if (char === "\n") return;
+    }
+
+    switch (this.state) {
+      case "quoted":
+        if (char === escapeChar && escapeChar !== quoteChar) {
+          this.state = "quoted_escape";
+        } else if (char === quoteChar) {
+          this.state = "quoted_quote";
+        } else {
+          this.appendQuoted(char);
+        }
+        return;
+
+      case "quoted_escape":
+        this.appendQuoted(char);
+        this.state = "quoted";
+        return;
+
+      case "quoted_quote":
+        if (char === quoteChar) {
+          // Doubled quote is a literal quote
+          this.field += quoteChar;
+          this.state = "quoted";
+          return;
+        }
+        this.state = "after_quoted";
+        break; // Handle the character as outside quotes
+    }
+
+    // Outside quotes
+    if (char === delimiter) {
+      this.endField();
+      return;
+    }
+
+    if (char === "\n" || char === "\r") {
+      this.endField();
+      this.endRecord(records);
+      this.line++;
+      this.recordLine = this.line;
+      this.skipLineFeed = char === "\r";
+      return;
+    }
+
+    if (this.state === "after_quoted") {
+      // Stray text after a closing quote is kept; whitespace is dropped
+      if (char.trim() !== "") {
+        this.field += char;
+      }
+      return;
+    }
+
+    if (char === quoteChar && this.field.trim() === "") {
+      // Opening quote (whitespace before it is ignored)
+      this.field = "";
+      this.fieldQuoted = true;
+      this.recordQuoted = true;
+      this.state = "quoted";
+      return;
+    }
+
+    this.field += char;
+    this.state = "unquoted";
+  }
+
+  private appendQuoted(char: string): void {
+    this.field += char;
+    if (char === "\n") {
+      this.line++;
+    }
+  }
+
+  private endField(): void {
+    this.record.push(this.fieldQuoted ? this.field : this.field.trim());
+    this.field = "";
+    this.fieldQuoted = false;
+    this.state = "field_start";
+  }
+
+  private endRecord(records: string[][]): void {
+    const isBlank = !this.recordQuoted && this.record.length === 1 && this.record[0] === "";
+    if (!isBlank) {
+      records.push(this.record);
+    }
+    this.record = [];
+    this.recordQuoted = false;
+  }
+}
+
 /**
  * Detect the delimiter used in a CSV file
+ * Picks the candidate that splits the first records into the most, equally sized, fields.
  */
-function detectDelimiter(sample: string): string {
+function detectDelimiter(sample: string, quoteChar: string, escapeChar: string): string {
   const delimiters = [",", ";", "\t", "|"];
   const counts = delimiters.map((delim) => {
-    const lines = sample.split("\n").slice(0, 5);
-    const counts = lines.map((line) => line.split(delim).length);
-    // Check if all lines have the same count and count > 1
+    const tokenizer = new CSVTokenizer({ delimiter: delim, quoteChar, escapeChar });
+    const records = [...tokenizer.push(sample), ...tokenizer.end()].slice(0, 5);
+    const counts = records.map((record) => record.length);
+    // Check if all records have the same count and count > 1
     const allSame = counts.every((c) => c === counts[0]);
-    return { delimiter: delim, count: counts[0], consistent: allSame };
+    return { delimiter: delim, count: counts[0] ?? 0, consistent: allSame };
   });
 
   // Find delimiter with highest consistent count
@@ -27,132 +208,178 @@ function detectDelimiter(sample: string): string {
   return best?.delimiter || ",";
 }
 
-/**
- * Parse a CSV value, handling quotes and escapes
- */
-function parseCSVValue(value: string): string {
-  // Remove leading/trailing whitespace
-  value = value.trim();
-
-  // Handle quoted values
-  if (value.startsWith('"') && value.endsWith('"')) {
-    // Remove quotes and unescape doubled quotes
-    value = value.slice(1, -1).replace(/""/g, '"');
-  }
-
-  return value;
-}
-
-/**
- * Parse a single CSV line, handling quoted fields with delimiters
- */
-function parseCSVLine(line: string, delimiter: string): string[] {
-  const fields: string[] = [];
-  let currentField = "";
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    const nextChar = line[i + 1];
-
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        // Escaped quote
-        currentField += '"';
-        i++; // Skip next quote
-      } else {
-        // Toggle quote mode
-        inQuotes = !inQuotes;
-      }
-    } else if (char === delimiter && !inQuotes) {
-      // End of field
-      fields.push(parseCSVValue(currentField));
-      currentField = "";
-    } else {
-      currentField += char;
-    }
-  }
-
-  // Add last field
-  fields.push(parseCSVValue(currentField));
-
-  return fields;
+interface ResolvedOptions {
+  maxRows: number;
+  inferTypes: boolean;
+  startRow: number;
+  endRow?: number;
+  startColumn: number;
+  endColumn?: number;
+  hasHeaders: boolean;
+  quoteChar: string;
+  escapeChar: string;
+  numberFormat?: NumberParseOptions;
 }
 
 /**
- * Parse CSV content into structured data
+ * Apply defaults and validate row/column ranges
  */
-export function parseCSV(content: string, options: ParseOptions = {}): ParseResult {
+function resolveOptions(options: ParseOptions): ResolvedOptions {
   const {
     maxRows = Infinity,
     inferTypes = true,
-    delimiter: userDelimiter,
     startRow = 1,
     endRow,
     startColumn = 1,
     endColumn,
     hasHeaders = true,
+    quoteChar = '"',
+    escapeChar = quoteChar,
+    numberLocale,
   } = options;
+  const numberFormat: NumberParseOptions | undefined = numberLocale
+    ? { locale: numberLocale }
+    : undefined;
 
-  try {
-    // Detect delimiter if not provided
-    const delimiter = userDelimiter || detectDelimiter(content);
+  // Validate row range
+  if (startRow < 1) {
+    throw new ParseError("startRow must be >= 1", "INVALID_RANGE");
+  }
+  if (endRow !== undefined && endRow < startRow) {
+    throw new ParseError("endRow must be >= startRow", "INVALID_RANGE");
+  }
 
-    // Split into lines
-    const allLines = content.split(/\r?\n/).filter((line) => line.trim());
+  // Validate column range
+  if (startColumn < 1) {
+    throw new ParseError("startColumn must be >= 1", "INVALID_RANGE");
+  }
+  if (endColumn !== undefined && endColumn < startColumn) {
+    throw new ParseError("endColumn must be >= startColumn", "INVALID_RANGE");
+  }
 
-    if (allLines.length === 0) {
-      throw new ParseError("File is empty", "EMPTY_FILE");
+  // Validate dialect
+  if (quoteChar.length !== 1 || escapeChar.length !== 1) {
+    throw new ParseError("quoteChar and escapeChar must be single characters", "INVALID_OPTIONS");
+  }
+
+  // Validate number separators
+  if (numberFormat) {
+    try {
+      getNumberSeparators(numberFormat);
+    } catch (error) {
+      throw new ParseError(
+        error instanceof Error ? error.message : String(error),
+        "INVALID_OPTIONS",
+      );
     }
+  }
 
-    // Validate row range
-    if (startRow < 1) {
-      throw new ParseError("startRow must be >= 1", "INVALID_RANGE");
+  return {
+    maxRows,
+    inferTypes,
+    startRow,
+    endRow,
+    startColumn,
+    endColumn,
+    hasHeaders,
+    quoteChar,
+    escapeChar,
+    numberFormat,
+  };
+}
+
+/**
+ * Turns tokenized records into row objects
+ * Applies the row range, headers (or generated Column1..N names), column range and maxRows.
+ * Row numbers are 1-based record numbers, counting non-blank records only.
+ */
+class RowAssembler {
+  headers: string[] | null = null;
+  readonly warnings: string[] = [];
+  private recordNumber = 0;
+  private dataRowCount = 0;
+
+  constructor(private readonly options: ResolvedOptions) {}
+
+  /** True once no further records can produce rows */
+  get done(): boolean {
+    const { endRow, maxRows } = this.options;
+    return (
+      (endRow !== undefined && this.recordNumber >= endRow) ||
+      (this.headers !== null && this.dataRowCount >= maxRows)
+    );
+  }
+
+  /**
+   * Add a record, appending its row (if in range) to `rows`
+   */
+  add(record: string[], rows: Record<string, unknown>[]): void {
+    const { startRow, endRow, startColumn, endColumn, hasHeaders, maxRows } = this.options;
+
+    this.recordNumber++;
+    if (this.recordNumber < startRow || (endRow !== undefined && this.recordNumber > endRow)) {
+      return;
     }
-    if (endRow !== undefined && endRow < startRow) {
-      throw new ParseError("endRow must be >= startRow", "INVALID_RANGE");
+
+    if (this.headers === null) {
+      this.headers = this.buildHeaders(record);
+      if (hasHeaders) {
+        return;
+      }
     }
 
-    // Validate column range
-    if (startColumn < 1) {
-      throw new ParseError("startColumn must be >= 1", "INVALID_RANGE");
+    if (this.dataRowCount >= maxRows) {
+      return;
     }
-    if (endColumn !== undefined && endColumn < startColumn) {
-      throw new ParseError("endColumn must be >= startColumn", "INVALID_RANGE");
+
+    // Apply column range to values
+    const headers = this.headers;
+    const values = applyColumnRange(record, startColumn, endColumn);
+
+    if (values.length !== headers.length) {
+      this.warnings.push(
+        `Row ${this.recordNumber} has ${values.length} columns in range but expected ${headers.length}. ` +
+          `This row may be malformed.`,
+      );
     }
 
-    // Extract lines in the specified row range (convert to 0-based indexing)
-    const firstLineIndex = startRow - 1;
-    const lastLineIndex = endRow !== undefined ? endRow : allLines.length;
-    const lines = allLines.slice(firstLineIndex, lastLineIndex);
+    const row: Record<string, unknown> = {};
+    for (let j = 0; j < headers.length; j++) {
+      const value = values[j] || "";
+      row[headers[j]] = value === "" ? null : value;
+    }
+    rows.push(row);
+    this.dataRowCount++;
+  }
 
-    if (lines.length === 0) {
+  /**
+   * Return the headers once all records have been added
+   */
+  finish(): string[] {
+    if (this.recordNumber === 0) {
+      throw new ParseError("File is empty", "EMPTY_FILE");
+    }
+    if (this.headers === null) {
       throw new ParseError("No data in specified row range", "EMPTY_RANGE");
     }
+    return this.headers;
+  }
 
-    // Determine headers
-    let headers: string[];
-    let dataStartIndex: number;
+  private buildHeaders(record: string[]): string[] {
+    const { startColumn, endColumn, hasHeaders } = this.options;
 
+    let headers: string[];
     if (hasHeaders) {
-      // First line is headers
-      const headerLine = lines[0];
-      const allHeaders = parseCSVLine(headerLine, delimiter);
-
-      // Apply column range to headers
-      headers = applyColumnRange(allHeaders, startColumn, endColumn);
-      dataStartIndex = 1;
+      // First record is headers
+      headers = applyColumnRange(record, startColumn, endColumn);
     } else {
       // Generate column headers: Column1, Column2, etc.
-      const firstLine = lines[0];
-      const allValues = parseCSVLine(firstLine, delimiter);
       const columnCount =
         endColumn !== undefined
-          ? Math.min(endColumn, allValues.length) - (startColumn - 1)
-          : allValues.length - (startColumn - 1);
+          ? Math.min(endColumn, record.length) - (startColumn - 1)
+          : record.length - (startColumn - 1);
 
-      headers = Array.from({ length: columnCount }, (_, i) => `Column${i + 1}`);
-      dataStartIndex = 0;
+      headers = Array.from({ length: Math.max(columnCount, 0) }, (_, i) => `Column${i + 1}`);
     }
 
     if (headers.length === 0) {
@@ -169,66 +396,177 @@ export function parseCSV(content: string, options: ParseOptions = {}): ParseResu
       headerSet.add(header);
     });
 
-    const warnings: string[] = [];
     if (duplicates.length > 0) {
-      warnings.push(
+      this.warnings.push(
         `Duplicate column names found: ${duplicates.join(", ")}. ` +
           `Later columns will overwrite earlier ones.`,
       );
     }
 
-    // Parse data rows
-    const rows: Record<string, unknown>[] = [];
-    const dataLines = lines.slice(dataStartIndex, Math.min(lines.length, dataStartIndex + maxRows));
+    return headers;
+  }
+}
 
-    for (let i = 0; i < dataLines.length; i++) {
-      const line = dataLines[i];
-      const allValues = parseCSVLine(line, delimiter);
+/**
+ * Column metadata when type inference is disabled
+ */
+function untypedColumns(headers: string[]): ColumnMetadata[] {
+  return headers.map((name) => ({
+    name,
+    type: "string" as const,
+    nonNullCount: 0,
+    nullCount: 0,
+    sampleValues: [],
+  }));
+}
 
-      // Apply column range to values
-      const values = applyColumnRange(allValues, startColumn, endColumn);
+/**
+ * Wrap unexpected errors in a ParseError
+ */
+function toParseError(error: unknown): ParseError {
+  if (error instanceof ParseError) {
+    return error;
+  }
+  return new ParseError(
+    `Failed to parse CSV: ${error instanceof Error ? error.message : String(error)}`,
+    "PARSE_ERROR",
+    error,
+  );
+}
 
-      if (values.length !== headers.length) {
-        warnings.push(
-          `Row ${firstLineIndex + dataStartIndex + i + 1} has ${values.length} columns in range but expected ${headers.length}. ` +
-            `This row may be malformed.`,
-        );
-      }
+/**
+ * Parse CSV content into structured data
+ */
+export function parseCSV(content: string, options: ParseOptions = {}): ParseResult {
+  try {
+    const settings = resolveOptions(options);
+    const { quoteChar, escapeChar } = settings;
+
+    // Detect delimiter if not provided
+    const delimiter =
+      options.delimiter ||
+      detectDelimiter(content.slice(0, DELIMITER_SAMPLE_SIZE), quoteChar, escapeChar);
+
+    const tokenizer = new CSVTokenizer({ delimiter, quoteChar, escapeChar });
+    const assembler = new RowAssembler(settings);
 
-      const row: Record<string, unknown> = {};
-      for (let j = 0; j < headers.length; j++) {
-        const value = values[j] || "";
-        row[headers[j]] = value === "" ? null : value;
+    // Parse data rows, stopping once endRow/maxRows is reached
+    const rows: Record<string, unknown>[] = [];
+    const consume = (records: string[][]) => {
+      for (const record of records) {
+        if (assembler.done) return;
+        assembler.add(record, rows);
       }
-      rows.push(row);
+    };
+
+    for (let start = 0; start < content.length && !assembler.done; start += PARSE_CHUNK_SIZE) {
+      consume(tokenizer.push(content.slice(start, start + PARSE_CHUNK_SIZE)));
+    }
+    if (!assembler.done) {
+      consume(tokenizer.end());
     }
 
+    const headers = assembler.finish();
+
     // Infer column types if requested
-    const columns = inferTypes
-      ? inferColumnTypes(rows, headers)
-      : headers.map((name) => ({
-          name,
-          type: "string" as const,
-          nonNullCount: 0,
-          nullCount: 0,
-          sampleValues: [],
-        }));
+    const columns = settings.inferTypes
+      ? inferColumnTypes(rows, headers, settings.numberFormat)
+      : untypedColumns(headers);
 
     return {
       rows,
       columns,
       rowCount: rows.length,
-      warnings,
+      warnings: [...assembler.warnings, ...tokenizer.warnings],
     };
   } catch (error) {
-    if (error instanceof ParseError) {
-      throw error;
+    throw toParseError(error);
+  }
+}
+
+/**
+ * Parse CSV text chunks, handing rows to `onBatch` in batches of `batchSize`
+ * Only the current batch is held in memory; column types are inferred incrementally.
+ * Reading stops early once endRow/maxRows is reached.
+ */
+export async function parseCSVStream(
+  chunks: Iterable<string> | AsyncIterable<string>,
+  onBatch: (rows: Record<string, unknown>[]) => void | Promise<void>,
+  options: ParseOptions = {},
+  batchSize = 1000,
+): Promise<StreamingParseResult> {
+  try {
+    const settings = resolveOptions(options);
+    const { quoteChar, escapeChar } = settings;
+    const assembler = new RowAssembler(settings);
+
+    // The delimiter is detected from the first part of the input unless given
+    const startTokenizer = (sample: string) => {
+      const delimiter = options.delimiter || detectDelimiter(sample, quoteChar, escapeChar);
+      return new CSVTokenizer({ delimiter, quoteChar, escapeChar });
+    };
+
+    let tokenizer: CSVTokenizer | null = options.delimiter ? startTokenizer("") : null;
+    let accumulator: ColumnTypeAccumulator | null = null;
+    let sample = "";
+    let batch: Record<string, unknown>[] = [];
+    let rowCount = 0;
+
+    const flush = async () => {
+      if (batch.length === 0 || assembler.headers === null) return;
+      if (settings.inferTypes) {
+        accumulator ??= new ColumnTypeAccumulator(assembler.headers, settings.numberFormat);
+        accumulator.add(batch);
+      }
+      rowCount += batch.length;
+      await onBatch(batch);
+      batch = [];
+    };
+
+    const consume = async (records: string[][]) => {
+      for (const record of records) {
+        if (assembler.done) return;
+        assembler.add(record, batch);
+        if (batch.length >= batchSize) {
+          await flush();
+        }
+      }
+    };
+
+    for await (const chunk of chunks) {
+      if (assembler.done) break;
+
+      if (tokenizer === null) {
+        sample += chunk;
+        if (sample.length < DELIMITER_SAMPLE_SIZE) continue;
+        tokenizer = startTokenizer(sample);
+        await consume(tokenizer.push(sample));
+        sample = "";
+        continue;
+      }
+
+      await consume(tokenizer.push(chunk));
     }
-    throw new ParseError(
-      `Failed to parse CSV: ${error instanceof Error ? error.message : String(error)}`,
-      "PARSE_ERROR",
-      error,
-    );
+
+    if (tokenizer === null) {
+      tokenizer = startTokenizer(sample);
+      await consume(tokenizer.push(sample));
+    }
+    await consume(tokenizer.end());
+    await flush();
+
+    const headers = assembler.finish();
+    const columns = settings.inferTypes
+      ? (accumulator ?? new ColumnTypeAccumulator(headers, settings.numberFormat)).getColumns()
+      : untypedColumns(headers);
+
+    return {
+      columns,
+      rowCount,
+      warnings: [...assembler.warnings, ...tokenizer.warnings],
+    };
+  } catch (error) {
+    throw toParseError(error);
   }
 }
 
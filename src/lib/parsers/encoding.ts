@@ -0,0 +1,177 @@
+/**
+ * Character encoding detection and decoding for uploaded text files
+ *
+ * Detection order:
+ *   1. Byte order mark (UTF-8, UTF-16 LE/BE)
+ *   2. UTF-16 without BOM (many zero bytes in alternating positions)
+ *   3. Valid UTF-8
+ *   4. Shift-JIS, when it decodes cleanly into Japanese kana
+ *   5. Windows-1252 (a superset of ISO-8859-1 for printable text)
+ */
+
+/**
+ * Encodings users can choose from (WHATWG encoding labels)
+ */
+export const SUPPORTED_ENCODINGS = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+  { value: "windows-1252", label: "Windows-1252 (Western)" },
+  { value: "iso-8859-1", label: "ISO-8859-1 (Latin-1)" },
+  { value: "shift_jis", label: "Shift-JIS (Japanese)" },
+] as const;
+
+/**
+ * Whether an encoding is one users can choose (parse configs store only these)
+ */
+export function isSupportedEncoding(encoding: string): boolean {
+  return SUPPORTED_ENCODINGS.some((supported) => supported.value === encoding);
+}
+
+/** Bytes inspected by the heuristics */
+const DETECTION_SAMPLE_SIZE = 64 * 1024;
+
+/** Size of the text chunks produced by decodeTextChunks */
+const DECODE_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Result of encoding detection
+ */
+export interface DetectedEncoding {
+  /** WHATWG encoding label */
+  encoding: string;
+  /** How the encoding was determined */
+  source: "bom" | "heuristic";
+}
+
+function toBytes(buffer: ArrayBuffer | Uint8Array): Uint8Array {
+  return buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+}
+
+/**
+ * Detect the encoding from a byte order mark
+ */
+function detectBOM(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+  return null;
+}
+
+/**
+ * Detect UTF-16 without a BOM: ASCII-heavy text has a zero in every other byte
+ */
+function detectUTF16(sample: Uint8Array): string | null {
+  if (sample.length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+
+  const pairs = sample.length / 2;
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return "utf-16le";
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return "utf-16be";
+  return null;
+}
+
+/**
+ * Check the sample is valid UTF-8
+ * A multi-byte character cut off at the end of the sample is allowed.
+ */
+function isValidUTF8(sample: Uint8Array, truncated: boolean): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: truncated });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check the sample decodes as Shift-JIS into mostly Japanese text
+ * Western text decodes to stray kanji, but hardly ever to hiragana/katakana.
+ */
+function looksLikeShiftJIS(sample: Uint8Array): boolean {
+  let text: string;
+  try {
+    text = new TextDecoder("shift_jis", { fatal: true }).decode(sample);
+  } catch {
+    return false;
+  }
+
+  let nonAscii = 0;
+  let kana = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) continue;
+    nonAscii++;
+    if (code >= 0x3040 && code <= 0x30ff) kana++;
+  }
+
+  return nonAscii > 0 && kana / nonAscii >= 0.2;
+}
+
+/**
+ * Detect the character encoding of a file
+ */
+export function detectEncoding(buffer: ArrayBuffer | Uint8Array): DetectedEncoding {
+  const bytes = toBytes(buffer);
+
+  const bom = detectBOM(bytes);
+  if (bom) {
+    return { encoding: bom, source: "bom" };
+  }
+
+  const truncated = bytes.length > DETECTION_SAMPLE_SIZE;
+  const sample = bytes.subarray(0, DETECTION_SAMPLE_SIZE);
+
+  const encoding =
+    detectUTF16(sample) ??
+    (isValidUTF8(sample, truncated) ? "utf-8" : null) ??
+    (looksLikeShiftJIS(sample) ? "shift_jis" : null) ??
+    "windows-1252";
+
+  return { encoding, source: "heuristic" };
+}
+
+/**
+ * Resolve the encoding to decode with: an explicit choice, or detection for "auto"/undefined
+ */
+export function resolveEncoding(buffer: ArrayBuffer | Uint8Array, encoding?: string): string {
+  return encoding && encoding !== "auto" ? encoding : detectEncoding(buffer).encoding;
+}
+
+/**
+ * Decode a file buffer to text
+ * A byte order mark matching the encoding is stripped.
+ */
+export function decodeText(buffer: ArrayBuffer | Uint8Array, encoding?: string): string {
+  return new TextDecoder(resolveEncoding(buffer, encoding)).decode(toBytes(buffer));
+}
+
+/**
+ * Decode a file buffer into text chunks (e.g. for parseCSVStream)
+ * Multi-byte characters split across chunk boundaries are decoded correctly.
+ */
+export function* decodeTextChunks(
+  buffer: ArrayBuffer | Uint8Array,
+  encoding?: string,
+  chunkSize = DECODE_CHUNK_SIZE,
+): Generator<string> {
+  const bytes = toBytes(buffer);
+  const decoder = new TextDecoder(resolveEncoding(bytes, encoding));
+
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    yield decoder.decode(bytes.subarray(offset, offset + chunkSize), { stream: true });
+  }
+
+  const rest = decoder.decode();
+  if (rest) {
+    yield rest;
+  }
+}
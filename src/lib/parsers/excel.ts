@@ -113,6 +113,7 @@ export function parseExcel(buffer: ArrayBuffer, options: ParseOptions = {}): Par
     startColumn = 1,
     endColumn,
     hasHeaders = true,
+    numberLocale,
   } = options;
 
   try {
@@ -290,7 +291,7 @@ export function parseExcel(buffer: ArrayBuffer, options: ParseOptions = {}): Par
 
     // Infer column types if requested
     const columns = inferTypes
-      ? inferColumnTypes(rows, headers)
+      ? inferColumnTypes(rows, headers, numberLocale ? { locale: numberLocale } : undefined)
       : headers.map((name) => ({
           name,
           type: "string" as const,
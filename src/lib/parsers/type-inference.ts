@@ -2,26 +2,22 @@
  * Type inference for parsed data columns
  */
 
+import { type NumberParseOptions, parseNumber } from "@/lib/pipeline/casting/numbers";
 import type { ColumnMetadata, InferredType } from "./types";
 
 /**
  * Check if a value looks like a number
+ * Examples: 123, -123, 1,234.56, 1e10, $1,234.50, 12.5%, (123), 123-
+ * (1.234,56 with a locale such as "de-DE")
  */
-function isNumber(value: unknown): boolean {
+function isNumber(value: unknown, numberFormat?: NumberParseOptions): boolean {
   if (typeof value === "number") return true;
   if (typeof value !== "string") return false;
 
   const trimmed = value.trim();
   if (trimmed === "") return false;
 
-  // Check for common number formats
-  // Examples: 123, -123, 123.45, -123.45, 1,234.56, 1e10, -1.23e-4
-  // Pattern breakdown:
-  // ^-? - optional minus sign at start
-  // (?:[\d,]+\.?\d*|\d*\.?\d+) - number with optional commas and decimal
-  // (?:[eE][+-]?\d+)? - optional scientific notation
-  const numberPattern = /^-?(?:[\d,]+\.?\d*|\d*\.?\d+)(?:[eE][+-]?\d+)?$/;
-  return numberPattern.test(trimmed);
+  return parseNumber(trimmed, numberFormat) !== null;
 }
 
 /**
@@ -68,14 +64,14 @@ function isDate(value: unknown): boolean {
 /**
  * Infer the type of a single value
  */
-function inferValueType(value: unknown): InferredType {
+function inferValueType(value: unknown, numberFormat?: NumberParseOptions): InferredType {
   if (value === null || value === undefined || value === "") {
     return "null";
   }
 
   // Check in order of specificity
   // Check number before boolean because "0" and "1" can be both
-  if (isNumber(value)) return "number";
+  if (isNumber(value, numberFormat)) return "number";
   if (isBoolean(value)) return "boolean";
   if (isDate(value)) return "date";
 
@@ -83,28 +79,30 @@ function inferValueType(value: unknown): InferredType {
 }
 
 /**
- * Infer the type for a column based on its values
+ * Running type counts for one column
+ */
+interface ColumnStats {
+  typeCounts: Map<InferredType, number>;
+  nonNullCount: number;
+  nullCount: number;
+  sampleValues: unknown[];
+}
+
+/**
+ * Pick a column type from its type counts
  *
  * Strategy:
  * - If all non-null values have the same type, use that type
  * - If mixed types, use the most general type (string)
  * - Prioritize more specific types (boolean > number > date > string)
  */
-function inferColumnType(values: unknown[]): InferredType {
-  const nonNullValues = values.filter((v) => v !== null && v !== undefined && v !== "");
-
-  if (nonNullValues.length === 0) {
+function resolveColumnType(stats: ColumnStats): InferredType {
+  if (stats.nonNullCount === 0) {
     return "string"; // Default to string for all-null columns
   }
 
-  // Count types
-  const typeCounts = new Map<InferredType, number>();
-  for (const value of nonNullValues) {
-    const type = inferValueType(value);
-    typeCounts.set(type, (typeCounts.get(type) || 0) + 1);
-  }
-
   // Remove null type from consideration
+  const typeCounts = new Map(stats.typeCounts);
   typeCounts.delete("null");
 
   if (typeCounts.size === 0) {
@@ -118,9 +116,8 @@ function inferColumnType(values: unknown[]): InferredType {
 
   // Mixed types: check for common patterns
   // If >80% of values are a specific type, use that type
-  const totalNonNull = nonNullValues.length;
   for (const [type, count] of typeCounts.entries()) {
-    if (count / totalNonNull >= 0.8) {
+    if (count / stats.nonNullCount >= 0.8) {
       return type;
     }
   }
@@ -129,35 +126,72 @@ function inferColumnType(values: unknown[]): InferredType {
   return "string";
 }
 
+/**
+ * Incremental column type inference
+ * Rows can be added in batches, so a file never has to be held in memory at once.
+ */
+export class ColumnTypeAccumulator {
+  private readonly stats: ColumnStats[];
+
+  constructor(
+    private readonly headers: string[],
+    private readonly numberFormat?: NumberParseOptions,
+  ) {
+    this.stats = headers.map(() => ({
+      typeCounts: new Map(),
+      nonNullCount: 0,
+      nullCount: 0,
+      sampleValues: [],
+    }));
+  }
+
+  add(rows: Record<string, unknown>[]): void {
+    for (const row of rows) {
+      this.headers.forEach((name, index) => {
+        const value = row[name];
+        const stats = this.stats[index];
+
+        if (value === null || value === undefined || value === "") {
+          stats.nullCount++;
+          return;
+        }
+
+        stats.nonNullCount++;
+        const type = inferValueType(value, this.numberFormat);
+        stats.typeCounts.set(type, (stats.typeCounts.get(type) || 0) + 1);
+
+        // Keep the first 5 non-null values as samples
+        if (stats.sampleValues.length < 5) {
+          stats.sampleValues.push(value);
+        }
+      });
+    }
+  }
+
+  getColumns(): ColumnMetadata[] {
+    return this.headers.map((name, index) => {
+      const stats = this.stats[index];
+      return {
+        name,
+        type: resolveColumnType(stats),
+        nonNullCount: stats.nonNullCount,
+        nullCount: stats.nullCount,
+        sampleValues: [...stats.sampleValues],
+      };
+    });
+  }
+}
+
 /**
  * Infer types for all columns in a dataset
+ * `numberFormat` sets the number separators (default: "." decimals, "," grouping).
  */
 export function inferColumnTypes(
   rows: Record<string, unknown>[],
   headers: string[],
+  numberFormat?: NumberParseOptions,
 ): ColumnMetadata[] {
-  return headers.map((name) => {
-    // Extract all values for this column
-    const values = rows.map((row) => row[name]);
-
-    // Infer type
-    const type = inferColumnType(values);
-
-    // Count nulls
-    const nullCount = values.filter((v) => v === null || v === undefined || v === "").length;
-    const nonNullCount = values.length - nullCount;
-
-    // Get sample values (first 5 non-null)
-    const sampleValues = values
-      .filter((v) => v !== null && v !== undefined && v !== "")
-      .slice(0, 5);
-
-    return {
-      name,
-      type,
-      nonNullCount,
-      nullCount,
-      sampleValues,
-    };
-  });
+  const accumulator = new ColumnTypeAccumulator(headers, numberFormat);
+  accumulator.add(rows);
+  return accumulator.getColumns();
 }
@@ -37,6 +37,12 @@ export interface ParseResult {
   warnings: string[];
 }
 
+/**
+ * Result of a streaming parse
+ * Rows are handed to a batch callback instead of being returned.
+ */
+export type StreamingParseResult = Omit<ParseResult, "rows">;
+
 /**
  * Options for parsing files
  */
@@ -47,6 +53,12 @@ export interface ParseOptions {
   inferTypes?: boolean;
   /** CSV delimiter (default: auto-detect) */
   delimiter?: string;
+  /** CSV character encoding, e.g. "windows-1252" (default: auto-detect) */
+  encoding?: string;
+  /** CSV quote character (default: ") */
+  quoteChar?: string;
+  /** CSV escape character inside quoted fields (default: same as quoteChar, i.e. "" escapes ") */
+  escapeChar?: string;
   /** Excel: Sheet name to parse */
   sheetName?: string;
   /** Excel: Sheet index to parse (0-based, fallback if name unavailable) */
@@ -61,6 +73,8 @@ export interface ParseOptions {
   endColumn?: number;
   /** Whether first row (after startRow) contains headers (default: true) */
   hasHeaders?: boolean;
+  /** Locale of the numbers for type inference, e.g. "de-DE" reads 1.234,56 (default: "." decimals, "," grouping) */
+  numberLocale?: string;
 }
 
 /**
@@ -38,4 +38,46 @@ describe("assistantSchemas", () => {
 
     assert.equal(result.success, true);
   });
+
+  it("accepts nested filter condition trees", () => {
+    const result = transformationStepsSchema.safeParse([
+      {
+        id: "s1",
+        type: "filter",
+        config: {
+          type: "filter",
+          condition: {
+            kind: "and",
+            conditions: [
+              { kind: "condition", column: "region", operator: "equals", value: "EU" },
+              {
+                kind: "not",
+                condition: {
+                  kind: "or",
+                  conditions: [
+                    { kind: "condition", column: "amount", operator: "between", values: [1, 10] },
+                    { kind: "condition", column: "vip", operator: "in", values: [true] },
+                  ],
+                },
+              },
+            ],
+          },
+        },
+      },
+    ]);
+
+    assert.equal(result.success, true);
+  });
+
+  it("rejects filter groups without conditions", () => {
+    const result = transformationStepsSchema.safeParse([
+      {
+        id: "s1",
+        type: "filter",
+        config: { type: "filter", condition: { kind: "or", conditions: [] } },
+      },
+    ]);
+
+    assert.equal(result.success, false);
+  });
 });
@@ -254,6 +254,117 @@ describe("executePipeline", () => {
     assert.equal(result.table.rowCount, 2);
     assert.equal(result.stepResults[0].rowsAffected, 1);
   });
+  it("should pass join sources from the context to operations", () => {
+    const table: ParseResult = {
+      rows: [{ code: "A1" }, { code: "B2" }],
+      columns: [{ name: "code", type: "string", nonNullCount: 2, nullCount: 0, sampleValues: [] }],
+      rowCount: 2,
+      warnings: [],
+    };
+    const products: ParseResult = {
+      rows: [{ code: "A1", name: "Widget" }],
+      columns: [
+        { name: "code", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        { name: "name", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 1,
+      warnings: [],
+    };
+
+    const steps: TransformationStep[] = [
+      {
+        id: "step-1",
+        type: "join",
+        config: {
+          type: "join",
+          source: { type: "pipeline", pipelineId: "products" },
+          joinType: "left",
+          on: [{ left: "code", right: "code" }],
+        },
+      },
+    ];
+
+    const result = executePipeline(table, steps, { sources: { "pipeline:products": products } });
+
+    assert.equal(result.stepResults[0].success, true);
+    assert.deepEqual(result.table.rows, [
+      { code: "A1", name: "Widget" },
+      { code: "B2", name: null },
+    ]);
+  });
+
+  it("should fail a join step when its source was not loaded", () => {
+    const table: ParseResult = {
+      rows: [{ code: "A1" }],
+      columns: [{ name: "code", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] }],
+      rowCount: 1,
+      warnings: [],
+    };
+
+    const steps: TransformationStep[] = [
+      {
+        id: "step-1",
+        type: "join",
+        config: {
+          type: "join",
+          source: { type: "upload", uploadId: "upload-1" },
+          joinType: "inner",
+          on: [{ left: "code", right: "code" }],
+        },
+      },
+    ];
+
+    const result = executePipeline(table, steps);
+
+    assert.equal(result.stepResults[0].success, false);
+    assert.match(result.stepResults[0].error ?? "", /Join source not loaded: upload:upload-1/);
+  });
+  it("should skip disabled steps and keep their place in the results", () => {
+    const table: ParseResult = {
+      rows: [{ name: "  Alice  " }],
+      columns: [{ name: "name", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] }],
+      rowCount: 1,
+      warnings: [],
+    };
+
+    const steps: TransformationStep[] = [
+      {
+        id: "step-1",
+        type: "trim",
+        config: { type: "trim", columns: ["name"] },
+        enabled: false,
+      },
+      {
+        id: "step-2",
+        type: "uppercase",
+        config: { type: "uppercase", columns: ["name"] },
+        group: "cleanup",
+      },
+      {
+        id: "step-3",
+        type: "remove_column",
+        config: { type: "remove_column", columns: ["missing"] }, // Would fail if it ran
+        enabled: false,
+      },
+    ];
+
+    const result = executePipeline(table, steps);
+
+    assert.equal(result.table.rows[0].name, "  ALICE  ");
+    assert.deepEqual(
+      result.stepResults.map((step) => [step.stepId, step.success, step.skipped ?? false]),
+      [
+        ["step-1", true, true],
+        ["step-2", true, false],
+        ["step-3", true, true],
+      ],
+    );
+    assert.equal(result.typeEvolution.length, 4);
+
+    // Preview of the disabled step shows the table it receives
+    const preview = executeUntilStep(table, steps, 0);
+    assert.equal(preview.table.rows[0].name, "  Alice  ");
+  });
 });
 
 describe("executeUntilStep", () => {
@@ -0,0 +1,143 @@
+/**
+ * Tests for pipeline recipes
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { executePipeline } from "../executor";
+import {
+  applyColumnMapping,
+  checkRecipeColumns,
+  createRecipe,
+  type PipelineRecipe,
+  parseRecipe,
+  RecipeError,
+  serializeRecipe,
+} from "../recipes";
+import type { TransformationStep } from "../types";
+
+const steps: TransformationStep[] = [
+  { id: "trim", type: "trim", config: { type: "trim", columns: ["email"] } },
+  {
+    id: "total",
+    type: "calculated_column",
+    config: { type: "calculated_column", newColumn: "total", expression: "qty * [unit price]" },
+  },
+  {
+    id: "filter",
+    type: "filter",
+    config: {
+      type: "filter",
+      condition: {
+        kind: "and",
+        conditions: [
+          { kind: "condition", column: "total", operator: "greater_than", value: 10 },
+          {
+            kind: "not",
+            condition: { kind: "condition", column: "country", operator: "is_null" },
+          },
+        ],
+      },
+    },
+  },
+];
+
+function createTestRecipe(): PipelineRecipe {
+  return createRecipe({
+    name: "Vendor cleanup",
+    columns: ["email", "qty", "unit price", "country"],
+    steps,
+    parseConfig: { hasHeaders: true, startRow: 2 },
+  });
+}
+
+describe("recipes", () => {
+  it("should round-trip through JSON and YAML", () => {
+    const recipe = createTestRecipe();
+
+    assert.deepEqual(parseRecipe(serializeRecipe(recipe, "json")), recipe);
+    assert.deepEqual(parseRecipe(serializeRecipe(recipe, "yaml")), recipe);
+    assert.match(serializeRecipe(recipe, "yaml"), /^format: csv-detox-recipe$/m);
+  });
+
+  it("should reject files that are not valid recipes", () => {
+    assert.throws(() => parseRecipe("steps: [unclosed"), RecipeError);
+    assert.throws(() => parseRecipe('{"name": "x"}'), /Not a pipeline recipe/);
+    assert.throws(
+      () => parseRecipe(JSON.stringify({ ...createTestRecipe(), version: 99 })),
+      /Recipe version 99 is newer/,
+    );
+    assert.throws(
+      () =>
+        parseRecipe(
+          JSON.stringify({
+            ...createTestRecipe(),
+            steps: [{ id: "x", type: "explode", config: { type: "explode" } }],
+          }),
+        ),
+      (error: unknown) => {
+        assert.ok(error instanceof RecipeError);
+        assert.equal(error.message, "Recipe contains invalid settings or steps");
+        assert.ok(Array.isArray(error.details));
+        return true;
+      },
+    );
+  });
+
+  it("should report steps reading missing columns", () => {
+    const check = checkRecipeColumns(createTestRecipe(), ["E-mail", "qty", "unit price"]);
+
+    assert.deepEqual(check.missingColumns, ["email", "country"]);
+    assert.deepEqual(check.stepIssues, [
+      { stepId: "trim", index: 0, type: "trim", missingColumns: ["email"] },
+      { stepId: "filter", index: 2, type: "filter", missingColumns: ["country"] },
+    ]);
+  });
+
+  it("should resolve mapped columns", () => {
+    const check = checkRecipeColumns(createTestRecipe(), ["E-mail", "qty", "unit price", "Land"], {
+      email: "E-mail",
+      country: "Land",
+    });
+
+    assert.deepEqual(check, { missingColumns: [], stepIssues: [] });
+  });
+
+  it("should rename mapped columns before the recipe steps", () => {
+    let nextId = 0;
+    const mappedSteps = applyColumnMapping(
+      createTestRecipe(),
+      { email: "E-mail", qty: "qty", missing: "other" },
+      () => `rename-${nextId++}`,
+    );
+
+    assert.deepEqual(mappedSteps.slice(0, 1), [
+      {
+        id: "rename-0",
+        type: "rename_column",
+        config: { type: "rename_column", oldName: "E-mail", newName: "email" },
+      },
+    ]);
+    assert.deepEqual(mappedSteps.slice(1), steps);
+
+    const { table, stepResults } = executePipeline(
+      {
+        rows: [{ "E-mail": " a@example.com ", qty: 3, "unit price": 5, country: "FR" }],
+        columns: ["E-mail", "qty", "unit price", "country"].map((name) => ({
+          name,
+          type: name === "qty" || name === "unit price" ? "number" : "string",
+          nonNullCount: 1,
+          nullCount: 0,
+          sampleValues: [],
+        })),
+        rowCount: 1,
+        warnings: [],
+      },
+      mappedSteps,
+    );
+
+    assert.ok(stepResults.every((result) => result.success));
+    assert.equal(table.rows[0].email, "a@example.com");
+    assert.equal(table.rows[0].total, 15);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Tests for static schema propagation
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ColumnMetadata } from "@/lib/parsers/types";
+import {
+  assertStepsFitColumns,
+  formatSchemaErrors,
+  getColumnsAtStep,
+  getStepColumns,
+  propagateSchema,
+  toColumnMetadata,
+} from "../schema";
+import type { TransformationStep } from "../types";
+
+const columns: ColumnMetadata[] = toColumnMetadata([
+  { name: "id", type: "number" },
+  { name: "name", type: "string" },
+  { name: "month", type: "string" },
+  { name: "amount", type: "string" },
+]);
+
+function names(schema: ColumnMetadata[]): string[] {
+  return schema.map((column) => column.name);
+}
+
+describe("propagateSchema", () => {
+  it("should compute the columns after every step", () => {
+    const result = propagateSchema(columns, [
+      {
+        id: "rename",
+        type: "rename_column",
+        config: { type: "rename_column", oldName: "name", newName: "customer" },
+      },
+      {
+        id: "cast",
+        type: "cast_column",
+        config: { type: "cast_column", column: "amount", targetType: "number", onError: "null" },
+      },
+      {
+        id: "total",
+        type: "calculated_column",
+        config: { type: "calculated_column", newColumn: "double", expression: "amount * 2" },
+      },
+      { id: "remove", type: "remove_column", config: { type: "remove_column", columns: ["id"] } },
+    ]);
+
+    assert.deepEqual(result.errors, []);
+    assert.ok(result.exact);
+    assert.deepEqual(names(result.steps[0].columnsAfter), ["id", "customer", "month", "amount"]);
+    assert.equal(result.steps[1].columnsAfter.find((c) => c.name === "amount")?.type, "number");
+    assert.equal(result.steps[2].columnsAfter.find((c) => c.name === "double")?.type, "number");
+    assert.deepEqual(names(result.columns), ["customer", "month", "amount", "double"]);
+  });
+
+  it("should report missing columns and renames to existing names", () => {
+    const result = propagateSchema(columns, [
+      { id: "trim", type: "trim", config: { type: "trim", columns: ["email"] } },
+      {
+        id: "rename",
+        type: "rename_column",
+        config: { type: "rename_column", oldName: "name", newName: "id" },
+      },
+    ]);
+
+    assert.deepEqual(
+      result.errors.map((error) => [error.stepId, error.index]),
+      [
+        ["trim", 0],
+        ["rename", 1],
+      ],
+    );
+    assert.equal(result.errors[1].message, "Column already exists: id");
+    assert.match(formatSchemaErrors(result.errors), /^Step 1 \(trim\): .*email.*; Step 2/);
+  });
+
+  it("should report casts of removed columns", () => {
+    const { errors } = propagateSchema(columns, [
+      {
+        id: "remove",
+        type: "remove_column",
+        config: { type: "remove_column", columns: ["amount"] },
+      },
+      {
+        id: "cast",
+        type: "cast_column",
+        config: { type: "cast_column", column: "amount", targetType: "number", onError: "fail" },
+      },
+    ]);
+
+    assert.deepEqual(
+      errors.map((error) => error.message),
+      ['Column "amount" not found'],
+    );
+  });
+
+  it("should check unpivot and pivot columns", () => {
+    const unpivot: TransformationStep = {
+      id: "unpivot",
+      type: "unpivot",
+      config: {
+        type: "unpivot",
+        idColumns: ["id"],
+        valueColumns: ["month", "missing"],
+        variableColumnName: "field",
+        valueColumnName: "value",
+      },
+    };
+    assert.equal(
+      propagateSchema(columns, [unpivot]).errors[0]?.message,
+      'Value column "missing" does not exist',
+    );
+
+    const pivot: TransformationStep = {
+      id: "pivot",
+      type: "pivot",
+      config: { type: "pivot", indexColumns: ["id"], columnSource: "month", valueSource: "total" },
+    };
+    assert.equal(
+      propagateSchema(columns, [pivot]).errors[0]?.message,
+      'Value source "total" does not exist',
+    );
+  });
+
+  it("should not flag columns that depend on the data", () => {
+    const result = propagateSchema(columns, [
+      {
+        id: "pivot",
+        type: "pivot",
+        config: {
+          type: "pivot",
+          indexColumns: ["id"],
+          columnSource: "month",
+          valueSource: "amount",
+        },
+      },
+      { id: "trim", type: "trim", config: { type: "trim", columns: ["January"] } },
+      {
+        id: "group",
+        type: "group_by",
+        config: {
+          type: "group_by",
+          groupBy: ["id"],
+          aggregations: [{ column: "January", aggregation: "first", newColumn: "first" }],
+        },
+      },
+      { id: "upper", type: "uppercase", config: { type: "uppercase", columns: ["name"] } },
+    ]);
+
+    assert.deepEqual(
+      result.steps.map((step) => step.exact),
+      [false, false, true, false],
+    );
+    assert.deepEqual(
+      result.errors.map((error) => error.stepId),
+      ["upper"],
+      "Group by only keeps the columns it names",
+    );
+  });
+
+  it("should use the columns of join sources when given", () => {
+    const join: TransformationStep = {
+      id: "join",
+      type: "join",
+      config: {
+        type: "join",
+        source: { type: "pipeline", pipelineId: "regions" },
+        joinType: "left",
+        on: [{ left: "id", right: "customer_id" }],
+      },
+    };
+
+    const unknown = propagateSchema(columns, [join]);
+    assert.deepEqual(unknown.errors, []);
+    assert.equal(unknown.exact, false);
+
+    const known = propagateSchema(columns, [join], {
+      "pipeline:regions": toColumnMetadata([
+        { name: "customer_id", type: "number" },
+        { name: "region", type: "string" },
+      ]),
+    });
+    assert.ok(known.exact);
+    assert.ok(names(known.columns).includes("region"));
+  });
+
+  it("should ignore row count rules of assert steps", () => {
+    const { errors } = propagateSchema(columns, [
+      {
+        id: "assert",
+        type: "assert",
+        config: {
+          type: "assert",
+          rules: [
+            { kind: "row_count", min: 1 },
+            { kind: "column_type", column: "id", columnType: "number" },
+          ],
+        },
+      },
+    ]);
+
+    assert.deepEqual(errors, []);
+  });
+
+  it("should pass columns through disabled steps", () => {
+    const result = propagateSchema(columns, [
+      {
+        id: "remove",
+        type: "remove_column",
+        config: { type: "remove_column", columns: ["amount"] },
+        enabled: false,
+      },
+      {
+        id: "cast",
+        type: "cast_column",
+        config: { type: "cast_column", column: "amount", targetType: "number", onError: "fail" },
+      },
+    ]);
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(names(result.steps[0].columnsAfter), names(columns));
+  });
+
+  it("should list the columns available at a position", () => {
+    const steps: TransformationStep[] = [
+      { id: "remove", type: "remove_column", config: { type: "remove_column", columns: ["id"] } },
+      {
+        id: "merge",
+        type: "merge_columns",
+        config: {
+          type: "merge_columns",
+          columns: ["name", "month"],
+          separator: " ",
+          newColumn: "label",
+        },
+      },
+    ];
+
+    assert.deepEqual(names(getColumnsAtStep(columns, steps, 0)), names(columns));
+    assert.deepEqual(names(getColumnsAtStep(columns, steps, 1)), ["name", "month", "amount"]);
+    assert.deepEqual(names(getColumnsAtStep(columns, steps, 2)).sort(), ["amount", "label"]);
+  });
+});
+
+describe("assertStepsFitColumns", () => {
+  const rename: TransformationStep = {
+    id: "rename",
+    type: "rename_column",
+    config: { type: "rename_column", oldName: "name", newName: "label" },
+  };
+  const inputColumns = [
+    { name: "id", type: "number" },
+    { name: "name", type: "string" },
+  ];
+
+  it("should accept steps that fit the input columns", () => {
+    assert.doesNotThrow(() => assertStepsFitColumns([rename], inputColumns));
+  });
+
+  it("should reject steps that don't fit the input columns", () => {
+    assert.throws(
+      () => assertStepsFitColumns([rename, rename], inputColumns),
+      /Invalid pipeline steps: Step 2 \(rename_column\)/,
+    );
+  });
+
+  it("should reject steps saved without input columns", () => {
+    assert.throws(
+      () => assertStepsFitColumns([rename], undefined),
+      /Input columns are required to save pipeline steps/,
+    );
+  });
+
+  it("should save an empty pipeline without input columns", () => {
+    assert.doesNotThrow(() => assertStepsFitColumns([], undefined));
+  });
+});
+
+describe("getStepColumns", () => {
+  it("should list the columns a step reads", () => {
+    assert.deepEqual(
+      getStepColumns({
+        id: "total",
+        type: "calculated_column",
+        config: { type: "calculated_column", newColumn: "total", expression: "qty * [unit price]" },
+      }),
+      ["qty", "unit price"],
+    );
+    assert.deepEqual(
+      getStepColumns({
+        id: "filter",
+        type: "filter",
+        config: {
+          type: "filter",
+          condition: {
+            kind: "or",
+            conditions: [
+              { kind: "condition", column: "total", operator: "greater_than", value: 10 },
+              {
+                kind: "not",
+                condition: { kind: "condition", column: "country", operator: "is_null" },
+              },
+            ],
+          },
+        },
+      }),
+      ["total", "country"],
+    );
+    assert.deepEqual(
+      getStepColumns({
+        id: "group",
+        type: "group_by",
+        config: {
+          type: "group_by",
+          groupBy: ["country"],
+          aggregations: [
+            { aggregation: "count", newColumn: "rows" },
+            { column: "qty", aggregation: "sum", newColumn: "qty" },
+          ],
+        },
+      }),
+      ["country", "qty"],
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import Database from "better-sqlite3";
+import type { ParseResult } from "@/lib/parsers/types";
+import { executePipeline } from "../executor";
+import { computeStepKeys, executeWithStepCache, initializeStepCache } from "../stepCache";
+import type { TransformationStep } from "../types";
+
+const table: ParseResult = {
+  rows: [
+    { name: " alice ", joined: "2024-01-05" },
+    { name: "bob", joined: "2023-06-30" },
+  ],
+  columns: [
+    { name: "name", type: "string", nonNullCount: 2, nullCount: 0, sampleValues: [] },
+    { name: "joined", type: "string", nonNullCount: 2, nullCount: 0, sampleValues: [] },
+  ],
+  rowCount: 2,
+  warnings: [],
+};
+
+const steps: TransformationStep[] = [
+  { id: "s1", type: "trim", config: { type: "trim", columns: ["name"] } },
+  { id: "s2", type: "uppercase", config: { type: "uppercase", columns: ["name"] } },
+  {
+    id: "s3",
+    type: "cast_column",
+    config: { type: "cast_column", column: "joined", targetType: "date", onError: "null" },
+  },
+];
+
+describe("executeWithStepCache", () => {
+  let db: Database.Database;
+  let loads: number;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    initializeStepCache(db);
+    loads = 0;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function run(pipelineSteps: TransformationStep[], baseKey = "artifact:1") {
+    return executeWithStepCache(db, {
+      pipelineId: "p1",
+      baseKey,
+      loadTable: async () => {
+        loads++;
+        return table;
+      },
+      steps: pipelineSteps,
+    });
+  }
+
+  it("should execute every step on a cold cache", async () => {
+    const result = await run(steps);
+    const expected = executePipeline(table, steps);
+
+    assert.deepEqual(result.cache, { cachedSteps: 0, executedSteps: 3 });
+    assert.deepEqual(result.table, expected.table);
+    assert.deepEqual(result.stepResults, expected.stepResults);
+    assert.deepEqual(result.typeEvolution, expected.typeEvolution);
+    assert.equal(loads, 1);
+  });
+
+  it("should restore every step on a warm cache without loading the input", async () => {
+    await run(steps);
+    const result = await run(steps);
+
+    assert.deepEqual(result.cache, { cachedSteps: 3, executedSteps: 0 });
+    assert.equal(loads, 1);
+    assert.ok(result.table.rows[0].joined instanceof Date, "Should restore dates");
+    assert.deepEqual(result.table, executePipeline(table, steps).table);
+  });
+
+  it("should resume from the longest unchanged prefix", async () => {
+    await run(steps);
+
+    const edited = [
+      steps[0],
+      steps[1],
+      { ...steps[2], config: { ...steps[2].config, targetType: "string" } },
+    ] as TransformationStep[];
+    const result = await run(edited);
+
+    assert.deepEqual(result.cache, { cachedSteps: 2, executedSteps: 1 });
+    assert.deepEqual(result.table, executePipeline(table, edited).table);
+  });
+
+  it("should serve a shorter preview from the same entries", async () => {
+    await run(steps);
+    const result = await run(steps.slice(0, 2));
+
+    assert.deepEqual(result.cache, { cachedSteps: 2, executedSteps: 0 });
+    assert.equal(result.table.rows[0].name, "ALICE");
+  });
+
+  it("should invalidate entries after a changed upstream step", async () => {
+    await run(steps);
+
+    const edited = [
+      { ...steps[0], config: { type: "trim", columns: ["joined"] } },
+      ...steps.slice(1),
+    ] as TransformationStep[];
+    await run(edited.slice(0, 1));
+
+    const count = db.prepare("SELECT COUNT(*) AS count FROM step_cache").get() as {
+      count: number;
+    };
+    assert.equal(count.count, 1, "Entries computed from the old step should be dropped");
+  });
+
+  it("should invalidate everything when the input changes", async () => {
+    await run(steps);
+    const result = await run(steps, "artifact:2");
+
+    assert.deepEqual(result.cache, { cachedSteps: 0, executedSteps: 3 });
+    assert.equal(loads, 2);
+  });
+
+  it("should not cache a failing step", async () => {
+    const failing: TransformationStep[] = [
+      steps[0],
+      { id: "bad", type: "uppercase", config: { type: "uppercase", columns: ["missing"] } },
+    ];
+    const first = await run(failing);
+    assert.equal(first.stepResults[1].success, false);
+
+    const second = await run(failing);
+    assert.deepEqual(second.cache, { cachedSteps: 1, executedSteps: 1 });
+  });
+
+  it("should report the current step ids for cached results", async () => {
+    await run(steps);
+    const renamed = steps.map((step, i) => ({ ...step, id: `new-${i}` }));
+    const result = await run(renamed);
+
+    assert.deepEqual(
+      result.stepResults.map((stepResult) => stepResult.stepId),
+      ["new-0", "new-1", "new-2"],
+    );
+  });
+});
+
+describe("computeStepKeys", () => {
+  const join: TransformationStep = {
+    id: "j",
+    type: "join",
+    config: {
+      type: "join",
+      source: { type: "pipeline", pipelineId: "other" },
+      joinType: "left",
+      on: [{ left: "name", right: "name" }],
+    },
+  } as TransformationStep;
+
+  function sourceTable(name: string): ParseResult {
+    return { ...table, rows: [{ name }] };
+  }
+
+  it("should change when a source table changes", () => {
+    const before = computeStepKeys("base", [join], {
+      sources: { "pipeline:other": sourceTable("a") },
+    });
+    const after = computeStepKeys("base", [join], {
+      sources: { "pipeline:other": sourceTable("b") },
+    });
+
+    assert.notEqual(before[0], after[0]);
+  });
+
+  it("should ignore step ids", () => {
+    const [a] = computeStepKeys("base", [steps[0]]);
+    const [b] = computeStepKeys("base", [{ ...steps[0], id: "other" }]);
+
+    assert.equal(a, b);
+  });
+
+  it("should change when a step is disabled, but not when it is grouped", () => {
+    const [enabled] = computeStepKeys("base", [steps[0]]);
+    const [disabled] = computeStepKeys("base", [{ ...steps[0], enabled: false }]);
+    const [grouped] = computeStepKeys("base", [{ ...steps[0], group: "cleanup" }]);
+
+    assert.notEqual(enabled, disabled);
+    assert.equal(enabled, grouped);
+  });
+});
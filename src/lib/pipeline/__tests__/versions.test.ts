@@ -0,0 +1,73 @@
+/**
+ * Tests for pipeline version diffs
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { VersionStep } from "../versions";
+import { diffPipelineSteps } from "../versions";
+
+const trim: VersionStep = { id: "trim", type: "trim", config: { columns: ["name"] } };
+const upper: VersionStep = { id: "upper", type: "uppercase", config: { columns: ["code"] } };
+const dedupe: VersionStep = { id: "dedupe", type: "deduplicate", config: {} };
+
+function summarize(before: VersionStep[], after: VersionStep[]) {
+  return diffPipelineSteps(before, after).map(
+    (change) => `${change.kind}${change.moved ? "+moved" : ""}:${change.step.id}`,
+  );
+}
+
+describe("diffPipelineSteps", () => {
+  it("should report unchanged steps", () => {
+    const changes = diffPipelineSteps([trim, upper], [trim, upper]);
+
+    assert.deepEqual(
+      changes.map((change) => change.kind),
+      ["unchanged", "unchanged"],
+    );
+    assert.deepEqual(changes[1], { kind: "unchanged", step: upper, index: 1, previousIndex: 1 });
+  });
+
+  it("should report added and removed steps in place", () => {
+    assert.deepEqual(summarize([trim, upper, dedupe], [trim, dedupe]), [
+      "unchanged:trim",
+      "removed:upper",
+      "unchanged:dedupe",
+    ]);
+    assert.deepEqual(summarize([trim], [upper, trim]), ["added:upper", "unchanged:trim"]);
+    assert.deepEqual(summarize([], [trim]), ["added:trim"]);
+    assert.deepEqual(summarize([trim], []), ["removed:trim"]);
+  });
+
+  it("should report changed configs with the previous step", () => {
+    const edited = { ...upper, config: { columns: ["code", "country"] } };
+    const changes = diffPipelineSteps([trim, upper], [trim, edited]);
+
+    assert.equal(changes[1].kind, "changed");
+    assert.equal(changes[1].previous, upper);
+    assert.equal(changes[1].step, edited);
+  });
+
+  it("should ignore key order and undefined values in configs", () => {
+    const before: VersionStep = {
+      id: "split",
+      type: "split_column",
+      config: { column: "name", method: "delimiter", delimiter: " " },
+    };
+    const after: VersionStep = {
+      id: "split",
+      type: "split_column",
+      config: { delimiter: " ", method: "delimiter", column: "name", limit: undefined },
+    };
+
+    assert.deepEqual(summarize([before], [after]), ["unchanged:split"]);
+  });
+
+  it("should flag only the steps that moved", () => {
+    assert.deepEqual(summarize([trim, upper, dedupe], [upper, dedupe, trim]), [
+      "unchanged:upper",
+      "unchanged:dedupe",
+      "unchanged+moved:trim",
+    ]);
+  });
+});
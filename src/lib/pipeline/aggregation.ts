@@ -0,0 +1,127 @@
+/**
+ * Aggregation functions shared by pivot and group_by
+ */
+
+import type { InferredType } from "@/lib/parsers/types";
+import type { AggregationFunction } from "./types";
+
+/**
+ * Aggregations whose result is always a number
+ */
+export const NUMERIC_AGGREGATIONS: AggregationFunction[] = [
+  "sum",
+  "mean",
+  "median",
+  "count",
+  "count_distinct",
+];
+
+/**
+ * Result type of an aggregation given the type of its source column
+ */
+export function getAggregationType(
+  aggregation: AggregationFunction,
+  sourceType: InferredType | undefined,
+): InferredType {
+  if (NUMERIC_AGGREGATIONS.includes(aggregation)) {
+    return "number";
+  }
+  if (aggregation === "string_agg") {
+    return "string";
+  }
+  return sourceType ?? "string";
+}
+
+/**
+ * Aggregate multiple values based on aggregation strategy
+ * sum, mean and median only use numeric values; min and max compare numbers
+ * when there are any, otherwise dates and text.
+ */
+export function aggregateValues(
+  values: unknown[],
+  aggregation: AggregationFunction,
+  separator = ", ",
+): unknown {
+  if (values.length === 0) {
+    return aggregation === "count" || aggregation === "count_distinct" ? 0 : null;
+  }
+
+  switch (aggregation) {
+    case "first":
+      return values[0];
+
+    case "last":
+      return values[values.length - 1];
+
+    case "count":
+      return values.length;
+
+    case "count_distinct":
+      return new Set(values.map((v) => (v instanceof Date ? v.toISOString() : v))).size;
+
+    case "sum": {
+      // Only sum numeric values
+      const numericValues = values.filter((v) => typeof v === "number") as number[];
+      if (numericValues.length === 0) return null;
+      return numericValues.reduce((sum, val) => sum + val, 0);
+    }
+
+    case "mean": {
+      // Only average numeric values
+      const numericValues = values.filter((v) => typeof v === "number") as number[];
+      if (numericValues.length === 0) return null;
+      const sum = numericValues.reduce((sum, val) => sum + val, 0);
+      return sum / numericValues.length;
+    }
+
+    case "median": {
+      const numericValues = (values.filter((v) => typeof v === "number") as number[]).sort(
+        (a, b) => a - b,
+      );
+      if (numericValues.length === 0) return null;
+      const middle = Math.floor(numericValues.length / 2);
+      return numericValues.length % 2 === 0
+        ? (numericValues[middle - 1] + numericValues[middle]) / 2
+        : numericValues[middle];
+    }
+
+    case "min":
+    case "max":
+      return extreme(values, aggregation);
+
+    case "string_agg":
+      return values
+        .filter((v) => v !== null && v !== undefined && v !== "")
+        .map((v) => (v instanceof Date ? v.toISOString() : String(v)))
+        .join(separator);
+
+    default:
+      return values[values.length - 1]; // Default to last
+  }
+}
+
+/**
+ * Smallest or largest value (numbers first, then dates, then text)
+ */
+function extreme(values: unknown[], aggregation: "min" | "max"): unknown {
+  const sign = aggregation === "min" ? -1 : 1;
+
+  const numbers = values.filter((v) => typeof v === "number") as number[];
+  if (numbers.length > 0) {
+    // Reduce rather than spread: large groups exceed the call argument limit
+    const pick = aggregation === "min" ? Math.min : Math.max;
+    return numbers.reduce((best, n) => pick(best, n));
+  }
+
+  const dates = values.filter((v) => v instanceof Date) as Date[];
+  if (dates.length > 0) {
+    return dates.reduce((best, d) => (sign * (d.getTime() - best.getTime()) > 0 ? d : best));
+  }
+
+  const texts = values.filter((v) => typeof v === "string" && v !== "") as string[];
+  if (texts.length > 0) {
+    return texts.reduce((best, t) => (sign * t.localeCompare(best) > 0 ? t : best));
+  }
+
+  return null;
+}
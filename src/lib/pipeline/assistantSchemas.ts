@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { FilterNode } from "./types";
 import { TRANSFORMATION_TYPES } from "./types";
 
 // Tool-facing schemas for assistant pipeline step validation.
@@ -24,22 +25,65 @@ const lowercaseConfigSchema = z.object({
 const deduplicateConfigSchema = z.object({
   type: z.literal("deduplicate"),
   columns: z.array(z.string()).min(1).optional(),
+  keep: z.enum(["first", "last", "none"]).optional(),
+  orderBy: z
+    .object({
+      name: z.string(),
+      direction: z.enum(["asc", "desc"]),
+    })
+    .optional(),
+  ignoreCase: z.boolean().optional(),
+  ignoreWhitespace: z.boolean().optional(),
+  mode: z.enum(["remove", "flag"]).optional(),
 });
 
+const filterOperatorSchema = z.enum([
+  "equals",
+  "not_equals",
+  "contains",
+  "not_contains",
+  "starts_with",
+  "ends_with",
+  "matches_regex",
+  "greater_than",
+  "greater_or_equal",
+  "less_than",
+  "less_or_equal",
+  "between",
+  "in",
+  "not_in",
+  "is_null",
+  "not_null",
+]);
+
+const filterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const filterNodeSchema: z.ZodType<FilterNode> = z.lazy(() =>
+  z.discriminatedUnion("kind", [
+    z.object({
+      kind: z.literal("condition"),
+      column: z.string(),
+      operator: filterOperatorSchema,
+      value: filterValueSchema.optional(),
+      values: z.array(filterValueSchema).optional(),
+    }),
+    z.object({
+      kind: z.enum(["and", "or"]),
+      conditions: z.array(filterNodeSchema).min(1),
+    }),
+    z.object({
+      kind: z.literal("not"),
+      condition: filterNodeSchema,
+    }),
+  ]),
+);
+
 const filterConfigSchema = z.object({
   type: z.literal("filter"),
-  column: z.string(),
-  operator: z.enum([
-    "equals",
-    "not_equals",
-    "contains",
-    "not_contains",
-    "greater_than",
-    "less_than",
-    "is_null",
-    "not_null",
-  ]),
-  value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  condition: filterNodeSchema.optional(),
+  column: z.string().optional(),
+  operator: filterOperatorSchema.optional(),
+  value: filterValueSchema.optional(),
 });
 
 const renameColumnConfigSchema = z.object({
@@ -97,6 +141,12 @@ const castColumnConfigSchema = z.object({
   targetType: z.enum(["string", "number", "boolean", "date"]),
   onError: z.enum(["fail", "null", "skip"]),
   format: z.string().optional(),
+  dateOrder: z.enum(["day_first", "month_first"]).optional(),
+  timezone: z.string().optional(),
+  locale: z.string().optional(),
+  decimalSeparator: z.string().length(1).optional(),
+  groupSeparator: z.string().length(1).optional(),
+  outputFormat: z.string().optional(),
 });
 
 const fillDownConfigSchema = z.object({
@@ -124,6 +174,169 @@ const sortConfigSchema = z.object({
   nullsPosition: z.enum(["first", "last"]).optional(),
 });
 
+const calculatedColumnConfigSchema = z.object({
+  type: z.literal("calculated_column"),
+  newColumn: z.string(),
+  expression: z.string().min(1),
+  onError: z.enum(["fail", "null"]).optional(),
+});
+
+const replaceConfigSchema = z.object({
+  type: z.literal("replace"),
+  columns: z.array(z.string()).min(1),
+  find: z.string().min(1),
+  replaceWith: z.string(),
+  useRegex: z.boolean().optional(),
+  caseSensitive: z.boolean().optional(),
+  matchEntireCell: z.boolean().optional(),
+});
+
+const uploadSourceSchema = z.object({
+  type: z.literal("upload"),
+  uploadId: z.string().min(1),
+  sheetName: z.string().optional(),
+});
+
+const pipelineSourceSchema = z.object({
+  type: z.literal("pipeline"),
+  pipelineId: z.string().min(1),
+});
+
+const joinConfigSchema = z.object({
+  type: z.literal("join"),
+  source: z.discriminatedUnion("type", [uploadSourceSchema, pipelineSourceSchema]),
+  joinType: z.enum(["left", "inner", "full", "anti"]),
+  on: z
+    .array(
+      z.object({
+        left: z.string(),
+        right: z.string(),
+      }),
+    )
+    .min(1),
+  suffix: z.string().optional(),
+});
+
+const groupByConfigSchema = z.object({
+  type: z.literal("group_by"),
+  groupBy: z.array(z.string()),
+  aggregations: z.array(
+    z.object({
+      column: z.string().optional(),
+      aggregation: z.enum([
+        "sum",
+        "mean",
+        "min",
+        "max",
+        "median",
+        "count",
+        "count_distinct",
+        "first",
+        "last",
+        "string_agg",
+      ]),
+      newColumn: z.string().min(1),
+      separator: z.string().optional(),
+    }),
+  ),
+});
+
+const appendConfigSchema = z.object({
+  type: z.literal("append"),
+  sources: z
+    .array(
+      z.discriminatedUnion("type", [
+        uploadSourceSchema.extend({ label: z.string().optional() }),
+        pipelineSourceSchema.extend({ label: z.string().optional() }),
+      ]),
+    )
+    .min(1),
+  columnMode: z.enum(["union", "intersection"]).optional(),
+  sourceColumn: z.string().min(1).optional(),
+  currentLabel: z.string().optional(),
+});
+
+const assertSeveritySchema = z.enum(["warn", "fail"]).optional();
+
+const assertRuleSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("not_null"), column: z.string(), severity: assertSeveritySchema }),
+  z.object({
+    kind: z.literal("unique"),
+    columns: z.array(z.string()).min(1),
+    severity: assertSeveritySchema,
+  }),
+  z.object({
+    kind: z.literal("in_set"),
+    column: z.string(),
+    values: z.array(filterValueSchema).min(1),
+    severity: assertSeveritySchema,
+  }),
+  z.object({
+    kind: z.literal("matches_regex"),
+    column: z.string(),
+    pattern: z.string().min(1),
+    severity: assertSeveritySchema,
+  }),
+  z.object({
+    kind: z.literal("range"),
+    column: z.string(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    severity: assertSeveritySchema,
+  }),
+  z.object({
+    kind: z.literal("row_count"),
+    min: z.number().int().min(0).optional(),
+    max: z.number().int().min(0).optional(),
+    severity: assertSeveritySchema,
+  }),
+  z.object({
+    kind: z.literal("column_type"),
+    column: z.string(),
+    columnType: z.enum(["string", "number", "boolean", "date", "null"]).optional(),
+    severity: assertSeveritySchema,
+  }),
+]);
+
+const assertConfigSchema = z.object({
+  type: z.literal("assert"),
+  rules: z.array(assertRuleSchema).min(1),
+});
+
+const formatNumberConfigSchema = z.object({
+  type: z.literal("format_number"),
+  columns: z.array(z.string()).min(1),
+  decimals: z.number().int().min(0).max(20).optional(),
+  grouping: z.boolean().optional(),
+  locale: z.string().optional(),
+  currency: z.string().length(3).optional(),
+});
+
+const clusterValuesConfigSchema = z.object({
+  type: z.literal("cluster_values"),
+  column: z.string(),
+  clusters: z
+    .array(
+      z.object({
+        canonical: z.string(),
+        values: z.array(z.string()).min(1),
+      }),
+    )
+    .min(1),
+  method: z
+    .enum(["fingerprint", "metaphone", "levenshtein", "jaro_winkler", "token_set"])
+    .optional(),
+  threshold: z.number().gt(0).max(1).optional(),
+});
+
+const mapValuesConfigSchema = z.object({
+  type: z.literal("map_values"),
+  column: z.string(),
+  mappings: z.array(z.object({ from: z.string(), to: z.string() })).min(1),
+  caseSensitive: z.boolean().optional(),
+  defaultValue: z.string().optional(),
+});
+
 export const transformationConfigSchema = z.discriminatedUnion("type", [
   trimConfigSchema,
   uppercaseConfigSchema,
@@ -140,6 +353,15 @@ export const transformationConfigSchema = z.discriminatedUnion("type", [
   fillDownConfigSchema,
   fillAcrossConfigSchema,
   sortConfigSchema,
+  calculatedColumnConfigSchema,
+  replaceConfigSchema,
+  joinConfigSchema,
+  groupByConfigSchema,
+  appendConfigSchema,
+  assertConfigSchema,
+  formatNumberConfigSchema,
+  clusterValuesConfigSchema,
+  mapValuesConfigSchema,
 ]);
 
 export const transformationStepSchema = z
@@ -147,6 +369,8 @@ export const transformationStepSchema = z
     id: z.string(),
     type: transformationTypeSchema,
     config: transformationConfigSchema,
+    enabled: z.boolean().optional(),
+    group: z.string().min(1).optional(),
   })
   .superRefine((step, ctx) => {
     if (step.type !== step.config.type) {
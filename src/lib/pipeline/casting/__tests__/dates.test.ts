@@ -0,0 +1,182 @@
+/**
+ * Tests for date format parsing and formatting
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatDate, isValidTimezone, parseDate } from "../dates";
+
+function iso(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+describe("parseDate", () => {
+  describe("format tokens", () => {
+    it("should parse compact and dotted formats", () => {
+      assert.equal(iso(parseDate("20240403", { format: "yyyyMMdd" })), "2024-04-03T00:00:00.000Z");
+      assert.equal(iso(parseDate("3.4.24", { format: "d.M.yy" })), "2024-04-03T00:00:00.000Z");
+      assert.equal(iso(parseDate("3.4.98", { format: "d.M.yy" })), "1998-04-03T00:00:00.000Z");
+    });
+
+    it("should parse times and quoted literals", () => {
+      assert.equal(
+        iso(parseDate("2024-04-03T14:05:09.250", { format: "yyyy-MM-dd'T'HH:mm:ss.SSS" })),
+        "2024-04-03T14:05:09.250Z",
+      );
+      assert.equal(
+        iso(parseDate("04/03/2024 2:30 PM", { format: "MM/dd/yyyy h:mm a" })),
+        "2024-04-03T14:30:00.000Z",
+      );
+      assert.equal(
+        iso(parseDate("04/03/2024 12:15 am", { format: "MM/dd/yyyy hh:mm a" })),
+        "2024-04-03T00:15:00.000Z",
+      );
+    });
+
+    it("should parse month names in English and the given locale", () => {
+      assert.equal(
+        iso(parseDate("3 Apr 2024", { format: "d MMM yyyy" })),
+        "2024-04-03T00:00:00.000Z",
+      );
+      assert.equal(
+        iso(parseDate("Sept. 3, 2024", { format: "MMM d, yyyy" })),
+        "2024-09-03T00:00:00.000Z",
+      );
+      assert.equal(
+        iso(parseDate("3. März 2024", { format: "d. MMMM yyyy", locale: "de" })),
+        "2024-03-03T00:00:00.000Z",
+      );
+      assert.equal(parseDate("3 Foo 2024", { format: "d MMM yyyy" }), null);
+    });
+
+    it("should reject values that don't match or aren't real dates", () => {
+      assert.equal(parseDate("2024-04-03", { format: "dd.MM.yyyy" }), null);
+      assert.equal(parseDate("31.04.2024", { format: "dd.MM.yyyy" }), null);
+      assert.equal(parseDate("29.02.2023", { format: "dd.MM.yyyy" }), null);
+      assert.equal(
+        iso(parseDate("29.02.2024", { format: "dd.MM.yyyy" })),
+        "2024-02-29T00:00:00.000Z",
+      );
+      assert.equal(parseDate("03.04.2024 25:00", { format: "dd.MM.yyyy HH:mm" }), null);
+    });
+
+    it("should read Excel serial numbers", () => {
+      assert.equal(iso(parseDate("45385", { format: "excel" })), "2024-04-03T00:00:00.000Z");
+      assert.equal(iso(parseDate("45385.75", { format: "excel" })), "2024-04-03T18:00:00.000Z");
+      assert.equal(parseDate("n/a", { format: "excel" }), null);
+    });
+  });
+
+  describe("date order", () => {
+    it("should read numeric dates day first or month first", () => {
+      assert.equal(
+        iso(parseDate("03/04/2024", { dateOrder: "day_first" })),
+        "2024-04-03T00:00:00.000Z",
+      );
+      assert.equal(
+        iso(parseDate("03/04/2024", { dateOrder: "month_first" })),
+        "2024-03-04T00:00:00.000Z",
+      );
+      assert.equal(
+        iso(parseDate("3.4.24", { dateOrder: "day_first" })),
+        "2024-04-03T00:00:00.000Z",
+      );
+      assert.equal(parseDate("13/04/2024", { dateOrder: "month_first" }), null);
+    });
+
+    it("should read day first when the first number can't be a month", () => {
+      assert.equal(iso(parseDate("13/04/2024")), "2024-04-13T00:00:00.000Z");
+      assert.equal(iso(parseDate("03/04/2024")), "2024-03-04T00:00:00.000Z");
+    });
+
+    it("should read compact dates without a format", () => {
+      assert.equal(iso(parseDate("20240403")), "2024-04-03T00:00:00.000Z");
+    });
+  });
+
+  describe("timezones", () => {
+    it("should read wall-clock values in the timezone", () => {
+      assert.equal(
+        iso(
+          parseDate("03.04.2024 14:00", { format: "dd.MM.yyyy HH:mm", timezone: "Europe/Paris" }),
+        ),
+        "2024-04-03T12:00:00.000Z",
+      );
+      assert.equal(
+        iso(parseDate("2024-01-15", { timezone: "America/New_York" })),
+        "2024-01-15T05:00:00.000Z",
+      );
+      assert.equal(
+        iso(parseDate("45385", { format: "excel", timezone: "Asia/Tokyo" })),
+        "2024-04-02T15:00:00.000Z",
+      );
+    });
+
+    it("should use the offset after a daylight saving change", () => {
+      // Clocks in Paris go forward at 02:00 on 31 March 2024
+      assert.equal(
+        iso(parseDate("2024-03-31 01:30", { timezone: "Europe/Paris" })),
+        "2024-03-31T00:30:00.000Z",
+      );
+      assert.equal(
+        iso(parseDate("2024-03-31 03:30", { timezone: "Europe/Paris" })),
+        "2024-03-31T01:30:00.000Z",
+      );
+    });
+
+    it("should read values without an offset in UTC whatever the server's timezone", () => {
+      const serverTimezone = process.env.TZ;
+      process.env.TZ = "America/Los_Angeles";
+      try {
+        assert.equal(iso(parseDate("2024-04-03T14:30:00")), "2024-04-03T14:30:00.000Z");
+        assert.equal(iso(parseDate("Apr 3, 2024")), "2024-04-03T00:00:00.000Z");
+        assert.equal(iso(parseDate("3 April 2024 2:30 PM")), "2024-04-03T14:30:00.000Z");
+        assert.equal(iso(parseDate("03-Apr-24")), "2024-04-03T00:00:00.000Z");
+        assert.equal(iso(parseDate("2024/4/3")), "2024-04-03T00:00:00.000Z");
+        assert.equal(
+          iso(parseDate("Apr 3, 2024", { timezone: "Europe/Paris" })),
+          "2024-04-02T22:00:00.000Z",
+        );
+        assert.equal(iso(parseDate("2024-04-03T14:30:00+02:00")), "2024-04-03T12:30:00.000Z");
+        assert.equal(parseDate("April 2024 report"), null);
+      } finally {
+        if (serverTimezone === undefined) {
+          delete process.env.TZ;
+        } else {
+          process.env.TZ = serverTimezone;
+        }
+      }
+    });
+
+    it("should keep explicit offsets", () => {
+      assert.equal(
+        iso(parseDate("2024-04-03T10:00:00Z", { timezone: "Europe/Paris" })),
+        "2024-04-03T10:00:00.000Z",
+      );
+    });
+
+    it("should check timezone names", () => {
+      assert.ok(isValidTimezone("Europe/Paris"));
+      assert.ok(!isValidTimezone("Mars/Olympus"));
+    });
+  });
+});
+
+describe("formatDate", () => {
+  const date = new Date("2024-04-03T14:05:09.007Z");
+
+  it("should format tokens in UTC", () => {
+    assert.equal(formatDate(date, "yyyy-MM-dd HH:mm:ss.SSS"), "2024-04-03 14:05:09.007");
+    assert.equal(formatDate(date, "d/M/yy h:mm a"), "3/4/24 2:05 PM");
+    assert.equal(formatDate(date, "dd MMM yyyy"), "03 Apr 2024");
+    assert.equal(formatDate(date, "'Week of' MMMM d"), "Week of April 3");
+  });
+
+  it("should format in a timezone and locale", () => {
+    assert.equal(
+      formatDate(date, "yyyy-MM-dd HH:mm", { timezone: "Asia/Tokyo" }),
+      "2024-04-03 23:05",
+    );
+    assert.equal(formatDate(date, "d. MMMM yyyy", { locale: "de" }), "3. April 2024");
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Tests for locale-aware number parsing and formatting
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatNumber, getNumberSeparators, isValidCurrency, parseNumber } from "../numbers";
+
+describe("parseNumber", () => {
+  it("should drop commas by default", () => {
+    assert.equal(parseNumber("1,234.56"), 1234.56);
+    assert.equal(parseNumber("-42"), -42);
+    assert.equal(parseNumber("1.5e3"), 1500);
+    assert.equal(parseNumber(".5"), 0.5);
+  });
+
+  it("should use the separators of a locale", () => {
+    assert.equal(parseNumber("1.234,56", { locale: "de-DE" }), 1234.56);
+    assert.equal(parseNumber("12,5", { locale: "de-DE" }), 12.5);
+    assert.equal(parseNumber("1 234,56", { locale: "fr-FR" }), 1234.56);
+    assert.equal(parseNumber("1'234.50", { locale: "de-CH" }), 1234.5);
+  });
+
+  it("should prefer explicit separators", () => {
+    assert.equal(parseNumber("12,5", { decimalSeparator: "," }), 12.5);
+    assert.equal(parseNumber("1.234.567", { groupSeparator: "." }), 1234567);
+    assert.equal(
+      parseNumber("1 234.5", { locale: "de-DE", decimalSeparator: ".", groupSeparator: " " }),
+      1234.5,
+    );
+  });
+
+  it("should read currencies, percents and accounting negatives", () => {
+    assert.equal(parseNumber("$1,234.50"), 1234.5);
+    assert.equal(parseNumber("-$12"), -12);
+    assert.equal(parseNumber("1.234,50 €", { locale: "de-DE" }), 1234.5);
+    assert.equal(parseNumber("EUR 12.50"), 12.5);
+    assert.equal(parseNumber("12.5%"), 0.125);
+    assert.equal(parseNumber("(123)"), -123);
+    assert.equal(parseNumber("($1,234.50)"), -1234.5);
+    assert.equal(parseNumber("123-"), -123);
+  });
+
+  it("should reject text that isn't a number", () => {
+    assert.equal(parseNumber("hello"), null);
+    assert.equal(parseNumber("SKU 12"), null);
+    assert.equal(parseNumber("2024-04-03"), null);
+    assert.equal(parseNumber("-(12)"), null);
+    assert.equal(parseNumber("$€12"), null);
+    assert.equal(parseNumber("0x1A"), null);
+    assert.equal(parseNumber("Infinity"), null);
+    assert.equal(parseNumber("%"), null);
+  });
+});
+
+describe("getNumberSeparators", () => {
+  it("should reject separators that clash", () => {
+    assert.deepEqual(getNumberSeparators({ locale: "de-DE" }), { decimal: ",", group: "." });
+    assert.throws(
+      () => getNumberSeparators({ decimalSeparator: ",", groupSeparator: "," }),
+      /must differ/,
+    );
+    assert.throws(() => getNumberSeparators({ decimalSeparator: ".." }), /single characters/);
+  });
+});
+
+describe("formatNumber", () => {
+  it("should format decimals, grouping and currencies", () => {
+    assert.equal(formatNumber(1234.5, { decimals: 2 }), "1,234.50");
+    assert.equal(formatNumber(1234.5, { decimals: 0, grouping: false }), "1235");
+    assert.equal(formatNumber(0.125), "0.125");
+    assert.equal(formatNumber(-1234.5, { currency: "USD" }), "-$1,234.50");
+    assert.equal(
+      formatNumber(1234.5, { decimals: 2, currency: "EUR", locale: "de-DE" }),
+      "1.234,50\u00a0€",
+    );
+  });
+
+  it("should check currency codes", () => {
+    assert.ok(isValidCurrency("eur"));
+    assert.ok(!isValidCurrency("XYZW"));
+    assert.ok(!isValidCurrency("ABC"));
+  });
+});
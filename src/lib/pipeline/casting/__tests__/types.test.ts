@@ -81,6 +81,11 @@ describe("castToNumber", () => {
   it("should return null for Infinity", () => {
     assert.equal(castToNumber(Infinity), null);
   });
+
+  it("should read numbers with locale separators", () => {
+    assert.equal(castToNumber("1.234,56", { locale: "de-DE" }), 1234.56);
+    assert.equal(castToNumber("12,5", { decimalSeparator: "," }), 12.5);
+  });
 });
 
 describe("castToBoolean", () => {
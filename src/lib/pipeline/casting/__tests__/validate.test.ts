@@ -199,12 +199,33 @@ describe("validateCast", () => {
 
   describe("Date format validation", () => {
     it("should validate dates with custom format", () => {
-      // Note: format parameter is passed but current implementation auto-detects
       const values = ["2023-01-15", "2023-12-31"];
       const result = validateCast(values, "date", "YYYY-MM-DD");
 
       assert.equal(result.valid, 2);
       assert.equal(result.invalid, 0);
     });
+
+    it("should reject dates that don't match the format", () => {
+      const values = ["03.04.2024", "2024-04-03"];
+      const result = validateCast(values, "date", { format: "dd.MM.yyyy" });
+
+      assert.equal(result.valid, 1);
+      assert.equal(result.invalidSamples[0].value, "2024-04-03");
+      assert.match(result.invalidSamples[0].error, /with format "dd\.MM\.yyyy"/);
+    });
+
+    it("should preview parse results of distinct values", () => {
+      const values = ["03/04/2024", "03/04/2024", null, "13/04/2024"];
+      const result = validateCast(values, "date", {
+        dateOrder: "day_first",
+        outputFormat: "d MMMM yyyy",
+      });
+
+      assert.deepEqual(result.parsedSamples, [
+        { value: "03/04/2024", result: "3 April 2024" },
+        { value: "13/04/2024", result: "13 April 2024" },
+      ]);
+    });
   });
 });
@@ -0,0 +1,534 @@
+/**
+ * Date parsing and formatting with explicit format tokens
+ *
+ * Format tokens (anything else is matched literally; quote text with '...'):
+ * - yyyy: 4-digit year, yy: 2-digit year (00-69 → 2000s, 70-99 → 1900s)
+ * - MMMM / MMM: month name (full or abbreviated, in the given locale or English)
+ * - MM / M: month number, dd / d: day of month (2 digits / 1-2 digits)
+ * - HH / H: hour 0-23, hh / h: hour 1-12 (with a: AM/PM)
+ * - mm: minutes, ss: seconds, SSS: milliseconds
+ * YYYY, YY, DD and D are accepted for their lowercase tokens.
+ *
+ * The format "excel" reads Excel serial numbers (days since 1899-12-30).
+ *
+ * Parsed dates are wall-clock times: they are read in UTC unless an IANA
+ * timezone is given (e.g. "Europe/Paris"), so results never depend on the
+ * server's timezone.
+ *
+ * Examples:
+ *   parseDate("20240403", { format: "yyyyMMdd" })        → 2024-04-03T00:00:00Z
+ *   parseDate("3.4.24", { format: "d.M.yy" })            → 2024-04-03T00:00:00Z
+ *   parseDate("03/04/2024", { dateOrder: "day_first" })  → 2024-04-03T00:00:00Z
+ *   formatDate(date, "dd MMM yyyy")                      → "03 Apr 2024"
+ */
+
+/** Format that reads Excel serial numbers */
+export const EXCEL_DATE_FORMAT = "excel";
+
+/**
+ * How to read numeric dates without a format, e.g. 03/04/2024
+ */
+export type DateOrder = "day_first" | "month_first";
+
+export interface DateParseOptions {
+  format?: string; // Format tokens, or "excel"
+  dateOrder?: DateOrder; // For numeric dates without a format (default: month first when possible)
+  timezone?: string; // IANA timezone of the wall-clock values (default: UTC)
+  locale?: string; // Locale of month names (English names are always accepted)
+}
+
+export interface DateFormatOptions {
+  timezone?: string; // IANA timezone to show the date in (default: UTC)
+  locale?: string; // Locale of month names (default: English)
+}
+
+interface DateFields {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const TOKEN_PATTERN = /'[^']*'|yyyy|YYYY|yy|YY|MMMM|MMM|MM|M|dd|DD|d|D|HH|H|hh|h|mm|ss|SSS|a/g;
+
+// Days between the Excel epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569;
+const DAY_MS = 86_400_000;
+
+// Numeric dates: 03/04/2024, 3.4.24, 03-04-2024 14:30
+const NUMERIC_DATE_PATTERN =
+  /^(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+// ISO dates without an offset: 2024-04-03, 2024-04-03T14:30:00.250
+const ISO_LOCAL_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+
+// Compact dates: 20240403
+const COMPACT_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+
+// Dates with month names and slashed years, with an optional time: Apr 3, 2024 2:30 PM
+const TEXT_DATE_FORMATS = [
+  "MMM d yyyy",
+  "MMM d, yyyy",
+  "d MMM yyyy",
+  "d MMM, yyyy",
+  "d-MMM-yyyy",
+  "d-MMM-yy",
+  "yyyy/M/d",
+].flatMap((date) =>
+  ["", " H:mm", " H:mm:ss", " h:mm a", " h:mm:ss a"].map((time) => `${date}${time}`),
+);
+
+// Values carrying their own offset, which the Date constructor reads exactly
+const EXPLICIT_OFFSET_PATTERN = /(?:\dZ|[+-]\d{2}:?\d{2}|\b(?:GMT|UTC))$/i;
+
+/**
+ * Parse a date string
+ * Returns null if the string doesn't match the format or isn't a real date.
+ * Without a format, numeric dates are read with the date order (month first
+ * unless the first number is above 12), compact dates as yyyyMMdd and ISO dates
+ * and month names as wall-clock times; only values with an explicit offset
+ * (2024-04-03T14:30:00Z) go to the Date constructor.
+ */
+export function parseDate(str: string, options: DateParseOptions = {}): Date | null {
+  const { format, dateOrder, timezone, locale } = options;
+  const text = str.trim();
+
+  if (format && format.toLowerCase() === EXCEL_DATE_FORMAT) {
+    return text === "" ? null : fromExcelSerial(Number(text), timezone);
+  }
+  if (format) {
+    const fields = matchFormat(text, format, locale);
+    return fields ? toDate(fields, timezone) : null;
+  }
+
+  const numeric = NUMERIC_DATE_PATTERN.exec(text);
+  if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    // Without an order, a first number above 12 can only be a day
+    const dayFirst = dateOrder ? dateOrder === "day_first" : first > 12;
+    return toDate(
+      {
+        year: expandYear(numeric[3]),
+        month: dayFirst ? second : first,
+        day: dayFirst ? first : second,
+        hour: Number(numeric[4] ?? 0),
+        minute: Number(numeric[5] ?? 0),
+        second: Number(numeric[6] ?? 0),
+        millisecond: 0,
+      },
+      timezone,
+    );
+  }
+
+  const compact = COMPACT_DATE_PATTERN.exec(text);
+  if (compact) {
+    return toDate(
+      {
+        ...midnight(),
+        year: Number(compact[1]),
+        month: Number(compact[2]),
+        day: Number(compact[3]),
+      },
+      timezone,
+    );
+  }
+
+  // ISO dates without an offset are wall-clock times (the Date constructor would use local time)
+  const iso = ISO_LOCAL_PATTERN.exec(text);
+  if (iso) {
+    return toDate(
+      {
+        year: Number(iso[1]),
+        month: Number(iso[2]),
+        day: Number(iso[3]),
+        hour: Number(iso[4] ?? 0),
+        minute: Number(iso[5] ?? 0),
+        second: Number(iso[6] ?? 0),
+        millisecond: Number((iso[7] ?? "0").padEnd(3, "0")),
+      },
+      timezone,
+    );
+  }
+
+  for (const textFormat of TEXT_DATE_FORMATS) {
+    const fields = matchFormat(text, textFormat, locale);
+    if (fields) {
+      return toDate(fields, timezone);
+    }
+  }
+
+  if (!EXPLICIT_OFFSET_PATTERN.test(text)) {
+    return null;
+  }
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read an Excel serial number (fractions are the time of day)
+ * Serials before 1 March 1900 are off by a day (Excel's 1900 leap year bug).
+ */
+export function fromExcelSerial(serial: number, timezone?: string): Date | null {
+  if (!Number.isFinite(serial) || serial < 0) {
+    return null;
+  }
+  const wallClock = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * DAY_MS));
+  return toDate(getFields(wallClock), timezone);
+}
+
+/**
+ * Format a date with format tokens
+ */
+export function formatDate(date: Date, format: string, options: DateFormatOptions = {}): string {
+  const fields = options.timezone ? getZonedFields(date, options.timezone) : getFields(date);
+  const hour12 = fields.hour % 12 === 0 ? 12 : fields.hour % 12;
+
+  return format.replace(TOKEN_PATTERN, (match) => {
+    const token = normalizeToken(match);
+    switch (token) {
+      case "yyyy":
+        return String(fields.year).padStart(4, "0");
+      case "yy":
+        return String(fields.year % 100).padStart(2, "0");
+      case "MMMM":
+        return getMonthNames(options.locale).long[fields.month - 1];
+      case "MMM":
+        return getMonthNames(options.locale).short[fields.month - 1];
+      case "MM":
+        return pad(fields.month);
+      case "M":
+        return String(fields.month);
+      case "dd":
+        return pad(fields.day);
+      case "d":
+        return String(fields.day);
+      case "HH":
+        return pad(fields.hour);
+      case "H":
+        return String(fields.hour);
+      case "hh":
+        return pad(hour12);
+      case "h":
+        return String(hour12);
+      case "mm":
+        return pad(fields.minute);
+      case "ss":
+        return pad(fields.second);
+      case "SSS":
+        return String(fields.millisecond).padStart(3, "0");
+      case "a":
+        return fields.hour < 12 ? "AM" : "PM";
+      default:
+        return token.slice(1, -1);
+    }
+  });
+}
+
+/**
+ * Check that a timezone is a known IANA timezone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getZonedFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a locale is a valid BCP 47 language tag
+ */
+export function isValidLocale(locale: string): boolean {
+  try {
+    Intl.getCanonicalLocales(locale);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function midnight(): Omit<DateFields, "year" | "month" | "day"> {
+  return { hour: 0, minute: 0, second: 0, millisecond: 0 };
+}
+
+function normalizeToken(token: string): string {
+  return token.startsWith("'") ? token : token.replace(/Y/g, "y").replace(/D/g, "d");
+}
+
+function expandYear(year: string): number {
+  if (year.length === 4) {
+    return Number(year);
+  }
+  const value = Number(year);
+  return value < 70 ? 2000 + value : 1900 + value;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Match a string against format tokens
+ */
+function matchFormat(text: string, format: string, locale?: string): DateFields | null {
+  const { tokens, pattern } = compileFormat(format);
+  const match = pattern.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const fields: DateFields = { year: 1970, month: 1, day: 1, ...midnight() };
+  let pm: boolean | undefined;
+  let twelveHour = false;
+
+  for (const [index, token] of tokens.entries()) {
+    const value = match[index + 1];
+    switch (token) {
+      case "yyyy":
+      case "yy":
+        fields.year = expandYear(value);
+        break;
+      case "MMMM":
+      case "MMM": {
+        const month = findMonth(value, locale);
+        if (month === null) return null;
+        fields.month = month;
+        break;
+      }
+      case "MM":
+      case "M":
+        fields.month = Number(value);
+        break;
+      case "dd":
+      case "d":
+        fields.day = Number(value);
+        break;
+      case "hh":
+      case "h":
+        twelveHour = true;
+        fields.hour = Number(value);
+        break;
+      case "HH":
+      case "H":
+        fields.hour = Number(value);
+        break;
+      case "mm":
+        fields.minute = Number(value);
+        break;
+      case "ss":
+        fields.second = Number(value);
+        break;
+      case "SSS":
+        fields.millisecond = Number(value.padEnd(3, "0"));
+        break;
+      case "a":
+        pm = value.toLowerCase().startsWith("p");
+        break;
+    }
+  }
+
+  if (twelveHour) {
+    if (fields.hour < 1 || fields.hour > 12) return null;
+    fields.hour = (fields.hour % 12) + (pm ? 12 : 0);
+  }
+
+  return fields;
+}
+
+const compiledFormatCache = new Map<string, { tokens: string[]; pattern: RegExp }>();
+
+/**
+ * Tokens of a format and the pattern matching it (one group per token)
+ */
+function compileFormat(format: string): { tokens: string[]; pattern: RegExp } {
+  let compiled = compiledFormatCache.get(format);
+  if (!compiled) {
+    const tokens: string[] = [];
+    let pattern = "";
+    let last = 0;
+
+    for (const match of format.matchAll(TOKEN_PATTERN)) {
+      pattern += literalPattern(format.slice(last, match.index));
+      last = match.index + match[0].length;
+
+      const token = normalizeToken(match[0]);
+      if (token.startsWith("'")) {
+        pattern += escapeRegex(token.slice(1, -1));
+        continue;
+      }
+      tokens.push(token);
+      pattern += tokenPattern(token);
+    }
+    pattern += literalPattern(format.slice(last));
+
+    compiled = { tokens, pattern: new RegExp(`^${pattern}$`, "iu") };
+    compiledFormatCache.set(format, compiled);
+  }
+  return compiled;
+}
+
+function literalPattern(text: string): string {
+  return text.split(/\s+/).map(escapeRegex).join("\\s+");
+}
+
+function tokenPattern(token: string): string {
+  switch (token) {
+    case "yyyy":
+      return "(\\d{4})";
+    case "MMMM":
+    case "MMM":
+      return "(\\p{L}+)\\.?";
+    case "M":
+    case "d":
+    case "H":
+    case "h":
+      return "(\\d{1,2})";
+    case "SSS":
+      return "(\\d{1,3})";
+    case "a":
+      return "([ap]\\.?m\\.?)";
+    default:
+      return "(\\d{2})";
+  }
+}
+
+/**
+ * Month names by locale: display names, and lowercase names without dots for matching
+ */
+const monthNameCache = new Map<
+  string,
+  { long: string[]; short: string[]; lookup: Map<string, number> }
+>();
+
+function getMonthNames(locale = "en") {
+  let names = monthNameCache.get(locale);
+  if (!names) {
+    const monthName = (month: number, style: "long" | "short") =>
+      new Intl.DateTimeFormat(locale, { month: style, timeZone: "UTC" }).format(
+        Date.UTC(2024, month, 15),
+      );
+    const long = Array.from({ length: 12 }, (_, month) => monthName(month, "long"));
+    const short = Array.from({ length: 12 }, (_, month) => monthName(month, "short"));
+
+    const lookup = new Map<string, number>();
+    for (const list of [long, short]) {
+      for (const [month, name] of list.entries()) {
+        lookup.set(normalizeMonthName(name), month + 1);
+      }
+    }
+    names = { long, short, lookup };
+    monthNameCache.set(locale, names);
+  }
+  return names;
+}
+
+function normalizeMonthName(name: string): string {
+  return name.toLowerCase().replace(/\.$/, "");
+}
+
+function findMonth(name: string, locale?: string): number | null {
+  const key = normalizeMonthName(name);
+  // "Sept" is a common English abbreviation Intl doesn't produce
+  const english = key === "sept" ? 9 : getMonthNames("en").lookup.get(key);
+  return (locale ? getMonthNames(locale).lookup.get(key) : undefined) ?? english ?? null;
+}
+
+/**
+ * The date for wall-clock fields, or null if they aren't a real date (e.g. 31 April)
+ */
+function toDate(fields: DateFields, timezone?: string): Date | null {
+  const { year, month, day, hour, minute, second, millisecond } = fields;
+  if (month < 1 || month > 12 || day < 1 || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(2000, month - 1, day, hour, minute, second, millisecond));
+  date.setUTCFullYear(year);
+  if (date.getUTCDate() !== day || date.getUTCMonth() !== month - 1) {
+    return null;
+  }
+
+  if (!timezone) {
+    return date;
+  }
+
+  // Offset of the timezone at that time, checked again in case it crossed a DST change
+  const wallClock = date.getTime();
+  const offset = getTimezoneOffset(wallClock, timezone);
+  const corrected = getTimezoneOffset(wallClock - offset, timezone);
+  return new Date(wallClock - corrected);
+}
+
+function getFields(date: Date): DateFields {
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+const zonedFormatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zonedFormatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock fields of a date in a timezone
+ */
+function getZonedFields(date: Date, timezone: string): DateFields {
+  const parts = Object.fromEntries(
+    getZonedFormatter(timezone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+/**
+ * Milliseconds the timezone is ahead of UTC at a time
+ */
+function getTimezoneOffset(timestamp: number, timezone: string): number {
+  const date = new Date(timestamp);
+  const fields = getZonedFields(date, timezone);
+  const wallClock = new Date(
+    Date.UTC(2000, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second),
+  );
+  wallClock.setUTCFullYear(fields.year);
+  return wallClock.getTime() - (timestamp - date.getUTCMilliseconds());
+}
@@ -0,0 +1,181 @@
+/**
+ * Locale-aware number parsing and formatting
+ *
+ * Parsing accepts the decorations numbers carry in spreadsheets and exports:
+ * currency symbols and codes ($12, 12 €, EUR 12), percent signs (12.5% →
+ * 0.125), accounting negatives ((123) → -123) and trailing minus (123- →
+ * -123). Separators come from a locale or are given explicitly; without
+ * either, "." is the decimal separator and commas are dropped.
+ *
+ * Examples:
+ *   parseNumber("1.234,56", { locale: "de-DE" })        → 1234.56
+ *   parseNumber("12,5", { decimalSeparator: "," })      → 12.5
+ *   parseNumber("($1,234.50)")                          → -1234.5
+ *   formatNumber(1234.5, { decimals: 2, currency: "EUR", locale: "de-DE" }) → "1.234,50 €"
+ */
+
+export interface NumberParseOptions {
+  locale?: string; // Separators of this locale, e.g. "de-DE"
+  decimalSeparator?: string; // Overrides the locale's decimal separator
+  groupSeparator?: string; // Overrides the locale's grouping separator
+}
+
+export interface NumberFormatOptions {
+  locale?: string; // Separators and currency placement (default: "en-US")
+  decimals?: number; // Fixed number of decimals (default: as many as needed)
+  grouping?: boolean; // Group thousands (default: true)
+  currency?: string; // ISO 4217 currency code, e.g. "EUR"
+}
+
+// Grouping separators typed interchangeably: spaces (incl. no-break spaces) and apostrophes
+const GROUP_ALIASES = [/\s/g, /['’]/g];
+
+// One decoration at the start or end of a number
+const LEADING_DECORATION = /^(?:([-+])|(\p{Sc})|([A-Z]{3})(?=[\s\d.,(-]))\s*/u;
+const TRAILING_DECORATION = /\s*(?:(-)|(%)|(\p{Sc})|(?<=[\s\d.,])([A-Z]{3}))$/u;
+
+const PLAIN_NUMBER = /^(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i;
+
+const separatorCache = new Map<string, { decimal: string; group: string }>();
+
+/**
+ * Decimal and grouping separators for parse options
+ * Throws if the separators are the same or not a single character.
+ */
+export function getNumberSeparators(options: NumberParseOptions = {}): {
+  decimal: string;
+  group: string;
+} {
+  const key = `${options.locale ?? ""}|${options.decimalSeparator ?? ""}|${options.groupSeparator ?? ""}`;
+  let separators = separatorCache.get(key);
+  if (!separators) {
+    separators = resolveSeparators(options);
+    separatorCache.set(key, separators);
+  }
+  return separators;
+}
+
+/**
+ * Parse a number string
+ * Returns null if the string isn't a number.
+ */
+export function parseNumber(str: string, options?: NumberParseOptions): number | null {
+  let text = str.trim();
+  let negative = false;
+  let signs = 0;
+  let currencies = 0;
+  let percent = false;
+
+  // Accounting negatives: (123)
+  if (text.startsWith("(") && text.endsWith(")")) {
+    negative = true;
+    signs++;
+    text = text.slice(1, -1).trim();
+  }
+
+  // Signs, currencies and percent signs around the digits, in any order
+  for (let match = LEADING_DECORATION.exec(text); match; match = LEADING_DECORATION.exec(text)) {
+    if (match[1]) {
+      signs++;
+      negative = match[1] === "-";
+    } else if (match[3] && !isCurrencyCode(match[3])) {
+      break;
+    } else {
+      currencies++;
+    }
+    text = text.slice(match[0].length);
+  }
+  for (let match = TRAILING_DECORATION.exec(text); match; match = TRAILING_DECORATION.exec(text)) {
+    if (match[1]) {
+      signs++;
+      negative = true;
+    } else if (match[2]) {
+      if (percent) return null;
+      percent = true;
+    } else if (match[4] && !isCurrencyCode(match[4])) {
+      break;
+    } else {
+      currencies++;
+    }
+    text = text.slice(0, match.index);
+  }
+
+  if (signs > 1 || currencies > 1 || text === "") {
+    return null;
+  }
+
+  const plain = normalizeSeparators(text, getNumberSeparators(options));
+  if (!PLAIN_NUMBER.test(plain)) {
+    return null;
+  }
+
+  const number = Number(plain);
+  if (!Number.isFinite(number)) {
+    return null;
+  }
+  const value = negative ? -number : number;
+  // Divide rather than multiply by 0.01 to keep 12.5% exactly 0.125
+  return percent ? value / 100 : value;
+}
+
+/**
+ * Format a number as text
+ */
+export function formatNumber(value: number, options: NumberFormatOptions = {}): string {
+  const { locale = "en-US", decimals, grouping = true, currency } = options;
+  return new Intl.NumberFormat(locale, {
+    style: currency ? "currency" : "decimal",
+    currency,
+    useGrouping: grouping,
+    minimumFractionDigits: decimals,
+    // Without fixed decimals, keep every digit (currencies use their usual decimals)
+    maximumFractionDigits: decimals ?? (currency ? undefined : 20),
+  }).format(value);
+}
+
+/**
+ * Check that a currency code is a known ISO 4217 code
+ */
+export function isValidCurrency(currency: string): boolean {
+  return isCurrencyCode(currency.toUpperCase());
+}
+
+let currencyCodes: Set<string> | null = null;
+
+function isCurrencyCode(code: string): boolean {
+  currencyCodes ??= new Set(Intl.supportedValuesOf("currency"));
+  return currencyCodes.has(code);
+}
+
+/**
+ * Drop grouping separators and turn the decimal separator into "."
+ */
+function normalizeSeparators(text: string, separators: { decimal: string; group: string }): string {
+  const alias = GROUP_ALIASES.find((pattern) => separators.group.replace(pattern, "") === "");
+  const withoutGroups = alias ? text.replace(alias, "") : text.split(separators.group).join("");
+  return separators.decimal === "."
+    ? withoutGroups
+    : withoutGroups.split(separators.decimal).join(".");
+}
+
+function resolveSeparators(options: NumberParseOptions): { decimal: string; group: string } {
+  const localeParts = options.locale
+    ? new Intl.NumberFormat(options.locale).formatToParts(1234567.5)
+    : [];
+  const decimal =
+    options.decimalSeparator ??
+    localeParts.find((part) => part.type === "decimal")?.value ??
+    (options.groupSeparator === "." ? "," : ".");
+  const group =
+    options.groupSeparator ??
+    localeParts.find((part) => part.type === "group")?.value ??
+    (decimal === "," ? "." : ",");
+
+  if ([...decimal].length !== 1 || [...group].length !== 1) {
+    throw new Error("Decimal and grouping separators must be single characters");
+  }
+  if (decimal === group) {
+    throw new Error(`Decimal and grouping separators must differ (both are "${decimal}")`);
+  }
+  return { decimal, group };
+}
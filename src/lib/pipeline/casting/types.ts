@@ -2,6 +2,17 @@
  * Type casting functions for converting values between types
  */
 
+import { type DateParseOptions, formatDate, parseDate } from "./dates";
+import { type NumberParseOptions, parseNumber } from "./numbers";
+
+/**
+ * Options for casts to dates and numbers
+ * A string is a date format (see dates.ts for the tokens).
+ */
+export interface CastOptions extends DateParseOptions, NumberParseOptions {
+  outputFormat?: string; // Write dates as text in this format instead of Date values
+}
+
 /**
  * Cast any value to string
  * Always succeeds
@@ -28,8 +39,12 @@ export function castToString(value: unknown): string {
 /**
  * Cast value to number
  * Returns null if conversion fails
+ *
+ * Accepts currency symbols, percent signs (50% → 0.5), accounting negatives
+ * "(123)" and trailing minus "123-". Separators come from the options (see
+ * numbers.ts); by default "." is the decimal separator and commas are dropped.
  */
-export function castToNumber(value: unknown): number | null {
+export function castToNumber(value: unknown, options?: NumberParseOptions): number | null {
   if (value === null || value === undefined || value === "") {
     return null;
   }
@@ -46,18 +61,7 @@ export function castToNumber(value: unknown): number | null {
     return null;
   }
 
-  // Remove common thousand separators (commas)
-  const cleaned = str.replace(/,/g, "");
-
-  // Try to parse as number
-  const num = Number(cleaned);
-
-  // Check if valid number (not NaN, not Infinity)
-  if (Number.isNaN(num) || !Number.isFinite(num)) {
-    return null;
-  }
-
-  return num;
+  return parseNumber(str, options);
 }
 
 /**
@@ -106,12 +110,12 @@ export function castToBoolean(value: unknown): boolean | null {
  *
  * Supports:
  * - ISO 8601: 2023-01-15, 2023-01-15T10:30:00Z
- * - US format: 01/15/2023, 1/15/2023
- * - European format: 15/01/2023, 15-01-2023
+ * - Numeric dates: 01/15/2023, 15.01.23 (read with options.dateOrder)
+ * - Compact dates: 20230115
  * - Text format: Jan 15, 2023, January 15, 2023
- * - Custom format via format parameter (future enhancement)
+ * - Explicit formats: options.format, e.g. "dd.MM.yyyy" or "excel" for Excel serial numbers
  */
-export function castToDate(value: unknown, format?: string): Date | null {
+export function castToDate(value: unknown, options?: string | DateParseOptions): Date | null {
   if (value === null || value === undefined || value === "") {
     return null;
   }
@@ -121,6 +125,8 @@ export function castToDate(value: unknown, format?: string): Date | null {
     return Number.isNaN(value.getTime()) ? null : value;
   }
 
+  const dateOptions = typeof options === "string" ? { format: options } : (options ?? {});
+
   // Try to parse as date
   const str = String(value).trim();
 
@@ -128,21 +134,7 @@ export function castToDate(value: unknown, format?: string): Date | null {
     return null;
   }
 
-  // Custom format handling (placeholder for future enhancement)
-  if (format) {
-    // TODO: Implement custom format parsing
-    // For now, ignore format and use default parsing
-  }
-
-  // Try parsing with Date constructor
-  const date = new Date(str);
-
-  // Check if valid date
-  if (Number.isNaN(date.getTime())) {
-    return null;
-  }
-
-  return date;
+  return parseDate(str, dateOptions);
 }
 
 /**
@@ -161,7 +153,7 @@ export type CastResult = {
 export function tryCast(
   value: unknown,
   targetType: "string" | "number" | "boolean" | "date",
-  format?: string,
+  options?: string | CastOptions,
 ): CastResult {
   try {
     // If input value is null or undefined, treat as successful cast to null
@@ -179,7 +171,7 @@ export function tryCast(
         return { success: true, value: result };
       }
       case "number": {
-        const result = castToNumber(value);
+        const result = castToNumber(value, typeof options === "string" ? undefined : options);
         if (result === null) {
           return {
             success: false,
@@ -201,12 +193,24 @@ export function tryCast(
         return { success: true, value: result };
       }
       case "date": {
-        const result = castToDate(value, format);
+        const castOptions = typeof options === "string" ? { format: options } : options;
+        const result = castToDate(value, castOptions);
         if (result === null) {
           return {
             success: false,
             value: null,
-            error: `Cannot convert "${value}" to date`,
+            error: castOptions?.format
+              ? `Cannot convert "${value}" to date with format "${castOptions.format}"`
+              : `Cannot convert "${value}" to date`,
+          };
+        }
+        if (castOptions?.outputFormat) {
+          return {
+            success: true,
+            value: formatDate(result, castOptions.outputFormat, {
+              timezone: castOptions.timezone,
+              locale: castOptions.locale,
+            }),
           };
         }
         return { success: true, value: result };
@@ -3,18 +3,27 @@
  * Allows users to preview cast results before applying
  */
 
-import { tryCast } from "./types.js";
+import { type CastOptions, castToString, tryCast } from "./types.js";
 
 export type ValidationSample = {
   value: unknown;
   error: string;
 };
 
+/**
+ * A value that casts, with its result as text (dates as ISO strings or in the output format)
+ */
+export type ParsedSample = {
+  value: unknown;
+  result: string;
+};
+
 export type ValidationResult = {
   total: number;
   valid: number;
   invalid: number;
   invalidSamples: ValidationSample[];
+  parsedSamples: ParsedSample[]; // Distinct non-null values, to preview how they are read
   recommendedMode: "fail" | "null" | "skip";
   failureRate: number; // Percentage (0-100)
 };
@@ -24,15 +33,15 @@ export type ValidationResult = {
  *
  * @param values - Array of values to validate (typically a column's data)
  * @param targetType - Target type to cast to (string, number, boolean, or date)
- * @param format - Optional format string for date parsing
- * @param maxSamples - Maximum number of invalid samples to return (default: 5)
+ * @param options - Optional date format (string) or date options (format, order, timezone, output format)
+ * @param maxSamples - Maximum number of invalid and parsed samples to return (default: 5)
  * @param maxRows - Maximum number of rows to validate (default: 1000 for performance)
  * @returns Validation result with statistics and recommendations
  */
 export function validateCast(
   values: unknown[],
   targetType: "string" | "number" | "boolean" | "date",
-  format?: string,
+  options?: string | CastOptions,
   maxSamples: number = 5,
   maxRows: number = 1000,
 ): ValidationResult {
@@ -42,12 +51,21 @@ export function validateCast(
   let validCount = 0;
   let invalidCount = 0;
   const invalidSamples: ValidationSample[] = [];
+  const parsedSamples: ParsedSample[] = [];
+  const parsedValues = new Set<string>();
 
   for (const value of sample) {
-    const result = tryCast(value, targetType, format);
+    const result = tryCast(value, targetType, options);
 
     if (result.success) {
       validCount++;
+
+      // Collect sample results of distinct values (up to maxSamples)
+      const key = castToString(value);
+      if (result.value !== null && parsedSamples.length < maxSamples && !parsedValues.has(key)) {
+        parsedValues.add(key);
+        parsedSamples.push({ value, result: castToString(result.value) });
+      }
     } else {
       invalidCount++;
 
@@ -86,6 +104,7 @@ export function validateCast(
     valid: validCount,
     invalid: invalidCount,
     invalidSamples,
+    parsedSamples,
     recommendedMode,
     failureRate,
   };
@@ -0,0 +1,77 @@
+/**
+ * Tests for finding value clusters
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findClusters, type ValueCount } from "../clusters";
+
+const vendors: ValueCount[] = [
+  { value: "ACME Inc.", count: 12 },
+  { value: "Globex", count: 8 },
+  { value: "Acme, Inc", count: 3 },
+  { value: "acme inc", count: 1 },
+  { value: "Globex Corp", count: 2 },
+  { value: "Initech", count: 5 },
+  { value: "Inytech", count: 1 },
+];
+
+function clusterValues(clusters: ReturnType<typeof findClusters>): string[][] {
+  return clusters.map((cluster) => cluster.values.map((entry) => entry.value));
+}
+
+describe("findClusters", () => {
+  it("should group values with the same fingerprint", () => {
+    const clusters = findClusters(vendors, "fingerprint");
+
+    assert.deepEqual(clusterValues(clusters), [["ACME Inc.", "Acme, Inc", "acme inc"]]);
+    assert.equal(clusters[0].canonical, "ACME Inc.");
+    assert.equal(clusters[0].rowCount, 16);
+  });
+
+  it("should group values that sound alike", () => {
+    assert.deepEqual(clusterValues(findClusters(vendors, "metaphone")), [
+      ["ACME Inc.", "Acme, Inc", "acme inc"],
+      ["Initech", "Inytech"],
+    ]);
+  });
+
+  it("should link values above the similarity threshold", () => {
+    assert.deepEqual(clusterValues(findClusters(vendors, "levenshtein")), [
+      ["ACME Inc.", "Acme, Inc", "acme inc"],
+      ["Initech", "Inytech"],
+    ]);
+    assert.deepEqual(clusterValues(findClusters(vendors, "token_set")), [
+      ["ACME Inc.", "Acme, Inc", "acme inc"],
+      ["Globex", "Globex Corp"],
+    ]);
+    assert.deepEqual(clusterValues(findClusters(vendors, "jaro_winkler", 0.7)), [
+      ["ACME Inc.", "Acme, Inc", "acme inc"],
+      ["Globex", "Globex Corp"],
+      ["Initech", "Inytech"],
+    ]);
+  });
+
+  it("should merge repeated values and suggest the most frequent", () => {
+    const clusters = findClusters(
+      [
+        { value: "acme", count: 2 },
+        { value: "ACME", count: 1 },
+        { value: "ACME", count: 4 },
+      ],
+      "fingerprint",
+    );
+
+    assert.equal(clusters[0].canonical, "ACME");
+    assert.deepEqual(clusters[0].values, [
+      { value: "ACME", count: 5 },
+      { value: "acme", count: 2 },
+    ]);
+  });
+
+  it("should reject invalid thresholds", () => {
+    assert.throws(() => findClusters(vendors, "levenshtein", 0), {
+      message: "Threshold must be greater than 0 and at most 1",
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for clustering keys, phonetic codes and similarity measures
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fingerprint, normalizeText, phoneticKey } from "../keys";
+import { doubleMetaphone } from "../metaphone";
+import {
+  jaroWinkler,
+  levenshteinDistance,
+  levenshteinSimilarity,
+  tokenSetSimilarity,
+} from "../similarity";
+
+describe("fingerprint", () => {
+  it("should ignore case, accents, punctuation and word order", () => {
+    assert.equal(fingerprint("Acme, Inc."), "acme inc");
+    assert.equal(fingerprint("  inc ACME "), "acme inc");
+    assert.equal(fingerprint("Société Générale"), "generale societe");
+    assert.equal(fingerprint("Acme Acme Inc"), "acme inc");
+  });
+
+  it("should normalize text without reordering it", () => {
+    assert.equal(normalizeText("  Crème  Brûlée! "), "creme brulee");
+  });
+});
+
+describe("doubleMetaphone", () => {
+  it("should give names pronounced alike the same code", () => {
+    assert.deepEqual(doubleMetaphone("Smith"), ["SM0", "XMT"]);
+    assert.deepEqual(doubleMetaphone("Schmidt"), ["XMT", "SMT"]);
+    assert.deepEqual(doubleMetaphone("Catherine"), doubleMetaphone("Kathryn"));
+    assert.deepEqual(doubleMetaphone("Acme"), doubleMetaphone("Akme"));
+  });
+
+  it("should apply the spelling rules", () => {
+    assert.deepEqual(doubleMetaphone("Knight"), ["NT", "NT"]);
+    assert.deepEqual(doubleMetaphone("Michael"), ["MKL", "MXL"]);
+    assert.deepEqual(doubleMetaphone("Xavier"), ["SF", "SFR"]);
+    assert.deepEqual(doubleMetaphone("Gallegos"), ["KLKS", "KKS"]);
+    assert.deepEqual(doubleMetaphone("laugh"), ["LF", "LF"]);
+    assert.deepEqual(doubleMetaphone(""), ["", ""]);
+  });
+
+  it("should build phonetic keys word by word", () => {
+    assert.equal(phoneticKey("Jon Smith"), "JN SM0");
+    assert.equal(phoneticKey("John Smyth"), "JN SM0");
+  });
+});
+
+describe("similarity", () => {
+  it("should measure edit distance", () => {
+    assert.equal(levenshteinDistance("kitten", "sitting"), 3);
+    assert.equal(levenshteinDistance("", "abc"), 3);
+    assert.equal(levenshteinSimilarity("abcd", "abce"), 0.75);
+    assert.equal(levenshteinSimilarity("", ""), 1);
+  });
+
+  it("should compute Jaro-Winkler similarity", () => {
+    assert.equal(jaroWinkler("martha", "marhta").toFixed(3), "0.961");
+    assert.equal(jaroWinkler("abc", "abc"), 1);
+    assert.equal(jaroWinkler("abc", "xyz"), 0);
+  });
+
+  it("should compare word sets", () => {
+    assert.equal(tokenSetSimilarity("acme inc", "inc acme"), 1);
+    assert.equal(tokenSetSimilarity("acme inc", "inc acme ltd").toFixed(3), "0.667");
+    assert.equal(tokenSetSimilarity("acme", "globex"), 0);
+  });
+});
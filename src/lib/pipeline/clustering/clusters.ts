@@ -0,0 +1,171 @@
+/**
+ * Find clusters of values that are probably the same thing written differently
+ *
+ * Key collision methods (fingerprint, metaphone) group values with the same
+ * key. Nearest-neighbour methods (levenshtein, jaro_winkler, token_set) compare
+ * the normalized values pairwise and link those at least `threshold` similar;
+ * a cluster is a chain of linked values.
+ *
+ * Example:
+ *   findClusters([{value: "ACME Inc.", count: 12}, {value: "Acme, Inc", count: 3}], "fingerprint")
+ *   → [{values: [...], canonical: "ACME Inc.", rowCount: 15}]
+ */
+
+import type { ClusterMethod } from "../types";
+import { fingerprint, normalizeText, phoneticKey } from "./keys";
+import { jaroWinkler, levenshteinSimilarity, tokenSetSimilarity } from "./similarity";
+
+export const CLUSTER_METHODS = [
+  "fingerprint",
+  "metaphone",
+  "levenshtein",
+  "jaro_winkler",
+  "token_set",
+] as const satisfies readonly ClusterMethod[];
+
+/**
+ * Similarity a pair of values needs to be linked, per nearest-neighbour method
+ */
+export const DEFAULT_CLUSTER_THRESHOLDS: Record<
+  Exclude<ClusterMethod, "fingerprint" | "metaphone">,
+  number
+> = {
+  levenshtein: 0.8,
+  jaro_winkler: 0.9,
+  token_set: 0.5,
+};
+
+/**
+ * Distinct values compared pairwise by the nearest-neighbour methods (most frequent first)
+ */
+export const MAX_NEAREST_NEIGHBOR_VALUES = 2000;
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface ClusterCandidate {
+  values: ValueCount[]; // Most frequent first
+  canonical: string; // Suggested canonical value: the most frequent
+  rowCount: number; // Rows holding one of the values
+}
+
+/**
+ * Whether a method groups values by key (no threshold)
+ */
+export function isKeyingMethod(method: ClusterMethod): method is "fingerprint" | "metaphone" {
+  return method === "fingerprint" || method === "metaphone";
+}
+
+/**
+ * Group values into clusters of two or more variants
+ * Clusters with the most variants come first.
+ */
+export function findClusters(
+  values: ValueCount[],
+  method: ClusterMethod,
+  threshold?: number,
+): ClusterCandidate[] {
+  if (!CLUSTER_METHODS.includes(method)) {
+    throw new Error(`Unknown cluster method: ${method}`);
+  }
+  if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+    throw new Error("Threshold must be greater than 0 and at most 1");
+  }
+
+  // Distinct values, most frequent first
+  const counts = new Map<string, number>();
+  for (const { value, count } of values) {
+    counts.set(value, (counts.get(value) ?? 0) + count);
+  }
+  const distinct = [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const groups = isKeyingMethod(method)
+    ? groupByKey(distinct, method === "fingerprint" ? fingerprint : phoneticKey)
+    : groupByNeighbors(distinct, method, threshold ?? DEFAULT_CLUSTER_THRESHOLDS[method]);
+
+  return groups
+    .filter((group) => group.length > 1)
+    .map((group) => ({
+      values: group,
+      canonical: group[0].value,
+      rowCount: group.reduce((sum, entry) => sum + entry.count, 0),
+    }))
+    .sort((a, b) => b.values.length - a.values.length || b.rowCount - a.rowCount);
+}
+
+/**
+ * Group values sharing a key (values with an empty key stay alone)
+ */
+function groupByKey(values: ValueCount[], getKey: (value: string) => string): ValueCount[][] {
+  const groups = new Map<string, ValueCount[]>();
+  for (const entry of values) {
+    const key = getKey(entry.value);
+    if (!key) continue;
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Group values whose normalized forms are linked by a chain of similar pairs
+ */
+function groupByNeighbors(
+  values: ValueCount[],
+  method: Exclude<ClusterMethod, "fingerprint" | "metaphone">,
+  threshold: number,
+): ValueCount[][] {
+  // Values that normalize the same are always together
+  const byForm = groupByKey(values, normalizeText);
+  const forms = byForm.map((group) => normalizeText(group[0].value));
+  const similarity =
+    method === "levenshtein"
+      ? levenshteinSimilarity
+      : method === "jaro_winkler"
+        ? jaroWinkler
+        : tokenSetSimilarity;
+
+  // Union-find over the forms
+  const parent = forms.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const compared = Math.min(forms.length, MAX_NEAREST_NEIGHBOR_VALUES);
+  for (let i = 0; i < compared; i++) {
+    for (let j = i + 1; j < compared; j++) {
+      // The length difference alone rules out most pairs for edit distance
+      if (
+        method === "levenshtein" &&
+        1 -
+          Math.abs(forms[i].length - forms[j].length) / Math.max(forms[i].length, forms[j].length) <
+          threshold
+      ) {
+        continue;
+      }
+      if (find(i) !== find(j) && similarity(forms[i], forms[j]) >= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  // Collect the values of each root, keeping the most frequent first
+  const clusters = new Map<number, ValueCount[]>();
+  for (const [index, group] of byForm.entries()) {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), ...group]);
+  }
+  return [...clusters.values()].map((cluster) => cluster.sort((a, b) => b.count - a.count));
+}
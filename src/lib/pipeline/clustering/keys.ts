@@ -0,0 +1,45 @@
+/**
+ * Keys grouping variants of the same value (key collision clustering)
+ *
+ * Values with the same key are considered the same thing written differently:
+ *
+ *   fingerprint("Acme, Inc.")  → "acme inc"
+ *   fingerprint("inc ACME")    → "acme inc"
+ *   phoneticKey("Jon Smith")   → "JN SM0"
+ *   phoneticKey("John Smyth")  → "JN SM0"
+ */
+
+import { doubleMetaphone } from "./metaphone";
+
+/**
+ * Lowercase text without accents, punctuation or repeated whitespace
+ */
+export function normalizeText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}\p{Cc}]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Fingerprint key (as in OpenRefine): the distinct normalized words, sorted
+ * Ignores case, accents, punctuation, word order and repeated words.
+ */
+export function fingerprint(value: string): string {
+  const words = normalizeText(value).split(" ").filter(Boolean);
+  return [...new Set(words)].sort().join(" ");
+}
+
+/**
+ * Phonetic key: the Double Metaphone code of every fingerprint word
+ */
+export function phoneticKey(value: string): string {
+  return fingerprint(value)
+    .split(" ")
+    .map((word) => doubleMetaphone(word)[0])
+    .filter(Boolean)
+    .join(" ");
+}
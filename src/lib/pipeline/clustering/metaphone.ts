@@ -0,0 +1,614 @@
+/**
+ * Double Metaphone phonetic encoding (Lawrence Philips, 2000)
+ *
+ * Encodes a word as the consonant sounds it is pronounced with, returning a
+ * primary and an alternate code of at most 4 characters ("0" stands for "th",
+ * "X" for "sh"/"ch"). Names spelled differently but pronounced alike share a
+ * code:
+ *
+ *   doubleMetaphone("Smith")     → ["SM0", "XMT"]
+ *   doubleMetaphone("Schmidt")   → ["XMT", "SMT"]
+ *   doubleMetaphone("Catherine") → ["K0RN", "KTRN"]
+ *   doubleMetaphone("Kathryn")   → ["K0RN", "KTRN"]
+ */
+
+const MAX_LENGTH = 4;
+
+const VOWELS = new Set(["A", "E", "I", "O", "U", "Y"]);
+
+/**
+ * Primary and alternate code of a word
+ */
+export function doubleMetaphone(word: string): [string, string] {
+  const upper = word.toUpperCase();
+  const length = upper.length;
+  const last = length - 1;
+  if (length === 0) {
+    return ["", ""];
+  }
+  // Padded so that rules can look past the end of the word
+  const value = `${upper}     `;
+
+  let primary = "";
+  let secondary = "";
+  let current = 0;
+
+  const charAt = (index: number): string => (index >= 0 ? value[index] : "");
+  const isVowel = (index: number): boolean => VOWELS.has(charAt(index));
+  // Whether one of the strings starts at index (out of range never matches)
+  const at = (index: number, ...options: string[]): boolean =>
+    index >= 0 && options.some((option) => value.startsWith(option, index));
+  const add = (main: string, alternate = main) => {
+    primary += main;
+    secondary += alternate;
+  };
+
+  const slavoGermanic = /W|K|CZ|WITZ/.test(upper);
+  const germanic = at(0, "VAN ", "VON ", "SCH");
+
+  // Silent first letters
+  if (at(0, "GN", "KN", "PN", "WR", "PS")) {
+    current++;
+  }
+
+  // Initial X is pronounced Z, e.g. "Xavier"
+  if (charAt(0) === "X") {
+    add("S");
+    current++;
+  }
+
+  while ((primary.length < MAX_LENGTH || secondary.length < MAX_LENGTH) && current < length) {
+    const next = charAt(current + 1);
+
+    switch (value[current]) {
+      case "A":
+      case "E":
+      case "I":
+      case "O":
+      case "U":
+      case "Y":
+        // Initial vowels map to A
+        if (current === 0) {
+          add("A");
+        }
+        current++;
+        break;
+
+      case "B":
+        // "-mb" as in "dumb" is handled by M
+        add("P");
+        current += next === "B" ? 2 : 1;
+        break;
+
+      case "Ç":
+        add("S");
+        current++;
+        break;
+
+      case "C":
+        current += encodeC();
+        break;
+
+      case "D":
+        if (at(current, "DG")) {
+          if (at(current + 2, "I", "E", "Y")) {
+            // "edge"
+            add("J");
+            current += 3;
+          } else {
+            // "edgar"
+            add("TK");
+            current += 2;
+          }
+          break;
+        }
+        add("T");
+        current += at(current, "DT", "DD") ? 2 : 1;
+        break;
+
+      case "F":
+        add("F");
+        current += next === "F" ? 2 : 1;
+        break;
+
+      case "G":
+        current += encodeG();
+        break;
+
+      case "H":
+        // Only kept when first or between vowels, and before a vowel
+        if ((current === 0 || isVowel(current - 1)) && isVowel(current + 1)) {
+          add("H");
+          current += 2;
+        } else {
+          current++;
+        }
+        break;
+
+      case "J":
+        // Spanish "Jose", "San Jacinto"
+        if (at(current, "JOSE") || at(0, "SAN ")) {
+          if ((current === 0 && charAt(current + 4) === " ") || at(0, "SAN ")) {
+            add("H");
+          } else {
+            add("J", "H");
+          }
+          current++;
+          break;
+        }
+        if (current === 0) {
+          // "Yankelovich" and "Jankelowicz"
+          add("J", "A");
+        } else if (isVowel(current - 1) && !slavoGermanic && (next === "A" || next === "O")) {
+          // Spanish "bajador"
+          add("J", "H");
+        } else if (current === last) {
+          add("J", "");
+        } else if (
+          !at(current + 1, "L", "T", "K", "S", "N", "M", "B", "Z") &&
+          !at(current - 1, "S", "K", "L")
+        ) {
+          add("J");
+        }
+        current += next === "J" ? 2 : 1;
+        break;
+
+      case "K":
+        add("K");
+        current += next === "K" ? 2 : 1;
+        break;
+
+      case "L":
+        if (next === "L") {
+          // Spanish "cabrillo", "gallegos"
+          if (
+            (current === length - 3 && at(current - 1, "ILLO", "ILLA", "ALLE")) ||
+            ((at(last - 1, "AS", "OS") || at(last, "A", "O")) && at(current - 1, "ALLE"))
+          ) {
+            add("L", "");
+            current += 2;
+            break;
+          }
+          current += 2;
+        } else {
+          current++;
+        }
+        add("L");
+        break;
+
+      case "M":
+        // "dumb", "thumb"
+        if (
+          (at(current - 1, "UMB") && (current + 1 === last || at(current + 2, "ER"))) ||
+          next === "M"
+        ) {
+          current += 2;
+        } else {
+          current++;
+        }
+        add("M");
+        break;
+
+      case "N":
+        add("N");
+        current += next === "N" ? 2 : 1;
+        break;
+
+      case "Ñ":
+        add("N");
+        current++;
+        break;
+
+      case "P":
+        if (next === "H") {
+          add("F");
+          current += 2;
+          break;
+        }
+        // "campbell", "raspberry"
+        add("P");
+        current += at(current + 1, "P", "B") ? 2 : 1;
+        break;
+
+      case "Q":
+        add("K");
+        current += next === "Q" ? 2 : 1;
+        break;
+
+      case "R":
+        // French "rogier", but not "hochmeier"
+        if (
+          current === last &&
+          !slavoGermanic &&
+          at(current - 2, "IE") &&
+          !at(current - 4, "ME", "MA")
+        ) {
+          add("", "R");
+        } else {
+          add("R");
+        }
+        current += next === "R" ? 2 : 1;
+        break;
+
+      case "S":
+        current += encodeS();
+        break;
+
+      case "T":
+        if (at(current, "TION", "TIA", "TCH")) {
+          add("X");
+          current += 3;
+          break;
+        }
+        if (at(current, "TH", "TTH")) {
+          // "Thomas", "Thames" or Germanic
+          if (at(current + 2, "OM", "AM") || germanic) {
+            add("T");
+          } else {
+            add("0", "T");
+          }
+          current += 2;
+          break;
+        }
+        add("T");
+        current += at(current + 1, "T", "D") ? 2 : 1;
+        break;
+
+      case "V":
+        add("F");
+        current += next === "V" ? 2 : 1;
+        break;
+
+      case "W":
+        if (at(current, "WR")) {
+          add("R");
+          current += 2;
+          break;
+        }
+        if (current === 0 && (isVowel(current + 1) || at(current, "WH"))) {
+          // "Wasserman" matches "Vasserman"
+          if (isVowel(current + 1)) {
+            add("A", "F");
+          } else {
+            add("A");
+          }
+        }
+        // "Arnow" matches "Arnoff"
+        if (
+          (current === last && isVowel(current - 1)) ||
+          at(current - 1, "EWSKI", "EWSKY", "OWSKI", "OWSKY") ||
+          at(0, "SCH")
+        ) {
+          add("", "F");
+          current++;
+          break;
+        }
+        // Polish "filipowicz"
+        if (at(current, "WICZ", "WITZ")) {
+          add("TS", "FX");
+          current += 4;
+          break;
+        }
+        current++;
+        break;
+
+      case "X":
+        // French "breaux"
+        if (!(current === last && (at(current - 3, "IAU", "EAU") || at(current - 2, "AU", "OU")))) {
+          add("KS");
+        }
+        current += at(current + 1, "C", "X") ? 2 : 1;
+        break;
+
+      case "Z":
+        // Chinese pinyin "zhao"
+        if (next === "H") {
+          add("J");
+          current += 2;
+          break;
+        }
+        if (
+          at(current + 1, "ZO", "ZI", "ZA") ||
+          (slavoGermanic && current > 0 && charAt(current - 1) !== "T")
+        ) {
+          add("S", "TS");
+        } else {
+          add("S");
+        }
+        current += next === "Z" ? 2 : 1;
+        break;
+
+      default:
+        current++;
+    }
+  }
+
+  return [primary.slice(0, MAX_LENGTH), secondary.slice(0, MAX_LENGTH)];
+
+  // Encode a C; returns the number of letters consumed
+  function encodeC(): number {
+    // Germanic "bacher", "macher"
+    if (
+      current > 1 &&
+      !isVowel(current - 2) &&
+      at(current - 1, "ACH") &&
+      charAt(current + 2) !== "I" &&
+      (charAt(current + 2) !== "E" || at(current - 2, "BACHER", "MACHER"))
+    ) {
+      add("K");
+      return 2;
+    }
+
+    // "Caesar"
+    if (current === 0 && at(current, "CAESAR")) {
+      add("S");
+      return 2;
+    }
+
+    // Italian "chianti"
+    if (at(current, "CHIA")) {
+      add("K");
+      return 2;
+    }
+
+    if (at(current, "CH")) {
+      // "Michael"
+      if (current > 0 && at(current, "CHAE")) {
+        add("K", "X");
+        return 2;
+      }
+
+      // Greek roots: "chemistry", "chorus"
+      if (
+        current === 0 &&
+        (at(current + 1, "HARAC", "HARIS") || at(current + 1, "HOR", "HYM", "HIA", "HEM")) &&
+        !at(0, "CHORE")
+      ) {
+        add("K");
+        return 2;
+      }
+
+      // Germanic, Greek or otherwise a "kh" sound: "architect", but not "arch", "orchid"
+      if (
+        germanic ||
+        at(current - 2, "ORCHES", "ARCHIT", "ORCHID") ||
+        at(current + 2, "T", "S") ||
+        ((at(current - 1, "A", "O", "U", "E") || current === 0) &&
+          // "wachtler", "wechsler", but not "tichner"
+          at(current + 2, "L", "R", "N", "M", "B", "H", "F", "V", "W", " "))
+      ) {
+        add("K");
+      } else if (current > 0) {
+        // "McHugh"
+        if (at(0, "MC")) {
+          add("K");
+        } else {
+          add("X", "K");
+        }
+      } else {
+        add("X");
+      }
+      return 2;
+    }
+
+    // "Czerny"
+    if (at(current, "CZ") && !at(current - 2, "WICZ")) {
+      add("S", "X");
+      return 2;
+    }
+
+    // "focaccia"
+    if (at(current + 1, "CIA")) {
+      add("X");
+      return 3;
+    }
+
+    // Double C, but not "McClellan"
+    if (at(current, "CC") && !(current === 1 && charAt(0) === "M")) {
+      // "bellocchio", but not "bacchus"
+      if (at(current + 2, "I", "E", "H") && !at(current + 2, "HU")) {
+        // "accident", "accede", "succeed"
+        if ((current === 1 && charAt(0) === "A") || at(current - 1, "UCCEE", "UCCES")) {
+          add("KS");
+        } else {
+          // "bacci", "bertucci"
+          add("X");
+        }
+        return 3;
+      }
+      // Pierce's rule
+      add("K");
+      return 2;
+    }
+
+    if (at(current, "CK", "CG", "CQ")) {
+      add("K");
+      return 2;
+    }
+
+    if (at(current, "CI", "CE", "CY")) {
+      // Italian vs. English
+      if (at(current, "CIO", "CIE", "CIA")) {
+        add("S", "X");
+      } else {
+        add("S");
+      }
+      return 2;
+    }
+
+    add("K");
+    // "Mac Caffrey", "Mac Gregor"
+    if (at(current + 1, " C", " Q", " G")) {
+      return 3;
+    }
+    if (at(current + 1, "C", "K", "Q") && !at(current + 1, "CE", "CI")) {
+      return 2;
+    }
+    return 1;
+  }
+
+  // Encode a G; returns the number of letters consumed
+  function encodeG(): number {
+    const next = charAt(current + 1);
+
+    if (next === "H") {
+      if (current > 0 && !isVowel(current - 1)) {
+        add("K");
+        return 2;
+      }
+
+      // "Ghislane", "Ghiradelli"
+      if (current === 0) {
+        add(charAt(current + 2) === "I" ? "J" : "K");
+        return 2;
+      }
+
+      // Parker's rule: "Hugh", "bough", "Broughton"
+      if (
+        (current > 1 && at(current - 2, "B", "H", "D")) ||
+        (current > 2 && at(current - 3, "B", "H", "D")) ||
+        (current > 3 && at(current - 4, "B", "H"))
+      ) {
+        return 2;
+      }
+
+      // "laugh", "McLaughlin", "cough", "rough", "tough"
+      if (current > 2 && charAt(current - 1) === "U" && at(current - 3, "C", "G", "L", "R", "T")) {
+        add("F");
+      } else if (current > 0 && charAt(current - 1) !== "I") {
+        add("K");
+      }
+      return 2;
+    }
+
+    if (next === "N") {
+      if (current === 1 && isVowel(0) && !slavoGermanic) {
+        add("KN", "N");
+      } else if (!at(current + 2, "EY") && !slavoGermanic) {
+        // Not "Cagney"
+        add("N", "KN");
+      } else {
+        add("KN");
+      }
+      return 2;
+    }
+
+    // "Tagliaro"
+    if (at(current + 1, "LI") && !slavoGermanic) {
+      add("KL", "L");
+      return 2;
+    }
+
+    // -ges-, -gep-, -gel-, -gie- at the start
+    if (
+      current === 0 &&
+      (next === "Y" ||
+        at(current + 1, "ES", "EP", "EB", "EL", "EY", "IB", "IL", "IN", "IE", "EI", "ER"))
+    ) {
+      add("K", "J");
+      return 2;
+    }
+
+    // -ger-, -gy-
+    if (
+      (at(current + 1, "ER") || next === "Y") &&
+      !at(0, "DANGER", "RANGER", "MANGER") &&
+      !at(current - 1, "E", "I") &&
+      !at(current - 1, "RGY", "OGY")
+    ) {
+      add("K", "J");
+      return 2;
+    }
+
+    // Italian "biaggi"
+    if (at(current + 1, "E", "I", "Y") || at(current - 1, "AGGI", "OGGI")) {
+      if (germanic || at(current + 1, "ET")) {
+        add("K");
+      } else if (at(current + 1, "IER ")) {
+        // Always soft with a French ending
+        add("J");
+      } else {
+        add("J", "K");
+      }
+      return 2;
+    }
+
+    add("K");
+    return next === "G" ? 2 : 1;
+  }
+
+  // Encode an S; returns the number of letters consumed
+  function encodeS(): number {
+    const next = charAt(current + 1);
+
+    // "island", "isle", "carlisle", "carlysle"
+    if (at(current - 1, "ISL", "YSL")) {
+      return 1;
+    }
+
+    // "sugar"
+    if (current === 0 && at(current, "SUGAR")) {
+      add("X", "S");
+      return 1;
+    }
+
+    if (at(current, "SH")) {
+      // Germanic
+      add(at(current + 1, "HEIM", "HOEK", "HOLM", "HOLZ") ? "S" : "X");
+      return 2;
+    }
+
+    // Italian and Armenian
+    if (at(current, "SIO", "SIA", "SIAN")) {
+      if (slavoGermanic) {
+        add("S");
+      } else {
+        add("S", "X");
+      }
+      return 3;
+    }
+
+    // German and anglicisations: "Smith" matches "Schmidt", "Snider" matches "Schneider";
+    // also -sz- in Slavic languages
+    if ((current === 0 && at(current + 1, "M", "N", "L", "W")) || next === "Z") {
+      add("S", "X");
+      return next === "Z" ? 2 : 1;
+    }
+
+    if (at(current, "SC")) {
+      // Schlesinger's rule
+      if (charAt(current + 2) === "H") {
+        // Dutch "school", "schooner"
+        if (at(current + 3, "OO", "ER", "EN", "UY", "ED", "EM")) {
+          // "Schermerhorn", "Schenker"
+          if (at(current + 3, "ER", "EN")) {
+            add("X", "SK");
+          } else {
+            add("SK");
+          }
+          return 3;
+        }
+        if (current === 0 && !isVowel(3) && charAt(3) !== "W") {
+          add("X", "S");
+        } else {
+          add("X");
+        }
+        return 3;
+      }
+      if (at(current + 2, "I", "E", "Y")) {
+        add("S");
+        return 3;
+      }
+      add("SK");
+      return 3;
+    }
+
+    // French "resnais", "artois"
+    if (current === last && at(current - 2, "AI", "OI")) {
+      add("", "S");
+    } else {
+      add("S");
+    }
+    return at(current + 1, "S", "Z") ? 2 : 1;
+  }
+}
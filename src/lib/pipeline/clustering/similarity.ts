@@ -0,0 +1,106 @@
+/**
+ * String similarity measures for nearest-neighbour clustering
+ *
+ * Every measure returns a score from 0 (nothing in common) to 1 (identical):
+ *
+ *   levenshteinSimilarity("acme inc", "acme incorporated") → 0.47
+ *   jaroWinkler("martha", "marhta")                        → 0.961
+ *   tokenSetSimilarity("acme inc", "inc acme ltd")         → 0.667
+ */
+
+/**
+ * Number of single-character insertions, deletions and substitutions turning a into b
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  // Two rows of the edit distance matrix
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let current = new Array<number>(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Levenshtein distance relative to the longer string, as a similarity
+ */
+export function levenshteinSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshteinDistance(a, b) / length;
+}
+
+/**
+ * Jaro-Winkler similarity: matching characters and transpositions, with a
+ * bonus for a common prefix of up to 4 characters
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  // Characters match when equal and no further apart than this
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  // Matched characters out of order, counted in pairs
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro =
+    (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Share of distinct words the strings have in common (Jaccard index of their words)
+ * Ignores word order and repeated words.
+ */
+export function tokenSetSimilarity(a: string, b: string): number {
+  const aWords = new Set(a.split(/\s+/).filter(Boolean));
+  const bWords = new Set(b.split(/\s+/).filter(Boolean));
+  if (aWords.size === 0 && bWords.size === 0) return 1;
+
+  let shared = 0;
+  for (const word of aWords) {
+    if (bWords.has(word)) shared++;
+  }
+  return shared / (aWords.size + bWords.size - shared);
+}
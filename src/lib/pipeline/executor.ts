@@ -4,23 +4,50 @@
 
 import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
 import { getOperation } from "./operations";
-import type { ExecutionResult, StepResult, TransformationStep } from "./types";
+import type {
+  ExecutionContext,
+  ExecutionResult,
+  RejectedRow,
+  StepResult,
+  TransformationStep,
+} from "./types";
+import { AssertionFailedError, isStepEnabled } from "./types";
 
 /**
  * Execute a complete pipeline
+ * The context carries secondary tables for steps such as join. Disabled steps
+ * are skipped.
  */
-export function executePipeline(table: ParseResult, steps: TransformationStep[]): ExecutionResult {
+export function executePipeline(
+  table: ParseResult,
+  steps: TransformationStep[],
+  context?: ExecutionContext,
+): ExecutionResult {
   let currentTable = table;
   const stepResults: StepResult[] = [];
   const typeEvolution: ColumnMetadata[][] = [table.columns]; // Start with original columns
+  const rejectedRows: RejectedRow[] = [];
 
   for (const step of steps) {
+    // Disabled steps keep their place in the results so indexes still match the steps
+    if (!isStepEnabled(step)) {
+      typeEvolution.push(currentTable.columns);
+      stepResults.push({
+        stepId: step.id,
+        success: true,
+        rowsAffected: 0,
+        columnsAfter: currentTable.columns,
+        skipped: true,
+      });
+      continue;
+    }
+
     try {
       const operation = getOperation(step.type);
       const previousRowCount = currentTable.rowCount;
 
       // Operations now return { table, columns }
-      const result = operation(currentTable, step.config);
+      const result = operation(currentTable, step.config, context);
       currentTable = result.table;
       const columnsAfter = result.columns;
 
@@ -29,11 +56,22 @@ export function executePipeline(table: ParseResult, steps: TransformationStep[])
       // Track column metadata after this step
       typeEvolution.push(columnsAfter);
 
+      // Rows diverted in quarantine mode
+      const rejected = result.rejected ?? [];
+      for (const rejection of rejected) {
+        rejectedRows.push({ stepId: step.id, ...rejection });
+      }
+
       stepResults.push({
         stepId: step.id,
         success: true,
         rowsAffected,
         columnsAfter,
+        ...(rejected.length > 0 ? { rejectedRows: rejected.length } : {}),
+        ...(result.assertions ? { assertions: result.assertions } : {}),
+        ...(result.duplicateGroups !== undefined
+          ? { duplicateGroups: result.duplicateGroups }
+          : {}),
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -43,6 +81,8 @@ export function executePipeline(table: ParseResult, steps: TransformationStep[])
         success: false,
         columnsAfter: currentTable.columns, // Use current columns on error
         error: errorMessage,
+        // Rule outcomes of a failed assert step
+        ...(error instanceof AssertionFailedError ? { assertions: error.assertions } : {}),
       });
 
       // Stop execution on error
@@ -54,6 +94,7 @@ export function executePipeline(table: ParseResult, steps: TransformationStep[])
     table: currentTable,
     stepResults,
     typeEvolution,
+    rejectedRows,
   };
 }
 
@@ -64,6 +105,7 @@ export function executeUntilStep(
   table: ParseResult,
   steps: TransformationStep[],
   stopAtIndex: number,
+  context?: ExecutionContext,
 ): ExecutionResult {
   // If stopAtIndex is -1, return original table
   if (stopAtIndex < 0) {
@@ -71,10 +113,11 @@ export function executeUntilStep(
       table,
       stepResults: [],
       typeEvolution: [table.columns],
+      rejectedRows: [],
     };
   }
 
   // Execute only steps up to stopAtIndex (inclusive)
   const stepsToExecute = steps.slice(0, stopAtIndex + 1);
-  return executePipeline(table, stepsToExecute);
+  return executePipeline(table, stepsToExecute, context);
 }
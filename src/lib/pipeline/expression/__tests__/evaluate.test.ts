@@ -0,0 +1,205 @@
+/**
+ * Unit tests for expression evaluation and type inference
+ */
+
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+import type { ColumnMetadata } from "@/lib/parsers/types";
+import { evaluateExpression, inferExpressionType } from "../evaluate";
+import { parseExpression } from "../parser";
+import { ExpressionError } from "../types";
+
+function evaluate(expression: string, row: Record<string, unknown> = {}): unknown {
+  return evaluateExpression(parseExpression(expression), row);
+}
+
+describe("evaluateExpression", () => {
+  describe("arithmetic", () => {
+    it("should evaluate arithmetic with precedence", () => {
+      assert.strictEqual(evaluate("2 + 3 * 4"), 14);
+      assert.strictEqual(evaluate("(2 + 3) * 4"), 20);
+      assert.strictEqual(evaluate("-a + 10 % 3", { a: 5 }), -4);
+    });
+
+    it("should coerce numeric strings", () => {
+      assert.strictEqual(evaluate("qty * price", { qty: "3", price: "2.5" }), 7.5);
+    });
+
+    it("should return null when an operand is null", () => {
+      assert.strictEqual(evaluate("a + 1", { a: null }), null);
+      assert.strictEqual(evaluate("a + 1", {}), null);
+      assert.strictEqual(evaluate("a * 2", { a: "" }), null);
+    });
+
+    it("should return null on division by zero", () => {
+      assert.strictEqual(evaluate("10 / 0"), null);
+      assert.strictEqual(evaluate("10 % 0"), null);
+    });
+
+    it("should throw ExpressionError for non-numeric text", () => {
+      assert.throws(() => evaluate("a * 2", { a: "abc" }), ExpressionError);
+    });
+  });
+
+  describe("text", () => {
+    it("should concatenate with || treating null as empty", () => {
+      assert.strictEqual(
+        evaluate("first || ' ' || last", { first: "Ada", last: "Lovelace" }),
+        "Ada Lovelace",
+      );
+      assert.strictEqual(evaluate("first || '-' || last", { first: "Ada", last: null }), "Ada-");
+    });
+
+    it("should apply text functions", () => {
+      assert.strictEqual(evaluate("UPPER(name)", { name: "ada" }), "ADA");
+      assert.strictEqual(evaluate("LOWER('ABC')"), "abc");
+      assert.strictEqual(evaluate("TRIM('  x  ')"), "x");
+      assert.strictEqual(evaluate("LEN(name)", { name: "hello" }), 5);
+      assert.strictEqual(evaluate("LEFT('abcdef', 2)"), "ab");
+      assert.strictEqual(evaluate("RIGHT('abcdef', 2)"), "ef");
+      assert.strictEqual(evaluate("SUBSTR('abcdef', 2, 3)"), "bcd");
+      assert.strictEqual(evaluate("SUBSTR('abcdef', 4)"), "def");
+      assert.strictEqual(evaluate("REPLACE('a-b-c', '-', '/')"), "a/b/c");
+      assert.strictEqual(evaluate("CONCAT('a', NULL, 1)"), "a1");
+    });
+
+    it("should propagate null through text functions", () => {
+      assert.strictEqual(evaluate("UPPER(name)", { name: null }), null);
+      assert.strictEqual(evaluate("LEN(name)", {}), null);
+    });
+  });
+
+  describe("numeric functions", () => {
+    it("should round to the given number of digits", () => {
+      assert.strictEqual(evaluate("ROUND(2.5)"), 3);
+      assert.strictEqual(evaluate("ROUND(1.005, 2)"), 1.01);
+      assert.strictEqual(evaluate("ROUND(1234.5, -2)"), 1200);
+    });
+
+    it("should evaluate ABS, FLOOR, CEIL, MIN and MAX", () => {
+      assert.strictEqual(evaluate("ABS(-4)"), 4);
+      assert.strictEqual(evaluate("FLOOR(2.7)"), 2);
+      assert.strictEqual(evaluate("CEILING(2.1)"), 3);
+      assert.strictEqual(evaluate("MIN(3, a, 1)", { a: null }), 1);
+      assert.strictEqual(evaluate("MAX(3, a, 1)", { a: 7 }), 7);
+    });
+  });
+
+  describe("conditionals", () => {
+    it("should evaluate IF lazily", () => {
+      assert.strictEqual(evaluate("IF(a > 0, 'pos', 'neg')", { a: 5 }), "pos");
+      assert.strictEqual(evaluate("IF(a > 0, 'pos', 'neg')", { a: -5 }), "neg");
+      assert.strictEqual(evaluate("IF(a > 0, 'pos')", { a: -5 }), null);
+      // The unused branch would throw if evaluated
+      assert.strictEqual(evaluate("IF(TRUE, 1, b * 2)", { b: "abc" }), 1);
+    });
+
+    it("should evaluate CASE branches in order", () => {
+      const expression = "CASE WHEN x > 10 THEN 'high' WHEN x > 5 THEN 'mid' ELSE 'low' END";
+      assert.strictEqual(evaluate(expression, { x: 20 }), "high");
+      assert.strictEqual(evaluate(expression, { x: 7 }), "mid");
+      assert.strictEqual(evaluate(expression, { x: 1 }), "low");
+      assert.strictEqual(evaluate("CASE WHEN x > 10 THEN 'high' END", { x: 1 }), null);
+    });
+
+    it("should return the first non-null value from COALESCE", () => {
+      assert.strictEqual(evaluate("COALESCE(a, b, 'none')", { a: null, b: "x" }), "x");
+      assert.strictEqual(evaluate("COALESCE(a, b, 'none')", { a: "", b: null }), "none");
+    });
+
+    it("should evaluate logical operators", () => {
+      assert.strictEqual(evaluate("a > 1 AND b = 'x'", { a: 2, b: "x" }), true);
+      assert.strictEqual(evaluate("a > 1 AND b = 'x'", { a: 0, b: "x" }), false);
+      assert.strictEqual(evaluate("a > 1 OR b = 'x'", { a: 0, b: "x" }), true);
+      assert.strictEqual(evaluate("NOT a", { a: false }), true);
+      assert.strictEqual(evaluate("NOT a", { a: null }), null);
+    });
+  });
+
+  describe("comparisons", () => {
+    it("should compare numerically when either side is a number", () => {
+      assert.strictEqual(evaluate("a > 9", { a: "10" }), true);
+      assert.strictEqual(evaluate("a = 1", { a: 1 }), true);
+    });
+
+    it("should compare text otherwise", () => {
+      assert.strictEqual(evaluate("a < b", { a: "apple", b: "banana" }), true);
+      assert.strictEqual(evaluate("a != 'x'", { a: "x" }), false);
+    });
+
+    it("should return null when comparing with null", () => {
+      assert.strictEqual(evaluate("a = 1", { a: null }), null);
+    });
+  });
+
+  describe("dates", () => {
+    it("should compute DATE_DIFF in days", () => {
+      assert.strictEqual(
+        evaluate("DATE_DIFF('day', a, b)", { a: "2024-01-01", b: "2024-01-31" }),
+        30,
+      );
+      assert.strictEqual(
+        evaluate("DATE_DIFF('days', a, b)", { a: "2024-01-31", b: "2024-01-01" }),
+        -30,
+      );
+    });
+
+    it("should compute DATE_DIFF in whole months and years", () => {
+      assert.strictEqual(evaluate("DATE_DIFF('month', '2024-01-31', '2024-02-01')"), 0);
+      assert.strictEqual(evaluate("DATE_DIFF('month', '2024-01-15', '2024-03-15')"), 2);
+      assert.strictEqual(evaluate("DATE_DIFF('year', '2020-06-01', '2024-05-31')"), 3);
+    });
+
+    it("should reject unknown units", () => {
+      assert.throws(
+        () => evaluate("DATE_DIFF('fortnight', '2024-01-01', '2024-02-01')"),
+        /Unknown DATE_DIFF unit/,
+      );
+    });
+
+    it("should extract date parts", () => {
+      const row = { d: "2024-03-15" };
+      assert.strictEqual(evaluate("YEAR(d)", row), 2024);
+      assert.strictEqual(evaluate("MONTH(d)", row), 3);
+      assert.strictEqual(evaluate("DAY(d)", row), 15);
+    });
+  });
+});
+
+describe("inferExpressionType", () => {
+  const columns: ColumnMetadata[] = [
+    { name: "qty", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [1] },
+    { name: "name", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["a"] },
+    { name: "when", type: "date", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+  ];
+
+  function infer(expression: string) {
+    return inferExpressionType(parseExpression(expression), columns);
+  }
+
+  it("should infer operator result types", () => {
+    assert.strictEqual(infer("qty * 2"), "number");
+    assert.strictEqual(infer("name || 'x'"), "string");
+    assert.strictEqual(infer("qty > 2"), "boolean");
+    assert.strictEqual(infer("NOT qty"), "boolean");
+  });
+
+  it("should use column metadata for references", () => {
+    assert.strictEqual(infer("[when]"), "date");
+    assert.strictEqual(infer("name"), "string");
+  });
+
+  it("should use function return types", () => {
+    assert.strictEqual(infer("LEN(name)"), "number");
+    assert.strictEqual(infer("TO_DATE(name)"), "date");
+  });
+
+  it("should unify IF, COALESCE and CASE branches", () => {
+    assert.strictEqual(infer("IF(qty > 1, qty, 0)"), "number");
+    assert.strictEqual(infer("IF(qty > 1, qty, NULL)"), "number");
+    assert.strictEqual(infer("IF(qty > 1, qty, 'none')"), "string");
+    assert.strictEqual(infer("COALESCE(NULL, [when])"), "date");
+    assert.strictEqual(infer("CASE WHEN qty > 1 THEN TRUE ELSE FALSE END"), "boolean");
+    assert.strictEqual(infer("NULL"), "null");
+  });
+});
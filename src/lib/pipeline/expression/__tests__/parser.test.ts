@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the expression parser
+ */
+
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+import { collectColumnReferences, parseExpression } from "../parser";
+import { ExpressionError } from "../types";
+
+describe("parseExpression", () => {
+  it("should parse literals", () => {
+    assert.deepStrictEqual(parseExpression("42"), { kind: "literal", value: 42 });
+    assert.deepStrictEqual(parseExpression("'it''s'"), { kind: "literal", value: "it's" });
+    assert.deepStrictEqual(parseExpression("TRUE"), { kind: "literal", value: true });
+    assert.deepStrictEqual(parseExpression("null"), { kind: "literal", value: null });
+  });
+
+  it("should parse bare, bracketed and double-quoted column references", () => {
+    assert.deepStrictEqual(parseExpression("price"), { kind: "column", name: "price" });
+    assert.deepStrictEqual(parseExpression("[Unit Price]"), {
+      kind: "column",
+      name: "Unit Price",
+    });
+    assert.deepStrictEqual(parseExpression('"Unit Price"'), {
+      kind: "column",
+      name: "Unit Price",
+    });
+  });
+
+  it("should respect operator precedence", () => {
+    const node = parseExpression("a + b * c");
+    assert.strictEqual(node.kind, "binary");
+    if (node.kind !== "binary") return;
+    assert.strictEqual(node.operator, "+");
+    assert.deepStrictEqual(node.right, {
+      kind: "binary",
+      operator: "*",
+      left: { kind: "column", name: "b" },
+      right: { kind: "column", name: "c" },
+    });
+  });
+
+  it("should bind AND tighter than OR", () => {
+    const node = parseExpression("a = 1 OR b = 2 AND c = 3");
+    assert.strictEqual(node.kind, "binary");
+    if (node.kind !== "binary") return;
+    assert.strictEqual(node.operator, "OR");
+    assert.strictEqual(node.right.kind === "binary" && node.right.operator, "AND");
+  });
+
+  it("should normalize <> and == operators", () => {
+    const notEqual = parseExpression("a <> 1");
+    const equal = parseExpression("a == 1");
+    assert.strictEqual(notEqual.kind === "binary" && notEqual.operator, "!=");
+    assert.strictEqual(equal.kind === "binary" && equal.operator, "=");
+  });
+
+  it("should parse function calls case-insensitively and resolve aliases", () => {
+    const node = parseExpression("length(upper(name))");
+    assert.strictEqual(node.kind, "call");
+    if (node.kind !== "call") return;
+    assert.strictEqual(node.name, "LEN");
+    assert.strictEqual(node.args[0].kind === "call" && node.args[0].name, "UPPER");
+  });
+
+  it("should parse CASE expressions", () => {
+    const node = parseExpression(
+      "CASE WHEN x > 10 THEN 'high' WHEN x > 5 THEN 'mid' ELSE 'low' END",
+    );
+    assert.strictEqual(node.kind, "case");
+    if (node.kind !== "case") return;
+    assert.strictEqual(node.branches.length, 2);
+    assert.deepStrictEqual(node.otherwise, { kind: "literal", value: "low" });
+  });
+
+  it("should throw on empty expressions", () => {
+    assert.throws(() => parseExpression("   "), /cannot be empty/);
+  });
+
+  it("should throw on unknown functions", () => {
+    assert.throws(() => parseExpression("EVAL('1')"), /Unknown function "EVAL"/);
+  });
+
+  it("should throw on wrong argument counts", () => {
+    assert.throws(() => parseExpression("ROUND()"), /ROUND expects 1-2 argument\(s\) but got 0/);
+    assert.throws(() => parseExpression("UPPER(a, b)"), /UPPER expects 1 argument/);
+  });
+
+  it("should throw ExpressionError with a position on syntax errors", () => {
+    assert.throws(
+      () => parseExpression("a + * b"),
+      (error: unknown) => error instanceof ExpressionError && error.position === 4,
+    );
+    assert.throws(() => parseExpression("'open"), /Unterminated string/);
+    assert.throws(() => parseExpression("[open"), /Unterminated column reference/);
+    assert.throws(() => parseExpression("(a + b"), /Expected "\)"/);
+    assert.throws(() => parseExpression("a b"), /Unexpected "b"/);
+    assert.throws(() => parseExpression("a ; b"), /Unexpected character ";"/);
+    assert.throws(() => parseExpression("CASE ELSE 1 END"), /CASE requires at least one WHEN/);
+  });
+});
+
+describe("collectColumnReferences", () => {
+  it("should collect unique column names from the whole tree", () => {
+    const node = parseExpression(
+      "IF([Qty] > 0, price * [Qty], CASE WHEN discount THEN 0 ELSE fallback END)",
+    );
+    assert.deepStrictEqual(collectColumnReferences(node), ["Qty", "price", "discount", "fallback"]);
+  });
+
+  it("should return an empty list for constant expressions", () => {
+    assert.deepStrictEqual(collectColumnReferences(parseExpression("1 + 2")), []);
+  });
+});
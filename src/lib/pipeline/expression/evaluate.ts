@@ -0,0 +1,210 @@
+/**
+ * Row-level evaluation and static type inference for expressions
+ *
+ * Null handling follows SQL: arithmetic and comparisons with null yield null,
+ * and division by zero yields null. The one exception is || which treats null
+ * as an empty string so "first || ' ' || last" still works with missing parts.
+ */
+
+import type { ColumnMetadata, InferredType } from "@/lib/parsers/types";
+import { EXPRESSION_FUNCTIONS, isNullish, isTruthy, toNumber, toText } from "./functions";
+import type { BinaryOperator, ExpressionNode } from "./types";
+import { ExpressionError } from "./types";
+
+/**
+ * Evaluate an expression against a single row
+ * Throws ExpressionError when a value cannot be coerced (e.g. "abc" * 2)
+ */
+export function evaluateExpression(node: ExpressionNode, row: Record<string, unknown>): unknown {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+
+    case "column": {
+      const value = row[node.name];
+      return value === undefined ? null : value;
+    }
+
+    case "unary": {
+      const operand = evaluateExpression(node.operand, row);
+      if (node.operator === "NOT") {
+        return isNullish(operand) ? null : !isTruthy(operand);
+      }
+      const value = toNumber(operand);
+      return value === null ? null : -value;
+    }
+
+    case "binary":
+      return evaluateBinary(node.operator, node.left, node.right, row);
+
+    case "call": {
+      // IF is lazy so the unused branch can't raise errors
+      if (node.name === "IF") {
+        const condition = evaluateExpression(node.args[0], row);
+        if (isTruthy(condition)) {
+          return evaluateExpression(node.args[1], row);
+        }
+        return node.args[2] ? evaluateExpression(node.args[2], row) : null;
+      }
+      const definition = EXPRESSION_FUNCTIONS[node.name];
+      if (!definition) {
+        throw new ExpressionError(`Unknown function "${node.name}"`);
+      }
+      return definition.fn(node.args.map((arg) => evaluateExpression(arg, row)));
+    }
+
+    case "case": {
+      for (const branch of node.branches) {
+        if (isTruthy(evaluateExpression(branch.condition, row))) {
+          return evaluateExpression(branch.result, row);
+        }
+      }
+      return node.otherwise ? evaluateExpression(node.otherwise, row) : null;
+    }
+  }
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  leftNode: ExpressionNode,
+  rightNode: ExpressionNode,
+  row: Record<string, unknown>,
+): unknown {
+  // Logical operators short-circuit
+  if (operator === "AND") {
+    return isTruthy(evaluateExpression(leftNode, row))
+      ? isTruthy(evaluateExpression(rightNode, row))
+      : false;
+  }
+  if (operator === "OR") {
+    return isTruthy(evaluateExpression(leftNode, row))
+      ? true
+      : isTruthy(evaluateExpression(rightNode, row));
+  }
+
+  const left = evaluateExpression(leftNode, row);
+  const right = evaluateExpression(rightNode, row);
+
+  switch (operator) {
+    case "||":
+      return (toText(left) ?? "") + (toText(right) ?? "");
+
+    case "+":
+    case "-":
+    case "*":
+    case "/":
+    case "%": {
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === null || b === null) return null;
+      if (operator === "+") return a + b;
+      if (operator === "-") return a - b;
+      if (operator === "*") return a * b;
+      if (b === 0) return null;
+      return operator === "/" ? a / b : a % b;
+    }
+
+    default: {
+      const comparison = compareValues(left, right);
+      if (comparison === null) return null;
+      switch (operator) {
+        case "=":
+          return comparison === 0;
+        case "!=":
+          return comparison !== 0;
+        case "<":
+          return comparison < 0;
+        case "<=":
+          return comparison <= 0;
+        case ">":
+          return comparison > 0;
+        case ">=":
+          return comparison >= 0;
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Compare two values for comparison operators
+ * Numbers compare numerically when the other side is numeric (so "10" > 9),
+ * dates compare by time, everything else compares as text.
+ * Returns null when either side is null.
+ */
+function compareValues(a: unknown, b: unknown): number | null {
+  if (isNullish(a) || isNullish(b)) {
+    return null;
+  }
+
+  if (typeof a === "number" || typeof b === "number") {
+    const numA = typeof a === "number" ? a : Number(a);
+    const numB = typeof b === "number" ? b : Number(b);
+    if (!Number.isNaN(numA) && !Number.isNaN(numB)) {
+      return numA - numB;
+    }
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return a === b ? 0 : a ? 1 : -1;
+  }
+
+  const textA = toText(a) ?? "";
+  const textB = toText(b) ?? "";
+  return textA < textB ? -1 : textA > textB ? 1 : 0;
+}
+
+/**
+ * Combine branch types: identical types are kept, nulls are ignored,
+ * anything else widens to string
+ */
+function unifyTypes(types: InferredType[]): InferredType {
+  const nonNull = types.filter((type) => type !== "null");
+  if (nonNull.length === 0) {
+    return "null";
+  }
+  return nonNull.every((type) => type === nonNull[0]) ? nonNull[0] : "string";
+}
+
+/**
+ * Infer the result type of an expression from the input column metadata (no rows needed)
+ */
+export function inferExpressionType(node: ExpressionNode, columns: ColumnMetadata[]): InferredType {
+  switch (node.kind) {
+    case "literal":
+      if (node.value === null) return "null";
+      if (typeof node.value === "number") return "number";
+      if (typeof node.value === "boolean") return "boolean";
+      return "string";
+
+    case "column":
+      return columns.find((col) => col.name === node.name)?.type ?? "null";
+
+    case "unary":
+      return node.operator === "NOT" ? "boolean" : "number";
+
+    case "binary":
+      if (node.operator === "||") return "string";
+      if (["+", "-", "*", "/", "%"].includes(node.operator)) return "number";
+      return "boolean";
+
+    case "call": {
+      const definition = EXPRESSION_FUNCTIONS[node.name];
+      if (!definition) return "string";
+      if (definition.returnType !== "any") return definition.returnType;
+      // IF(cond, a, b) unifies its branches; COALESCE unifies all arguments
+      const candidates = node.name === "IF" ? node.args.slice(1) : node.args;
+      return unifyTypes(candidates.map((arg) => inferExpressionType(arg, columns)));
+    }
+
+    case "case":
+      return unifyTypes([
+        ...node.branches.map((branch) => inferExpressionType(branch.result, columns)),
+        ...(node.otherwise ? [inferExpressionType(node.otherwise, columns)] : []),
+      ]);
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Built-in functions and value coercion for the expression language
+ */
+
+import type { InferredType } from "@/lib/parsers/types";
+import { castToBoolean, castToDate, castToNumber, castToString } from "../casting/types";
+import { ExpressionError } from "./types";
+
+/**
+ * Definition of a built-in function
+ * "any" return types are resolved from the argument types (see inferExpressionType)
+ */
+export interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number; // Infinity for variadic functions
+  returnType: InferredType | "any";
+  fn: (args: unknown[]) => unknown;
+}
+
+export function isNullish(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+/**
+ * Coerce a value to a number for arithmetic
+ * Null stays null; values that cannot be converted raise an ExpressionError
+ */
+export function toNumber(value: unknown): number | null {
+  if (isNullish(value)) {
+    return null;
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  const result = castToNumber(value);
+  if (result === null) {
+    throw new ExpressionError(`Cannot use "${castToString(value)}" as a number`);
+  }
+  return result;
+}
+
+/**
+ * Coerce a value to text (null stays null)
+ */
+export function toText(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return castToString(value);
+}
+
+/**
+ * Coerce a value to a date (null stays null)
+ */
+export function toDate(value: unknown): Date | null {
+  if (isNullish(value)) {
+    return null;
+  }
+  const result = castToDate(value);
+  if (result === null) {
+    throw new ExpressionError(`Cannot use "${castToString(value)}" as a date`);
+  }
+  return result;
+}
+
+/**
+ * Truthiness used by IF, CASE, AND, OR and NOT
+ * Null is false; "yes"/"no"-style strings follow castToBoolean
+ */
+export function isTruthy(value: unknown): boolean {
+  if (isNullish(value)) {
+    return false;
+  }
+  if (typeof value === "number") {
+    return value !== 0;
+  }
+  return castToBoolean(value) ?? true;
+}
+
+/**
+ * Round to a number of decimal places without binary float drift (1.005 → 1.01)
+ */
+function roundTo(value: number, digits: number): number {
+  return Number(`${Math.round(Number(`${value}e${digits}`))}e${-digits}`);
+}
+
+const DATE_UNITS = ["second", "minute", "hour", "day", "week", "month", "year"] as const;
+const UNIT_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Whole units between two dates, truncated toward zero
+ */
+function dateDiff(unit: string, start: Date, end: Date): number {
+  const normalizedUnit = unit.toLowerCase().replace(/s$/, "");
+  if (!DATE_UNITS.includes(normalizedUnit as (typeof DATE_UNITS)[number])) {
+    throw new ExpressionError(
+      `Unknown DATE_DIFF unit "${unit}". Use one of: ${DATE_UNITS.join(", ")}`,
+    );
+  }
+
+  if (normalizedUnit === "month" || normalizedUnit === "year") {
+    let months =
+      (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+      (end.getUTCMonth() - start.getUTCMonth());
+    // Don't count a month that hasn't fully elapsed (Jan 31 → Feb 1 is 0 months)
+    const startRest = start.getTime() - Date.UTC(start.getUTCFullYear(), start.getUTCMonth());
+    const endRest = end.getTime() - Date.UTC(end.getUTCFullYear(), end.getUTCMonth());
+    if (months > 0 && endRest < startRest) months--;
+    if (months < 0 && endRest > startRest) months++;
+    return normalizedUnit === "year" ? Math.trunc(months / 12) : months;
+  }
+
+  return Math.trunc((end.getTime() - start.getTime()) / UNIT_MS[normalizedUnit]);
+}
+
+/**
+ * Apply a numeric function, propagating null
+ */
+function numeric(fn: (...values: number[]) => number) {
+  return (args: unknown[]) => {
+    const values = args.map(toNumber);
+    if (values.some((v) => v === null)) {
+      return null;
+    }
+    return fn(...(values as number[]));
+  };
+}
+
+/**
+ * Apply a text function to the first argument, propagating null
+ */
+function text(fn: (value: string, ...rest: unknown[]) => unknown) {
+  return (args: unknown[]) => {
+    const value = toText(args[0]);
+    if (value === null) {
+      return null;
+    }
+    return fn(value, ...args.slice(1));
+  };
+}
+
+/**
+ * Registry of built-in functions (names are case-insensitive, stored uppercase)
+ *
+ * IF is evaluated lazily by the evaluator; its fn is only used as a fallback.
+ */
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  IF: {
+    minArgs: 2,
+    maxArgs: 3,
+    returnType: "any",
+    fn: ([condition, whenTrue, whenFalse = null]) => (isTruthy(condition) ? whenTrue : whenFalse),
+  },
+  COALESCE: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    returnType: "any",
+    fn: (args) => args.find((arg) => !isNullish(arg)) ?? null,
+  },
+
+  // Numeric
+  ROUND: {
+    minArgs: 1,
+    maxArgs: 2,
+    returnType: "number",
+    fn: (args) => {
+      const value = toNumber(args[0]);
+      const digits = args.length > 1 ? toNumber(args[1]) : 0;
+      if (value === null || digits === null) return null;
+      return roundTo(value, Math.trunc(digits));
+    },
+  },
+  ABS: { minArgs: 1, maxArgs: 1, returnType: "number", fn: numeric(Math.abs) },
+  FLOOR: { minArgs: 1, maxArgs: 1, returnType: "number", fn: numeric(Math.floor) },
+  CEIL: { minArgs: 1, maxArgs: 1, returnType: "number", fn: numeric(Math.ceil) },
+  MIN: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    returnType: "number",
+    fn: (args) => {
+      const values = args.map(toNumber).filter((v): v is number => v !== null);
+      return values.length > 0 ? Math.min(...values) : null;
+    },
+  },
+  MAX: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    returnType: "number",
+    fn: (args) => {
+      const values = args.map(toNumber).filter((v): v is number => v !== null);
+      return values.length > 0 ? Math.max(...values) : null;
+    },
+  },
+
+  // Text
+  LEN: { minArgs: 1, maxArgs: 1, returnType: "number", fn: text((s) => s.length) },
+  UPPER: { minArgs: 1, maxArgs: 1, returnType: "string", fn: text((s) => s.toUpperCase()) },
+  LOWER: { minArgs: 1, maxArgs: 1, returnType: "string", fn: text((s) => s.toLowerCase()) },
+  TRIM: { minArgs: 1, maxArgs: 1, returnType: "string", fn: text((s) => s.trim()) },
+  LEFT: {
+    minArgs: 2,
+    maxArgs: 2,
+    returnType: "string",
+    fn: text((s, n) => s.slice(0, Math.max(0, toNumber(n) ?? 0))),
+  },
+  RIGHT: {
+    minArgs: 2,
+    maxArgs: 2,
+    returnType: "string",
+    fn: text((s, n) => {
+      const count = Math.max(0, toNumber(n) ?? 0);
+      return count === 0 ? "" : s.slice(-count);
+    }),
+  },
+  SUBSTR: {
+    minArgs: 2,
+    maxArgs: 3,
+    returnType: "string",
+    fn: text((s, start, length) => {
+      // 1-based start, like SQL
+      const from = Math.max(0, (toNumber(start) ?? 1) - 1);
+      const count = length === undefined ? undefined : (toNumber(length) ?? 0);
+      return count === undefined ? s.slice(from) : s.slice(from, from + Math.max(0, count));
+    }),
+  },
+  REPLACE: {
+    minArgs: 3,
+    maxArgs: 3,
+    returnType: "string",
+    fn: text((s, search, replacement) => {
+      const searchText = toText(search) ?? "";
+      if (searchText === "") return s;
+      return s.split(searchText).join(toText(replacement) ?? "");
+    }),
+  },
+  CONCAT: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    returnType: "string",
+    fn: (args) => args.map((arg) => toText(arg) ?? "").join(""),
+  },
+
+  // Dates
+  DATE_DIFF: {
+    minArgs: 3,
+    maxArgs: 3,
+    returnType: "number",
+    fn: ([unit, start, end]) => {
+      const unitText = toText(unit);
+      const startDate = toDate(start);
+      const endDate = toDate(end);
+      if (unitText === null || startDate === null || endDate === null) return null;
+      return dateDiff(unitText, startDate, endDate);
+    },
+  },
+  YEAR: {
+    minArgs: 1,
+    maxArgs: 1,
+    returnType: "number",
+    fn: ([value]) => toDate(value)?.getUTCFullYear() ?? null,
+  },
+  MONTH: {
+    minArgs: 1,
+    maxArgs: 1,
+    returnType: "number",
+    fn: ([value]) => {
+      const date = toDate(value);
+      return date ? date.getUTCMonth() + 1 : null;
+    },
+  },
+  DAY: {
+    minArgs: 1,
+    maxArgs: 1,
+    returnType: "number",
+    fn: ([value]) => toDate(value)?.getUTCDate() ?? null,
+  },
+
+  // Conversion
+  TO_NUMBER: { minArgs: 1, maxArgs: 1, returnType: "number", fn: ([value]) => toNumber(value) },
+  TO_TEXT: { minArgs: 1, maxArgs: 1, returnType: "string", fn: ([value]) => toText(value) },
+  TO_DATE: { minArgs: 1, maxArgs: 1, returnType: "date", fn: ([value]) => toDate(value) },
+};
+
+/**
+ * Aliases resolved at parse time
+ */
+export const FUNCTION_ALIASES: Record<string, string> = {
+  LENGTH: "LEN",
+  CEILING: "CEIL",
+  SUBSTRING: "SUBSTR",
+  DATEDIFF: "DATE_DIFF",
+};
@@ -0,0 +1,461 @@
+/**
+ * Tokenizer and recursive-descent parser for calculated column expressions
+ *
+ * Grammar (lowest to highest precedence):
+ *   OR → AND → NOT → comparison (= != <> < <= > >=) → concatenation (||)
+ *   → additive (+ -) → multiplicative (* / %) → unary (-) → primary
+ *
+ * Primary expressions:
+ *   - Numbers: 42, 3.14, .5, 1e3
+ *   - Strings: 'text' ('' escapes a quote)
+ *   - TRUE, FALSE, NULL
+ *   - Columns: bare_name, [Column With Spaces], "Column With Spaces"
+ *   - Function calls: ROUND(price * 1.2, 2)
+ *   - CASE WHEN cond THEN value [WHEN ...] [ELSE value] END
+ */
+
+import { EXPRESSION_FUNCTIONS, FUNCTION_ALIASES } from "./functions";
+import type { BinaryOperator, ExpressionNode } from "./types";
+import { ExpressionError } from "./types";
+
+type TokenType =
+  | "number"
+  | "string"
+  | "identifier"
+  | "column"
+  | "keyword"
+  | "operator"
+  | "lparen"
+  | "rparen"
+  | "comma"
+  | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const KEYWORDS = new Set([
+  "AND",
+  "OR",
+  "NOT",
+  "TRUE",
+  "FALSE",
+  "NULL",
+  "CASE",
+  "WHEN",
+  "THEN",
+  "ELSE",
+  "END",
+]);
+
+// Longest operators first so "<=" wins over "<"
+const OPERATORS = ["||", "<=", ">=", "<>", "!=", "==", "+", "-", "*", "/", "%", "=", "<", ">"];
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+
+    // Numbers
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(input[i + 1] ?? ""))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(input.slice(i));
+      if (match) {
+        tokens.push({ type: "number", value: match[0], position: start });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    // String literals ('' escapes a quote)
+    if (char === "'") {
+      let value = "";
+      i++;
+      while (true) {
+        if (i >= input.length) {
+          throw new ExpressionError(`Unterminated string starting at position ${start}`, start);
+        }
+        if (input[i] === "'") {
+          if (input[i + 1] === "'") {
+            value += "'";
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += input[i];
+        i++;
+      }
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    // Quoted column references: [Column Name] or "Column Name"
+    if (char === "[" || char === '"') {
+      const closing = char === "[" ? "]" : '"';
+      const end = input.indexOf(closing, i + 1);
+      if (end === -1) {
+        throw new ExpressionError(
+          `Unterminated column reference starting at position ${start}`,
+          start,
+        );
+      }
+      tokens.push({ type: "column", value: input.slice(i + 1, end), position: start });
+      i = end + 1;
+      continue;
+    }
+
+    // Identifiers, keywords
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(i));
+      const word = match ? match[0] : char;
+      const upper = word.toUpperCase();
+      tokens.push({
+        type: KEYWORDS.has(upper) ? "keyword" : "identifier",
+        value: KEYWORDS.has(upper) ? upper : word,
+        position: start,
+      });
+      i += word.length;
+      continue;
+    }
+
+    if (char === "(") {
+      tokens.push({ type: "lparen", value: char, position: start });
+      i++;
+      continue;
+    }
+    if (char === ")") {
+      tokens.push({ type: "rparen", value: char, position: start });
+      i++;
+      continue;
+    }
+    if (char === ",") {
+      tokens.push({ type: "comma", value: char, position: start });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => input.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, position: start });
+      i += operator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character "${char}" at position ${start}`, start);
+  }
+
+  tokens.push({ type: "eof", value: "", position: input.length });
+  return tokens;
+}
+
+/**
+ * Normalize operator spellings (== → =, <> → !=)
+ */
+function normalizeOperator(op: string): BinaryOperator {
+  if (op === "==") return "=";
+  if (op === "<>") return "!=";
+  return op as BinaryOperator;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== "eof") {
+      throw new ExpressionError(
+        `Unexpected "${token.value}" at position ${token.position}`,
+        token.position,
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== "eof") {
+      this.index++;
+    }
+    return token;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === "keyword" && token.value === keyword;
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    return token.type === "operator" && operators.includes(token.value);
+  }
+
+  private expectKeyword(keyword: string): void {
+    const token = this.next();
+    if (token.type !== "keyword" || token.value !== keyword) {
+      throw new ExpressionError(
+        `Expected ${keyword} at position ${token.position}${token.value ? ` but found "${token.value}"` : ""}`,
+        token.position,
+      );
+    }
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.next();
+    if (token.type !== type) {
+      throw new ExpressionError(
+        `Expected ${description} at position ${token.position}${token.value ? ` but found "${token.value}"` : ""}`,
+        token.position,
+      );
+    }
+    return token;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.isKeyword("OR")) {
+      this.next();
+      left = { kind: "binary", operator: "OR", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.isKeyword("AND")) {
+      this.next();
+      left = { kind: "binary", operator: "AND", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.isKeyword("NOT")) {
+      this.next();
+      return { kind: "unary", operator: "NOT", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    let left = this.parseConcat();
+    while (this.isOperator("=", "==", "!=", "<>", "<", "<=", ">", ">=")) {
+      const operator = normalizeOperator(this.next().value);
+      left = { kind: "binary", operator, left, right: this.parseConcat() };
+    }
+    return left;
+  }
+
+  private parseConcat(): ExpressionNode {
+    let left = this.parseAdditive();
+    while (this.isOperator("||")) {
+      this.next();
+      left = { kind: "binary", operator: "||", left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    while (this.isOperator("+", "-")) {
+      const operator = this.next().value as BinaryOperator;
+      left = { kind: "binary", operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.isOperator("*", "/", "%")) {
+      const operator = this.next().value as BinaryOperator;
+      left = { kind: "binary", operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator("-")) {
+      this.next();
+      return { kind: "unary", operator: "-", operand: this.parseUnary() };
+    }
+    if (this.isOperator("+")) {
+      this.next();
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.value) };
+
+      case "string":
+        return { kind: "literal", value: token.value };
+
+      case "column":
+        return { kind: "column", name: token.value };
+
+      case "identifier":
+        if (this.peek().type === "lparen") {
+          return this.parseCall(token);
+        }
+        return { kind: "column", name: token.value };
+
+      case "keyword":
+        if (token.value === "TRUE") return { kind: "literal", value: true };
+        if (token.value === "FALSE") return { kind: "literal", value: false };
+        if (token.value === "NULL") return { kind: "literal", value: null };
+        if (token.value === "CASE") return this.parseCase();
+        break;
+
+      case "lparen": {
+        const inner = this.parseOr();
+        this.expect("rparen", '")"');
+        return inner;
+      }
+
+      case "eof":
+        throw new ExpressionError("Unexpected end of expression", token.position);
+    }
+
+    throw new ExpressionError(
+      `Unexpected "${token.value}" at position ${token.position}`,
+      token.position,
+    );
+  }
+
+  private parseCall(nameToken: Token): ExpressionNode {
+    const upper = nameToken.value.toUpperCase();
+    const name = FUNCTION_ALIASES[upper] ?? upper;
+    const definition = EXPRESSION_FUNCTIONS[name];
+    if (!definition) {
+      throw new ExpressionError(
+        `Unknown function "${nameToken.value}" at position ${nameToken.position}`,
+        nameToken.position,
+      );
+    }
+
+    this.expect("lparen", '"("');
+    const args: ExpressionNode[] = [];
+    if (this.peek().type !== "rparen") {
+      args.push(this.parseOr());
+      while (this.peek().type === "comma") {
+        this.next();
+        args.push(this.parseOr());
+      }
+    }
+    this.expect("rparen", '")"');
+
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected =
+        definition.minArgs === definition.maxArgs
+          ? `${definition.minArgs}`
+          : definition.maxArgs === Infinity
+            ? `at least ${definition.minArgs}`
+            : `${definition.minArgs}-${definition.maxArgs}`;
+      throw new ExpressionError(
+        `${name} expects ${expected} argument(s) but got ${args.length}`,
+        nameToken.position,
+      );
+    }
+
+    return { kind: "call", name, args };
+  }
+
+  private parseCase(): ExpressionNode {
+    const branches: Array<{ condition: ExpressionNode; result: ExpressionNode }> = [];
+    while (this.isKeyword("WHEN")) {
+      this.next();
+      const condition = this.parseOr();
+      this.expectKeyword("THEN");
+      branches.push({ condition, result: this.parseOr() });
+    }
+
+    if (branches.length === 0) {
+      const token = this.peek();
+      throw new ExpressionError(
+        `CASE requires at least one WHEN at position ${token.position}`,
+        token.position,
+      );
+    }
+
+    let otherwise: ExpressionNode | undefined;
+    if (this.isKeyword("ELSE")) {
+      this.next();
+      otherwise = this.parseOr();
+    }
+    this.expectKeyword("END");
+
+    return { kind: "case", branches, otherwise };
+  }
+}
+
+/**
+ * Parse an expression string into an expression tree
+ * Throws ExpressionError with a position on invalid syntax
+ */
+export function parseExpression(input: string): ExpressionNode {
+  if (!input.trim()) {
+    throw new ExpressionError("Expression cannot be empty", 0);
+  }
+  return new Parser(tokenize(input)).parse();
+}
+
+/**
+ * Collect the unique column names referenced by an expression
+ */
+export function collectColumnReferences(node: ExpressionNode): string[] {
+  const names = new Set<string>();
+
+  const visit = (current: ExpressionNode): void => {
+    switch (current.kind) {
+      case "column":
+        names.add(current.name);
+        break;
+      case "unary":
+        visit(current.operand);
+        break;
+      case "binary":
+        visit(current.left);
+        visit(current.right);
+        break;
+      case "call":
+        current.args.forEach(visit);
+        break;
+      case "case":
+        for (const branch of current.branches) {
+          visit(branch.condition);
+          visit(branch.result);
+        }
+        if (current.otherwise) visit(current.otherwise);
+        break;
+    }
+  };
+
+  visit(node);
+  return Array.from(names);
+}
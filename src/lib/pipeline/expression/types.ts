@@ -0,0 +1,55 @@
+/**
+ * Type definitions for the calculated column expression language
+ */
+
+/**
+ * Binary operators supported in expressions
+ */
+export type BinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "||"
+  | "="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "AND"
+  | "OR";
+
+/**
+ * Unary operators supported in expressions
+ */
+export type UnaryOperator = "-" | "NOT";
+
+/**
+ * Parsed expression tree
+ */
+export type ExpressionNode =
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "column"; name: string }
+  | { kind: "unary"; operator: UnaryOperator; operand: ExpressionNode }
+  | { kind: "binary"; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "call"; name: string; args: ExpressionNode[] }
+  | {
+      kind: "case";
+      branches: Array<{ condition: ExpressionNode; result: ExpressionNode }>;
+      otherwise?: ExpressionNode;
+    };
+
+/**
+ * Error thrown while parsing or evaluating an expression
+ */
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly position?: number,
+  ) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Server-side loading of a pipeline's input table
+ * Pipelines read the project's raw_data unless their parse config differs from
+ * the project's, in which case the upload is parsed again with it.
+ */
+
+import type { Doc, Id } from "@convex/dataModel";
+import type Database from "better-sqlite3";
+import { downloadFileFromConvex, getUpload } from "@/lib/convex/client";
+import { parseCSV } from "@/lib/parsers/csv";
+import { decodeText } from "@/lib/parsers/encoding";
+import { parseExcel } from "@/lib/parsers/excel";
+import type { ColumnMetadata, ParseOptions, ParseResult } from "@/lib/parsers/types";
+import { getColumns, getRowCount } from "@/lib/sqlite/database";
+import { getParseConfig } from "@/lib/sqlite/schema";
+import { jsonRowsQuery } from "@/lib/sqlite/tables";
+import type { SQLTable } from "./sql/compiler";
+import { createSourceTable } from "./sql/executor";
+
+type PipelineParseConfig = Doc<"pipelines">["parseConfig"];
+
+const PARSE_CONFIG_KEYS = [
+  "sheetName",
+  "sheetIndex",
+  "startRow",
+  "endRow",
+  "startColumn",
+  "endColumn",
+  "hasHeaders",
+  "encoding",
+  "numberLocale",
+] as const satisfies ReadonlyArray<keyof NonNullable<PipelineParseConfig>>;
+
+/**
+ * Whether a pipeline parse config differs from the project's
+ */
+export function needsCustomParse(db: Database.Database, parseConfig: PipelineParseConfig): boolean {
+  const currentParseConfig = getParseConfig(db);
+  return Boolean(
+    parseConfig &&
+      PARSE_CONFIG_KEYS.some(
+        (key) =>
+          parseConfig[key] !==
+          (currentParseConfig?.[key as keyof typeof currentParseConfig] ?? undefined),
+      ),
+  );
+}
+
+/**
+ * Table the pipeline's first step reads (all rows)
+ * Returns null when the pipeline needs its own parse and the upload is gone.
+ */
+export async function loadPipelineInput(
+  db: Database.Database,
+  uploadId: Id<"uploads">,
+  parseConfig: PipelineParseConfig,
+): Promise<SQLTable | null> {
+  if (parseConfig && needsCustomParse(db, parseConfig)) {
+    const parseResult = await parseUpload(uploadId, parseConfig);
+    return parseResult ? createSourceTable(db, parseResult) : null;
+  }
+
+  // Read raw_data directly (rows stay in SQLite)
+  return {
+    from: jsonRowsQuery(db, "raw_data"),
+    columns: getRawDataColumns(db),
+    rowCount: getRowCount(db),
+    warnings: [],
+  };
+}
+
+/**
+ * Columns the pipeline's first step reads, to check steps against
+ * Returns null when the pipeline needs its own parse and the upload is gone.
+ */
+export async function loadPipelineInputColumns(
+  db: Database.Database,
+  uploadId: Id<"uploads">,
+  parseConfig: PipelineParseConfig,
+): Promise<ColumnMetadata[] | null> {
+  if (parseConfig && needsCustomParse(db, parseConfig)) {
+    const parseResult = await parseUpload(uploadId, parseConfig);
+    return parseResult ? parseResult.columns : null;
+  }
+
+  return getRawDataColumns(db);
+}
+
+/**
+ * Re-parse the upload with a pipeline-specific config (full data, not preview)
+ */
+async function parseUpload(
+  uploadId: Id<"uploads">,
+  parseConfig: NonNullable<PipelineParseConfig>,
+): Promise<ParseResult | null> {
+  const upload = await getUpload(uploadId);
+  if (!upload) {
+    return null;
+  }
+
+  const fileBuffer = await downloadFileFromConvex(upload.convexStorageId);
+  const parseOptions: ParseOptions = {
+    ...upload.parseConfig,
+    ...parseConfig,
+  };
+
+  const isExcel =
+    upload.mimeType?.includes("spreadsheet") || upload.originalName?.match(/\.(xlsx?|xls)$/i);
+
+  return isExcel
+    ? await parseExcel(fileBuffer, parseOptions)
+    : await parseCSV(decodeText(fileBuffer, parseOptions.encoding), parseOptions);
+}
+
+/**
+ * Column metadata of raw_data
+ */
+function getRawDataColumns(db: Database.Database): ColumnMetadata[] {
+  const totalRows = getRowCount(db);
+  return getColumns(db).map((col) => ({
+    name: col.name,
+    type: col.type as "string" | "number" | "boolean" | "date" | "null",
+    nonNullCount: totalRows - col.nullCount,
+    nullCount: col.nullCount,
+    sampleValues: col.sampleValues || [],
+  }));
+}
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for append operation
+ */
+
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+import type { ParseResult } from "@/lib/parsers/types";
+import type { AppendConfig, ExecutionContext } from "@/lib/pipeline/types";
+import { getSourceKey } from "@/lib/pipeline/types";
+import { append } from "../append";
+
+const january: ParseResult = {
+  rows: [
+    { Date: "2024-01-05", Sales: 100 },
+    { Date: "2024-01-20", Sales: 150 },
+  ],
+  columns: [
+    { name: "Date", type: "string", nonNullCount: 2, nullCount: 0, sampleValues: [] },
+    { name: "Sales", type: "number", nonNullCount: 2, nullCount: 0, sampleValues: [] },
+  ],
+  rowCount: 2,
+  warnings: [],
+};
+
+const february: ParseResult = {
+  rows: [{ Date: "2024-02-03", Sales: 80, Notes: "late" }],
+  columns: [
+    { name: "Date", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+    { name: "Sales", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+    { name: "Notes", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+  ],
+  rowCount: 1,
+  warnings: [],
+};
+
+const march: ParseResult = {
+  rows: [{ Date: "2024-03-01", Sales: "n/a" }],
+  columns: [
+    { name: "Date", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+    { name: "Sales", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+  ],
+  rowCount: 1,
+  warnings: [],
+};
+
+const febSource = { type: "upload", uploadId: "u1", sheetName: "Feb" } as const;
+const marSource = { type: "upload", uploadId: "u1", sheetName: "Mar" } as const;
+
+const context: ExecutionContext = {
+  sources: {
+    [getSourceKey(febSource)]: february,
+    [getSourceKey(marSource)]: march,
+  },
+};
+
+function config(overrides: Partial<AppendConfig> = {}): AppendConfig {
+  return {
+    type: "append",
+    sources: [febSource],
+    ...overrides,
+  };
+}
+
+describe("append", () => {
+  it("should stack source rows below the current rows", () => {
+    const result = append(january, config(), context);
+
+    assert.strictEqual(result.table.rowCount, 3);
+    assert.deepStrictEqual(
+      result.table.rows.map((r) => r.Date),
+      ["2024-01-05", "2024-01-20", "2024-02-03"],
+    );
+  });
+
+  it("should keep all columns in union mode and fill missing values with null", () => {
+    const result = append(january, config({ columnMode: "union" }), context);
+
+    assert.deepStrictEqual(
+      result.columns.map((c) => c.name),
+      ["Date", "Sales", "Notes"],
+    );
+    assert.strictEqual(result.table.rows[0].Notes, null);
+    assert.strictEqual(result.table.rows[2].Notes, "late");
+  });
+
+  it("should only keep shared columns in intersection mode", () => {
+    const result = append(january, config({ columnMode: "intersection" }), context);
+
+    assert.deepStrictEqual(
+      result.columns.map((c) => c.name),
+      ["Date", "Sales"],
+    );
+    assert.strictEqual("Notes" in result.table.rows[2], false);
+  });
+
+  it("should warn when a source is missing columns in union mode", () => {
+    const result = append(
+      {
+        rows: [{ Date: "2024-01-05", Sales: 1, Region: "North" }],
+        columns: [
+          { name: "Date", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+          { name: "Sales", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+          { name: "Region", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      },
+      config(),
+      context,
+    );
+
+    assert.ok(result.table.warnings.some((w) => w.includes("Region")));
+  });
+
+  it("should tag rows with their source label", () => {
+    const result = append(
+      january,
+      config({
+        sources: [{ ...febSource, label: "February" }, marSource],
+        sourceColumn: "Month",
+        currentLabel: "January",
+      }),
+      context,
+    );
+
+    assert.deepStrictEqual(
+      result.table.rows.map((r) => r.Month),
+      ["January", "January", "February", "Mar"],
+    );
+    assert.strictEqual(result.columns[result.columns.length - 1].name, "Month");
+  });
+
+  it("should default the current label to 'current'", () => {
+    const result = append(january, config({ sourceColumn: "Source" }), context);
+
+    assert.strictEqual(result.table.rows[0].Source, "current");
+    assert.strictEqual(result.table.rows[2].Source, "Feb");
+  });
+
+  it("should widen columns with differing types to string", () => {
+    const result = append(january, config({ sources: [marSource] }), context);
+
+    const sales = result.columns.find((c) => c.name === "Sales");
+    assert.strictEqual(sales?.type, "string");
+  });
+
+  it("should keep the type when all tables agree", () => {
+    const result = append(january, config(), context);
+
+    const sales = result.columns.find((c) => c.name === "Sales");
+    assert.strictEqual(sales?.type, "number");
+    assert.strictEqual(sales?.nonNullCount, 3);
+  });
+
+  it("should append the same source twice", () => {
+    const result = append(january, config({ sources: [febSource, febSource] }), context);
+
+    assert.strictEqual(result.table.rowCount, 4);
+  });
+
+  it("should throw if a source was not loaded", () => {
+    assert.throws(
+      () => append(january, config({ sources: [{ type: "pipeline", pipelineId: "p9" }] }), context),
+      /Append source not loaded: pipeline:p9/,
+    );
+  });
+
+  it("should throw if no sources are specified", () => {
+    assert.throws(
+      () => append(january, config({ sources: [] }), context),
+      /At least one source must be specified/,
+    );
+  });
+
+  it("should throw if the source column already exists", () => {
+    assert.throws(
+      () => append(january, config({ sourceColumn: "Sales" }), context),
+      /Source column "Sales" already exists/,
+    );
+    assert.throws(
+      () => append(january, config({ sourceColumn: "Notes" }), context),
+      /Source column "Notes" already exists/,
+    );
+  });
+
+  it("should throw if the source column name is empty", () => {
+    assert.throws(
+      () => append(january, config({ sourceColumn: "  " }), context),
+      /Source column name cannot be empty/,
+    );
+  });
+});
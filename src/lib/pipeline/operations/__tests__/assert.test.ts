@@ -0,0 +1,185 @@
+/**
+ * Tests for assert operation
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ParseResult } from "@/lib/parsers/types";
+import { executePipeline } from "../../executor";
+import type { AssertConfig } from "../../types";
+import { AssertionFailedError } from "../../types";
+import { assertRules } from "../assert";
+
+const customers: ParseResult = {
+  rows: [
+    { id: 1, email: "a@example.com", country: "FR", amount: 10 },
+    { id: 2, email: null, country: "DE", amount: "25" },
+    { id: 2, email: "c@example.com", country: "XX", amount: 500 },
+    { id: 4, email: "", country: null, amount: "n/a" },
+  ],
+  columns: [
+    { name: "id", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+    { name: "email", type: "string", nonNullCount: 2, nullCount: 2, sampleValues: [] },
+    { name: "country", type: "string", nonNullCount: 3, nullCount: 1, sampleValues: [] },
+    { name: "amount", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+  ],
+  rowCount: 4,
+  warnings: [],
+};
+
+function warnOnly(config: AssertConfig): AssertConfig {
+  return { ...config, rules: config.rules.map((rule) => ({ ...rule, severity: "warn" })) };
+}
+
+describe("assertRules operation", () => {
+  it("should pass without changing the table", () => {
+    const result = assertRules(customers, {
+      type: "assert",
+      rules: [
+        { kind: "not_null", column: "id" },
+        { kind: "row_count", min: 1, max: 10 },
+        { kind: "column_type", column: "amount", columnType: "number" },
+      ],
+    });
+
+    assert.deepEqual(result.table.rows, customers.rows);
+    assert.deepEqual(result.table.warnings, []);
+    assert.ok(result.assertions.every((assertion) => assertion.passed));
+  });
+
+  it("should count failing rows for each row-level rule", () => {
+    const { assertions } = assertRules(
+      customers,
+      warnOnly({
+        type: "assert",
+        rules: [
+          { kind: "not_null", column: "email" },
+          { kind: "unique", columns: ["id"] },
+          { kind: "in_set", column: "country", values: ["FR", "DE"] },
+          { kind: "matches_regex", column: "email", pattern: "@example\\.com$" },
+          { kind: "range", column: "amount", min: 0, max: 100 },
+        ],
+      }),
+    );
+
+    assert.deepEqual(
+      assertions.map((assertion) => assertion.failedCount),
+      [2, 1, 1, 0, 2],
+    );
+    assert.deepEqual(
+      assertions[4].sampleFailures.map((row) => row.amount),
+      [500, "n/a"],
+    );
+  });
+
+  it("should add a warning for failing warn rules", () => {
+    const { table } = assertRules(customers, {
+      type: "assert",
+      rules: [{ kind: "row_count", max: 2, severity: "warn" }],
+    });
+
+    assert.deepEqual(table.warnings, ['Assertion "row count <= 2" failed: found 4 row(s).']);
+  });
+
+  it("should throw with every rule outcome when a fail rule breaks", () => {
+    assert.throws(
+      () =>
+        assertRules(customers, {
+          type: "assert",
+          rules: [
+            { kind: "not_null", column: "email" },
+            { kind: "column_type", column: "missing" },
+          ],
+        }),
+      (error: unknown) => {
+        assert.ok(error instanceof AssertionFailedError);
+        assert.equal(
+          error.message,
+          'Assertion failed: email is not null (2 row(s)); missing exists (column "missing" not found)',
+        );
+        assert.equal(error.assertions.length, 2);
+        return true;
+      },
+    );
+  });
+
+  it("should quarantine failing rows in quarantine mode", () => {
+    const { table, rejected, assertions } = assertRules(
+      customers,
+      {
+        type: "assert",
+        rules: [
+          { kind: "unique", columns: ["id"] },
+          { kind: "in_set", column: "country", values: ["FR", "DE"] },
+        ],
+      },
+      { rowErrorMode: "quarantine" },
+    );
+
+    assert.deepEqual(
+      table.rows.map((row) => row.id),
+      [1, 2, 4],
+    );
+    assert.equal(rejected.length, 1, "A row failing two rules is rejected once");
+    assert.deepEqual(rejected[0], {
+      column: "id",
+      value: 2,
+      reason: "Validation failed: id is unique",
+      row: customers.rows[2],
+    });
+    assert.ok(assertions.every((assertion) => assertion.quarantined));
+  });
+
+  it("should still fail table-level rules in quarantine mode", () => {
+    assert.throws(
+      () =>
+        assertRules(
+          customers,
+          { type: "assert", rules: [{ kind: "row_count", min: 10 }] },
+          { rowErrorMode: "quarantine" },
+        ),
+      AssertionFailedError,
+    );
+  });
+
+  it("should report rule outcomes on a failed step", () => {
+    const { stepResults } = executePipeline(customers, [
+      {
+        id: "check",
+        type: "assert",
+        config: { type: "assert", rules: [{ kind: "not_null", column: "email" }] },
+      },
+    ]);
+
+    assert.equal(stepResults[0].success, false);
+    assert.equal(stepResults[0].assertions?.[0].failedCount, 2);
+  });
+
+  it("should reject invalid configurations", () => {
+    assert.throws(() => assertRules(customers, { type: "assert", rules: [] }), /At least one rule/);
+    assert.throws(
+      () =>
+        assertRules(customers, {
+          type: "assert",
+          rules: [{ kind: "not_null", column: "missing" }],
+        }),
+      /Columns not found: missing/,
+    );
+    assert.throws(
+      () =>
+        assertRules(customers, {
+          type: "assert",
+          rules: [{ kind: "matches_regex", column: "email", pattern: "(" }],
+        }),
+      /Invalid regular expression/,
+    );
+    assert.throws(
+      () =>
+        assertRules(customers, {
+          type: "assert",
+          rules: [{ kind: "range", column: "amount" }],
+        }),
+      /requires a min or max/,
+    );
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for calculated-column operation
+ */
+
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+import type { ParseResult } from "@/lib/parsers/types";
+import type { CalculatedColumnConfig } from "@/lib/pipeline/types";
+import { TransformationError } from "@/lib/pipeline/types";
+import { calculatedColumn } from "../calculated-column";
+
+const products: ParseResult = {
+  rows: [
+    { Product: "Apple", Qty: 3, "Unit Price": 2.5 },
+    { Product: "Pear", Qty: 2, "Unit Price": 4 },
+    { Product: "Plum", Qty: null, "Unit Price": 1 },
+  ],
+  columns: [
+    {
+      name: "Product",
+      type: "string",
+      nonNullCount: 3,
+      nullCount: 0,
+      sampleValues: ["Apple", "Pear", "Plum"],
+    },
+    { name: "Qty", type: "number", nonNullCount: 2, nullCount: 1, sampleValues: [3, 2] },
+    {
+      name: "Unit Price",
+      type: "number",
+      nonNullCount: 3,
+      nullCount: 0,
+      sampleValues: [2.5, 4, 1],
+    },
+  ],
+  rowCount: 3,
+  warnings: [],
+};
+
+describe("calculatedColumn", () => {
+  it("should add a numeric column from an arithmetic expression", () => {
+    const config: CalculatedColumnConfig = {
+      type: "calculated_column",
+      newColumn: "Total",
+      expression: "Qty * [Unit Price]",
+    };
+
+    const { table, columns } = calculatedColumn(products, config);
+
+    assert.deepStrictEqual(
+      table.rows.map((row) => row.Total),
+      [7.5, 8, null],
+    );
+    const metadata = columns.find((c) => c.name === "Total");
+    assert.ok(metadata);
+    assert.strictEqual(metadata.type, "number");
+    assert.strictEqual(metadata.nonNullCount, 2);
+    assert.strictEqual(metadata.nullCount, 1);
+    assert.deepStrictEqual(metadata.sampleValues, [7.5, 8]);
+  });
+
+  it("should preserve existing columns and append the new one last", () => {
+    const { table, columns } = calculatedColumn(products, {
+      type: "calculated_column",
+      newColumn: "Label",
+      expression: "UPPER(Product) || '!'",
+    });
+
+    assert.deepStrictEqual(
+      columns.map((c) => c.name),
+      ["Product", "Qty", "Unit Price", "Label"],
+    );
+    assert.strictEqual(table.rows[0].Label, "APPLE!");
+    assert.strictEqual(table.rows[0].Product, "Apple");
+    assert.strictEqual(columns[3].type, "string");
+  });
+
+  it("should infer the type from the expression for empty tables", () => {
+    const empty: ParseResult = { ...products, rows: [], rowCount: 0 };
+
+    const { columns } = calculatedColumn(empty, {
+      type: "calculated_column",
+      newColumn: "Expensive",
+      expression: "[Unit Price] > 3",
+    });
+
+    assert.strictEqual(columns[3].type, "boolean");
+  });
+
+  it("should throw a TransformationError with the row number by default", () => {
+    const table: ParseResult = {
+      ...products,
+      rows: [
+        { Product: "Apple", Qty: 3, "Unit Price": 2.5 },
+        { Product: "Pear", Qty: "lots", "Unit Price": 4 },
+        { Product: "Plum", Qty: null, "Unit Price": 1 },
+      ],
+    };
+
+    assert.throws(
+      () =>
+        calculatedColumn(table, {
+          type: "calculated_column",
+          newColumn: "Total",
+          expression: "Qty * 2",
+        }),
+      (error: unknown) => error instanceof TransformationError && /row 2/.test(error.message),
+    );
+  });
+
+  it("should set null and warn when onError is null", () => {
+    const table: ParseResult = {
+      ...products,
+      rows: [
+        { Product: "Apple", Qty: 3, "Unit Price": 2.5 },
+        { Product: "Pear", Qty: "lots", "Unit Price": 4 },
+        { Product: "Plum", Qty: null, "Unit Price": 1 },
+      ],
+    };
+
+    const { table: result } = calculatedColumn(table, {
+      type: "calculated_column",
+      newColumn: "Total",
+      expression: "Qty * 2",
+      onError: "null",
+    });
+
+    assert.deepStrictEqual(
+      result.rows.map((row) => row.Total),
+      [6, null, null],
+    );
+    assert.strictEqual(result.warnings.length, 1);
+    assert.match(result.warnings[0], /1 row\(s\)/);
+  });
+
+  it("should quarantine failing rows in quarantine mode", () => {
+    const table: ParseResult = {
+      ...products,
+      rows: [
+        { Product: "Apple", Qty: 3, "Unit Price": 2.5 },
+        { Product: "Pear", Qty: "lots", "Unit Price": 4 },
+        { Product: "Plum", Qty: null, "Unit Price": 1 },
+      ],
+    };
+
+    const { table: result, rejected } = calculatedColumn(
+      table,
+      { type: "calculated_column", newColumn: "Total", expression: "Qty * 2" },
+      { rowErrorMode: "quarantine" },
+    );
+
+    assert.deepStrictEqual(
+      result.rows.map((row) => row.Product),
+      ["Apple", "Plum"],
+    );
+    assert.strictEqual(rejected.length, 1);
+    assert.strictEqual(rejected[0].column, "Total");
+    assert.strictEqual(rejected[0].row.Product, "Pear");
+    assert.match(result.warnings[0], /rows quarantined/);
+  });
+
+  it("should throw if the new column already exists", () => {
+    assert.throws(
+      () =>
+        calculatedColumn(products, {
+          type: "calculated_column",
+          newColumn: "Qty",
+          expression: "1",
+        }),
+      /New column "Qty" already exists/,
+    );
+  });
+
+  it("should throw if the new column name is empty", () => {
+    assert.throws(
+      () =>
+        calculatedColumn(products, {
+          type: "calculated_column",
+          newColumn: "  ",
+          expression: "1",
+        }),
+      /cannot be empty/,
+    );
+  });
+
+  it("should throw on invalid syntax", () => {
+    assert.throws(
+      () =>
+        calculatedColumn(products, {
+          type: "calculated_column",
+          newColumn: "Total",
+          expression: "Qty *",
+        }),
+      /Invalid expression: Unexpected end of expression/,
+    );
+  });
+
+  it("should throw if referenced columns don't exist", () => {
+    assert.throws(
+      () =>
+        calculatedColumn(products, {
+          type: "calculated_column",
+          newColumn: "Total",
+          expression: "Qty * Price + Tax",
+        }),
+      /Columns not found: Price, Tax/,
+    );
+  });
+});
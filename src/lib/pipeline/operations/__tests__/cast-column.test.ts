@@ -613,6 +613,67 @@ describe("castColumn operation", () => {
     });
   });
 
+  describe("error handling - quarantine mode", () => {
+    const table: ParseResult = {
+      rows: [
+        { id: 1, value: "100" },
+        { id: 2, value: "abc" },
+        { id: 3, value: "300" },
+      ],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 3, nullCount: 0, sampleValues: [1, 2, 3] },
+        {
+          name: "value",
+          type: "string",
+          nonNullCount: 3,
+          nullCount: 0,
+          sampleValues: ["100", "abc", "300"],
+        },
+      ],
+      rowCount: 3,
+      warnings: [],
+    };
+
+    it("should divert failing rows instead of failing", () => {
+      const config: CastColumnConfig = {
+        type: "cast_column",
+        column: "value",
+        targetType: "number",
+        onError: "fail",
+      };
+
+      const { table: result, rejected } = castColumn(table, config, {
+        rowErrorMode: "quarantine",
+      });
+
+      assert.deepEqual(
+        result.rows.map((row) => row.value),
+        [100, 300],
+      );
+      assert.equal(rejected.length, 1);
+      assert.equal(rejected[0].column, "value");
+      assert.equal(rejected[0].value, "abc");
+      assert.deepEqual(rejected[0].row, { id: 2, value: "abc" });
+      assert.ok(result.warnings.some((warning) => warning.includes("Quarantined 1 row(s).")));
+    });
+
+    it("should keep the configured behaviour for null mode", () => {
+      const config: CastColumnConfig = {
+        type: "cast_column",
+        column: "value",
+        targetType: "number",
+        onError: "null",
+      };
+
+      const { table: result, rejected } = castColumn(table, config, {
+        rowErrorMode: "quarantine",
+      });
+
+      assert.equal(result.rowCount, 3);
+      assert.equal(rejected.length, 0);
+    });
+  });
+
   describe("validation", () => {
     it("should throw error if column does not exist", () => {
       const table: ParseResult = {
@@ -870,4 +931,69 @@ describe("castColumn operation", () => {
       assert.equal(result.warnings.length, 0);
     });
   });
+
+  describe("date options", () => {
+    const table: ParseResult = {
+      rows: [{ date: "03/04/2024" }, { date: "13/04/2024" }],
+      columns: [
+        {
+          name: "date",
+          type: "string",
+          nonNullCount: 2,
+          nullCount: 0,
+          sampleValues: ["03/04/2024", "13/04/2024"],
+        },
+      ],
+      rowCount: 2,
+      warnings: [],
+    };
+
+    it("should read numeric dates with the date order", () => {
+      const { table: result } = castColumn(table, {
+        type: "cast_column",
+        column: "date",
+        targetType: "date",
+        onError: "fail",
+        dateOrder: "day_first",
+      });
+
+      assert.deepEqual(
+        result.rows.map((row) => (row.date as Date).toISOString()),
+        ["2024-04-03T00:00:00.000Z", "2024-04-13T00:00:00.000Z"],
+      );
+    });
+
+    it("should write dates as text with an output format", () => {
+      const { table: result, columns } = castColumn(table, {
+        type: "cast_column",
+        column: "date",
+        targetType: "date",
+        onError: "null",
+        format: "dd/MM/yyyy",
+        outputFormat: "yyyy-MM-dd",
+      });
+
+      assert.deepEqual(
+        result.rows.map((row) => row.date),
+        ["2024-04-03", "2024-04-13"],
+      );
+      assert.equal(columns[0].type, "string");
+    });
+
+    it("should reject unknown timezones", () => {
+      assert.throws(
+        () =>
+          castColumn(table, {
+            type: "cast_column",
+            column: "date",
+            targetType: "date",
+            onError: "fail",
+            timezone: "Mars/Olympus",
+          }),
+        (error: unknown) =>
+          error instanceof TransformationError &&
+          error.message === "Unknown timezone: Mars/Olympus",
+      );
+    });
+  });
 });
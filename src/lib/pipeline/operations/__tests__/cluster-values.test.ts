@@ -0,0 +1,104 @@
+/**
+ * Tests for cluster_values operation
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ParseResult } from "@/lib/parsers/types";
+import type { ClusterValuesConfig } from "../../types";
+import { clusterValues } from "../cluster-values";
+
+describe("cluster_values operation", () => {
+  const config: ClusterValuesConfig = {
+    type: "cluster_values",
+    column: "vendor",
+    clusters: [
+      { canonical: "ACME Inc.", values: ["Acme, Inc", "acme inc"] },
+      { canonical: "Initech", values: ["Inytech"] },
+    ],
+    method: "fingerprint",
+  };
+
+  it("should replace variants with their canonical value", () => {
+    const table: ParseResult = {
+      rows: [
+        { id: 1, vendor: "Acme, Inc" },
+        { id: 2, vendor: "ACME Inc." },
+        { id: 3, vendor: "Inytech" },
+        { id: 4, vendor: "acme inc" },
+        { id: 5, vendor: "Globex" },
+      ],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 5, nullCount: 0, sampleValues: [] },
+        { name: "vendor", type: "string", nonNullCount: 5, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 5,
+      warnings: [],
+    };
+
+    const { table: result, columns } = clusterValues(table, config);
+
+    assert.deepEqual(
+      result.rows.map((row) => row.vendor),
+      ["ACME Inc.", "ACME Inc.", "Initech", "ACME Inc.", "Globex"],
+    );
+    assert.deepEqual(columns[1].sampleValues, [
+      "ACME Inc.",
+      "ACME Inc.",
+      "Initech",
+      "ACME Inc.",
+      "Globex",
+    ]);
+  });
+
+  it("should only match variants exactly", () => {
+    const table: ParseResult = {
+      rows: [
+        { id: 1, vendor: "ACME, INC" },
+        { id: 2, vendor: " Acme, Inc" },
+        { id: 3, vendor: null },
+        { id: 4, vendor: 42 },
+      ],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+        { name: "vendor", type: "string", nonNullCount: 3, nullCount: 1, sampleValues: [] },
+      ],
+      rowCount: 4,
+      warnings: [],
+    };
+
+    const { table: result } = clusterValues(table, config);
+
+    assert.deepEqual(
+      result.rows.map((row) => row.vendor),
+      ["ACME, INC", " Acme, Inc", null, 42],
+    );
+  });
+
+  it("should validate the configuration", () => {
+    const table: ParseResult = {
+      rows: [{ id: 1, vendor: "Acme" }],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        { name: "vendor", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 1,
+      warnings: [],
+    };
+
+    assert.throws(() => clusterValues(table, { ...config, column: "name" }), {
+      message: 'Column "name" not found',
+    });
+    assert.throws(() => clusterValues(table, { ...config, clusters: [] }), {
+      message: "At least one cluster must be specified",
+    });
+    assert.throws(
+      () =>
+        clusterValues(table, {
+          ...config,
+          clusters: [...config.clusters, { canonical: "Acme", values: ["acme inc"] }],
+        }),
+      { message: 'Value "acme inc" is in more than one cluster' },
+    );
+  });
+});
@@ -149,4 +149,149 @@ describe("deduplicate operation", () => {
     assert.equal(result.rowCount, 0);
     assert.equal(result.rows.length, 0);
   });
+
+  describe("keep, ordering and normalization", () => {
+    const table: ParseResult = {
+      rows: [
+        { email: "A@x.com", updated: 2 },
+        { email: "b@x.com", updated: 1 },
+        { email: " a@x.com", updated: 3 },
+        { email: "a@x.com", updated: null },
+        { email: "c@x.com", updated: 5 },
+        { email: "b@x.com", updated: 4 },
+      ],
+      columns: [
+        { name: "email", type: "string", nonNullCount: 6, nullCount: 0, sampleValues: [] },
+        { name: "updated", type: "number", nonNullCount: 5, nullCount: 1, sampleValues: [] },
+      ],
+      rowCount: 6,
+      warnings: [],
+    };
+
+    it("should compare exactly by default", () => {
+      const result = deduplicate(table, { type: "deduplicate", columns: ["email"] });
+
+      assert.equal(result.table.rowCount, 5);
+      assert.equal(result.duplicateGroups, 1);
+    });
+
+    it("should ignore case and whitespace", () => {
+      const result = deduplicate(table, {
+        type: "deduplicate",
+        columns: ["email"],
+        ignoreCase: true,
+        ignoreWhitespace: true,
+      });
+
+      assert.deepEqual(
+        result.table.rows.map((row) => row.updated),
+        [2, 1, 5],
+      );
+      assert.equal(result.duplicateGroups, 2);
+    });
+
+    it("should keep the last row of each group", () => {
+      const { table: result } = deduplicate(table, {
+        type: "deduplicate",
+        columns: ["email"],
+        keep: "last",
+        ignoreCase: true,
+        ignoreWhitespace: true,
+      });
+
+      assert.deepEqual(
+        result.rows.map((row) => row.updated),
+        [null, 5, 4],
+      );
+    });
+
+    it("should pick the surviving row by an ordering column", () => {
+      const config: DeduplicateConfig = {
+        type: "deduplicate",
+        columns: ["email"],
+        keep: "last",
+        orderBy: { name: "updated", direction: "asc" },
+        ignoreCase: true,
+        ignoreWhitespace: true,
+      };
+
+      // Rows without an ordering value never survive over rows with one
+      assert.deepEqual(
+        deduplicate(table, config).table.rows.map((row) => row.updated),
+        [3, 5, 4],
+      );
+      assert.deepEqual(
+        deduplicate(table, { ...config, keep: "first" }).table.rows.map((row) => row.updated),
+        [2, 1, 5],
+      );
+      assert.deepEqual(
+        deduplicate(table, {
+          ...config,
+          keep: "first",
+          orderBy: { name: "updated", direction: "desc" },
+        }).table.rows.map((row) => row.updated),
+        [3, 5, 4],
+      );
+    });
+
+    it("should drop every duplicated row when keeping none", () => {
+      const result = deduplicate(table, {
+        type: "deduplicate",
+        columns: ["email"],
+        keep: "none",
+        ignoreCase: true,
+        ignoreWhitespace: true,
+      });
+
+      assert.deepEqual(result.table.rows, [{ email: "c@x.com", updated: 5 }]);
+      assert.equal(result.duplicateGroups, 2);
+    });
+
+    it("should flag duplicates instead of removing them", () => {
+      const result = deduplicate(table, {
+        type: "deduplicate",
+        columns: ["email"],
+        ignoreCase: true,
+        ignoreWhitespace: true,
+        mode: "flag",
+      });
+
+      assert.equal(result.table.rowCount, 6);
+      assert.deepEqual(
+        result.table.rows.map((row) => [row.is_duplicate, row.duplicate_group]),
+        [
+          [false, 1],
+          [false, 2],
+          [true, 1],
+          [true, 1],
+          [false, null],
+          [true, 2],
+        ],
+      );
+      assert.deepEqual(
+        result.columns.slice(2).map((col) => [col.name, col.type, col.nullCount]),
+        [
+          ["is_duplicate", "boolean", 0],
+          ["duplicate_group", "number", 1],
+        ],
+      );
+      assert.equal(result.duplicateGroups, 2);
+    });
+
+    it("should reject unknown ordering columns and existing flag columns", () => {
+      assert.throws(
+        () =>
+          deduplicate(table, {
+            type: "deduplicate",
+            orderBy: { name: "missing", direction: "asc" },
+          }),
+        { message: 'Order column "missing" not found' },
+      );
+
+      const flagged = deduplicate(table, { type: "deduplicate", mode: "flag" }).table;
+      assert.throws(() => deduplicate(flagged, { type: "deduplicate", mode: "flag" }), {
+        message: 'Column "is_duplicate" already exists',
+      });
+    });
+  });
 });
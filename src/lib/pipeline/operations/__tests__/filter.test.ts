@@ -5,8 +5,8 @@
 import assert from "node:assert/strict";
 import { describe, it } from "node:test";
 import type { ParseResult } from "@/lib/parsers/types";
-import type { FilterConfig } from "../../types";
-import { filter } from "../filter";
+import type { FilterCondition, FilterConfig } from "../../types";
+import { describeFilterCondition, filter } from "../filter";
 
 describe("filter operation", () => {
   describe("equals operator", () => {
@@ -444,4 +444,227 @@ describe("filter operation", () => {
     assert.equal(result.rowCount, 0);
     assert.equal(result.rows.length, 0);
   });
+
+  describe("condition trees", () => {
+    const table: ParseResult = {
+      rows: [
+        { id: 1, region: "EU", amount: 150, vip: false, code: "AB-12", joined: "2024-01-15" },
+        { id: 2, region: "EU", amount: 50, vip: true, code: "CD-34", joined: "2024-03-01" },
+        { id: 3, region: "EU", amount: 20, vip: false, code: "ab-56", joined: "2023-12-31" },
+        { id: 4, region: "US", amount: 500, vip: true, code: "EF-78", joined: null },
+      ],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+        { name: "region", type: "string", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+        { name: "amount", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+        { name: "vip", type: "boolean", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+        { name: "code", type: "string", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+        { name: "joined", type: "date", nonNullCount: 3, nullCount: 1, sampleValues: [] },
+      ],
+      rowCount: 4,
+      warnings: [],
+    };
+
+    function ids(config: FilterConfig): unknown[] {
+      return filter(table, config).table.rows.map((row) => row.id);
+    }
+
+    function condition(
+      column: string,
+      operator: FilterCondition["operator"],
+      value?: FilterCondition["value"],
+      values?: FilterCondition["values"],
+    ): FilterCondition {
+      return { kind: "condition", column, operator, value, values };
+    }
+
+    it("should combine AND and OR groups", () => {
+      const config: FilterConfig = {
+        type: "filter",
+        condition: {
+          kind: "and",
+          conditions: [
+            condition("region", "equals", "EU"),
+            {
+              kind: "or",
+              conditions: [
+                condition("amount", "greater_than", 100),
+                condition("vip", "equals", true),
+              ],
+            },
+          ],
+        },
+      };
+
+      assert.deepEqual(ids(config), [1, 2]);
+    });
+
+    it("should negate a condition with NOT", () => {
+      const config: FilterConfig = {
+        type: "filter",
+        condition: { kind: "not", condition: condition("region", "equals", "EU") },
+      };
+
+      assert.deepEqual(ids(config), [4]);
+    });
+
+    it("should take the tree over the single condition fields", () => {
+      const config: FilterConfig = {
+        type: "filter",
+        column: "region",
+        operator: "equals",
+        value: "US",
+        condition: condition("region", "equals", "EU"),
+      };
+
+      assert.deepEqual(ids(config), [1, 2, 3]);
+    });
+
+    it("should support in and not_in", () => {
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("id", "in", undefined, [1, "3"]) }),
+        [1, 3],
+      );
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("region", "not_in", undefined, ["EU"]) }),
+        [4],
+      );
+    });
+
+    it("should support inclusive between", () => {
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("amount", "between", undefined, [50, 150]) }),
+        [1, 2],
+      );
+    });
+
+    it("should support starts_with, ends_with and matches_regex", () => {
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("code", "starts_with", "AB") }),
+        [1],
+      );
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("code", "ends_with", "34") }),
+        [2],
+      );
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("code", "matches_regex", "^[A-Z]{2}-\\d+$") }),
+        [1, 2, 4],
+      );
+    });
+
+    it("should support greater_or_equal and less_or_equal", () => {
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("amount", "greater_or_equal", 150) }),
+        [1, 4],
+      );
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("amount", "less_or_equal", 50) }),
+        [2, 3],
+      );
+    });
+
+    it("should compare numeric strings with number cells", () => {
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("amount", "greater_than", "100") }),
+        [1, 4],
+      );
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("amount", "equals", "50") }),
+        [2],
+      );
+    });
+
+    it("should compare date columns as dates", () => {
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("joined", "greater_or_equal", "2024-01-15") }),
+        [1, 2],
+      );
+      assert.deepEqual(
+        ids({
+          type: "filter",
+          condition: condition("joined", "between", undefined, ["2023-12-01", "2024-01-31"]),
+        }),
+        [1, 3],
+      );
+      assert.deepEqual(
+        ids({ type: "filter", condition: condition("joined", "equals", "2024-03-01T00:00:00Z") }),
+        [2],
+      );
+    });
+
+    it("should compare Date values as dates", () => {
+      const dated: ParseResult = {
+        ...table,
+        rows: [{ when: new Date("2024-01-01") }, { when: new Date("2024-06-01") }],
+        columns: [{ name: "when", type: "date", nonNullCount: 2, nullCount: 0, sampleValues: [] }],
+        rowCount: 2,
+      };
+
+      const { table: result } = filter(dated, {
+        type: "filter",
+        condition: condition("when", "less_than", "2024-03-01"),
+      });
+
+      assert.equal(result.rowCount, 1);
+    });
+
+    it("should throw for missing columns anywhere in the tree", () => {
+      assert.throws(
+        () =>
+          filter(table, {
+            type: "filter",
+            condition: {
+              kind: "or",
+              conditions: [condition("region", "equals", "EU"), condition("missing", "is_null")],
+            },
+          }),
+        { message: /Column not found: missing/ },
+      );
+    });
+
+    it("should throw for invalid configurations", () => {
+      assert.throws(
+        () => filter(table, { type: "filter", condition: { kind: "and", conditions: [] } }),
+        { message: /at least one condition/ },
+      );
+      assert.throws(
+        () =>
+          filter(table, { type: "filter", condition: condition("id", "between", undefined, [1]) }),
+        { message: /exactly two values/ },
+      );
+      assert.throws(
+        () => filter(table, { type: "filter", condition: condition("id", "in", undefined, []) }),
+        { message: /at least one value/ },
+      );
+      assert.throws(
+        () => filter(table, { type: "filter", condition: condition("code", "matches_regex", "(") }),
+        { message: /Invalid regular expression/ },
+      );
+      assert.throws(() => filter(table, { type: "filter" }), {
+        message: /Filter condition must be specified/,
+      });
+    });
+  });
+
+  describe("describeFilterCondition", () => {
+    it("should describe nested groups", () => {
+      assert.equal(
+        describeFilterCondition({
+          kind: "and",
+          conditions: [
+            { kind: "condition", column: "region", operator: "equals", value: "EU" },
+            {
+              kind: "or",
+              conditions: [
+                { kind: "condition", column: "amount", operator: "greater_than", value: 100 },
+                { kind: "condition", column: "vip", operator: "is_null" },
+              ],
+            },
+          ],
+        }),
+        "region equals EU AND (amount greater_than 100 OR vip is_null)",
+      );
+    });
+  });
 });
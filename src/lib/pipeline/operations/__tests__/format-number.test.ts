@@ -0,0 +1,149 @@
+/**
+ * Unit tests for format number operation
+ */
+
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+import type { ParseResult } from "@/lib/parsers/types";
+import { formatNumberColumns } from "../format-number";
+
+describe("formatNumberColumns", () => {
+  it("should format numbers with fixed decimals and grouping", () => {
+    const table: ParseResult = {
+      rows: [
+        { Amount: 1234.5, Other: 1 },
+        { Amount: 0, Other: 1 },
+        { Amount: "2,000", Other: 1 },
+      ],
+      columns: [
+        {
+          name: "Amount",
+          type: "number",
+          nonNullCount: 3,
+          nullCount: 0,
+          sampleValues: [1234.5, 0, "2,000"],
+        },
+        { name: "Other", type: "number", nonNullCount: 3, nullCount: 0, sampleValues: [1] },
+      ],
+      rowCount: 3,
+      warnings: [],
+    };
+
+    const { table: result, columns } = formatNumberColumns(table, {
+      type: "format_number",
+      columns: ["Amount"],
+      decimals: 2,
+    });
+
+    assert.deepStrictEqual(
+      result.rows.map((row) => row.Amount),
+      ["1,234.50", "0.00", "2,000.00"],
+    );
+    assert.strictEqual(columns[0].type, "string");
+    assert.strictEqual(columns[1].type, "number");
+    assert.strictEqual(result.rows[0].Other, 1);
+  });
+
+  it("should format currencies in a locale's style", () => {
+    const table: ParseResult = {
+      rows: [
+        { Amount: 1234.5, Other: 1 },
+        { Amount: -3, Other: 1 },
+      ],
+      columns: [
+        {
+          name: "Amount",
+          type: "number",
+          nonNullCount: 2,
+          nullCount: 0,
+          sampleValues: [1234.5, -3],
+        },
+        { name: "Other", type: "number", nonNullCount: 2, nullCount: 0, sampleValues: [1] },
+      ],
+      rowCount: 2,
+      warnings: [],
+    };
+
+    const { table: result } = formatNumberColumns(table, {
+      type: "format_number",
+      columns: ["Amount"],
+      locale: "de-DE",
+      currency: "eur",
+    });
+
+    assert.deepStrictEqual(
+      result.rows.map((row) => row.Amount),
+      ["1.234,50\u00a0€", "-3,00\u00a0€"],
+    );
+  });
+
+  it("should leave values that aren't numbers unchanged", () => {
+    const table: ParseResult = {
+      rows: [
+        { Amount: "n/a", Other: 1 },
+        { Amount: null, Other: 1 },
+        { Amount: true, Other: 1 },
+        { Amount: 1000, Other: 1 },
+      ],
+      columns: [
+        {
+          name: "Amount",
+          type: "number",
+          nonNullCount: 3,
+          nullCount: 1,
+          sampleValues: ["n/a", true, 1000],
+        },
+        { name: "Other", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [1] },
+      ],
+      rowCount: 4,
+      warnings: [],
+    };
+
+    const { table: result } = formatNumberColumns(table, {
+      type: "format_number",
+      columns: ["Amount"],
+      grouping: false,
+    });
+
+    assert.deepStrictEqual(
+      result.rows.map((row) => row.Amount),
+      ["n/a", null, true, "1000"],
+    );
+  });
+
+  it("should validate the configuration", () => {
+    const table: ParseResult = {
+      rows: [{ Amount: 1, Other: 1 }],
+      columns: [
+        { name: "Amount", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [1] },
+        { name: "Other", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [1] },
+      ],
+      rowCount: 1,
+      warnings: [],
+    };
+
+    assert.throws(
+      () => formatNumberColumns(table, { type: "format_number", columns: ["Missing"] }),
+      /Columns not found: Missing/,
+    );
+    assert.throws(
+      () =>
+        formatNumberColumns(table, { type: "format_number", columns: ["Amount"], decimals: 1.5 }),
+      /Decimals must be a whole number/,
+    );
+    assert.throws(
+      () =>
+        formatNumberColumns(table, { type: "format_number", columns: ["Amount"], currency: "XYZ" }),
+      /Unknown currency code: XYZ/,
+    );
+    assert.throws(
+      () =>
+        formatNumberColumns(table, {
+          type: "format_number",
+          columns: ["Amount"],
+          locale: "not a locale",
+        }),
+      /Invalid locale/,
+    );
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Unit tests for group-by operation
+ */
+
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+import type { ParseResult } from "@/lib/parsers/types";
+import type { GroupByAggregation } from "@/lib/pipeline/types";
+import { groupBy } from "../group-by";
+
+const sales: ParseResult = {
+  rows: [
+    { Region: "North", Rep: "Ann", Sales: 100 },
+    { Region: "South", Rep: "Bob", Sales: 50 },
+    { Region: "North", Rep: "Cid", Sales: 300 },
+    { Region: "North", Rep: "Ann", Sales: 200 },
+    { Region: "South", Rep: null, Sales: null },
+  ],
+  columns: [
+    {
+      name: "Region",
+      type: "string",
+      nonNullCount: 5,
+      nullCount: 0,
+      sampleValues: ["North", "South"],
+    },
+    { name: "Rep", type: "string", nonNullCount: 4, nullCount: 1, sampleValues: ["Ann"] },
+    { name: "Sales", type: "number", nonNullCount: 4, nullCount: 1, sampleValues: [100] },
+  ],
+  rowCount: 5,
+  warnings: [],
+};
+
+function aggregate(aggregation: GroupByAggregation) {
+  const { table } = groupBy(sales, {
+    type: "group_by",
+    groupBy: ["Region"],
+    aggregations: [aggregation],
+  });
+  return table.rows.map((row) => row[aggregation.newColumn]);
+}
+
+describe("groupBy", () => {
+  it("should collapse rows by key in order of first appearance", () => {
+    const { table } = groupBy(sales, {
+      type: "group_by",
+      groupBy: ["Region"],
+      aggregations: [{ column: "Sales", aggregation: "sum", newColumn: "Total" }],
+    });
+
+    assert.strictEqual(table.rowCount, 2);
+    assert.deepStrictEqual(table.rows, [
+      { Region: "North", Total: 600 },
+      { Region: "South", Total: 50 },
+    ]);
+  });
+
+  it("should group by multiple columns", () => {
+    const { table } = groupBy(sales, {
+      type: "group_by",
+      groupBy: ["Region", "Rep"],
+      aggregations: [{ column: "Sales", aggregation: "sum", newColumn: "Total" }],
+    });
+
+    assert.deepStrictEqual(table.rows, [
+      { Region: "North", Rep: "Ann", Total: 300 },
+      { Region: "South", Rep: "Bob", Total: 50 },
+      { Region: "North", Rep: "Cid", Total: 300 },
+      { Region: "South", Rep: null, Total: null },
+    ]);
+  });
+
+  it("should aggregate the whole table when no group columns are given", () => {
+    const { table } = groupBy(sales, {
+      type: "group_by",
+      groupBy: [],
+      aggregations: [
+        { aggregation: "count", newColumn: "Rows" },
+        { column: "Sales", aggregation: "max", newColumn: "Best" },
+      ],
+    });
+
+    assert.deepStrictEqual(table.rows, [{ Rows: 5, Best: 300 }]);
+  });
+
+  describe("aggregations", () => {
+    it("should compute mean and median of numeric values", () => {
+      assert.deepStrictEqual(
+        aggregate({ column: "Sales", aggregation: "mean", newColumn: "M" }),
+        [200, 50],
+      );
+      assert.deepStrictEqual(
+        aggregate({ column: "Sales", aggregation: "median", newColumn: "M" }),
+        [200, 50],
+      );
+    });
+
+    it("should average the middle values for even-sized medians", () => {
+      const table: ParseResult = {
+        ...sales,
+        rows: [...sales.rows, { Region: "South", Rep: "Dee", Sales: 70 }],
+        rowCount: 6,
+      };
+
+      const { table: result } = groupBy(table, {
+        type: "group_by",
+        groupBy: ["Region"],
+        aggregations: [{ column: "Sales", aggregation: "median", newColumn: "M" }],
+      });
+
+      assert.strictEqual(result.rows[1].M, 60);
+    });
+
+    it("should compute min and max", () => {
+      assert.deepStrictEqual(
+        aggregate({ column: "Sales", aggregation: "min", newColumn: "X" }),
+        [100, 50],
+      );
+      assert.deepStrictEqual(aggregate({ column: "Rep", aggregation: "max", newColumn: "X" }), [
+        "Cid",
+        "Bob",
+      ]);
+    });
+
+    it("should compute min and max of large groups", () => {
+      const rows = Array.from({ length: 200000 }, (_, i) => ({ Sales: i % 1000 }));
+      const { table } = groupBy(
+        {
+          rows,
+          columns: [
+            { name: "Sales", type: "number", nonNullCount: 200000, nullCount: 0, sampleValues: [] },
+          ],
+          rowCount: rows.length,
+          warnings: [],
+        },
+        {
+          type: "group_by",
+          groupBy: [],
+          aggregations: [
+            { column: "Sales", aggregation: "min", newColumn: "Low" },
+            { column: "Sales", aggregation: "max", newColumn: "High" },
+          ],
+        },
+      );
+
+      assert.deepStrictEqual(table.rows, [{ Low: 0, High: 999 }]);
+    });
+
+    it("should count non-empty values, rows, and distinct values", () => {
+      assert.deepStrictEqual(
+        aggregate({ column: "Rep", aggregation: "count", newColumn: "C" }),
+        [3, 1],
+      );
+      assert.deepStrictEqual(aggregate({ aggregation: "count", newColumn: "C" }), [3, 2]);
+      assert.deepStrictEqual(
+        aggregate({ column: "Rep", aggregation: "count_distinct", newColumn: "C" }),
+        [2, 1],
+      );
+    });
+
+    it("should take the first and last non-empty values", () => {
+      assert.deepStrictEqual(aggregate({ column: "Rep", aggregation: "first", newColumn: "F" }), [
+        "Ann",
+        "Bob",
+      ]);
+      assert.deepStrictEqual(aggregate({ column: "Rep", aggregation: "last", newColumn: "L" }), [
+        "Ann",
+        "Bob",
+      ]);
+    });
+
+    it("should join text with string_agg", () => {
+      assert.deepStrictEqual(
+        aggregate({ column: "Rep", aggregation: "string_agg", newColumn: "Reps" }),
+        ["Ann, Cid, Ann", "Bob"],
+      );
+      assert.deepStrictEqual(
+        aggregate({ column: "Rep", aggregation: "string_agg", newColumn: "Reps", separator: "|" }),
+        ["Ann|Cid|Ann", "Bob"],
+      );
+    });
+
+    it("should return null for numeric aggregates without numeric values", () => {
+      assert.deepStrictEqual(aggregate({ column: "Rep", aggregation: "sum", newColumn: "S" }), [
+        null,
+        null,
+      ]);
+    });
+  });
+
+  describe("column metadata", () => {
+    it("should report numeric types for numeric aggregates", () => {
+      const { columns } = groupBy(sales, {
+        type: "group_by",
+        groupBy: ["Region"],
+        aggregations: [
+          { column: "Rep", aggregation: "count_distinct", newColumn: "Reps" },
+          { column: "Sales", aggregation: "mean", newColumn: "Avg" },
+          { column: "Rep", aggregation: "first", newColumn: "FirstRep" },
+          { column: "Sales", aggregation: "string_agg", newColumn: "AllSales" },
+        ],
+      });
+
+      assert.deepStrictEqual(
+        columns.map((c) => [c.name, c.type]),
+        [
+          ["Region", "string"],
+          ["Reps", "number"],
+          ["Avg", "number"],
+          ["FirstRep", "string"],
+          ["AllSales", "string"],
+        ],
+      );
+      assert.strictEqual(columns[2].nonNullCount, 2);
+    });
+  });
+
+  describe("validation", () => {
+    it("should throw if group columns don't exist", () => {
+      assert.throws(
+        () =>
+          groupBy(sales, {
+            type: "group_by",
+            groupBy: ["Country"],
+            aggregations: [],
+          }),
+        /Columns not found: Country/,
+      );
+    });
+
+    it("should throw if an aggregation column doesn't exist", () => {
+      assert.throws(
+        () =>
+          groupBy(sales, {
+            type: "group_by",
+            groupBy: ["Region"],
+            aggregations: [{ column: "Profit", aggregation: "sum", newColumn: "P" }],
+          }),
+        /Columns not found: Profit/,
+      );
+    });
+
+    it("should require a column for aggregations other than count", () => {
+      assert.throws(
+        () =>
+          groupBy(sales, {
+            type: "group_by",
+            groupBy: ["Region"],
+            aggregations: [{ aggregation: "sum", newColumn: "S" }],
+          }),
+        /"sum" requires a source column/,
+      );
+    });
+
+    it("should throw on duplicate output names", () => {
+      assert.throws(
+        () =>
+          groupBy(sales, {
+            type: "group_by",
+            groupBy: ["Region"],
+            aggregations: [{ column: "Sales", aggregation: "sum", newColumn: "Region" }],
+          }),
+        /Duplicate output column "Region"/,
+      );
+    });
+
+    it("should throw when there is nothing to compute", () => {
+      assert.throws(
+        () => groupBy(sales, { type: "group_by", groupBy: [], aggregations: [] }),
+        /At least one group column or aggregation/,
+      );
+    });
+  });
+});
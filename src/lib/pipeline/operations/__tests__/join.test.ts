@@ -0,0 +1,327 @@
+/**
+ * Unit tests for join operation
+ */
+
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+import type { ParseResult } from "@/lib/parsers/types";
+import type { ExecutionContext, JoinConfig } from "@/lib/pipeline/types";
+import { getSourceKey } from "@/lib/pipeline/types";
+import { join } from "../join";
+
+const orders: ParseResult = {
+  rows: [
+    { order: 1, code: "A1", qty: 3 },
+    { order: 2, code: "B2", qty: 1 },
+    { order: 3, code: "Z9", qty: 5 },
+    { order: 4, code: null, qty: 2 },
+  ],
+  columns: [
+    { name: "order", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+    { name: "code", type: "string", nonNullCount: 3, nullCount: 1, sampleValues: [] },
+    { name: "qty", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+  ],
+  rowCount: 4,
+  warnings: [],
+};
+
+const products: ParseResult = {
+  rows: [
+    { product_code: "A1", name: "Widget", price: 2.5 },
+    { product_code: "B2", name: "Gadget", price: 10 },
+    { product_code: "C3", name: "Doohickey", price: 1 },
+  ],
+  columns: [
+    { name: "product_code", type: "string", nonNullCount: 3, nullCount: 0, sampleValues: [] },
+    { name: "name", type: "string", nonNullCount: 3, nullCount: 0, sampleValues: [] },
+    { name: "price", type: "number", nonNullCount: 3, nullCount: 0, sampleValues: [] },
+  ],
+  rowCount: 3,
+  warnings: [],
+};
+
+const source = { type: "pipeline", pipelineId: "products" } as const;
+const context: ExecutionContext = { sources: { [getSourceKey(source)]: products } };
+
+function config(overrides: Partial<JoinConfig> = {}): JoinConfig {
+  return {
+    type: "join",
+    source,
+    joinType: "left",
+    on: [{ left: "code", right: "product_code" }],
+    ...overrides,
+  };
+}
+
+describe("join", () => {
+  describe("getSourceKey", () => {
+    it("should build distinct keys for pipelines, uploads and sheets", () => {
+      assert.strictEqual(getSourceKey({ type: "pipeline", pipelineId: "p1" }), "pipeline:p1");
+      assert.strictEqual(getSourceKey({ type: "upload", uploadId: "u1" }), "upload:u1");
+      assert.strictEqual(
+        getSourceKey({ type: "upload", uploadId: "u1", sheetName: "Codes" }),
+        "upload:u1:Codes",
+      );
+    });
+  });
+
+  describe("join types", () => {
+    it("should keep all current rows in a left join", () => {
+      const { table } = join(orders, config(), context);
+
+      assert.strictEqual(table.rowCount, 4);
+      assert.deepStrictEqual(table.rows[0], {
+        order: 1,
+        code: "A1",
+        qty: 3,
+        name: "Widget",
+        price: 2.5,
+      });
+      assert.deepStrictEqual(table.rows[2], {
+        order: 3,
+        code: "Z9",
+        qty: 5,
+        name: null,
+        price: null,
+      });
+      // Null keys never match
+      assert.strictEqual(table.rows[3].name, null);
+    });
+
+    it("should keep only matching rows in an inner join", () => {
+      const { table } = join(orders, config({ joinType: "inner" }), context);
+
+      assert.deepStrictEqual(
+        table.rows.map((r) => r.order),
+        [1, 2],
+      );
+    });
+
+    it("should add unmatched source rows in a full join", () => {
+      const { table } = join(orders, config({ joinType: "full" }), context);
+
+      assert.strictEqual(table.rowCount, 5);
+      assert.deepStrictEqual(table.rows[4], {
+        order: null,
+        code: "C3",
+        qty: null,
+        name: "Doohickey",
+        price: 1,
+      });
+    });
+
+    it("should keep only unmatched rows without source columns in an anti join", () => {
+      const { table, columns } = join(orders, config({ joinType: "anti" }), context);
+
+      assert.deepStrictEqual(
+        table.rows.map((r) => r.order),
+        [3, 4],
+      );
+      assert.deepStrictEqual(
+        columns.map((c) => c.name),
+        ["order", "code", "qty"],
+      );
+    });
+  });
+
+  describe("keys", () => {
+    it("should match on multiple key columns", () => {
+      const left: ParseResult = {
+        rows: [
+          { region: "EU", year: 2024, sales: 10 },
+          { region: "EU", year: 2023, sales: 8 },
+        ],
+        columns: [
+          { name: "region", type: "string", nonNullCount: 2, nullCount: 0, sampleValues: [] },
+          { name: "year", type: "number", nonNullCount: 2, nullCount: 0, sampleValues: [] },
+          { name: "sales", type: "number", nonNullCount: 2, nullCount: 0, sampleValues: [] },
+        ],
+        rowCount: 2,
+        warnings: [],
+      };
+      const right: ParseResult = {
+        rows: [{ region: "EU", year: 2024, target: 12 }],
+        columns: [
+          { name: "region", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+          { name: "year", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+          { name: "target", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      const { table } = join(
+        left,
+        config({
+          joinType: "inner",
+          on: [
+            { left: "region", right: "region" },
+            { left: "year", right: "year" },
+          ],
+        }),
+        { sources: { [getSourceKey(source)]: right } },
+      );
+
+      assert.deepStrictEqual(table.rows, [{ region: "EU", year: 2024, sales: 10, target: 12 }]);
+    });
+
+    it("should match numbers and numeric strings", () => {
+      const left: ParseResult = {
+        rows: [{ id: 1 }],
+        columns: [{ name: "id", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [] }],
+        rowCount: 1,
+        warnings: [],
+      };
+      const right: ParseResult = {
+        rows: [{ id: "1", label: "one" }],
+        columns: [
+          { name: "id", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+          { name: "label", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      const { table } = join(left, config({ on: [{ left: "id", right: "id" }] }), {
+        sources: { [getSourceKey(source)]: right },
+      });
+
+      assert.strictEqual(table.rows[0].label, "one");
+    });
+
+    it("should duplicate rows that match several source rows and warn", () => {
+      const right: ParseResult = {
+        rows: [
+          { product_code: "A1", name: "Widget" },
+          { product_code: "A1", name: "Widget v2" },
+        ],
+        columns: [
+          { name: "product_code", type: "string", nonNullCount: 2, nullCount: 0, sampleValues: [] },
+          { name: "name", type: "string", nonNullCount: 2, nullCount: 0, sampleValues: [] },
+        ],
+        rowCount: 2,
+        warnings: [],
+      };
+
+      const { table } = join(orders, config({ joinType: "inner" }), {
+        sources: { [getSourceKey(source)]: right },
+      });
+
+      assert.deepStrictEqual(
+        table.rows.map((r) => r.name),
+        ["Widget", "Widget v2"],
+      );
+      assert.strictEqual(table.warnings.length, 1);
+      assert.match(table.warnings[0], /multiple source rows for 1 row/);
+    });
+  });
+
+  describe("columns", () => {
+    it("should suffix clashing column names", () => {
+      const right: ParseResult = {
+        rows: [{ code: "A1", qty: 100 }],
+        columns: [
+          { name: "code", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+          { name: "qty", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      const { table, columns } = join(orders, config({ on: [{ left: "code", right: "code" }] }), {
+        sources: { [getSourceKey(source)]: right },
+      });
+
+      assert.deepStrictEqual(
+        columns.map((c) => c.name),
+        ["order", "code", "qty", "qty_right"],
+      );
+      assert.strictEqual(table.rows[0].qty, 3);
+      assert.strictEqual(table.rows[0].qty_right, 100);
+    });
+
+    it("should use a custom suffix", () => {
+      const right: ParseResult = {
+        rows: [{ code: "A1", qty: 100 }],
+        columns: [
+          { name: "code", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+          { name: "qty", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      const { columns } = join(
+        orders,
+        config({ on: [{ left: "code", right: "code" }], suffix: "_ref" }),
+        { sources: { [getSourceKey(source)]: right } },
+      );
+
+      assert.strictEqual(columns[3].name, "qty_ref");
+    });
+
+    it("should carry source column types and count nulls on the output", () => {
+      const { columns } = join(orders, config(), context);
+
+      const price = columns.find((c) => c.name === "price");
+      assert.ok(price);
+      assert.strictEqual(price.type, "number");
+      assert.strictEqual(price.nonNullCount, 2);
+      assert.strictEqual(price.nullCount, 2);
+    });
+  });
+
+  describe("validation", () => {
+    it("should throw if the source was not loaded", () => {
+      assert.throws(() => join(orders, config()), /Join source not loaded: pipeline:products/);
+    });
+
+    it("should throw if key columns are missing", () => {
+      assert.throws(
+        () => join(orders, config({ on: [{ left: "sku", right: "product_code" }] }), context),
+        /Columns not found: sku/,
+      );
+      assert.throws(
+        () => join(orders, config({ on: [{ left: "code", right: "sku" }] }), context),
+        /Columns not found in join source: sku/,
+      );
+    });
+
+    it("should throw if no keys are specified", () => {
+      assert.throws(
+        () => join(orders, config({ on: [] }), context),
+        /At least one key column pair must be specified/,
+      );
+    });
+
+    it("should throw if a suffixed name still clashes", () => {
+      const left: ParseResult = {
+        rows: [{ code: "A1", name: "x", name_right: "y" }],
+        columns: [
+          { name: "code", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+          { name: "name", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+          { name: "name_right", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+      const right: ParseResult = {
+        rows: [{ code: "A1", name: "z" }],
+        columns: [
+          { name: "code", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+          { name: "name", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      assert.throws(
+        () =>
+          join(left, config({ on: [{ left: "code", right: "code" }] }), {
+            sources: { [getSourceKey(source)]: right },
+          }),
+        /Column "name_right" already exists/,
+      );
+    });
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Tests for map_values operation
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ParseResult } from "@/lib/parsers/types";
+import type { MapValuesConfig } from "../../types";
+import { mapValues, parseValueMappings } from "../map-values";
+
+describe("map_values operation", () => {
+  const config: MapValuesConfig = {
+    type: "map_values",
+    column: "country",
+    mappings: [
+      { from: "UK", to: "United Kingdom" },
+      { from: "DE", to: "Germany" },
+    ],
+  };
+
+  it("should replace mapped values", () => {
+    const table: ParseResult = {
+      rows: [
+        { id: 1, country: "UK" },
+        { id: 2, country: "DE" },
+        { id: 3, country: "FR" },
+        { id: 4, country: "UK" },
+      ],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+        { name: "country", type: "string", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 4,
+      warnings: [],
+    };
+
+    const { table: result, columns } = mapValues(table, config);
+
+    assert.deepEqual(
+      result.rows.map((row) => row.country),
+      ["United Kingdom", "Germany", "FR", "United Kingdom"],
+    );
+    assert.deepEqual(result.rows[0], { id: 1, country: "United Kingdom" });
+    assert.deepEqual(columns[1].sampleValues, [
+      "United Kingdom",
+      "Germany",
+      "FR",
+      "United Kingdom",
+    ]);
+  });
+
+  it("should match whole values case-sensitively by default", () => {
+    const table: ParseResult = {
+      rows: [
+        { id: 1, country: "uk" },
+        { id: 2, country: "UK " },
+        { id: 3, country: "the UK" },
+      ],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 3, nullCount: 0, sampleValues: [] },
+        { name: "country", type: "string", nonNullCount: 3, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 3,
+      warnings: [],
+    };
+
+    const { table: result } = mapValues(table, config);
+
+    assert.deepEqual(
+      result.rows.map((row) => row.country),
+      ["uk", "UK ", "the UK"],
+    );
+  });
+
+  it("should ignore case when caseSensitive is false", () => {
+    const table: ParseResult = {
+      rows: [
+        { id: 1, country: "uk" },
+        { id: 2, country: "De" },
+        { id: 3, country: "UK" },
+      ],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 3, nullCount: 0, sampleValues: [] },
+        { name: "country", type: "string", nonNullCount: 3, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 3,
+      warnings: [],
+    };
+
+    const { table: result } = mapValues(table, { ...config, caseSensitive: false });
+
+    assert.deepEqual(
+      result.rows.map((row) => row.country),
+      ["United Kingdom", "Germany", "United Kingdom"],
+    );
+  });
+
+  it("should replace unmapped values with the default value", () => {
+    const table: ParseResult = {
+      rows: [
+        { id: 1, country: "UK" },
+        { id: 2, country: "FR" },
+        { id: 3, country: null },
+        { id: 4, country: "" },
+      ],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+        { name: "country", type: "string", nonNullCount: 3, nullCount: 1, sampleValues: [] },
+      ],
+      rowCount: 4,
+      warnings: [],
+    };
+
+    const { table: result } = mapValues(table, { ...config, defaultValue: "Other" });
+
+    assert.deepEqual(
+      result.rows.map((row) => row.country),
+      ["United Kingdom", "Other", null, ""],
+    );
+  });
+
+  it("should replace empty cells with a mapping from an empty value", () => {
+    const table: ParseResult = {
+      rows: [
+        { id: 1, country: "UK" },
+        { id: 2, country: null },
+        { id: 3, country: "" },
+      ],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 3, nullCount: 0, sampleValues: [] },
+        { name: "country", type: "string", nonNullCount: 2, nullCount: 1, sampleValues: [] },
+      ],
+      rowCount: 3,
+      warnings: [],
+    };
+
+    const { table: result } = mapValues(table, {
+      ...config,
+      mappings: [...config.mappings, { from: "", to: "Unknown" }],
+    });
+
+    assert.deepEqual(
+      result.rows.map((row) => row.country),
+      ["United Kingdom", "Unknown", "Unknown"],
+    );
+  });
+
+  it("should compare non-text values as text", () => {
+    const table: ParseResult = {
+      rows: [
+        { id: 1, country: 1 },
+        { id: 2, country: 2 },
+        { id: 3, country: true },
+      ],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 3, nullCount: 0, sampleValues: [] },
+        { name: "country", type: "string", nonNullCount: 3, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 3,
+      warnings: [],
+    };
+
+    const { table: result, columns } = mapValues(table, {
+      type: "map_values",
+      column: "country",
+      mappings: [
+        { from: "1", to: "Active" },
+        { from: "true", to: "Yes" },
+      ],
+    });
+
+    assert.deepEqual(
+      result.rows.map((row) => row.country),
+      ["Active", 2, "Yes"],
+    );
+    assert.equal(columns[1].type, "string");
+  });
+
+  it("should keep the type and count the nulls of the output values", () => {
+    const table: ParseResult = {
+      rows: [
+        { id: 1, country: 1 },
+        { id: 2, country: 2 },
+        { id: 3, country: null },
+        { id: 4, country: 2 },
+      ],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+        { name: "country", type: "number", nonNullCount: 3, nullCount: 1, sampleValues: [] },
+      ],
+      rowCount: 4,
+      warnings: [],
+    };
+
+    const cleared = mapValues(table, {
+      type: "map_values",
+      column: "country",
+      mappings: [{ from: "1", to: "" }],
+    });
+    assert.deepEqual(
+      cleared.table.rows.map((row) => row.country),
+      ["", 2, null, 2],
+    );
+    assert.equal(cleared.columns[1].type, "number");
+    assert.equal(cleared.columns[1].nonNullCount, 2);
+    assert.equal(cleared.columns[1].nullCount, 2);
+
+    const filled = mapValues(table, {
+      type: "map_values",
+      column: "country",
+      mappings: [{ from: "", to: "Unknown" }],
+    });
+    assert.deepEqual(
+      filled.table.rows.map((row) => row.country),
+      [1, 2, "Unknown", 2],
+    );
+    assert.equal(filled.columns[1].type, "string");
+    assert.equal(filled.columns[1].nullCount, 0);
+  });
+
+  it("should allow the same mapping twice", () => {
+    const table: ParseResult = {
+      rows: [{ id: 1, country: "uk" }],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        { name: "country", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 1,
+      warnings: [],
+    };
+
+    const { table: result } = mapValues(table, {
+      ...config,
+      mappings: [...config.mappings, { from: "uk", to: "United Kingdom" }],
+      caseSensitive: false,
+    });
+
+    assert.equal(result.rows[0].country, "United Kingdom");
+  });
+
+  it("should throw when a value is mapped to different values", () => {
+    const table: ParseResult = {
+      rows: [{ id: 1, country: "UK" }],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        { name: "country", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 1,
+      warnings: [],
+    };
+
+    assert.throws(
+      () =>
+        mapValues(table, {
+          ...config,
+          mappings: [...config.mappings, { from: "uk", to: "Ukraine" }],
+          caseSensitive: false,
+        }),
+      /Value "uk" is mapped more than once/,
+    );
+  });
+
+  it("should throw on missing column", () => {
+    const table: ParseResult = {
+      rows: [{ id: 1, country: "UK" }],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        { name: "country", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 1,
+      warnings: [],
+    };
+
+    assert.throws(
+      () => mapValues(table, { ...config, column: "nation" }),
+      /Column "nation" not found/,
+    );
+  });
+
+  it("should throw without mappings", () => {
+    const table: ParseResult = {
+      rows: [{ id: 1, country: "UK" }],
+      columns: [
+        { name: "id", type: "number", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+        { name: "country", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 1,
+      warnings: [],
+    };
+
+    assert.throws(
+      () => mapValues(table, { ...config, mappings: [] }),
+      /At least one mapping must be specified/,
+    );
+  });
+});
+
+describe("parseValueMappings", () => {
+  it("should read a two-column CSV with a header", () => {
+    const mappings = parseValueMappings('code,name\nUK,United Kingdom\n"DE","Germany, Federal"\n');
+
+    assert.deepEqual(mappings, [
+      { from: "UK", to: "United Kingdom" },
+      { from: "DE", to: "Germany, Federal" },
+    ]);
+  });
+
+  it("should read the first row as a mapping without a header", () => {
+    const mappings = parseValueMappings("A;Active;ignored\nI;;\n", false);
+
+    assert.deepEqual(mappings, [
+      { from: "A", to: "Active" },
+      { from: "I", to: "" },
+    ]);
+  });
+
+  it("should keep values as text", () => {
+    const mappings = parseValueMappings("code,label\n01,One\n2.50,Two and a half\n");
+
+    assert.deepEqual(
+      mappings.map((mapping) => mapping.from),
+      ["01", "2.50"],
+    );
+  });
+
+  it("should throw when the file has one column", () => {
+    assert.throws(() => parseValueMappings("code\nUK\n"), /Mapping file must have two columns/);
+  });
+});
@@ -0,0 +1,565 @@
+/**
+ * Unit tests for replace operation
+ */
+
+import * as assert from "node:assert";
+import { describe, it } from "node:test";
+import type { ParseResult } from "@/lib/parsers/types";
+import { replace } from "../replace";
+
+describe("replace", () => {
+  describe("literal mode", () => {
+    it("should replace every occurrence of literal text", () => {
+      const table: ParseResult = {
+        rows: [
+          { Value: "12 High St.", Other: "St." },
+          { Value: "St. James St.", Other: "St." },
+        ],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 2,
+            nullCount: 0,
+            sampleValues: ["12 High St.", "St. James St."],
+          },
+          { name: "Other", type: "string", nonNullCount: 2, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 2,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "St.",
+        replaceWith: "Street",
+      });
+
+      assert.strictEqual(result.rows[0].Value, "12 High Street");
+      assert.strictEqual(result.rows[1].Value, "Street James Street");
+    });
+
+    it("should treat regex metacharacters literally", () => {
+      const table: ParseResult = {
+        rows: [
+          { Value: "a.b.c", Other: "St." },
+          { Value: "abc", Other: "St." },
+        ],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 2,
+            nullCount: 0,
+            sampleValues: ["a.b.c", "abc"],
+          },
+          { name: "Other", type: "string", nonNullCount: 2, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 2,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: ".",
+        replaceWith: "-",
+      });
+
+      assert.strictEqual(result.rows[0].Value, "a-b-c");
+      assert.strictEqual(result.rows[1].Value, "abc");
+    });
+
+    it("should not interpret $ sequences in the replacement text", () => {
+      const table: ParseResult = {
+        rows: [{ Value: "price: X", Other: "St." }],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 1,
+            nullCount: 0,
+            sampleValues: ["price: X"],
+          },
+          { name: "Other", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "X",
+        replaceWith: "$1 $&",
+      });
+
+      assert.strictEqual(result.rows[0].Value, "price: $1 $&");
+    });
+
+    it("should remove stray characters when replacing with empty text", () => {
+      const table: ParseResult = {
+        rows: [
+          { Value: "$1,200", Other: "St." },
+          { Value: "$ 35", Other: "St." },
+        ],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 2,
+            nullCount: 0,
+            sampleValues: ["$1,200", "$ 35"],
+          },
+          { name: "Other", type: "string", nonNullCount: 2, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 2,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "$",
+        replaceWith: "",
+      });
+
+      assert.strictEqual(result.rows[0].Value, "1,200");
+      assert.strictEqual(result.rows[1].Value, " 35");
+    });
+
+    it("should be case sensitive by default", () => {
+      const table: ParseResult = {
+        rows: [
+          { Value: "Yes", Other: "St." },
+          { Value: "yes", Other: "St." },
+          { Value: "YES", Other: "St." },
+        ],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 3,
+            nullCount: 0,
+            sampleValues: ["Yes", "yes", "YES"],
+          },
+          { name: "Other", type: "string", nonNullCount: 3, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 3,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "yes",
+        replaceWith: "Y",
+      });
+
+      assert.deepStrictEqual(
+        result.rows.map((r) => r.Value),
+        ["Yes", "Y", "YES"],
+      );
+    });
+
+    it("should match case-insensitively when caseSensitive is false", () => {
+      const table: ParseResult = {
+        rows: [
+          { Value: "Yes", Other: "St." },
+          { Value: "yes", Other: "St." },
+          { Value: "YES", Other: "St." },
+        ],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 3,
+            nullCount: 0,
+            sampleValues: ["Yes", "yes", "YES"],
+          },
+          { name: "Other", type: "string", nonNullCount: 3, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 3,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "yes",
+        replaceWith: "Y",
+        caseSensitive: false,
+      });
+
+      assert.deepStrictEqual(
+        result.rows.map((r) => r.Value),
+        ["Y", "Y", "Y"],
+      );
+    });
+  });
+
+  describe("whole-cell mode", () => {
+    it("should only replace cells that match completely", () => {
+      const table: ParseResult = {
+        rows: [
+          { Value: "N/A", Other: "St." },
+          { Value: "N/A pending", Other: "St." },
+          { Value: "n/a", Other: "St." },
+        ],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 3,
+            nullCount: 0,
+            sampleValues: ["N/A", "N/A pending", "n/a"],
+          },
+          { name: "Other", type: "string", nonNullCount: 3, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 3,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "N/A",
+        replaceWith: "",
+        matchEntireCell: true,
+      });
+
+      assert.deepStrictEqual(
+        result.rows.map((r) => r.Value),
+        ["", "N/A pending", "n/a"],
+      );
+    });
+
+    it("should combine with case-insensitive matching", () => {
+      const table: ParseResult = {
+        rows: [
+          { Value: "N/A", Other: "St." },
+          { Value: "n/a", Other: "St." },
+          { Value: "na", Other: "St." },
+        ],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 3,
+            nullCount: 0,
+            sampleValues: ["N/A", "n/a", "na"],
+          },
+          { name: "Other", type: "string", nonNullCount: 3, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 3,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "n/a",
+        replaceWith: "",
+        matchEntireCell: true,
+        caseSensitive: false,
+      });
+
+      assert.deepStrictEqual(
+        result.rows.map((r) => r.Value),
+        ["", "", "na"],
+      );
+    });
+
+    it("should anchor regex alternations to the whole cell", () => {
+      const table: ParseResult = {
+        rows: [
+          { Value: "N/A", Other: "St." },
+          { Value: "none", Other: "St." },
+          { Value: "N/A or none", Other: "St." },
+          { Value: "-", Other: "St." },
+        ],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 4,
+            nullCount: 0,
+            sampleValues: ["N/A", "none", "N/A or none", "-"],
+          },
+          { name: "Other", type: "string", nonNullCount: 4, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 4,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "N/A|none|-",
+        replaceWith: "",
+        useRegex: true,
+        matchEntireCell: true,
+      });
+
+      assert.deepStrictEqual(
+        result.rows.map((r) => r.Value),
+        ["", "", "N/A or none", ""],
+      );
+    });
+  });
+
+  describe("regex mode", () => {
+    it("should support capture group backreferences", () => {
+      const table: ParseResult = {
+        rows: [
+          { Value: "10-20", Other: "St." },
+          { Value: "3-4", Other: "St." },
+          { Value: "x", Other: "St." },
+        ],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 3,
+            nullCount: 0,
+            sampleValues: ["10-20", "3-4", "x"],
+          },
+          { name: "Other", type: "string", nonNullCount: 3, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 3,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "(\\d+)-(\\d+)",
+        replaceWith: "$2-$1",
+        useRegex: true,
+      });
+
+      assert.deepStrictEqual(
+        result.rows.map((r) => r.Value),
+        ["20-10", "4-3", "x"],
+      );
+    });
+
+    it("should support named groups", () => {
+      const table: ParseResult = {
+        rows: [{ Value: "2024-03-15", Other: "St." }],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 1,
+            nullCount: 0,
+            sampleValues: ["2024-03-15"],
+          },
+          { name: "Other", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "(?<y>\\d{4})-(?<m>\\d{2})-(?<d>\\d{2})",
+        replaceWith: "$<d>/$<m>/$<y>",
+        useRegex: true,
+      });
+
+      assert.strictEqual(result.rows[0].Value, "15/03/2024");
+    });
+
+    it("should replace all matches", () => {
+      const table: ParseResult = {
+        rows: [{ Value: "a  b   c", Other: "St." }],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 1,
+            nullCount: 0,
+            sampleValues: ["a  b   c"],
+          },
+          { name: "Other", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "\\s+",
+        replaceWith: " ",
+        useRegex: true,
+      });
+
+      assert.strictEqual(result.rows[0].Value, "a b c");
+    });
+
+    it("should throw on invalid regex patterns", () => {
+      const table: ParseResult = {
+        rows: [{ Value: "x", Other: "St." }],
+        columns: [
+          { name: "Value", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["x"] },
+          { name: "Other", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      assert.throws(
+        () =>
+          replace(table, {
+            type: "replace",
+            columns: ["Value"],
+            find: "(unclosed",
+            replaceWith: "",
+            useRegex: true,
+          }),
+        /Invalid regex pattern/,
+      );
+    });
+  });
+
+  describe("column handling", () => {
+    it("should only modify the selected columns", () => {
+      const table: ParseResult = {
+        rows: [{ Value: "St.", Other: "St." }],
+        columns: [
+          { name: "Value", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["St."] },
+          { name: "Other", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "St.",
+        replaceWith: "Street",
+      });
+
+      assert.strictEqual(result.rows[0].Value, "Street");
+      assert.strictEqual(result.rows[0].Other, "St.");
+    });
+
+    it("should leave non-string values untouched", () => {
+      const table: ParseResult = {
+        rows: [
+          { Value: 12, Other: "St." },
+          { Value: null, Other: "St." },
+          { Value: true, Other: "St." },
+          { Value: "12", Other: "St." },
+        ],
+        columns: [
+          {
+            name: "Value",
+            type: "string",
+            nonNullCount: 3,
+            nullCount: 1,
+            sampleValues: [12, true, "12"],
+          },
+          { name: "Other", type: "string", nonNullCount: 4, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 4,
+        warnings: [],
+      };
+
+      const { table: result } = replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "12",
+        replaceWith: "twelve",
+      });
+
+      assert.deepStrictEqual(
+        result.rows.map((r) => r.Value),
+        [12, null, true, "twelve"],
+      );
+    });
+
+    it("should not mutate the input table", () => {
+      const table: ParseResult = {
+        rows: [{ Value: "St.", Other: "St." }],
+        columns: [
+          { name: "Value", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["St."] },
+          { name: "Other", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      replace(table, {
+        type: "replace",
+        columns: ["Value"],
+        find: "St.",
+        replaceWith: "Street",
+      });
+
+      assert.strictEqual(table.rows[0].Value, "St.");
+    });
+
+    it("should throw if columns don't exist", () => {
+      const table: ParseResult = {
+        rows: [{ Value: "x", Other: "St." }],
+        columns: [
+          { name: "Value", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["x"] },
+          { name: "Other", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      assert.throws(
+        () =>
+          replace(table, {
+            type: "replace",
+            columns: ["Missing"],
+            find: "x",
+            replaceWith: "y",
+          }),
+        /Columns not found: Missing/,
+      );
+    });
+
+    it("should throw if no columns are specified", () => {
+      const table: ParseResult = {
+        rows: [{ Value: "x", Other: "St." }],
+        columns: [
+          { name: "Value", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["x"] },
+          { name: "Other", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      assert.throws(
+        () => replace(table, { type: "replace", columns: [], find: "x", replaceWith: "y" }),
+        /At least one column must be specified/,
+      );
+    });
+
+    it("should throw if find text is empty", () => {
+      const table: ParseResult = {
+        rows: [{ Value: "x", Other: "St." }],
+        columns: [
+          { name: "Value", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["x"] },
+          { name: "Other", type: "string", nonNullCount: 1, nullCount: 0, sampleValues: ["St."] },
+        ],
+        rowCount: 1,
+        warnings: [],
+      };
+
+      assert.throws(
+        () => replace(table, { type: "replace", columns: ["Value"], find: "", replaceWith: "y" }),
+        /Find text cannot be empty/,
+      );
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Append (union) transformation
+ * Stacks rows from other sheets, uploads or pipeline results below the current rows
+ *
+ * Columns are aligned by name:
+ *   - union:        keep every column; rows missing a column get null
+ *   - intersection: keep only columns present in every table
+ *
+ * Example:
+ *   Input:  {Date: "2024-01-05", Sales: 100}               (sheet "Jan")
+ *   Source: {Date: "2024-02-03", Sales: 80, Notes: "late"} (sheet "Feb")
+ *   Config: sources: [{type: "upload", uploadId, sheetName: "Feb"}], sourceColumn: "Month",
+ *           currentLabel: "Jan"
+ *   Output: {Date: "2024-01-05", Sales: 100, Notes: null, Month: "Jan"}
+ *           {Date: "2024-02-03", Sales: 80, Notes: "late", Month: "Feb"}
+ *
+ * Source tables are resolved before execution (see loadStepSources) and passed
+ * in through the execution context, keyed by getSourceKey().
+ */
+
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import type { AppendConfig, AppendSource, ExecutionContext } from "../types";
+import { getSourceKey } from "../types";
+
+export function append(
+  table: ParseResult,
+  config: AppendConfig,
+  context?: ExecutionContext,
+): { table: ParseResult; columns: ColumnMetadata[] } {
+  // Validate configuration
+  validateConfig(table, config);
+
+  const { sources, columnMode = "union", sourceColumn, currentLabel = "current" } = config;
+
+  // Resolve source tables
+  const parts: Array<{ label: string; table: ParseResult }> = [
+    { label: currentLabel, table },
+    ...sources.map((source) => {
+      const key = getSourceKey(source);
+      const sourceTable = context?.sources?.[key];
+      if (!sourceTable) {
+        throw new Error(`Append source not loaded: ${key}`);
+      }
+      return { label: getSourceLabel(source), table: sourceTable };
+    }),
+  ];
+
+  // Work out output columns (current table order first, then new columns as they appear)
+  let columnNames: string[] = [];
+  for (const part of parts) {
+    for (const col of part.table.columns) {
+      if (!columnNames.includes(col.name)) {
+        columnNames.push(col.name);
+      }
+    }
+  }
+  if (columnMode === "intersection") {
+    columnNames = columnNames.filter((name) =>
+      parts.every((part) => part.table.columns.some((c) => c.name === name)),
+    );
+  }
+
+  if (sourceColumn && columnNames.includes(sourceColumn)) {
+    throw new Error(`Source column "${sourceColumn}" already exists`);
+  }
+
+  // Build rows
+  const newRows: Record<string, unknown>[] = [];
+  for (const part of parts) {
+    for (const row of part.table.rows) {
+      const newRow: Record<string, unknown> = {};
+      for (const name of columnNames) {
+        newRow[name] = row[name] ?? null;
+      }
+      if (sourceColumn) {
+        newRow[sourceColumn] = part.label;
+      }
+      newRows.push(newRow);
+    }
+  }
+
+  // Build column metadata; columns whose type differs between tables become strings
+  const newColumns: ColumnMetadata[] = columnNames.map((name) => {
+    const types = new Set(
+      parts
+        .map((part) => part.table.columns.find((c) => c.name === name)?.type)
+        .filter((type) => type !== undefined && type !== "null"),
+    );
+    const type = types.size === 1 ? Array.from(types)[0] : types.size === 0 ? "null" : "string";
+    return buildColumn(name, type ?? "string", newRows);
+  });
+  if (sourceColumn) {
+    newColumns.push(buildColumn(sourceColumn, "string", newRows));
+  }
+
+  const warnings = [...(table.warnings || [])];
+  if (columnMode === "union") {
+    for (const part of parts.slice(1)) {
+      const missing = columnNames.filter(
+        (name) => !part.table.columns.some((c) => c.name === name),
+      );
+      if (missing.length > 0) {
+        warnings.push(`Appended source "${part.label}" has no column(s): ${missing.join(", ")}`);
+      }
+    }
+  }
+
+  return {
+    table: {
+      rows: newRows,
+      columns: newColumns,
+      rowCount: newRows.length,
+      warnings,
+    },
+    columns: newColumns,
+  };
+}
+
+/**
+ * Label used to tag rows from a source
+ */
+function getSourceLabel(source: AppendSource): string {
+  if (source.label) return source.label;
+  if (source.type === "pipeline") return source.pipelineId;
+  return source.sheetName ?? source.uploadId;
+}
+
+/**
+ * Build column metadata from the output rows
+ */
+function buildColumn(
+  name: string,
+  type: ColumnMetadata["type"],
+  rows: Record<string, unknown>[],
+): ColumnMetadata {
+  const nonNullValues = rows
+    .map((row) => row[name])
+    .filter((value) => value !== null && value !== undefined && value !== "");
+  return {
+    name,
+    type,
+    nonNullCount: nonNullValues.length,
+    nullCount: rows.length - nonNullValues.length,
+    sampleValues: nonNullValues.slice(0, 5),
+  };
+}
+
+/**
+ * Validate append configuration
+ */
+function validateConfig(table: ParseResult, config: AppendConfig): void {
+  const { sources, columnMode = "union", sourceColumn } = config;
+
+  // Check sources are specified
+  if (!sources || sources.length === 0) {
+    throw new Error("At least one source must be specified");
+  }
+
+  // Check column mode
+  if (!["union", "intersection"].includes(columnMode)) {
+    throw new Error(`Unknown column mode: ${columnMode}`);
+  }
+
+  // Check source column name
+  if (sourceColumn !== undefined && !sourceColumn.trim()) {
+    throw new Error("Source column name cannot be empty");
+  }
+  if (sourceColumn && table.columns.some((c) => c.name === sourceColumn)) {
+    throw new Error(`Source column "${sourceColumn}" already exists`);
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Assert (expectation) step
+ * Checks rules against the table without changing it
+ *
+ * Example:
+ *   Config: rules: [
+ *             {kind: "not_null", column: "email"},
+ *             {kind: "unique", columns: ["id"]},
+ *             {kind: "row_count", min: 1, severity: "warn"},
+ *           ]
+ *   Fails the step if any email is empty or any id repeats; warns on an empty table.
+ *
+ * Row-level rules skip empty values (null, undefined or ""), except not_null.
+ * In quarantine mode, rows failing a "fail" rule are diverted to the rejects
+ * instead of failing the step; table-level rules (row_count, column_type)
+ * still fail it.
+ */
+
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import type {
+  AssertConfig,
+  AssertionResult,
+  AssertRule,
+  ExecutionContext,
+  RowRejection,
+} from "../types";
+import { AssertionFailedError } from "../types";
+import { matchesFilterCondition } from "./filter";
+
+/** Failing rows kept per rule in the step result */
+const SAMPLE_SIZE = 5;
+
+export function assertRules(
+  table: ParseResult,
+  config: AssertConfig,
+  context?: ExecutionContext,
+): {
+  table: ParseResult;
+  columns: ColumnMetadata[];
+  rejected: RowRejection[];
+  assertions: AssertionResult[];
+} {
+  // Validate configuration (also compiles regular expressions)
+  const regexes = validateConfig(table, config);
+
+  const columnTypes = new Map(table.columns.map((c) => [c.name, c.type]));
+  const assertions: AssertionResult[] = [];
+  // First rejection of each quarantined row, by row index
+  const rejections = new Map<number, RowRejection>();
+
+  for (const rule of config.rules) {
+    const severity = rule.severity ?? "fail";
+    const description = describeAssertRule(rule);
+
+    if (rule.kind === "row_count" || rule.kind === "column_type") {
+      const message = checkTable(table, rule, columnTypes);
+      assertions.push({
+        rule,
+        description,
+        severity,
+        passed: message === null,
+        failedCount: message === null ? 0 : 1,
+        sampleFailures: [],
+        ...(message !== null ? { message } : {}),
+      });
+      continue;
+    }
+
+    const failing = findFailingRows(table, rule, columnTypes, regexes.get(rule));
+    const quarantined =
+      failing.length > 0 && severity === "fail" && context?.rowErrorMode === "quarantine";
+
+    if (quarantined) {
+      for (const index of failing) {
+        if (!rejections.has(index)) {
+          rejections.set(index, createRejection(table.rows[index], rule, description));
+        }
+      }
+    }
+
+    assertions.push({
+      rule,
+      description,
+      severity,
+      passed: failing.length === 0,
+      failedCount: failing.length,
+      sampleFailures: failing.slice(0, SAMPLE_SIZE).map((index) => table.rows[index]),
+      ...(quarantined ? { quarantined } : {}),
+    });
+  }
+
+  const failures = assertions.filter(
+    (assertion) => !assertion.passed && assertion.severity === "fail" && !assertion.quarantined,
+  );
+  if (failures.length > 0) {
+    throw new AssertionFailedError(
+      `Assertion failed: ${failures
+        .map((failure) => `${failure.description} (${summarizeFailure(failure)})`)
+        .join("; ")}`,
+      "assert",
+      assertions,
+    );
+  }
+
+  const warnings = assertions
+    .filter((assertion) => !assertion.passed)
+    .map((assertion) =>
+      assertion.quarantined
+        ? `Assertion "${assertion.description}" failed: ${summarizeFailure(assertion)}; rows quarantined.`
+        : `Assertion "${assertion.description}" failed: ${summarizeFailure(assertion)}.`,
+    );
+
+  const rows =
+    rejections.size > 0 ? table.rows.filter((_, index) => !rejections.has(index)) : table.rows;
+
+  return {
+    table: {
+      ...table,
+      rows,
+      rowCount: rows.length,
+      warnings: [...(table.warnings || []), ...warnings],
+    },
+    columns: table.columns,
+    rejected: [...rejections.entries()].sort(([a], [b]) => a - b).map(([, rejection]) => rejection),
+    assertions,
+  };
+}
+
+/**
+ * Describe a rule as readable text, e.g. `email is not null`
+ */
+export function describeAssertRule(rule: AssertRule): string {
+  switch (rule.kind) {
+    case "not_null":
+      return `${rule.column} is not null`;
+    case "unique":
+      return `${rule.columns.join(", ")} ${rule.columns.length === 1 ? "is" : "are"} unique`;
+    case "in_set":
+      return `${rule.column} in [${rule.values.join(", ")}]`;
+    case "matches_regex":
+      return `${rule.column} matches /${rule.pattern}/`;
+    case "range":
+      return `${rule.column} ${describeBounds(rule.min, rule.max)}`;
+    case "row_count":
+      return `row count ${describeBounds(rule.min, rule.max)}`;
+    case "column_type":
+      return rule.columnType
+        ? `${rule.column} exists as ${rule.columnType}`
+        : `${rule.column} exists`;
+  }
+}
+
+function describeBounds(min: number | undefined, max: number | undefined): string {
+  if (min !== undefined && max !== undefined) {
+    return `between ${min} and ${max}`;
+  }
+  return min !== undefined ? `>= ${min}` : `<= ${max}`;
+}
+
+function summarizeFailure(assertion: AssertionResult): string {
+  return assertion.message ?? `${assertion.failedCount} row(s)`;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+/**
+ * Check a table-level rule
+ * Returns what was found if the rule fails, null if it passes
+ */
+function checkTable(
+  table: ParseResult,
+  rule: Extract<AssertRule, { kind: "row_count" | "column_type" }>,
+  columnTypes: Map<string, ColumnMetadata["type"]>,
+): string | null {
+  if (rule.kind === "row_count") {
+    const tooFew = rule.min !== undefined && table.rowCount < rule.min;
+    const tooMany = rule.max !== undefined && table.rowCount > rule.max;
+    return tooFew || tooMany ? `found ${table.rowCount} row(s)` : null;
+  }
+
+  const type = columnTypes.get(rule.column);
+  if (type === undefined) {
+    return `column "${rule.column}" not found`;
+  }
+  if (rule.columnType && type !== rule.columnType) {
+    return `column "${rule.column}" is ${type}`;
+  }
+  return null;
+}
+
+/**
+ * Indexes of the rows failing a row-level rule
+ */
+function findFailingRows(
+  table: ParseResult,
+  rule: Exclude<AssertRule, { kind: "row_count" | "column_type" }>,
+  columnTypes: Map<string, ColumnMetadata["type"]>,
+  regex: RegExp | undefined,
+): number[] {
+  const failing: number[] = [];
+
+  if (rule.kind === "unique") {
+    // Every occurrence after the first fails, so quarantining leaves the key unique
+    const seen = new Set<string>();
+    table.rows.forEach((row, index) => {
+      const key = JSON.stringify(rule.columns.map((column) => row[column] ?? null));
+      if (seen.has(key)) {
+        failing.push(index);
+      } else {
+        seen.add(key);
+      }
+    });
+    return failing;
+  }
+
+  table.rows.forEach((row, index) => {
+    const value = row[rule.column];
+    if (rule.kind === "not_null") {
+      if (isEmpty(value)) failing.push(index);
+      return;
+    }
+    if (isEmpty(value)) {
+      return;
+    }
+    if (!matchesRule(rule, value, columnTypes.get(rule.column), regex)) {
+      failing.push(index);
+    }
+  });
+
+  return failing;
+}
+
+function matchesRule(
+  rule: Extract<AssertRule, { kind: "in_set" | "matches_regex" | "range" }>,
+  value: unknown,
+  columnType: ColumnMetadata["type"] | undefined,
+  regex: RegExp | undefined,
+): boolean {
+  switch (rule.kind) {
+    case "in_set":
+      return matchesFilterCondition(
+        { kind: "condition", column: rule.column, operator: "in", values: rule.values },
+        value,
+        columnType,
+      );
+
+    case "matches_regex": {
+      const text = value instanceof Date ? value.toISOString() : String(value);
+      return regex?.test(text) ?? false;
+    }
+
+    case "range": {
+      const num =
+        typeof value === "number"
+          ? value
+          : typeof value === "string" && value.trim() !== ""
+            ? Number(value)
+            : Number.NaN;
+      if (Number.isNaN(num)) {
+        return false;
+      }
+      return (
+        (rule.min === undefined || num >= rule.min) && (rule.max === undefined || num <= rule.max)
+      );
+    }
+  }
+}
+
+function createRejection(
+  row: Record<string, unknown>,
+  rule: AssertRule,
+  description: string,
+): RowRejection {
+  const reason = `Validation failed: ${description}`;
+
+  if (rule.kind === "unique") {
+    return rule.columns.length === 1
+      ? { column: rule.columns[0], value: row[rule.columns[0]] ?? null, reason, row }
+      : { column: null, value: rule.columns.map((column) => row[column] ?? null), reason, row };
+  }
+
+  const column = "column" in rule ? rule.column : null;
+  return { column, value: column !== null ? (row[column] ?? null) : null, reason, row };
+}
+
+/**
+ * Validate assert configuration and compile the regular expressions
+ */
+function validateConfig(table: ParseResult, config: AssertConfig): Map<AssertRule, RegExp> {
+  if (!config.rules || config.rules.length === 0) {
+    throw new Error("At least one rule must be specified");
+  }
+
+  const columnNames = table.columns.map((c) => c.name);
+  const regexes = new Map<AssertRule, RegExp>();
+
+  for (const rule of config.rules) {
+    // column_type reports a missing column as a failed rule instead
+    const columns =
+      rule.kind === "unique"
+        ? rule.columns
+        : rule.kind === "row_count" || rule.kind === "column_type"
+          ? []
+          : [rule.column];
+
+    if (rule.kind === "unique" && columns.length === 0) {
+      throw new Error("Unique rule requires at least one column");
+    }
+
+    const invalidColumns = columns.filter((col) => !columnNames.includes(col));
+    if (invalidColumns.length > 0) {
+      throw new Error(`Columns not found: ${invalidColumns.join(", ")}`);
+    }
+
+    switch (rule.kind) {
+      case "in_set":
+        if (!rule.values || rule.values.length === 0) {
+          throw new Error("Value set rule requires at least one value");
+        }
+        break;
+
+      case "matches_regex":
+        try {
+          regexes.set(rule, new RegExp(rule.pattern));
+        } catch (error) {
+          throw new Error(
+            `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+        break;
+
+      case "range":
+      case "row_count":
+        if (rule.min === undefined && rule.max === undefined) {
+          throw new Error(
+            `${rule.kind === "range" ? "Range" : "Row count"} rule requires a min or max`,
+          );
+        }
+        break;
+    }
+  }
+
+  return regexes;
+}
@@ -0,0 +1,137 @@
+/**
+ * Calculated Column transformation
+ * Adds a new column whose value is computed per row from an expression
+ *
+ * Example:
+ *   Input:  {qty: 3, unit_price: 2.5}
+ *   Config: newColumn: "total", expression: "qty * unit_price"
+ *   Output: {qty: 3, unit_price: 2.5, total: 7.5}
+ */
+
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import { evaluateExpression, inferExpressionType } from "../expression/evaluate";
+import { collectColumnReferences, parseExpression } from "../expression/parser";
+import { ExpressionError } from "../expression/types";
+import type { CalculatedColumnConfig, ExecutionContext, RowRejection } from "../types";
+import { TransformationError } from "../types";
+
+export function calculatedColumn(
+  table: ParseResult,
+  config: CalculatedColumnConfig,
+  context?: ExecutionContext,
+): { table: ParseResult; columns: ColumnMetadata[]; rejected: RowRejection[] } {
+  const { newColumn, onError = "fail" } = config;
+  // Rows that would fail the step are quarantined instead
+  const quarantine = onError === "fail" && context?.rowErrorMode === "quarantine";
+
+  // Validate configuration (also parses the expression)
+  const expression = validateConfig(table, config);
+
+  const newRows: Record<string, unknown>[] = [];
+  const rejected: RowRejection[] = [];
+  let evaluationErrors = 0;
+
+  for (let i = 0; i < table.rows.length; i++) {
+    const row = table.rows[i];
+
+    try {
+      newRows.push({ ...row, [newColumn]: evaluateExpression(expression, row) });
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) {
+        throw error;
+      }
+
+      evaluationErrors++;
+
+      if (quarantine) {
+        rejected.push({ column: newColumn, value: null, reason: error.message, row });
+        continue;
+      }
+
+      if (onError === "fail") {
+        throw new TransformationError(
+          `Failed to evaluate expression in row ${i + 1}: ${error.message}`,
+          "calculated_column",
+          "calculated_column",
+          { row: i + 1, expression: config.expression, error: error.message },
+        );
+      }
+
+      newRows.push({ ...row, [newColumn]: null });
+    }
+  }
+
+  // Type comes from the expression itself, so it is correct even for empty tables
+  const inferredType = inferExpressionType(expression, table.columns);
+  const nonNullValues = newRows
+    .map((row) => row[newColumn])
+    .filter((value) => value !== null && value !== undefined && value !== "");
+
+  const newColumns: ColumnMetadata[] = [
+    ...table.columns,
+    {
+      name: newColumn,
+      type: inferredType === "null" ? "string" : inferredType,
+      nonNullCount: nonNullValues.length,
+      nullCount: newRows.length - nonNullValues.length,
+      sampleValues: nonNullValues.slice(0, 5),
+    },
+  ];
+
+  return {
+    table: {
+      rows: newRows,
+      columns: newColumns,
+      rowCount: newRows.length,
+      warnings: [
+        ...(table.warnings || []),
+        ...(evaluationErrors > 0
+          ? [
+              quarantine
+                ? `Calculated column "${newColumn}" could not be evaluated for ${evaluationErrors} row(s); rows quarantined.`
+                : `Calculated column "${newColumn}" could not be evaluated for ${evaluationErrors} row(s); values set to null.`,
+            ]
+          : []),
+      ],
+    },
+    columns: newColumns,
+    rejected,
+  };
+}
+
+/**
+ * Validate calculated column configuration and return the parsed expression
+ */
+function validateConfig(table: ParseResult, config: CalculatedColumnConfig) {
+  const { newColumn, expression } = config;
+
+  // Check new column name is not empty
+  if (!newColumn.trim()) {
+    throw new Error("New column name cannot be empty");
+  }
+
+  // Check new column doesn't conflict with existing columns
+  if (table.columns.find((c) => c.name === newColumn)) {
+    throw new Error(`New column "${newColumn}" already exists`);
+  }
+
+  let parsed: ReturnType<typeof parseExpression>;
+  try {
+    parsed = parseExpression(expression);
+  } catch (error) {
+    throw new Error(
+      `Invalid expression: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  // Check referenced columns exist
+  const columnNames = table.columns.map((c) => c.name);
+  const missingColumns = collectColumnReferences(parsed).filter(
+    (name) => !columnNames.includes(name),
+  );
+  if (missingColumns.length > 0) {
+    throw new Error(`Columns not found: ${missingColumns.join(", ")}`);
+  }
+
+  return parsed;
+}
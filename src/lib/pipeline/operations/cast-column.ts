@@ -4,15 +4,21 @@
  */
 
 import type { ColumnMetadata, InferredType, ParseResult } from "@/lib/parsers/types";
-import { tryCast } from "../casting/types";
-import type { CastColumnConfig } from "../types";
+import { isValidLocale, isValidTimezone } from "../casting/dates";
+import { getNumberSeparators } from "../casting/numbers";
+import { type CastOptions, tryCast } from "../casting/types";
+import type { CastColumnConfig, ExecutionContext, RowRejection } from "../types";
 import { TransformationError } from "../types";
 
 export function castColumn(
   table: ParseResult,
   config: CastColumnConfig,
-): { table: ParseResult; columns: ColumnMetadata[] } {
-  const { column, targetType, onError, format } = config;
+  context?: ExecutionContext,
+): { table: ParseResult; columns: ColumnMetadata[]; rejected: RowRejection[] } {
+  const { column, targetType, onError } = config;
+  const options = getCastOptions(config);
+  // Rows that would fail the step are quarantined instead
+  const quarantine = onError === "fail" && context?.rowErrorMode === "quarantine";
 
   // Validate column exists
   const columnExists = table.columns.some((col) => col.name === column);
@@ -22,7 +28,37 @@ export function castColumn(
     });
   }
 
+  if (config.timezone && !isValidTimezone(config.timezone)) {
+    throw new TransformationError(
+      `Unknown timezone: ${config.timezone}`,
+      "cast_column",
+      "cast_column",
+      { timezone: config.timezone },
+    );
+  }
+  if (config.locale && !isValidLocale(config.locale)) {
+    throw new TransformationError(
+      `Invalid locale: ${config.locale}`,
+      "cast_column",
+      "cast_column",
+      { locale: config.locale },
+    );
+  }
+  if (targetType === "number") {
+    try {
+      getNumberSeparators(options);
+    } catch (error) {
+      throw new TransformationError(
+        error instanceof Error ? error.message : String(error),
+        "cast_column",
+        "cast_column",
+        { decimalSeparator: config.decimalSeparator, groupSeparator: config.groupSeparator },
+      );
+    }
+  }
+
   const newRows: Record<string, unknown>[] = [];
+  const rejected: RowRejection[] = [];
   let castErrors = 0;
   let skippedRows = 0;
 
@@ -32,13 +68,20 @@ export function castColumn(
     const value = row[column];
 
     // Attempt cast
-    const castResult = tryCast(value, targetType, format);
+    const castResult = tryCast(value, targetType, options);
 
     if (!castResult.success) {
       castErrors++;
 
       // Handle error based on onError mode
-      if (onError === "fail") {
+      if (quarantine) {
+        rejected.push({
+          column,
+          value,
+          reason: castResult.error ?? `Cannot cast to ${targetType}`,
+          row,
+        });
+      } else if (onError === "fail") {
         throw new TransformationError(
           `Failed to cast value in row ${i + 1}: ${castResult.error}`,
           "cast_column",
@@ -67,8 +110,9 @@ export function castColumn(
   // Update column metadata
   const newColumns = table.columns.map((col) => {
     if (col.name === column) {
-      // Update type for casted column
-      const newType: InferredType = targetType as InferredType;
+      // Update type for casted column (formatted dates are text)
+      const newType: InferredType =
+        targetType === "date" && config.outputFormat ? "string" : (targetType as InferredType);
 
       // Count nulls after casting
       const nullCount = newRows.filter((row) => row[column] === null).length;
@@ -99,11 +143,21 @@ export function castColumn(
           ? [
               `Cast operation had ${castErrors} error(s). Mode: ${onError}. ${
                 skippedRows > 0 ? `Skipped ${skippedRows} row(s).` : ""
-              }`,
+              }${rejected.length > 0 ? `Quarantined ${rejected.length} row(s).` : ""}`,
             ]
           : []),
       ],
     },
     columns: newColumns,
+    rejected,
   };
 }
+
+/**
+ * Date and number options of a cast step
+ */
+export function getCastOptions(config: CastColumnConfig): CastOptions {
+  const { format, dateOrder, timezone, locale, decimalSeparator, groupSeparator, outputFormat } =
+    config;
+  return { format, dateOrder, timezone, locale, decimalSeparator, groupSeparator, outputFormat };
+}
@@ -0,0 +1,84 @@
+/**
+ * Merge clustered variants of a value into its canonical value
+ *
+ * Replays the clusters reviewed when the step was configured: every cell equal
+ * to one of a cluster's variants becomes the cluster's canonical value. Other
+ * cells, including new variants that appear later, are left unchanged.
+ *
+ * Example:
+ *   Input:  {vendor: "Acme, Inc"}
+ *   Config: column: "vendor", clusters: [{canonical: "ACME Inc.", values: ["Acme, Inc", "acme inc"]}]
+ *   Output: {vendor: "ACME Inc."}
+ */
+
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import { CLUSTER_METHODS } from "../clustering/clusters";
+import type { ClusterValuesConfig } from "../types";
+
+export function clusterValues(
+  table: ParseResult,
+  config: ClusterValuesConfig,
+): { table: ParseResult; columns: ColumnMetadata[] } {
+  const mapping = validateConfig(table, config);
+  const { column } = config;
+
+  // Transform rows
+  const newRows = table.rows.map((row) => {
+    const value = row[column];
+    const canonical = typeof value === "string" ? mapping.get(value) : undefined;
+    return canonical === undefined ? row : { ...row, [column]: canonical };
+  });
+
+  const newColumns = table.columns.map((col) =>
+    col.name === column
+      ? {
+          ...col,
+          sampleValues: newRows
+            .map((row) => row[column])
+            .filter((value) => value !== null && value !== undefined && value !== "")
+            .slice(0, 5),
+        }
+      : col,
+  );
+
+  return {
+    table: { ...table, rows: newRows, columns: newColumns },
+    columns: newColumns,
+  };
+}
+
+/**
+ * Validate cluster configuration and build the variant → canonical mapping
+ */
+function validateConfig(table: ParseResult, config: ClusterValuesConfig): Map<string, string> {
+  const { column, clusters, method, threshold } = config;
+
+  if (!table.columns.some((col) => col.name === column)) {
+    throw new Error(`Column "${column}" not found`);
+  }
+
+  if (!clusters || clusters.length === 0) {
+    throw new Error("At least one cluster must be specified");
+  }
+
+  if (method !== undefined && !CLUSTER_METHODS.includes(method)) {
+    throw new Error(`Unknown cluster method: ${method}`);
+  }
+
+  if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+    throw new Error("Threshold must be greater than 0 and at most 1");
+  }
+
+  const mapping = new Map<string, string>();
+  for (const { canonical, values } of clusters) {
+    for (const value of values) {
+      const existing = mapping.get(value);
+      if (existing !== undefined && existing !== canonical) {
+        throw new Error(`Value "${value}" is in more than one cluster`);
+      }
+      mapping.set(value, canonical);
+    }
+  }
+
+  return mapping;
+}
@@ -1,44 +1,98 @@
 /**
- * Remove duplicate rows
+ * Remove or flag duplicate rows
+ *
+ * Rows are duplicates when the compared columns hold the same values, type
+ * included (30 and "30" differ). Text can be compared ignoring case and
+ * whitespace. Within a group of duplicates, `keep` picks the surviving row in
+ * row order, or in the order of `orderBy` (e.g. the most recent update).
+ *
+ * Example:
+ *   Input:  {email: "A@x.com", updated: 1}, {email: " a@x.com", updated: 2}
+ *   Config: columns: ["email"], ignoreCase, ignoreWhitespace, keep: "last",
+ *           orderBy: {name: "updated", direction: "asc"}
+ *   Output: {email: " a@x.com", updated: 2}
  */
 
 import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
-import type { DeduplicateConfig } from "../types";
+import type { DeduplicateConfig, SortColumn } from "../types";
+import { compareValues } from "./sort";
+
+export const DUPLICATE_FLAG_COLUMN = "is_duplicate";
+export const DUPLICATE_GROUP_COLUMN = "duplicate_group";
 
 export function deduplicate(
   table: ParseResult,
   config: DeduplicateConfig,
-): { table: ParseResult; columns: ColumnMetadata[] } {
-  const columnsToCheck = config.columns || table.columns.map((c) => c.name);
+): { table: ParseResult; columns: ColumnMetadata[]; duplicateGroups: number } {
+  const columnsToCheck = validateConfig(table, config);
+  const { keep = "first", orderBy, mode = "remove" } = config;
 
-  // Validate columns exist
-  const columnNames = table.columns.map((c) => c.name);
-  const invalidColumns = columnsToCheck.filter((col) => !columnNames.includes(col));
-
-  if (invalidColumns.length > 0) {
-    throw new Error(`Columns not found: ${invalidColumns.join(", ")}`);
-  }
-
-  // Use Set to track unique row signatures
-  const seen = new Set<string>();
-  const uniqueRows: typeof table.rows = [];
-
-  for (const row of table.rows) {
-    // Create signature based on specified columns
+  // Group row indexes by signature, in order of first appearance
+  const groups = new Map<string, number[]>();
+  for (const [index, row] of table.rows.entries()) {
     const signature = columnsToCheck
-      .map((col) => {
-        const value = row[col];
-        // Convert to string for comparison
-        return JSON.stringify(value);
-      })
+      .map((col) => JSON.stringify(normalizeDuplicateValue(row[col], config)))
       .join("|");
+    const group = groups.get(signature);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(signature, [index]);
+    }
+  }
 
-    if (!seen.has(signature)) {
-      seen.add(signature);
-      uniqueRows.push(row);
+  // Rows that don't survive, and the group number of every duplicated row
+  const duplicates = new Set<number>();
+  const groupNumbers = new Map<number, number>();
+  let duplicateGroups = 0;
+
+  for (const group of groups.values()) {
+    if (group.length < 2) {
+      continue;
+    }
+    duplicateGroups++;
+    const survivor = keep === "none" ? undefined : pickSurvivor(table, group, keep, orderBy);
+    for (const index of group) {
+      groupNumbers.set(index, duplicateGroups);
+      if (index !== survivor) {
+        duplicates.add(index);
+      }
     }
   }
 
+  if (mode === "flag") {
+    const rows = table.rows.map((row, index) => ({
+      ...row,
+      [DUPLICATE_FLAG_COLUMN]: duplicates.has(index),
+      [DUPLICATE_GROUP_COLUMN]: groupNumbers.get(index) ?? null,
+    }));
+    const columns: ColumnMetadata[] = [
+      ...table.columns,
+      {
+        name: DUPLICATE_FLAG_COLUMN,
+        type: "boolean",
+        nonNullCount: rows.length,
+        nullCount: 0,
+        sampleValues: rows.slice(0, 5).map((row) => row[DUPLICATE_FLAG_COLUMN]),
+      },
+      {
+        name: DUPLICATE_GROUP_COLUMN,
+        type: "number",
+        nonNullCount: groupNumbers.size,
+        nullCount: rows.length - groupNumbers.size,
+        sampleValues: [...new Set(groupNumbers.values())].slice(0, 5),
+      },
+    ];
+
+    return {
+      table: { ...table, rows, columns },
+      columns,
+      duplicateGroups,
+    };
+  }
+
+  const uniqueRows = table.rows.filter((_, index) => !duplicates.has(index));
+
   const result = {
     ...table,
     rows: uniqueRows,
@@ -48,5 +102,78 @@ export function deduplicate(
   return {
     table: result,
     columns: result.columns,
+    duplicateGroups,
   };
 }
+
+/**
+ * Value used to compare a cell (text normalized as configured)
+ */
+export function normalizeDuplicateValue(
+  value: unknown,
+  config: Pick<DeduplicateConfig, "ignoreCase" | "ignoreWhitespace">,
+): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  let text = value;
+  if (config.ignoreWhitespace) {
+    text = text.trim().replace(/\s+/g, " ");
+  }
+  if (config.ignoreCase) {
+    text = text.toLowerCase();
+  }
+  return text;
+}
+
+/**
+ * Index of the row that survives in a group of duplicates
+ * Rows without an ordering value never win over rows with one.
+ */
+function pickSurvivor(
+  table: ParseResult,
+  group: number[],
+  keep: "first" | "last",
+  orderBy?: SortColumn,
+): number {
+  const ordered = orderBy
+    ? [...group].sort((a, b) =>
+        compareValues(
+          table.rows[a][orderBy.name],
+          table.rows[b][orderBy.name],
+          orderBy.direction || "asc",
+          keep === "last" ? "first" : "last",
+        ),
+      )
+    : group;
+  return keep === "last" ? ordered[ordered.length - 1] : ordered[0];
+}
+
+/**
+ * Validate deduplicate configuration and return the compared columns
+ */
+function validateConfig(table: ParseResult, config: DeduplicateConfig): string[] {
+  const columnsToCheck = config.columns || table.columns.map((c) => c.name);
+
+  // Validate columns exist
+  const columnNames = table.columns.map((c) => c.name);
+  const invalidColumns = columnsToCheck.filter((col) => !columnNames.includes(col));
+
+  if (invalidColumns.length > 0) {
+    throw new Error(`Columns not found: ${invalidColumns.join(", ")}`);
+  }
+
+  if (config.orderBy && !columnNames.includes(config.orderBy.name)) {
+    throw new Error(`Order column "${config.orderBy.name}" not found`);
+  }
+
+  if (config.mode === "flag") {
+    for (const name of [DUPLICATE_FLAG_COLUMN, DUPLICATE_GROUP_COLUMN]) {
+      if (columnNames.includes(name)) {
+        throw new Error(`Column "${name}" already exists`);
+      }
+    }
+  }
+
+  return columnsToCheck;
+}
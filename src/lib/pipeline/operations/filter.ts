@@ -1,72 +1,43 @@
 /**
  * Filter rows based on conditions
+ *
+ * Conditions can be combined into AND/OR/NOT groups:
+ *   Config: condition: {kind: "and", conditions: [
+ *             {kind: "condition", column: "region", operator: "equals", value: "EU"},
+ *             {kind: "or", conditions: [
+ *               {kind: "condition", column: "amount", operator: "greater_than", value: 100},
+ *               {kind: "condition", column: "vip", operator: "equals", value: true},
+ *             ]},
+ *           ]}
+ *   Keeps:  region = EU AND (amount > 100 OR vip = true)
+ *
+ * A single column/operator/value config (the original format) is still accepted.
+ *
+ * Comparisons are type-aware: date columns and Date values compare as dates (both
+ * sides cast with castToDate), and numeric strings compare against number cells
+ * as numbers.
  */
 
 import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
-import type { FilterConfig } from "../types";
+import { castToDate } from "../casting/types";
+import type { FilterCondition, FilterConfig, FilterNode, FilterValue } from "../types";
 
 export function filter(
   table: ParseResult,
   config: FilterConfig,
 ): { table: ParseResult; columns: ColumnMetadata[] } {
-  // Validate column exists
-  const columnNames = table.columns.map((c) => c.name);
-  if (!columnNames.includes(config.column)) {
-    throw new Error(`Column not found: ${config.column}`);
-  }
+  const condition = getFilterCondition(config);
+
+  // Validate conditions (also compiles regular expressions)
+  const regexes = new Map<FilterCondition, RegExp>();
+  validateNode(table, condition, regexes);
 
-  // Filter rows based on condition
-  const filteredRows = table.rows.filter((row) => {
-    const value = row[config.column];
-    const compareValue = config.value;
-
-    switch (config.operator) {
-      case "equals":
-        return value === compareValue;
-
-      case "not_equals":
-        return value !== compareValue;
-
-      case "contains":
-        if (typeof value === "string" && typeof compareValue === "string") {
-          return value.includes(compareValue);
-        }
-        return false;
-
-      case "not_contains":
-        if (typeof value === "string" && typeof compareValue === "string") {
-          return !value.includes(compareValue);
-        }
-        return true; // Non-strings don't contain anything
-
-      case "greater_than":
-        if (typeof value === "number" && typeof compareValue === "number") {
-          return value > compareValue;
-        }
-        if (typeof value === "string" && typeof compareValue === "string") {
-          return value > compareValue;
-        }
-        return false;
-
-      case "less_than":
-        if (typeof value === "number" && typeof compareValue === "number") {
-          return value < compareValue;
-        }
-        if (typeof value === "string" && typeof compareValue === "string") {
-          return value < compareValue;
-        }
-        return false;
-
-      case "is_null":
-        return value === null || value === undefined;
-
-      case "not_null":
-        return value !== null && value !== undefined;
-
-      default:
-        throw new Error(`Unknown operator: ${config.operator}`);
-    }
-  });
+  const columnTypes = new Map(table.columns.map((c) => [c.name, c.type]));
+
+  // Filter rows based on condition tree
+  const filteredRows = table.rows.filter((row) =>
+    evaluateNode(condition, row, columnTypes, regexes),
+  );
 
   const result = {
     ...table,
@@ -79,3 +50,305 @@ export function filter(
     columns: result.columns,
   };
 }
+
+/**
+ * Get the condition tree of a filter config
+ * Converts the single column/operator/value format into a condition node
+ */
+export function getFilterCondition(config: FilterConfig): FilterNode {
+  if (config.condition) {
+    return config.condition;
+  }
+
+  if (config.column === undefined || config.operator === undefined) {
+    throw new Error("Filter condition must be specified");
+  }
+
+  return {
+    kind: "condition",
+    column: config.column,
+    operator: config.operator,
+    value: config.value,
+  };
+}
+
+/**
+ * Describe a condition tree as readable text, e.g. `region equals EU AND (amount > 100 OR ...)`
+ */
+export function describeFilterCondition(node: FilterNode): string {
+  switch (node.kind) {
+    case "and":
+    case "or":
+      return node.conditions
+        .map((child) =>
+          child.kind === "and" || child.kind === "or"
+            ? `(${describeFilterCondition(child)})`
+            : describeFilterCondition(child),
+        )
+        .join(node.kind === "and" ? " AND " : " OR ");
+
+    case "not":
+      return `NOT (${describeFilterCondition(node.condition)})`;
+
+    case "condition":
+      switch (node.operator) {
+        case "is_null":
+        case "not_null":
+          return `${node.column} ${node.operator}`;
+        case "between":
+          return `${node.column} between ${node.values?.[0]} and ${node.values?.[1]}`;
+        case "in":
+        case "not_in":
+          return `${node.column} ${node.operator} [${(node.values || []).join(", ")}]`;
+        default:
+          return `${node.column} ${node.operator} ${node.value}`;
+      }
+  }
+}
+
+function evaluateNode(
+  node: FilterNode,
+  row: Record<string, unknown>,
+  columnTypes: Map<string, ColumnMetadata["type"]>,
+  regexes: Map<FilterCondition, RegExp>,
+): boolean {
+  switch (node.kind) {
+    case "and":
+      return node.conditions.every((child) => evaluateNode(child, row, columnTypes, regexes));
+    case "or":
+      return node.conditions.some((child) => evaluateNode(child, row, columnTypes, regexes));
+    case "not":
+      return !evaluateNode(node.condition, row, columnTypes, regexes);
+    case "condition":
+      return matchesFilterCondition(
+        node,
+        row[node.column],
+        columnTypes.get(node.column),
+        regexes.get(node),
+      );
+  }
+}
+
+/**
+ * Test a single cell against a condition
+ * `regex` is the compiled pattern of a matches_regex condition.
+ */
+export function matchesFilterCondition(
+  condition: FilterCondition,
+  value: unknown,
+  columnType: ColumnMetadata["type"] | undefined,
+  regex?: RegExp,
+): boolean {
+  const compareValue = condition.value;
+  const values = condition.values || [];
+
+  switch (condition.operator) {
+    case "equals":
+      return valuesEqual(value, compareValue, columnType);
+
+    case "not_equals":
+      return !valuesEqual(value, compareValue, columnType);
+
+    case "contains":
+      if (typeof value === "string" && typeof compareValue === "string") {
+        return value.includes(compareValue);
+      }
+      return false;
+
+    case "not_contains":
+      if (typeof value === "string" && typeof compareValue === "string") {
+        return !value.includes(compareValue);
+      }
+      return true; // Non-strings don't contain anything
+
+    case "starts_with":
+      return typeof value === "string" && value.startsWith(String(compareValue ?? ""));
+
+    case "ends_with":
+      return typeof value === "string" && value.endsWith(String(compareValue ?? ""));
+
+    case "matches_regex":
+      return typeof value === "string" && regex !== undefined && regex.test(value);
+
+    case "greater_than":
+      return compare(value, compareValue, columnType, (c) => c > 0);
+
+    case "greater_or_equal":
+      return compare(value, compareValue, columnType, (c) => c >= 0);
+
+    case "less_than":
+      return compare(value, compareValue, columnType, (c) => c < 0);
+
+    case "less_or_equal":
+      return compare(value, compareValue, columnType, (c) => c <= 0);
+
+    case "between":
+      return (
+        compare(value, values[0], columnType, (c) => c >= 0) &&
+        compare(value, values[1], columnType, (c) => c <= 0)
+      );
+
+    case "in":
+      return values.some((v) => valuesEqual(value, v, columnType));
+
+    case "not_in":
+      return !values.some((v) => valuesEqual(value, v, columnType));
+
+    case "is_null":
+      return value === null || value === undefined;
+
+    case "not_null":
+      return value !== null && value !== undefined;
+
+    default:
+      throw new Error(`Unknown operator: ${condition.operator}`);
+  }
+}
+
+/**
+ * Whether comparisons against this value should be made as dates
+ */
+function isDateComparison(value: unknown, columnType: ColumnMetadata["type"] | undefined) {
+  return value instanceof Date || (columnType === "date" && typeof value === "string");
+}
+
+/**
+ * Convert a numeric string filter value so it can be compared with a number cell
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const num = Number(value);
+    return Number.isNaN(num) ? null : num;
+  }
+  return null;
+}
+
+function valuesEqual(
+  value: unknown,
+  compareValue: FilterValue | undefined,
+  columnType: ColumnMetadata["type"] | undefined,
+): boolean {
+  if (value === compareValue) return true;
+  if (value === null || value === undefined || compareValue === undefined) return false;
+
+  if (isDateComparison(value, columnType)) {
+    const a = castToDate(value);
+    const b = castToDate(compareValue);
+    return a !== null && b !== null && a.getTime() === b.getTime();
+  }
+
+  if (typeof value === "number" && typeof compareValue === "string") {
+    return toNumber(compareValue) === value;
+  }
+
+  if (typeof value === "boolean" && typeof compareValue === "string") {
+    return String(value) === compareValue.trim().toLowerCase();
+  }
+
+  return false;
+}
+
+/**
+ * Compare a cell with a filter value
+ * Returns false when the values cannot be compared (e.g. number vs text)
+ */
+function compare(
+  value: unknown,
+  compareValue: FilterValue | undefined,
+  columnType: ColumnMetadata["type"] | undefined,
+  test: (comparison: number) => boolean,
+): boolean {
+  if (value === null || value === undefined || compareValue === undefined) return false;
+
+  if (isDateComparison(value, columnType)) {
+    const a = castToDate(value);
+    const b = castToDate(compareValue);
+    return a !== null && b !== null && test(a.getTime() - b.getTime());
+  }
+
+  if (typeof value === "number") {
+    const num = toNumber(compareValue);
+    return num !== null && test(value - num);
+  }
+
+  if (typeof value === "string" && typeof compareValue === "string") {
+    return test(value < compareValue ? -1 : value > compareValue ? 1 : 0);
+  }
+
+  return false;
+}
+
+/**
+ * Validate a condition tree
+ */
+function validateNode(
+  table: ParseResult,
+  node: FilterNode,
+  regexes: Map<FilterCondition, RegExp>,
+): void {
+  switch (node.kind) {
+    case "and":
+    case "or":
+      if (!node.conditions || node.conditions.length === 0) {
+        throw new Error(
+          `Filter ${node.kind.toUpperCase()} group must contain at least one condition`,
+        );
+      }
+      for (const child of node.conditions) {
+        validateNode(table, child, regexes);
+      }
+      return;
+
+    case "not":
+      if (!node.condition) {
+        throw new Error("Filter NOT group must contain a condition");
+      }
+      validateNode(table, node.condition, regexes);
+      return;
+
+    case "condition":
+      validateCondition(table, node, regexes);
+      return;
+
+    default:
+      throw new Error(`Unknown filter node: ${(node as { kind?: string }).kind}`);
+  }
+}
+
+function validateCondition(
+  table: ParseResult,
+  condition: FilterCondition,
+  regexes: Map<FilterCondition, RegExp>,
+): void {
+  // Check column exists
+  const columnNames = table.columns.map((c) => c.name);
+  if (!columnNames.includes(condition.column)) {
+    throw new Error(`Column not found: ${condition.column}`);
+  }
+
+  switch (condition.operator) {
+    case "in":
+    case "not_in":
+      if (!condition.values || condition.values.length === 0) {
+        throw new Error(`Operator "${condition.operator}" requires at least one value`);
+      }
+      break;
+
+    case "between":
+      if (!condition.values || condition.values.length !== 2) {
+        throw new Error('Operator "between" requires exactly two values (min and max)');
+      }
+      break;
+
+    case "matches_regex":
+      try {
+        regexes.set(condition, new RegExp(String(condition.value ?? "")));
+      } catch (error) {
+        throw new Error(
+          `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      break;
+  }
+}
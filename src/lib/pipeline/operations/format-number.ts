@@ -0,0 +1,101 @@
+/**
+ * Format number columns as text
+ *
+ * Renders numbers with fixed decimals, grouping and an optional currency in a
+ * locale's style, for exports that need numbers as people read them. Numeric
+ * text is read first (see castToNumber); values that aren't numbers are left
+ * unchanged.
+ *
+ * Example:
+ *   Input:  {price: 1234.5}
+ *   Config: columns: ["price"], decimals: 2, currency: "EUR", locale: "de-DE"
+ *   Output: {price: "1.234,50 €"}
+ */
+
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import { formatNumber, isValidCurrency, type NumberFormatOptions } from "../casting/numbers";
+import { castToNumber } from "../casting/types";
+import type { FormatNumberConfig } from "../types";
+
+export function formatNumberColumns(
+  table: ParseResult,
+  config: FormatNumberConfig,
+): { table: ParseResult; columns: ColumnMetadata[] } {
+  const options = validateConfig(table, config);
+
+  // Transform rows
+  const newRows = table.rows.map((row) => {
+    const newRow = { ...row };
+    for (const colName of config.columns) {
+      const value = typeof newRow[colName] === "boolean" ? null : castToNumber(newRow[colName]);
+      if (value !== null) {
+        newRow[colName] = formatNumber(value, options);
+      }
+    }
+    return newRow;
+  });
+
+  // Formatted columns hold text
+  const newColumns = table.columns.map((col) =>
+    config.columns.includes(col.name)
+      ? {
+          ...col,
+          type: "string" as const,
+          sampleValues: newRows
+            .map((row) => row[col.name])
+            .filter((value) => value !== null && value !== undefined && value !== "")
+            .slice(0, 5),
+        }
+      : col,
+  );
+
+  return {
+    table: { ...table, rows: newRows, columns: newColumns },
+    columns: newColumns,
+  };
+}
+
+/**
+ * Validate format configuration and build the format options
+ */
+function validateConfig(table: ParseResult, config: FormatNumberConfig): NumberFormatOptions {
+  const { columns, decimals, grouping, locale, currency } = config;
+
+  // Check columns are specified
+  if (!columns || columns.length === 0) {
+    throw new Error("At least one column must be specified");
+  }
+
+  // Check columns exist
+  const columnNames = table.columns.map((c) => c.name);
+  const invalidColumns = columns.filter((col) => !columnNames.includes(col));
+  if (invalidColumns.length > 0) {
+    throw new Error(`Columns not found: ${invalidColumns.join(", ")}`);
+  }
+
+  if (decimals !== undefined && (!Number.isInteger(decimals) || decimals < 0 || decimals > 20)) {
+    throw new Error("Decimals must be a whole number from 0 to 20");
+  }
+
+  if (currency && !isValidCurrency(currency)) {
+    throw new Error(`Unknown currency code: ${currency}`);
+  }
+
+  const options: NumberFormatOptions = {
+    decimals,
+    grouping,
+    locale,
+    currency: currency?.toUpperCase(),
+  };
+
+  // Check the locale by formatting once
+  try {
+    formatNumber(0, options);
+  } catch (error) {
+    throw new Error(
+      `Invalid locale: ${locale} (${error instanceof Error ? error.message : String(error)})`,
+    );
+  }
+
+  return options;
+}
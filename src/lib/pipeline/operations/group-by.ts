@@ -0,0 +1,165 @@
+/**
+ * Group By transformation
+ * Collapses rows by key columns and computes named aggregates
+ *
+ * Example:
+ *   Input:
+ *     {Region: "North", Sales: 100}
+ *     {Region: "North", Sales: 200}
+ *     {Region: "South", Sales: 50}
+ *   Config: groupBy: ["Region"],
+ *           aggregations: [{column: "Sales", aggregation: "sum", newColumn: "Total"}]
+ *   Output: {Region: "North", Total: 300}, {Region: "South", Total: 50}
+ *
+ * Empty values are ignored by every aggregation (first/last return the first/last
+ * non-empty value). A count without a column counts rows.
+ */
+
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import { aggregateValues, getAggregationType } from "@/lib/pipeline/aggregation";
+import type { GroupByConfig } from "@/lib/pipeline/types";
+
+export function groupBy(
+  table: ParseResult,
+  config: GroupByConfig,
+): { table: ParseResult; columns: ColumnMetadata[] } {
+  // Validate configuration
+  validateConfig(table, config);
+
+  const { groupBy: keyColumns, aggregations } = config;
+
+  // Group rows by key columns, keeping groups in order of first appearance
+  const grouped = new Map<string, Record<string, unknown>[]>();
+
+  for (const row of table.rows) {
+    const key = JSON.stringify(keyColumns.map((col) => normalizeKey(row[col])));
+    const rows = grouped.get(key);
+    if (rows) {
+      rows.push(row);
+    } else {
+      grouped.set(key, [row]);
+    }
+  }
+
+  // Build one row per group
+  const newRows: Record<string, unknown>[] = [];
+
+  for (const rows of grouped.values()) {
+    const newRow: Record<string, unknown> = {};
+
+    // Key values come from the first row in the group
+    for (const keyCol of keyColumns) {
+      newRow[keyCol] = rows[0][keyCol] ?? null;
+    }
+
+    for (const agg of aggregations) {
+      const values =
+        agg.column === undefined
+          ? rows
+          : rows.map((r) => r[agg.column as string]).filter((v) => !isEmpty(v));
+      newRow[agg.newColumn] = aggregateValues(values, agg.aggregation, agg.separator);
+    }
+
+    newRows.push(newRow);
+  }
+
+  // Build column metadata: key columns keep their types, aggregates get the result type
+  const newColumns: ColumnMetadata[] = [
+    ...keyColumns.map((keyCol) => {
+      const originalCol = table.columns.find((c) => c.name === keyCol);
+      return buildColumn(keyCol, originalCol?.type ?? "string", newRows);
+    }),
+    ...aggregations.map((agg) => {
+      const sourceCol = table.columns.find((c) => c.name === agg.column);
+      return buildColumn(
+        agg.newColumn,
+        getAggregationType(agg.aggregation, sourceCol?.type),
+        newRows,
+      );
+    }),
+  ];
+
+  const result = {
+    rows: newRows,
+    columns: newColumns,
+    rowCount: newRows.length,
+    warnings: table.warnings,
+  };
+
+  return {
+    table: result,
+    columns: newColumns,
+  };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+/**
+ * Normalize a key value so equal values land in the same group
+ */
+function normalizeKey(value: unknown): unknown {
+  if (isEmpty(value)) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+/**
+ * Build column metadata from the output rows
+ */
+function buildColumn(
+  name: string,
+  type: ColumnMetadata["type"],
+  rows: Record<string, unknown>[],
+): ColumnMetadata {
+  const nonNullValues = rows.map((row) => row[name]).filter((value) => !isEmpty(value));
+  return {
+    name,
+    type,
+    nonNullCount: nonNullValues.length,
+    nullCount: rows.length - nonNullValues.length,
+    sampleValues: nonNullValues.slice(0, 5),
+  };
+}
+
+/**
+ * Validate group by configuration
+ */
+function validateConfig(table: ParseResult, config: GroupByConfig): void {
+  const { groupBy: keyColumns, aggregations } = config;
+
+  // Check key columns exist
+  const columnNames = table.columns.map((c) => c.name);
+  const missingKeys = keyColumns.filter((col) => !columnNames.includes(col));
+  if (missingKeys.length > 0) {
+    throw new Error(`Columns not found: ${missingKeys.join(", ")}`);
+  }
+
+  // Check there is something to compute
+  if (aggregations.length === 0 && keyColumns.length === 0) {
+    throw new Error("At least one group column or aggregation must be specified");
+  }
+
+  const outputNames = new Set(keyColumns);
+
+  for (const agg of aggregations) {
+    // Check output name
+    if (!agg.newColumn?.trim()) {
+      throw new Error("Aggregation column name cannot be empty");
+    }
+    if (outputNames.has(agg.newColumn)) {
+      throw new Error(`Duplicate output column "${agg.newColumn}"`);
+    }
+    outputNames.add(agg.newColumn);
+
+    // Check source column
+    if (agg.column === undefined) {
+      if (agg.aggregation !== "count") {
+        throw new Error(`Aggregation "${agg.aggregation}" requires a source column`);
+      }
+    } else if (!columnNames.includes(agg.column)) {
+      throw new Error(`Columns not found: ${agg.column}`);
+    }
+  }
+}
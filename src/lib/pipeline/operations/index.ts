@@ -3,16 +3,25 @@
  */
 
 import type { OperationFn, TransformationConfig, TransformationType } from "../types";
+import { append } from "./append";
+import { assertRules } from "./assert";
+import { calculatedColumn } from "./calculated-column";
 import { castColumn } from "./cast-column";
+import { clusterValues } from "./cluster-values";
 import { deduplicate } from "./deduplicate";
 import { fillAcross } from "./fill-across";
 import { fillDown } from "./fill-down";
 import { filter } from "./filter";
+import { formatNumberColumns } from "./format-number";
+import { groupBy } from "./group-by";
+import { join } from "./join";
 import { lowercase } from "./lowercase";
+import { mapValues } from "./map-values";
 import { mergeColumns } from "./merge-columns";
 import { pivot } from "./pivot";
 import { removeColumn } from "./remove-column";
 import { renameColumn } from "./rename-column";
+import { replace } from "./replace";
 import { sort } from "./sort";
 import { splitColumn } from "./split-column";
 import { trim } from "./trim";
@@ -38,6 +47,15 @@ export const operations: Record<TransformationType, OperationFn<TransformationCo
   fill_down: fillDown,
   fill_across: fillAcross,
   sort,
+  calculated_column: calculatedColumn,
+  replace,
+  join,
+  group_by: groupBy,
+  append,
+  assert: assertRules,
+  format_number: formatNumberColumns,
+  cluster_values: clusterValues,
+  map_values: mapValues,
 } as Record<TransformationType, OperationFn<TransformationConfig>>;
 
 /**
@@ -68,4 +86,13 @@ export {
   fillDown,
   fillAcross,
   sort,
+  calculatedColumn,
+  replace,
+  join,
+  groupBy,
+  append,
+  assertRules,
+  formatNumberColumns,
+  clusterValues,
+  mapValues,
 };
@@ -0,0 +1,228 @@
+/**
+ * Join transformation
+ * Merges the current table with a secondary table (another upload or another
+ * pipeline's result) on one or more key columns
+ *
+ * Join types:
+ *   - left:  keep every current row, fill unmatched right columns with null
+ *   - inner: keep only rows with a match on both sides
+ *   - full:  keep every row from both sides
+ *   - anti:  keep only current rows without a match (no right columns added)
+ *
+ * Example:
+ *   Input:  {code: "A1", qty: 3}
+ *   Source: {product_code: "A1", name: "Widget"}
+ *   Config: on: [{left: "code", right: "product_code"}], joinType: "left"
+ *   Output: {code: "A1", qty: 3, name: "Widget"}
+ *
+ * The secondary table is resolved before execution (see loadStepSources) and
+ * passed in through the execution context, keyed by getSourceKey().
+ */
+
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import type { ExecutionContext, JoinConfig } from "../types";
+import { getSourceKey } from "../types";
+
+export function join(
+  table: ParseResult,
+  config: JoinConfig,
+  context?: ExecutionContext,
+): { table: ParseResult; columns: ColumnMetadata[] } {
+  const sourceKey = getSourceKey(config.source);
+  const right = context?.sources?.[sourceKey];
+  if (!right) {
+    throw new Error(`Join source not loaded: ${sourceKey}`);
+  }
+
+  // Validate configuration and work out output names for right-hand columns
+  const rightColumnNames = validateConfig(table, right, config);
+
+  const { on, joinType } = config;
+  const leftKeys = on.map((pair) => pair.left);
+  const rightKeys = on.map((pair) => pair.right);
+
+  // Index right rows by key
+  const rightIndex = new Map<string, number[]>();
+  right.rows.forEach((row, index) => {
+    const key = buildKey(row, rightKeys);
+    if (key === null) return;
+    const matches = rightIndex.get(key);
+    if (matches) {
+      matches.push(index);
+    } else {
+      rightIndex.set(key, [index]);
+    }
+  });
+
+  const matchedRight = new Set<number>();
+  const newRows: Record<string, unknown>[] = [];
+  let multiMatchRows = 0;
+
+  for (const leftRow of table.rows) {
+    const key = buildKey(leftRow, leftKeys);
+    const matches = key === null ? undefined : rightIndex.get(key);
+
+    if (joinType === "anti") {
+      if (!matches) {
+        newRows.push({ ...leftRow });
+      }
+      continue;
+    }
+
+    if (matches) {
+      if (matches.length > 1) {
+        multiMatchRows++;
+      }
+      for (const rightIndexValue of matches) {
+        matchedRight.add(rightIndexValue);
+        newRows.push(mergeRows(leftRow, right.rows[rightIndexValue], rightColumnNames));
+      }
+    } else if (joinType === "left" || joinType === "full") {
+      newRows.push(mergeRows(leftRow, null, rightColumnNames));
+    }
+  }
+
+  // Full joins also keep right rows that never matched, with the key copied across
+  if (joinType === "full") {
+    right.rows.forEach((rightRow, index) => {
+      if (matchedRight.has(index)) return;
+      const emptyLeft: Record<string, unknown> = {};
+      for (const col of table.columns) {
+        emptyLeft[col.name] = null;
+      }
+      on.forEach((pair) => {
+        emptyLeft[pair.left] = rightRow[pair.right] ?? null;
+      });
+      newRows.push(mergeRows(emptyLeft, rightRow, rightColumnNames));
+    });
+  }
+
+  // Build column metadata: left columns unchanged, right columns counted on the output
+  const addedColumns: ColumnMetadata[] =
+    joinType === "anti"
+      ? []
+      : Array.from(rightColumnNames.entries()).map(([sourceName, outputName]) => {
+          const sourceColumn = right.columns.find((c) => c.name === sourceName);
+          const nonNullValues = newRows
+            .map((row) => row[outputName])
+            .filter((value) => value !== null && value !== undefined && value !== "");
+          return {
+            name: outputName,
+            type: sourceColumn?.type ?? "string",
+            nonNullCount: nonNullValues.length,
+            nullCount: newRows.length - nonNullValues.length,
+            sampleValues: nonNullValues.slice(0, 5),
+          };
+        });
+
+  const newColumns = [...table.columns, ...addedColumns];
+
+  const warnings = [...(table.warnings || [])];
+  if (multiMatchRows > 0) {
+    warnings.push(
+      `Join matched multiple source rows for ${multiMatchRows} row(s); those rows were duplicated.`,
+    );
+  }
+
+  return {
+    table: {
+      rows: newRows,
+      columns: newColumns,
+      rowCount: newRows.length,
+      warnings,
+    },
+    columns: newColumns,
+  };
+}
+
+/**
+ * Build a lookup key from key column values
+ * Returns null when any key is empty, so null keys never match (like SQL)
+ */
+function buildKey(row: Record<string, unknown>, keys: string[]): string | null {
+  const parts: string[] = [];
+  for (const key of keys) {
+    const value = row[key];
+    if (value === null || value === undefined || value === "") {
+      return null;
+    }
+    parts.push(value instanceof Date ? value.toISOString() : String(value));
+  }
+  return JSON.stringify(parts);
+}
+
+/**
+ * Combine a left row with the (renamed) non-key columns of a right row
+ */
+function mergeRows(
+  leftRow: Record<string, unknown>,
+  rightRow: Record<string, unknown> | null,
+  rightColumnNames: Map<string, string>,
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...leftRow };
+  for (const [sourceName, outputName] of rightColumnNames) {
+    merged[outputName] = rightRow ? (rightRow[sourceName] ?? null) : null;
+  }
+  return merged;
+}
+
+/**
+ * Validate join configuration
+ * Returns a map of right-hand (non-key) column name → output column name
+ */
+function validateConfig(
+  table: ParseResult,
+  right: ParseResult,
+  config: JoinConfig,
+): Map<string, string> {
+  const { on, joinType, suffix = "_right" } = config;
+
+  // Check join type
+  if (!["left", "inner", "full", "anti"].includes(joinType)) {
+    throw new Error(`Unknown join type: ${joinType}`);
+  }
+
+  // Check key columns are specified
+  if (!on || on.length === 0) {
+    throw new Error("At least one key column pair must be specified");
+  }
+
+  // Check key columns exist on both sides
+  const leftNames = table.columns.map((c) => c.name);
+  const rightNames = right.columns.map((c) => c.name);
+
+  const missingLeft = on.map((pair) => pair.left).filter((col) => !leftNames.includes(col));
+  if (missingLeft.length > 0) {
+    throw new Error(`Columns not found: ${missingLeft.join(", ")}`);
+  }
+
+  const missingRight = on.map((pair) => pair.right).filter((col) => !rightNames.includes(col));
+  if (missingRight.length > 0) {
+    throw new Error(`Columns not found in join source: ${missingRight.join(", ")}`);
+  }
+
+  // Right key columns are dropped (their values equal the left keys); clashes get the suffix
+  const rightKeys = new Set(on.map((pair) => pair.right));
+  const outputNames = new Map<string, string>();
+  const usedNames = new Set(leftNames);
+
+  for (const name of rightNames) {
+    if (rightKeys.has(name)) continue;
+
+    let outputName = name;
+    if (usedNames.has(outputName)) {
+      if (!suffix) {
+        throw new Error(`Column "${name}" exists in both tables; a suffix is required`);
+      }
+      outputName = `${name}${suffix}`;
+      if (usedNames.has(outputName)) {
+        throw new Error(`Column "${outputName}" already exists; choose a different suffix`);
+      }
+    }
+
+    usedNames.add(outputName);
+    outputNames.set(name, outputName);
+  }
+
+  return outputNames;
+}
@@ -0,0 +1,124 @@
+/**
+ * Recode the values of a column with a lookup table
+ *
+ * Every cell whose whole value (as text) matches a mapping's `from` becomes the
+ * mapping's `to`. Values without a mapping become `defaultValue` when one is
+ * set and are left unchanged otherwise; empty cells are only replaced by a
+ * mapping from "".
+ *
+ * Example:
+ *   Input:  {country: "UK"}
+ *   Config: column: "country", mappings: [{from: "UK", to: "United Kingdom"}, {from: "DE", to: "Germany"}]
+ *   Output: {country: "United Kingdom"}
+ */
+
+import { parseCSV } from "@/lib/parsers/csv";
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import type { MapValuesConfig, ValueMapping } from "../types";
+
+export function mapValues(
+  table: ParseResult,
+  config: MapValuesConfig,
+): { table: ParseResult; columns: ColumnMetadata[] } {
+  const lookup = validateConfig(table, config);
+  const { column, caseSensitive = true, defaultValue } = config;
+
+  // Transform rows
+  const newRows = table.rows.map((row) => {
+    const value = row[column];
+    const text = value === null || value === undefined ? "" : String(value);
+    const mapped = lookup.get(caseSensitive ? text : text.toLowerCase());
+    if (mapped !== undefined) {
+      return { ...row, [column]: mapped };
+    }
+    if (defaultValue !== undefined && text !== "") {
+      return { ...row, [column]: defaultValue };
+    }
+    return row;
+  });
+
+  // Unmapped values keep their type, so the column type comes from the output values
+  const newColumns = table.columns.map((col) => {
+    if (col.name !== column) return col;
+    const nonNullValues = newRows
+      .map((row) => row[column])
+      .filter((value) => value !== null && value !== undefined && value !== "");
+    return {
+      ...col,
+      type: resolveType(nonNullValues) ?? col.type,
+      nonNullCount: nonNullValues.length,
+      nullCount: newRows.length - nonNullValues.length,
+      sampleValues: nonNullValues.slice(0, 5),
+    };
+  });
+
+  return {
+    table: { ...table, rows: newRows, columns: newColumns },
+    columns: newColumns,
+  };
+}
+
+/**
+ * Read mappings from a two-column CSV file (from, to)
+ * Columns after the second are ignored; empty cells read as "".
+ */
+export function parseValueMappings(content: string, hasHeaders = true): ValueMapping[] {
+  const { rows, columns } = parseCSV(content, { inferTypes: false, hasHeaders, endColumn: 2 });
+  if (columns.length < 2) {
+    throw new Error("Mapping file must have two columns: value and replacement");
+  }
+
+  const [from, to] = columns.map((col) => col.name);
+  return rows
+    .map((row) => ({ from: String(row[from] ?? ""), to: String(row[to] ?? "") }))
+    .filter((mapping) => mapping.from !== "" || mapping.to !== "");
+}
+
+/**
+ * Validate mapping configuration and build the lookup table
+ * Keys are lowercased when matching is case-insensitive.
+ */
+function validateConfig(table: ParseResult, config: MapValuesConfig): Map<string, string> {
+  const { column, mappings, caseSensitive = true } = config;
+
+  if (!table.columns.some((col) => col.name === column)) {
+    throw new Error(`Column "${column}" not found`);
+  }
+
+  if (!mappings || mappings.length === 0) {
+    throw new Error("At least one mapping must be specified");
+  }
+
+  const lookup = new Map<string, string>();
+  for (const { from, to } of mappings) {
+    const key = caseSensitive ? from : from.toLowerCase();
+    const existing = lookup.get(key);
+    if (existing !== undefined && existing !== to) {
+      throw new Error(`Value "${from}" is mapped more than once`);
+    }
+    lookup.set(key, to);
+  }
+
+  return lookup;
+}
+
+/**
+ * Type shared by all values, "string" when they differ (null without values)
+ */
+function resolveType(values: unknown[]): ColumnMetadata["type"] | null {
+  const types = new Set<ColumnMetadata["type"]>();
+  for (const value of values) {
+    if (value instanceof Date) {
+      types.add("date");
+    } else if (typeof value === "number") {
+      types.add("number");
+    } else if (typeof value === "boolean") {
+      types.add("boolean");
+    } else {
+      types.add("string");
+    }
+  }
+
+  if (types.size === 0) return null;
+  return types.size === 1 ? [...types][0] : "string";
+}
@@ -11,6 +11,7 @@
  */
 
 import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import { aggregateValues } from "@/lib/pipeline/aggregation";
 import type { PivotConfig } from "@/lib/pipeline/types";
 
 export function pivot(
@@ -165,44 +166,3 @@ function validateConfig(table: ParseResult, config: PivotConfig): void {
     throw new Error("Column source and value source must be different");
   }
 }
-
-/**
- * Aggregate multiple values based on aggregation strategy
- */
-function aggregateValues(
-  values: unknown[],
-  aggregation: "first" | "last" | "sum" | "mean" | "count",
-): unknown {
-  if (values.length === 0) {
-    return null;
-  }
-
-  switch (aggregation) {
-    case "first":
-      return values[0];
-
-    case "last":
-      return values[values.length - 1];
-
-    case "count":
-      return values.length;
-
-    case "sum": {
-      // Only sum numeric values
-      const numericValues = values.filter((v) => typeof v === "number") as number[];
-      if (numericValues.length === 0) return null;
-      return numericValues.reduce((sum, val) => sum + val, 0);
-    }
-
-    case "mean": {
-      // Only average numeric values
-      const numericValues = values.filter((v) => typeof v === "number") as number[];
-      if (numericValues.length === 0) return null;
-      const sum = numericValues.reduce((sum, val) => sum + val, 0);
-      return sum / numericValues.length;
-    }
-
-    default:
-      return values[values.length - 1]; // Default to last
-  }
-}
@@ -0,0 +1,92 @@
+/**
+ * Find and replace text in string columns
+ *
+ * Supports literal text or regular expressions (with $1-style backreferences),
+ * case-insensitive matching, and whole-cell mode where only cells that match
+ * completely are replaced.
+ *
+ * Example:
+ *   Input:  {address: "12 High St."}
+ *   Config: columns: ["address"], find: "St.", replaceWith: "Street"
+ *   Output: {address: "12 High Street"}
+ */
+
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import type { ReplaceConfig } from "../types";
+
+export function replace(
+  table: ParseResult,
+  config: ReplaceConfig,
+): { table: ParseResult; columns: ColumnMetadata[] } {
+  // Validate configuration (also compiles the pattern)
+  const pattern = validateConfig(table, config);
+
+  // Transform rows
+  const newRows = table.rows.map((row) => {
+    const newRow = { ...row };
+    for (const colName of config.columns) {
+      const value = newRow[colName];
+      if (typeof value === "string") {
+        // Literal replacements must not interpret "$" sequences in the replacement text
+        newRow[colName] = config.useRegex
+          ? value.replace(pattern, config.replaceWith)
+          : value.replace(pattern, () => config.replaceWith);
+      }
+    }
+    return newRow;
+  });
+
+  const result = {
+    ...table,
+    rows: newRows,
+  };
+
+  return {
+    table: result,
+    columns: result.columns,
+  };
+}
+
+/**
+ * Escape regex metacharacters so literal text can be matched with a RegExp
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Validate replace configuration and build the matching RegExp
+ */
+function validateConfig(table: ParseResult, config: ReplaceConfig): RegExp {
+  const { columns, find, useRegex, caseSensitive = true, matchEntireCell } = config;
+
+  // Check columns are specified
+  if (!columns || columns.length === 0) {
+    throw new Error("At least one column must be specified");
+  }
+
+  // Check columns exist
+  const columnNames = table.columns.map((c) => c.name);
+  const invalidColumns = columns.filter((col) => !columnNames.includes(col));
+  if (invalidColumns.length > 0) {
+    throw new Error(`Columns not found: ${invalidColumns.join(", ")}`);
+  }
+
+  // Check search text is not empty
+  if (!find) {
+    throw new Error("Find text cannot be empty");
+  }
+
+  const source = useRegex ? find : escapeRegExp(find);
+  const anchored = matchEntireCell ? `^(?:${source})$` : source;
+  // Whole-cell patterns are anchored, so they only ever match once
+  const flags = `${matchEntireCell ? "" : "g"}${caseSensitive ? "" : "i"}`;
+
+  try {
+    return new RegExp(anchored, flags);
+  } catch (error) {
+    throw new Error(
+      `Invalid regex pattern: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
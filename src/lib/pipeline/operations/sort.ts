@@ -65,7 +65,7 @@ export function sort(
  * Compare two values for sorting
  * Handles type-aware comparison and null positioning
  */
-function compareValues(
+export function compareValues(
   a: unknown,
   b: unknown,
   direction: "asc" | "desc",
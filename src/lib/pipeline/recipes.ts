@@ -0,0 +1,228 @@
+/**
+ * Portable pipeline recipes
+ *
+ * A recipe is a pipeline's steps and parse settings saved as a JSON or YAML
+ * file, so the same cleaning can be imported into another project. Recipes
+ * record the input columns the steps were written against; when the target
+ * data names them differently, a column mapping prepends rename steps so the
+ * recipe's steps run unchanged.
+ *
+ * Example (YAML):
+ *   format: csv-detox-recipe
+ *   version: 1
+ *   name: Vendor cleanup
+ *   columns: [email, country]
+ *   steps:
+ *     - id: 3f0c...
+ *       type: trim
+ *       config: { type: trim, columns: [email] }
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { z } from "zod";
+import { isSupportedEncoding } from "@/lib/parsers/encoding";
+import { transformationStepsSchema } from "./assistantSchemas";
+import { getStepColumns } from "./schema";
+import type { RowErrorMode, TransformationStep } from "./types";
+
+export const RECIPE_FORMAT = "csv-detox-recipe";
+
+/** Current recipe file version (files with a newer version are rejected) */
+export const RECIPE_VERSION = 1;
+
+export type RecipeFileFormat = "json" | "yaml";
+
+export interface RecipeParseConfig {
+  sheetName?: string;
+  sheetIndex?: number;
+  startRow?: number;
+  endRow?: number;
+  startColumn?: number;
+  endColumn?: number;
+  hasHeaders: boolean;
+  encoding?: string;
+  numberLocale?: string;
+}
+
+export interface PipelineRecipe {
+  format: typeof RECIPE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt?: string; // ISO timestamp
+  columns: string[]; // Input columns the steps were written against
+  parseConfig?: RecipeParseConfig;
+  errorMode?: RowErrorMode;
+  steps: TransformationStep[];
+}
+
+/**
+ * A step that reads recipe columns missing from the target data
+ */
+export interface RecipeStepIssue {
+  stepId: string;
+  index: number;
+  type: TransformationStep["type"];
+  missingColumns: string[];
+}
+
+export interface RecipeColumnCheck {
+  missingColumns: string[]; // Recipe columns with no match in the target data
+  stepIssues: RecipeStepIssue[];
+}
+
+/**
+ * Error thrown when a recipe file can't be read
+ */
+export class RecipeError extends Error {
+  constructor(
+    message: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "RecipeError";
+  }
+}
+
+const recipeSchema = z.object({
+  format: z.literal(RECIPE_FORMAT),
+  version: z.number().int().min(1),
+  name: z.string().min(1),
+  exportedAt: z.string().optional(),
+  columns: z.array(z.string()),
+  parseConfig: z
+    .object({
+      sheetName: z.string().optional(),
+      sheetIndex: z.number().int().min(0).optional(),
+      startRow: z.number().int().min(1).optional(),
+      endRow: z.number().int().min(1).optional(),
+      startColumn: z.number().int().min(1).optional(),
+      endColumn: z.number().int().min(1).optional(),
+      hasHeaders: z.boolean(),
+      encoding: z
+        .string()
+        .refine(isSupportedEncoding, { message: "Unsupported encoding" })
+        .optional(),
+      numberLocale: z.string().optional(),
+    })
+    .optional(),
+  errorMode: z.enum(["fail", "quarantine"]).optional(),
+  steps: transformationStepsSchema,
+});
+
+/**
+ * Build a recipe from a pipeline
+ */
+export function createRecipe(pipeline: {
+  name: string;
+  columns: string[];
+  steps: TransformationStep[];
+  parseConfig?: RecipeParseConfig;
+  errorMode?: RowErrorMode;
+}): PipelineRecipe {
+  return {
+    format: RECIPE_FORMAT,
+    version: RECIPE_VERSION,
+    name: pipeline.name,
+    exportedAt: new Date().toISOString(),
+    columns: pipeline.columns,
+    ...(pipeline.parseConfig ? { parseConfig: pipeline.parseConfig } : {}),
+    ...(pipeline.errorMode ? { errorMode: pipeline.errorMode } : {}),
+    steps: pipeline.steps.map((step) => ({
+      id: step.id,
+      type: step.type,
+      config: step.config,
+      ...(step.enabled === false ? { enabled: false } : {}),
+      ...(step.group ? { group: step.group } : {}),
+    })),
+  };
+}
+
+export function serializeRecipe(recipe: PipelineRecipe, format: RecipeFileFormat): string {
+  return format === "yaml" ? stringifyYaml(recipe) : `${JSON.stringify(recipe, null, 2)}\n`;
+}
+
+/**
+ * Read a recipe file (JSON or YAML)
+ * Steps are validated with the same schema as assistant-generated steps.
+ */
+export function parseRecipe(text: string): PipelineRecipe {
+  let data: unknown;
+  try {
+    data = text.trimStart().startsWith("{") ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new RecipeError(
+      `Recipe is not valid JSON or YAML: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const format = (data as { format?: unknown } | null)?.format;
+  if (format !== RECIPE_FORMAT) {
+    throw new RecipeError(`Not a pipeline recipe (expected format "${RECIPE_FORMAT}")`);
+  }
+
+  const validation = recipeSchema.safeParse(data);
+  if (!validation.success) {
+    throw new RecipeError("Recipe contains invalid settings or steps", validation.error.errors);
+  }
+
+  if (validation.data.version > RECIPE_VERSION) {
+    throw new RecipeError(
+      `Recipe version ${validation.data.version} is newer than the supported version ${RECIPE_VERSION}`,
+    );
+  }
+
+  return validation.data as PipelineRecipe;
+}
+
+/**
+ * Check a recipe's input columns against the target data
+ * `mapping` maps recipe columns to target columns with a different name.
+ * Only recipe input columns are checked: columns created by earlier steps
+ * don't exist in the target data.
+ */
+export function checkRecipeColumns(
+  recipe: PipelineRecipe,
+  targetColumns: string[],
+  mapping: Record<string, string> = {},
+): RecipeColumnCheck {
+  const available = new Set(targetColumns);
+  const missing = new Set(
+    recipe.columns.filter((column) => !available.has(mapping[column] ?? column)),
+  );
+
+  const stepIssues: RecipeStepIssue[] = [];
+  recipe.steps.forEach((step, index) => {
+    const missingColumns = [...new Set(getStepColumns(step))].filter((column) =>
+      missing.has(column),
+    );
+    if (missingColumns.length > 0) {
+      stepIssues.push({ stepId: step.id, index, type: step.type, missingColumns });
+    }
+  });
+
+  return { missingColumns: [...missing], stepIssues };
+}
+
+/**
+ * The steps to save for an imported recipe
+ * Mapped columns are renamed to their recipe names first, so the recipe's
+ * steps keep referring to the columns they were written against.
+ */
+export function applyColumnMapping(
+  recipe: PipelineRecipe,
+  mapping: Record<string, string>,
+  createId: () => string,
+): TransformationStep[] {
+  const renames: TransformationStep[] = Object.entries(mapping)
+    .filter(
+      ([recipeColumn, targetColumn]) =>
+        recipe.columns.includes(recipeColumn) && recipeColumn !== targetColumn,
+    )
+    .map(([recipeColumn, targetColumn]) => ({
+      id: createId(),
+      type: "rename_column",
+      config: { type: "rename_column", oldName: targetColumn, newName: recipeColumn },
+    }));
+
+  return [...renames, ...recipe.steps];
+}
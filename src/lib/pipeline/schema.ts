@@ -0,0 +1,304 @@
+/**
+ * Static schema propagation
+ *
+ * Works out the columns after every step from the input columns alone, by
+ * running each operation on an empty table: operations validate their config
+ * against the columns and compute the output columns before touching any
+ * row, so a pipeline can be checked before it runs (missing columns, renames
+ * to existing names, casts of removed columns...).
+ *
+ * Some output columns depend on the data: pivot creates one column per
+ * distinct value, and join/append add the columns of their sources (known only
+ * when the source columns are given). After such a step the schema is marked
+ * inexact, and columns that later steps reference are assumed to exist.
+ */
+
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import { collectColumnReferences, parseExpression } from "./expression/parser";
+import { getOperation } from "./operations";
+import { getFilterCondition } from "./operations/filter";
+import type { ExecutionContext, FilterNode, TransformationStep, TransformationType } from "./types";
+import { getSourceKey, isStepEnabled } from "./types";
+
+/**
+ * Columns before and after one step
+ */
+export interface StepSchema {
+  stepId: string;
+  columnsBefore: ColumnMetadata[];
+  columnsAfter: ColumnMetadata[]; // Same as columnsBefore when the step is invalid
+  exact: boolean; // False when columnsAfter may be missing columns that depend on the data
+  error?: string;
+}
+
+/**
+ * A step that would fail on the columns it receives
+ */
+export interface SchemaError {
+  stepId: string;
+  index: number;
+  type: TransformationType;
+  message: string;
+}
+
+export interface SchemaPropagationResult {
+  steps: StepSchema[];
+  columns: ColumnMetadata[]; // Output columns of the last step
+  exact: boolean;
+  errors: SchemaError[];
+}
+
+/**
+ * Compute the columns after every step and collect the steps that would fail
+ * `sources` holds the columns of join/append sources, keyed by getSourceKey().
+ */
+export function propagateSchema(
+  columns: ColumnMetadata[],
+  steps: TransformationStep[],
+  sources?: Record<string, ColumnMetadata[]>,
+): SchemaPropagationResult {
+  const stepSchemas: StepSchema[] = [];
+  const errors: SchemaError[] = [];
+  let current = columns;
+  let exact = true;
+
+  steps.forEach((step, index) => {
+    // Disabled steps pass their input through
+    if (!isStepEnabled(step)) {
+      stepSchemas.push({ stepId: step.id, columnsBefore: current, columnsAfter: current, exact });
+      return;
+    }
+
+    // Columns the step references may come from data-dependent columns
+    const input = exact ? current : withColumns(current, getStepColumns(step));
+
+    try {
+      const result = propagateStep(step, input, sources);
+      stepSchemas.push({
+        stepId: step.id,
+        columnsBefore: current,
+        columnsAfter: result.columns,
+        exact: exact ? result.exact : result.closes,
+      });
+      current = result.columns;
+      exact = exact ? result.exact : result.closes;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push({ stepId: step.id, index, type: step.type, message });
+      // The columns after an invalid step are unknown, so later steps are not checked against them
+      stepSchemas.push({
+        stepId: step.id,
+        columnsBefore: current,
+        columnsAfter: current,
+        exact: false,
+        error: message,
+      });
+      exact = false;
+    }
+  });
+
+  return { steps: stepSchemas, columns: current, exact, errors };
+}
+
+/**
+ * Columns available to the step at the given position
+ */
+export function getColumnsAtStep(
+  columns: ColumnMetadata[],
+  steps: TransformationStep[],
+  index: number,
+  sources?: Record<string, ColumnMetadata[]>,
+): ColumnMetadata[] {
+  return propagateSchema(columns, steps.slice(0, index), sources).columns;
+}
+
+/**
+ * Describe schema errors as one line, e.g. `Step 2 (rename_column): Column already exists: email`
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors
+    .map((error) => `Step ${error.index + 1} (${error.type}): ${error.message}`)
+    .join("; ");
+}
+
+/**
+ * Throw when saved steps don't fit the pipeline's input columns
+ * Steps can't be saved without the columns to check them against.
+ */
+export function assertStepsFitColumns(
+  steps: TransformationStep[],
+  inputColumns: Array<{ name: string; type: string }> | undefined,
+): void {
+  if (steps.length === 0) {
+    return;
+  }
+  if (!inputColumns) {
+    throw new Error("Input columns are required to save pipeline steps");
+  }
+
+  const { errors } = propagateSchema(toColumnMetadata(inputColumns), steps);
+  if (errors.length > 0) {
+    throw new Error(`Invalid pipeline steps: ${formatSchemaErrors(errors)}`);
+  }
+}
+
+/**
+ * Column metadata for columns known only by name and type
+ */
+export function toColumnMetadata(columns: Array<{ name: string; type: string }>): ColumnMetadata[] {
+  return columns.map((column) => ({
+    name: column.name,
+    type: column.type as ColumnMetadata["type"],
+    nonNullCount: 0,
+    nullCount: 0,
+    sampleValues: [],
+  }));
+}
+
+/**
+ * Columns a step reads from its input table
+ * Columns the step creates (new names, split targets...) are not included.
+ */
+export function getStepColumns(step: TransformationStep): string[] {
+  const config = step.config;
+  switch (config.type) {
+    case "trim":
+    case "uppercase":
+    case "lowercase":
+    case "remove_column":
+    case "merge_columns":
+    case "fill_down":
+    case "fill_across":
+    case "replace":
+    case "format_number":
+      return config.columns;
+    case "deduplicate":
+      return [...(config.columns ?? []), ...(config.orderBy ? [config.orderBy.name] : [])];
+    case "filter":
+      try {
+        return collectFilterColumns(getFilterCondition(config));
+      } catch {
+        return [];
+      }
+    case "rename_column":
+      return [config.oldName];
+    case "unpivot":
+      return [...config.idColumns, ...config.valueColumns];
+    case "pivot":
+      return [...config.indexColumns, config.columnSource, config.valueSource];
+    case "split_column":
+    case "cast_column":
+    case "cluster_values":
+    case "map_values":
+      return [config.column];
+    case "sort":
+      return config.columns.map((column) => column.name);
+    case "calculated_column":
+      try {
+        return collectColumnReferences(parseExpression(config.expression));
+      } catch {
+        return [];
+      }
+    case "join":
+      return config.on.map((key) => key.left);
+    case "group_by":
+      return [
+        ...config.groupBy,
+        ...config.aggregations.flatMap((aggregation) =>
+          aggregation.column !== undefined ? [aggregation.column] : [],
+        ),
+      ];
+    case "append":
+      return [];
+    case "assert":
+      return config.rules.flatMap((rule) =>
+        rule.kind === "unique" ? rule.columns : "column" in rule ? [rule.column] : [],
+      );
+  }
+}
+
+function collectFilterColumns(node: FilterNode): string[] {
+  switch (node.kind) {
+    case "condition":
+      return [node.column];
+    case "not":
+      return collectFilterColumns(node.condition);
+    default:
+      return node.conditions.flatMap(collectFilterColumns);
+  }
+}
+
+function createEmptyTable(columns: ColumnMetadata[]): ParseResult {
+  return { rows: [], columns, rowCount: 0, warnings: [] };
+}
+
+/**
+ * Add referenced columns missing from an inexact schema (as strings)
+ */
+function withColumns(columns: ColumnMetadata[], names: string[]): ColumnMetadata[] {
+  const known = new Set(columns.map((column) => column.name));
+  const added = [...new Set(names)].filter((name) => !known.has(name));
+  return added.length > 0
+    ? [...columns, ...toColumnMetadata(added.map((name) => ({ name, type: "string" })))]
+    : columns;
+}
+
+/**
+ * Output columns of one step
+ * `exact`: the output lists every column, given an exact input.
+ * `closes`: the output lists every column even if the input was inexact
+ * (group_by and unpivot only keep the columns they name).
+ */
+function propagateStep(
+  step: TransformationStep,
+  columns: ColumnMetadata[],
+  sources?: Record<string, ColumnMetadata[]>,
+): { columns: ColumnMetadata[]; exact: boolean; closes: boolean } {
+  const config = step.config;
+  const context: ExecutionContext = { sources: {} };
+
+  // Join/append sources: without their columns only the current columns can be checked
+  const stepSources =
+    config.type === "join" ? [config.source] : config.type === "append" ? config.sources : [];
+  for (const source of stepSources) {
+    const key = getSourceKey(source);
+    const sourceColumns = sources?.[key];
+    if (!sourceColumns) {
+      const missing = getStepColumns(step).filter(
+        (name) => !columns.some((column) => column.name === name),
+      );
+      if (missing.length > 0) {
+        throw new Error(`Columns not found: ${missing.join(", ")}`);
+      }
+      if (config.type === "append" && config.sourceColumn) {
+        if (columns.some((column) => column.name === config.sourceColumn)) {
+          throw new Error(`Source column "${config.sourceColumn}" already exists`);
+        }
+        return {
+          columns: withColumns(columns, [config.sourceColumn]),
+          exact: false,
+          closes: false,
+        };
+      }
+      return { columns, exact: false, closes: false };
+    }
+    context.sources = { ...context.sources, [key]: createEmptyTable(sourceColumns) };
+  }
+
+  // Row counts depend on the data; every other rule checks columns
+  const stepConfig =
+    config.type === "assert"
+      ? { ...config, rules: config.rules.filter((rule) => rule.kind !== "row_count") }
+      : config;
+  if (stepConfig.type === "assert" && stepConfig.rules.length === 0) {
+    return { columns, exact: true, closes: false };
+  }
+
+  const result = getOperation(step.type)(createEmptyTable(columns), stepConfig, context);
+
+  return {
+    columns: result.columns,
+    exact: config.type !== "pivot",
+    closes: config.type === "group_by" || config.type === "unpivot",
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Server-side resolution of secondary tables used by join and append steps
+ * Sources are loaded once before execution and passed to the executor
+ */
+
+import type { Id } from "@convex/dataModel";
+import type Database from "better-sqlite3";
+import { downloadFileFromConvex, getUpload } from "@/lib/convex/client";
+import { parseCSV } from "@/lib/parsers/csv";
+import { decodeText } from "@/lib/parsers/encoding";
+import { parseExcel } from "@/lib/parsers/excel";
+import type { ParseOptions, ParseResult } from "@/lib/parsers/types";
+import {
+  getPipelineResultColumns,
+  getPipelineResultData,
+  pipelineResultsExist,
+} from "@/lib/sqlite/database";
+import type { TableSource, TransformationStep } from "./types";
+import { getSourceKey, isStepEnabled } from "./types";
+
+/**
+ * Collect the secondary tables referenced by a step
+ * Disabled steps read no tables.
+ */
+export function getStepSources(step: TransformationStep): TableSource[] {
+  if (!isStepEnabled(step)) {
+    return [];
+  }
+
+  switch (step.config.type) {
+    case "join":
+      return [step.config.source];
+    case "append":
+      return step.config.sources;
+    default:
+      return [];
+  }
+}
+
+/**
+ * Load every secondary table referenced by the given steps
+ * Pipeline sources are read from the project database; uploads are downloaded and parsed.
+ */
+export async function loadStepSources(
+  db: Database.Database,
+  steps: TransformationStep[],
+): Promise<Record<string, ParseResult>> {
+  const sources: Record<string, ParseResult> = {};
+
+  for (const source of steps.flatMap(getStepSources)) {
+    const key = getSourceKey(source);
+    if (sources[key]) continue;
+
+    sources[key] =
+      source.type === "pipeline"
+        ? loadPipelineSource(db, source.pipelineId)
+        : await loadUploadSource(source);
+  }
+
+  return sources;
+}
+
+/**
+ * Read another pipeline's stored result table
+ */
+function loadPipelineSource(db: Database.Database, pipelineId: string): ParseResult {
+  if (!pipelineResultsExist(db, pipelineId)) {
+    throw new Error(
+      `Source pipeline ${pipelineId} has no results. Please execute that pipeline first.`,
+    );
+  }
+
+  const rows = getPipelineResultData(db, pipelineId);
+  const columns = getPipelineResultColumns(db, pipelineId);
+
+  return {
+    rows,
+    columns: columns.map((col) => ({
+      name: col.name,
+      type: col.type,
+      nonNullCount: rows.length - col.nullCount,
+      nullCount: col.nullCount,
+      sampleValues: col.sampleValues || [],
+    })),
+    rowCount: rows.length,
+    warnings: [],
+  };
+}
+
+/**
+ * Download and parse another upload using its saved parse config
+ */
+async function loadUploadSource(
+  source: Extract<TableSource, { type: "upload" }>,
+): Promise<ParseResult> {
+  const upload = await getUpload(source.uploadId as Id<"uploads">);
+  if (!upload) {
+    throw new Error(`Source upload ${source.uploadId} not found`);
+  }
+
+  const fileBuffer = await downloadFileFromConvex(upload.convexStorageId);
+
+  const parseOptions: ParseOptions = { ...upload.parseConfig };
+  if (source.sheetName !== undefined) {
+    parseOptions.sheetName = source.sheetName;
+    parseOptions.sheetIndex = undefined;
+  }
+
+  const isExcel =
+    upload.mimeType?.includes("spreadsheet") || upload.originalName?.match(/\.(xlsx?|xls)$/i);
+
+  return isExcel
+    ? await parseExcel(fileBuffer, parseOptions)
+    : await parseCSV(decodeText(fileBuffer, parseOptions.encoding), parseOptions);
+}
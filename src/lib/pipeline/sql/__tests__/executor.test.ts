@@ -0,0 +1,454 @@
+/**
+ * Tests for SQL pipeline execution
+ * Every pipeline is also run through executePipeline, and both results must match.
+ */
+
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import Database from "better-sqlite3";
+import type { ParseResult } from "@/lib/parsers/types";
+import {
+  createColumnNamesTable,
+  createDataTable,
+  dropDataTable,
+  insertRows,
+  readRows,
+} from "@/lib/sqlite/tables";
+import { executePipeline } from "../../executor";
+import type { ExecutionContext, TransformationStep } from "../../types";
+import { compileStep } from "../compiler";
+import {
+  copyResultRows,
+  createSourceTable,
+  executePipelineSQL,
+  releaseResult,
+  type SQLExecutionResult,
+} from "../executor";
+
+const people: ParseResult = {
+  rows: [
+    { id: 1, name: "  Alice ", city: "Paris", age: 30, active: true, joined: "2023-01-15" },
+    { id: 2, name: "bob", city: "london", age: "25", active: false, joined: "2022-06-01" },
+    { id: 3, name: "Émile", city: null, age: 41, active: true, joined: "not a date" },
+    { id: 4, name: "Zoë", city: "Paris", age: null, active: null, joined: "" },
+    { id: 5, name: "bob", city: "london", age: 25, active: false, joined: "2022-06-01" },
+    { id: 6, name: "carl", city: "Berlin", age: 30, active: true },
+    { id: 7, name: "ALICE", city: "paris", age: "n/a", active: "yes", joined: "2024-02-29" },
+  ],
+  columns: [
+    { name: "id", type: "number", nonNullCount: 7, nullCount: 0, sampleValues: [] },
+    { name: "name", type: "string", nonNullCount: 7, nullCount: 0, sampleValues: [] },
+    { name: "city", type: "string", nonNullCount: 6, nullCount: 1, sampleValues: [] },
+    { name: "age", type: "number", nonNullCount: 6, nullCount: 1, sampleValues: [] },
+    { name: "active", type: "boolean", nonNullCount: 6, nullCount: 1, sampleValues: [] },
+    { name: "joined", type: "date", nonNullCount: 6, nullCount: 1, sampleValues: [] },
+  ],
+  rowCount: 7,
+  warnings: [],
+};
+
+function step(id: string, config: TransformationStep["config"]): TransformationStep {
+  return { id, type: config.type, config };
+}
+
+describe("executePipelineSQL", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    createColumnNamesTable(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function runSQL(table: ParseResult, steps: TransformationStep[], context?: ExecutionContext) {
+    const result = executePipelineSQL(db, createSourceTable(db, table), steps, context);
+
+    dropDataTable(db, "result");
+    createDataTable(db, "result");
+    copyResultRows(db, result, "result");
+
+    const rows = readRows(db, "result", 0, table.rowCount).map((row) => row.data);
+
+    return { result, rows };
+  }
+
+  /**
+   * Run the steps both ways and compare rows, columns, warnings and step results
+   */
+  function assertSameResult(
+    table: ParseResult,
+    steps: TransformationStep[],
+    context?: ExecutionContext,
+  ): SQLExecutionResult {
+    const expected = executePipeline(structuredClone(table), steps, context);
+    const { result, rows } = runSQL(table, steps, context);
+
+    // Compare the stored form (dates become ISO strings, missing cells null)
+    dropDataTable(db, "expected");
+    createDataTable(db, "expected");
+    insertRows(db, "expected", expected.table.rows);
+    assert.deepEqual(
+      rows,
+      readRows(db, "expected", 0, expected.table.rowCount).map((row) => row.data),
+    );
+    assert.deepEqual(
+      JSON.parse(JSON.stringify(result.table.columns)),
+      JSON.parse(JSON.stringify(expected.table.columns)),
+    );
+    assert.deepEqual(result.table.warnings, expected.table.warnings);
+    assert.equal(result.table.rowCount, expected.table.rowCount);
+    assert.deepEqual(
+      result.stepResults.map(({ stepId, success, rowsAffected, error }) => ({
+        stepId,
+        success,
+        rowsAffected,
+        error,
+      })),
+      expected.stepResults.map(({ stepId, success, rowsAffected, error }) => ({
+        stepId,
+        success,
+        rowsAffected,
+        error,
+      })),
+    );
+    assert.deepEqual(
+      JSON.parse(JSON.stringify(result.rejectedRows)),
+      JSON.parse(JSON.stringify(expected.rejectedRows)),
+    );
+
+    return result;
+  }
+
+  it("should return the source rows for an empty pipeline", () => {
+    const result = assertSameResult(people, []);
+    assert.equal(result.stepResults.length, 0);
+    assert.equal(result.typeEvolution.length, 1);
+  });
+
+  describe("filter", () => {
+    it("should match legacy single conditions", () => {
+      assertSameResult(people, [
+        step("f", { type: "filter", column: "city", operator: "equals", value: "Paris" }),
+      ]);
+      assertSameResult(people, [
+        step("f", { type: "filter", column: "name", operator: "contains", value: "li" }),
+      ]);
+      assertSameResult(people, [
+        step("f", { type: "filter", column: "age", operator: "greater_than", value: 26 }),
+      ]);
+    });
+
+    it("should match condition trees", () => {
+      assertSameResult(people, [
+        step("f", {
+          type: "filter",
+          condition: {
+            kind: "or",
+            conditions: [
+              { kind: "condition", column: "city", operator: "is_null" },
+              {
+                kind: "and",
+                conditions: [
+                  { kind: "condition", column: "age", operator: "between", values: [25, 30] },
+                  {
+                    kind: "not",
+                    condition: {
+                      kind: "condition",
+                      column: "name",
+                      operator: "matches_regex",
+                      value: "^b",
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        }),
+      ]);
+    });
+
+    it("should match date, boolean, in and null comparisons", () => {
+      assertSameResult(people, [
+        step("f", { type: "filter", column: "joined", operator: "less_than", value: "2023-06-01" }),
+      ]);
+      assertSameResult(people, [
+        step("f", { type: "filter", column: "active", operator: "equals", value: true }),
+      ]);
+      assertSameResult(people, [
+        step("f", {
+          type: "filter",
+          condition: {
+            kind: "condition",
+            column: "city",
+            operator: "in",
+            values: ["Paris", "Berlin"],
+          },
+        }),
+      ]);
+      assertSameResult(people, [
+        step("f", { type: "filter", column: "joined", operator: "not_null" }),
+      ]);
+    });
+
+    it("should report the same error for a missing column", () => {
+      const result = assertSameResult(people, [
+        step("f", { type: "filter", column: "missing", operator: "equals", value: 1 }),
+      ]);
+      assert.equal(result.stepResults[0].success, false);
+    });
+  });
+
+  describe("sort", () => {
+    it("should match single and multi-column sorts", () => {
+      assertSameResult(people, [
+        step("s", { type: "sort", columns: [{ name: "name", direction: "asc" }] }),
+      ]);
+      assertSameResult(people, [
+        step("s", {
+          type: "sort",
+          columns: [
+            { name: "city", direction: "desc" },
+            { name: "id", direction: "asc" },
+          ],
+          nullsPosition: "first",
+        }),
+      ]);
+    });
+
+    it("should keep the original order of equal rows", () => {
+      const result = assertSameResult(people, [
+        step("s", { type: "sort", columns: [{ name: "city", direction: "desc" }] }),
+      ]);
+      assert.deepEqual(result.fallbackSteps, []);
+    });
+
+    it("should fall back for columns with mixed value types", () => {
+      const result = assertSameResult(people, [
+        step("s", { type: "sort", columns: [{ name: "age", direction: "asc" }] }),
+      ]);
+      assert.deepEqual(result.fallbackSteps, ["s"]);
+    });
+  });
+
+  describe("column steps", () => {
+    it("should match rename and remove", () => {
+      assertSameResult(people, [
+        step("r", { type: "rename_column", oldName: "city", newName: "town" }),
+        step("d", { type: "remove_column", columns: ["age", "joined"] }),
+      ]);
+    });
+
+    it("should match trim, uppercase and lowercase", () => {
+      assertSameResult(people, [
+        step("t", { type: "trim", columns: ["name"] }),
+        step("u", { type: "uppercase", columns: ["name", "age"] }),
+        step("l", { type: "lowercase", columns: ["city"] }),
+      ]);
+    });
+
+    it("should match merge with and without nulls", () => {
+      assertSameResult(people, [
+        step("m", {
+          type: "merge_columns",
+          columns: ["name", "city", "age"],
+          separator: " / ",
+          newColumn: "summary",
+        }),
+      ]);
+      assertSameResult(people, [
+        step("m", {
+          type: "merge_columns",
+          columns: ["city", "active"],
+          separator: "-",
+          newColumn: "key",
+          skipNull: false,
+          keepOriginal: true,
+        }),
+      ]);
+    });
+  });
+
+  describe("deduplicate", () => {
+    it("should match full-row and keyed deduplication", () => {
+      assertSameResult(people, [
+        step("r", { type: "remove_column", columns: ["id"] }),
+        step("d", { type: "deduplicate" }),
+      ]);
+      assertSameResult(people, [step("d", { type: "deduplicate", columns: ["name", "city"] })]);
+    });
+
+    it("should keep equal-looking values of different types apart", () => {
+      const table: ParseResult = {
+        rows: [{ value: 30 }, { value: "30" }, { value: 30 }, { value: true }, { value: 1 }],
+        columns: [
+          { name: "value", type: "number", nonNullCount: 5, nullCount: 0, sampleValues: [] },
+        ],
+        rowCount: 5,
+        warnings: [],
+      };
+      assertSameResult(table, [step("d", { type: "deduplicate", columns: ["value"] })]);
+    });
+
+    it("should match keep last, keep none and normalized comparison", () => {
+      for (const keep of ["first", "last", "none"] as const) {
+        const result = assertSameResult(people, [
+          step("d", {
+            type: "deduplicate",
+            columns: ["name", "city"],
+            keep,
+            ignoreCase: true,
+            ignoreWhitespace: true,
+          }),
+        ]);
+        assert.deepEqual(result.fallbackSteps, []);
+        assert.equal(result.stepResults[0].duplicateGroups, 2);
+      }
+    });
+
+    it("should run flagging and ordered deduplication in memory", () => {
+      const result = assertSameResult(people, [
+        step("d", {
+          type: "deduplicate",
+          columns: ["name"],
+          orderBy: { name: "age", direction: "desc" },
+          mode: "flag",
+        }),
+      ]);
+      assert.deepEqual(result.fallbackSteps, ["d"]);
+      assert.equal(result.stepResults[0].duplicateGroups, 1);
+    });
+  });
+
+  describe("cast_column", () => {
+    it("should match casts with null and skip error modes", () => {
+      assertSameResult(people, [
+        step("c", { type: "cast_column", column: "age", targetType: "number", onError: "null" }),
+      ]);
+      assertSameResult(people, [
+        step("c", { type: "cast_column", column: "joined", targetType: "date", onError: "skip" }),
+      ]);
+      assertSameResult(people, [
+        step("c", { type: "cast_column", column: "active", targetType: "string", onError: "null" }),
+      ]);
+    });
+
+    it("should match date casts with a format, timezone and output format", () => {
+      assertSameResult(people, [
+        step("c", {
+          type: "cast_column",
+          column: "joined",
+          targetType: "date",
+          onError: "null",
+          format: "yyyy-MM-dd",
+          timezone: "Europe/Paris",
+          outputFormat: "dd MMM yyyy HH:mm",
+        }),
+      ]);
+    });
+
+    it("should fail on the same row in fail mode", () => {
+      const result = assertSameResult(people, [
+        step("c", { type: "cast_column", column: "age", targetType: "number", onError: "fail" }),
+      ]);
+      assert.equal(result.stepResults[0].success, false);
+    });
+
+    it("should quarantine the same rows in quarantine mode", () => {
+      const result = assertSameResult(
+        people,
+        [step("c", { type: "cast_column", column: "age", targetType: "number", onError: "fail" })],
+        { rowErrorMode: "quarantine" },
+      );
+
+      assert.equal(result.stepResults[0].success, true);
+      assert.equal(result.table.rowCount, 6);
+      assert.deepEqual(
+        result.rejectedRows.map(({ stepId, column, value }) => ({ stepId, column, value })),
+        [{ stepId: "c", column: "age", value: "n/a" }],
+      );
+    });
+  });
+
+  describe("fallback", () => {
+    it("should run non-compilable steps in memory between compiled steps", () => {
+      const table: ParseResult = {
+        rows: [
+          { region: "North", rep: " ann ", sales: 10 },
+          { region: null, rep: "bo", sales: 5 },
+          { region: "South", rep: "ann", sales: 7 },
+          { region: null, rep: "cy", sales: 3 },
+        ],
+        columns: [
+          { name: "region", type: "string", nonNullCount: 2, nullCount: 2, sampleValues: [] },
+          { name: "rep", type: "string", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+          { name: "sales", type: "number", nonNullCount: 4, nullCount: 0, sampleValues: [] },
+        ],
+        rowCount: 4,
+        warnings: [],
+      };
+
+      const result = assertSameResult(table, [
+        step("t", { type: "trim", columns: ["rep"] }),
+        step("fd", { type: "fill_down", columns: ["region"] }),
+        step("f", { type: "filter", column: "sales", operator: "greater_than", value: 4 }),
+        step("s", { type: "sort", columns: [{ name: "rep", direction: "desc" }] }),
+      ]);
+
+      assert.deepEqual(result.fallbackSteps, ["fd"]);
+    });
+  });
+
+  it("should not compile steps on column names containing double quotes", () => {
+    const table: ParseResult = {
+      rows: [{ 'say "hi"': " x " }],
+      columns: [
+        { name: 'say "hi"', type: "string", nonNullCount: 1, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 1,
+      warnings: [],
+    };
+    const source = createSourceTable(db, table);
+
+    assert.equal(compileStep(db, step("t", { type: "trim", columns: ['say "hi"'] }), source), null);
+    assertSameResult(table, [step("t", { type: "trim", columns: ['say "hi"'] })]);
+  });
+
+  it("should not compile steps on column names containing backslashes", () => {
+    const table: ParseResult = {
+      rows: [
+        { "x\\y": "ann", id: 1 },
+        { "x\\y": null, id: 2 },
+      ],
+      columns: [
+        { name: "x\\y", type: "string", nonNullCount: 1, nullCount: 1, sampleValues: [] },
+        { name: "id", type: "number", nonNullCount: 2, nullCount: 0, sampleValues: [] },
+      ],
+      rowCount: 2,
+      warnings: [],
+    };
+    const source = createSourceTable(db, table);
+    const rename = step("r", { type: "rename_column", oldName: "x\\y", newName: "y" });
+
+    assert.equal(compileStep(db, rename, source), null);
+    assertSameResult(table, [rename]);
+    assertSameResult(table, [step("u", { type: "uppercase", columns: ["x\\y"] })]);
+  });
+
+  it("should drop its step tables once the result is copied or released", () => {
+    const source = createSourceTable(db, people);
+    const result = executePipelineSQL(db, source, [
+      step("t", { type: "trim", columns: ["name"] }),
+      step("u", { type: "uppercase", columns: ["name"] }),
+    ]);
+    releaseResult(db, result);
+
+    const tables = db
+      .prepare("SELECT name FROM sqlite_temp_master WHERE type = 'table'")
+      .pluck()
+      .all();
+    assert.deepEqual(tables, []);
+  });
+});
@@ -0,0 +1,496 @@
+/**
+ * Compile transformation steps to SQLite queries
+ *
+ * Intermediate tables hold one row per record: (seq INTEGER, data JSON), where
+ * seq is the row position. A compiled step is a SELECT over the previous table
+ * producing new (seq, data) rows, plus the row order of its output:
+ *
+ *   Step:   {type: "rename_column", oldName: "Name", newName: "Customer"}
+ *   SELECT: SELECT seq, CASE WHEN json_type(data, '$."Name"') IS NULL THEN data
+ *             ELSE json_remove(json_set(data, '$."Customer"', data -> '$."Name"'), '$."Name"')
+ *           END AS data FROM prev
+ *
+ * Only the row values are computed here; column metadata comes from running the
+ * operation itself on an empty table (see executor.ts), which also validates the
+ * config with the same errors as the in-memory executor.
+ *
+ * compileStep returns null when a step can't be compiled (unsupported type,
+ * column names containing double quotes, sort columns with mixed value types);
+ * the executor then runs that step in memory.
+ */
+
+import type Database from "better-sqlite3";
+import type { ColumnMetadata } from "@/lib/parsers/types";
+import { getCastOptions } from "../operations/cast-column";
+import { getFilterCondition } from "../operations/filter";
+import type {
+  CastColumnConfig,
+  DeduplicateConfig,
+  ExecutionContext,
+  FilterNode,
+  MergeColumnsConfig,
+  RowRejection,
+  SortConfig,
+  TransformationStep,
+  TransformationType,
+} from "../types";
+import { TransformationError } from "../types";
+
+/**
+ * Step types with a SQL implementation
+ */
+export const COMPILABLE_TYPES: ReadonlySet<TransformationType> = new Set<TransformationType>([
+  "filter",
+  "sort",
+  "rename_column",
+  "remove_column",
+  "trim",
+  "uppercase",
+  "lowercase",
+  "deduplicate",
+  "cast_column",
+  "merge_columns",
+]);
+
+/**
+ * Table the next step reads from
+ */
+export interface SQLTable {
+  /** Table name (or parenthesized subquery) with seq and data columns */
+  from: string;
+  columns: ColumnMetadata[];
+  rowCount: number;
+  warnings: string[];
+}
+
+/**
+ * SQL for one step
+ */
+export interface CompiledStep {
+  /** SELECT producing the step's (seq, data) rows */
+  select: string;
+  /** Order of the output rows (default: seq) */
+  orderBy?: string;
+  /** Helper tables to drop once the step's output is materialized */
+  tempTables?: string[];
+  /**
+   * Adjust column metadata and warnings once the output is materialized
+   * (e.g. null counts of a cast column)
+   */
+  complete?: (output: SQLTable) => Pick<SQLTable, "columns" | "warnings">;
+  /** Rows diverted in quarantine mode */
+  rejected?: RowRejection[];
+  /** Groups of duplicate rows found (deduplicate) */
+  duplicateGroups?: number;
+}
+
+/**
+ * SQL string literal
+ */
+export function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * JSON path of a column as a SQL literal
+ */
+function columnPath(column: string): string {
+  return sqlString(`$."${column}"`);
+}
+
+/**
+ * Cell of a column as JSON text (SQL NULL when the key is missing)
+ */
+function cell(column: string): string {
+  return `data -> ${columnPath(column)}`;
+}
+
+/**
+ * Condition matching null or missing cells
+ */
+function isNull(column: string): string {
+  return `(COALESCE(json_type(data, ${columnPath(column)}), 'null') = 'null')`;
+}
+
+/**
+ * JSON paths can't quote column names containing double quotes, and read a
+ * backslash inside the quotes as an escape
+ */
+function canCompileColumns(columns: string[]): boolean {
+  return columns.every((column) => !/["\\]/.test(column));
+}
+
+/**
+ * Compile a step, or return null when it must run in memory
+ */
+export function compileStep(
+  db: Database.Database,
+  step: TransformationStep,
+  input: SQLTable,
+  context?: ExecutionContext,
+): CompiledStep | null {
+  const config = step.config;
+
+  switch (config.type) {
+    case "trim":
+    case "uppercase":
+    case "lowercase": {
+      // Only string-type columns are transformed, and only string values
+      const targets = config.columns.filter(
+        (name) => input.columns.find((c) => c.name === name)?.type === "string",
+      );
+      if (!canCompileColumns(targets)) return null;
+      if (targets.length === 0) {
+        return { select: `SELECT seq, data FROM ${input.from}` };
+      }
+
+      const replacements = targets.map((name) => {
+        const path = columnPath(name);
+        return `${path}, CASE WHEN json_type(data, ${path}) = 'text' THEN pipeline_text(${sqlString(config.type)}, json_extract(data, ${path})) ELSE ${cell(name)} END`;
+      });
+      return {
+        select: `SELECT seq, json_replace(data, ${replacements.join(", ")}) AS data FROM ${input.from}`,
+      };
+    }
+
+    case "rename_column": {
+      const { oldName, newName } = config;
+      if (!canCompileColumns([oldName, newName])) return null;
+      if (oldName === newName) {
+        return { select: `SELECT seq, data FROM ${input.from}` };
+      }
+
+      const oldPath = columnPath(oldName);
+      return {
+        select: `SELECT seq, CASE WHEN json_type(data, ${oldPath}) IS NULL THEN data ELSE json_remove(json_set(data, ${columnPath(newName)}, ${cell(oldName)}), ${oldPath}) END AS data FROM ${input.from}`,
+      };
+    }
+
+    case "remove_column": {
+      if (!canCompileColumns(config.columns)) return null;
+      if (config.columns.length === 0) {
+        return { select: `SELECT seq, data FROM ${input.from}` };
+      }
+
+      return {
+        select: `SELECT seq, json_remove(data, ${config.columns.map(columnPath).join(", ")}) AS data FROM ${input.from}`,
+      };
+    }
+
+    case "filter":
+      return compileFilter(getFilterCondition(config), input);
+
+    case "sort":
+      return compileSort(db, config, input);
+
+    case "deduplicate":
+      return compileDeduplicate(db, config, input);
+
+    case "cast_column":
+      return compileCast(db, config, input, context);
+
+    case "merge_columns":
+      return compileMerge(config, input);
+
+    default:
+      return null;
+  }
+}
+
+function compileFilter(condition: FilterNode, input: SQLTable): CompiledStep | null {
+  const columnTypes = new Map(input.columns.map((c) => [c.name, c.type]));
+  const where = compileFilterNode(condition, columnTypes);
+  if (where === null) return null;
+
+  return { select: `SELECT seq, data FROM ${input.from} WHERE ${where}` };
+}
+
+/**
+ * Compile a condition tree to a SQL expression (null if a column can't be compiled)
+ */
+function compileFilterNode(
+  node: FilterNode,
+  columnTypes: Map<string, ColumnMetadata["type"]>,
+): string | null {
+  switch (node.kind) {
+    case "and":
+    case "or": {
+      const children = node.conditions.map((child) => compileFilterNode(child, columnTypes));
+      if (children.some((child) => child === null)) return null;
+      return `(${children.join(node.kind === "and" ? " AND " : " OR ")})`;
+    }
+
+    case "not": {
+      const child = compileFilterNode(node.condition, columnTypes);
+      return child === null ? null : `(NOT ${child})`;
+    }
+
+    case "condition": {
+      if (!canCompileColumns([node.column])) return null;
+
+      switch (node.operator) {
+        case "is_null":
+          return isNull(node.column);
+        case "not_null":
+          return `(NOT ${isNull(node.column)})`;
+        default: {
+          const columnType = columnTypes.get(node.column);
+          return `(pipeline_filter(${sqlString(JSON.stringify(node))}, ${columnType ? sqlString(columnType) : "NULL"}, ${cell(node.column)}) = 1)`;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Sort keys follow the in-memory comparator: nulls first/last, then numbers
+ * numerically, booleans false < true and strings by localeCompare (through a
+ * rank table, since SQLite has no locale-aware collation). Ties keep their
+ * previous order.
+ */
+function compileSort(
+  db: Database.Database,
+  config: SortConfig,
+  input: SQLTable,
+): CompiledStep | null {
+  if (!canCompileColumns(config.columns.map((c) => c.name))) return null;
+
+  const nullsOrder = (config.nullsPosition ?? "last") === "first" ? "DESC" : "ASC";
+  const keys: string[] = [];
+  const tempTables: string[] = [];
+
+  for (const [index, sortColumn] of config.columns.entries()) {
+    const path = columnPath(sortColumn.name);
+    const direction = (sortColumn.direction ?? "asc") === "desc" ? "DESC" : "ASC";
+
+    // Values of different types are compared as strings in memory; leave those to the in-memory sort
+    const types = db
+      .prepare(`SELECT DISTINCT json_type(data, ${path}) FROM ${input.from}`)
+      .pluck()
+      .all() as Array<string | null>;
+    const valueTypes = new Set(
+      types
+        .filter((type) => type !== null && type !== "null")
+        .map((type) =>
+          type === "integer" || type === "real"
+            ? "number"
+            : type === "true" || type === "false"
+              ? "boolean"
+              : type,
+        ),
+    );
+    if (valueTypes.size > 1 || valueTypes.has("object") || valueTypes.has("array")) {
+      return null;
+    }
+
+    keys.push(`${isNull(sortColumn.name)} ${nullsOrder}`);
+
+    const [valueType] = valueTypes;
+    if (valueType === "number") {
+      keys.push(`json_extract(data, ${path}) ${direction}`);
+    } else if (valueType === "boolean") {
+      keys.push(`(json_type(data, ${path}) = 'true') ${direction}`);
+    } else if (valueType === "text") {
+      const rankTable = createSortRanks(db, input.from, path, index);
+      tempTables.push(rankTable);
+      keys.push(
+        `(SELECT rank FROM ${rankTable} WHERE value = json_extract(data, ${path})) ${direction}`,
+      );
+    }
+  }
+
+  keys.push("seq");
+
+  return {
+    select: `SELECT seq, data FROM ${input.from}`,
+    orderBy: keys.join(", "),
+    tempTables,
+  };
+}
+
+/**
+ * Rank the distinct string values of a column by localeCompare
+ * Values that compare equal share a rank.
+ */
+function createSortRanks(db: Database.Database, from: string, path: string, index: number): string {
+  const rankTable = `pipeline_sort_rank_${index}`;
+  const values = db
+    .prepare(
+      `SELECT DISTINCT json_extract(data, ${path}) FROM ${from} WHERE json_type(data, ${path}) = 'text'`,
+    )
+    .pluck()
+    .all() as string[];
+  values.sort((a, b) => a.localeCompare(b));
+
+  db.exec(`DROP TABLE IF EXISTS temp.${rankTable}`);
+  db.exec(`CREATE TEMP TABLE ${rankTable} (value TEXT PRIMARY KEY, rank INTEGER NOT NULL)`);
+
+  const insert = db.prepare(`INSERT INTO ${rankTable} (value, rank) VALUES (?, ?)`);
+  db.transaction(() => {
+    let rank = 0;
+    values.forEach((value, i) => {
+      if (i > 0 && values[i - 1].localeCompare(value) !== 0) {
+        rank++;
+      }
+      insert.run(value, rank);
+    });
+  })();
+
+  return rankTable;
+}
+
+/**
+ * Keep the first or last row of each group of equal values (JSON type and
+ * value), or drop every duplicated row
+ * Flagging and ordering columns run in memory.
+ */
+function compileDeduplicate(
+  db: Database.Database,
+  config: DeduplicateConfig,
+  input: SQLTable,
+): CompiledStep | null {
+  const { keep = "first", mode = "remove", ignoreCase, ignoreWhitespace } = config;
+  const columns = config.columns || input.columns.map((c) => c.name);
+  if (!canCompileColumns(columns) || mode === "flag" || config.orderBy) return null;
+
+  const normalize = ignoreCase || ignoreWhitespace;
+  const options = sqlString(JSON.stringify({ ignoreCase, ignoreWhitespace }));
+  const partition = columns.flatMap((name) => {
+    const path = columnPath(name);
+    if (normalize) {
+      return [`pipeline_dedupe_value(${options}, ${cell(name)})`];
+    }
+    // Integers and reals are the same JavaScript number
+    return [`REPLACE(json_type(data, ${path}), 'integer', 'real')`, `json_extract(data, ${path})`];
+  });
+  const window = `PARTITION BY ${partition.join(", ") || "1"}`;
+
+  // The second row of a group exists once per group of duplicates
+  const { duplicateGroups } = db
+    .prepare(
+      `SELECT COUNT(*) AS duplicateGroups FROM (SELECT ROW_NUMBER() OVER (${window} ORDER BY seq) AS occurrence FROM ${input.from}) WHERE occurrence = 2`,
+    )
+    .get() as { duplicateGroups: number };
+
+  const select =
+    keep === "none"
+      ? `SELECT seq, data FROM (SELECT seq, data, COUNT(*) OVER (${window}) AS size FROM ${input.from}) WHERE size = 1`
+      : `SELECT seq, data FROM (SELECT seq, data, ROW_NUMBER() OVER (${window} ORDER BY seq${keep === "last" ? " DESC" : ""}) AS occurrence FROM ${input.from}) WHERE occurrence = 1`;
+
+  return { select, duplicateGroups };
+}
+
+function compileCast(
+  db: Database.Database,
+  config: CastColumnConfig,
+  input: SQLTable,
+  context?: ExecutionContext,
+): CompiledStep | null {
+  const { column, targetType, onError } = config;
+  if (!canCompileColumns([column])) return null;
+  const quarantine = onError === "fail" && context?.rowErrorMode === "quarantine";
+
+  const path = columnPath(column);
+  const args = `${cell(column)}, ${sqlString(targetType)}, ${sqlString(JSON.stringify(getCastOptions(config)))}`;
+  const castError = `pipeline_cast_error(${args})`;
+
+  const { errors, firstSeq } = db
+    .prepare(
+      `SELECT COUNT(*) AS errors, MIN(seq) AS firstSeq FROM ${input.from} WHERE ${castError} IS NOT NULL`,
+    )
+    .get() as { errors: number; firstSeq: number | null };
+
+  if (errors > 0 && onError === "fail" && !quarantine) {
+    const failed = db
+      .prepare(
+        `SELECT (SELECT COUNT(*) FROM ${input.from} WHERE seq <= @seq) AS row, ${cell(column)} AS value, ${castError} AS error FROM ${input.from} WHERE seq = @seq`,
+      )
+      .get({ seq: firstSeq }) as { row: number; value: string | null; error: string };
+
+    throw new TransformationError(
+      `Failed to cast value in row ${failed.row}: ${failed.error}`,
+      "cast_column",
+      "cast_column",
+      {
+        row: failed.row,
+        column,
+        value: failed.value === null ? undefined : JSON.parse(failed.value),
+        targetType,
+        error: failed.error,
+      },
+    );
+  }
+
+  const skippedRows = onError === "skip" ? errors : 0;
+
+  // Failing rows leave the table and are returned with their original values
+  const rejected: RowRejection[] =
+    quarantine && errors > 0
+      ? (
+          db
+            .prepare(
+              `SELECT data, ${cell(column)} AS value, ${castError} AS error FROM ${input.from} WHERE ${castError} IS NOT NULL ORDER BY seq`,
+            )
+            .all() as Array<{ data: string; value: string | null; error: string }>
+        ).map((failed) => ({
+          column,
+          value: failed.value === null ? null : JSON.parse(failed.value),
+          reason: failed.error,
+          row: JSON.parse(failed.data),
+        }))
+      : [];
+  const dropErrors = onError === "skip" || quarantine;
+
+  return {
+    select: `SELECT seq, json_set(data, ${path}, json(pipeline_cast(${args}))) AS data FROM ${input.from}${dropErrors ? ` WHERE ${castError} IS NULL` : ""}`,
+    rejected,
+    complete: (output) => {
+      const nullCount = db
+        .prepare(`SELECT COUNT(*) FROM ${output.from} WHERE json_type(data, ${path}) = 'null'`)
+        .pluck()
+        .get() as number;
+      const sampleValues = (
+        db
+          .prepare(
+            `SELECT ${cell(column)} FROM ${output.from} WHERE json_type(data, ${path}) != 'null' ORDER BY seq LIMIT 5`,
+          )
+          .pluck()
+          .all() as string[]
+      ).map((value) => JSON.parse(value));
+
+      return {
+        columns: output.columns.map((col) =>
+          col.name === column
+            ? { ...col, nullCount, nonNullCount: output.rowCount - nullCount, sampleValues }
+            : col,
+        ),
+        warnings: [
+          ...output.warnings,
+          ...(errors > 0
+            ? [
+                `Cast operation had ${errors} error(s). Mode: ${onError}. ${
+                  skippedRows > 0 ? `Skipped ${skippedRows} row(s).` : ""
+                }${rejected.length > 0 ? `Quarantined ${rejected.length} row(s).` : ""}`,
+              ]
+            : []),
+        ],
+      };
+    },
+  };
+}
+
+function compileMerge(config: MergeColumnsConfig, input: SQLTable): CompiledStep | null {
+  const { columns, separator, newColumn, skipNull = true, keepOriginal = false } = config;
+  if (!canCompileColumns([...columns, newColumn])) return null;
+
+  const merged = `pipeline_merge(${sqlString(separator)}, ${skipNull ? 1 : 0}, ${columns.map(cell).join(", ")})`;
+  let data = `json_set(data, ${columnPath(newColumn)}, ${merged})`;
+
+  // Never remove the merged column, even if it has the name of a source column
+  const removed = keepOriginal ? [] : columns.filter((col) => col !== newColumn);
+  if (removed.length > 0) {
+    data = `json_remove(${data}, ${removed.map(columnPath).join(", ")})`;
+  }
+
+  return { select: `SELECT seq, ${data} AS data FROM ${input.from}` };
+}
@@ -0,0 +1,281 @@
+/**
+ * Pipeline execution inside SQLite
+ *
+ * Each step materializes its output into a temporary table, so rows never have
+ * to be loaded into a ParseResult for compiled steps. Steps that can't be
+ * compiled (see compiler.ts) fall back to the in-memory operation: the current
+ * table is loaded, transformed and written back, and execution continues in SQL.
+ *
+ * Results match executePipeline (apart from Date values, which are stored as
+ * ISO strings either way once the result table is written).
+ */
+
+import type Database from "better-sqlite3";
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import { insertJSONRows } from "@/lib/sqlite/tables";
+import { getOperation } from "../operations";
+import type {
+  AssertionResult,
+  ExecutionContext,
+  RejectedRow,
+  RowRejection,
+  StepResult,
+  TransformationStep,
+} from "../types";
+import { AssertionFailedError, isStepEnabled } from "../types";
+import { COMPILABLE_TYPES, type CompiledStep, compileStep, type SQLTable } from "./compiler";
+import { registerPipelineFunctions } from "./functions";
+
+/** Rows inserted per transaction when writing in-memory results back */
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Result of executing a pipeline in SQLite
+ * The result rows stay in a temporary table until copyResultRows/releaseResult.
+ */
+export interface SQLExecutionResult {
+  table: SQLTable;
+  stepResults: StepResult[];
+  typeEvolution: ColumnMetadata[][];
+  /** IDs of the steps that ran in memory */
+  fallbackSteps: string[];
+  /** Rows diverted in quarantine mode */
+  rejectedRows: RejectedRow[];
+}
+
+/**
+ * Execute a pipeline over a table of (seq, data) rows
+ * Stops at the first failing step and skips disabled steps, like executePipeline.
+ */
+export function executePipelineSQL(
+  db: Database.Database,
+  source: SQLTable,
+  steps: TransformationStep[],
+  context?: ExecutionContext,
+): SQLExecutionResult {
+  registerPipelineFunctions(db);
+
+  let current = source;
+  const stepResults: StepResult[] = [];
+  const typeEvolution: ColumnMetadata[][] = [source.columns];
+  const fallbackSteps: string[] = [];
+  const rejectedRows: RejectedRow[] = [];
+
+  for (const [index, step] of steps.entries()) {
+    const tableName = `pipeline_step_${index}`;
+
+    if (!isStepEnabled(step)) {
+      typeEvolution.push(current.columns);
+      stepResults.push({
+        stepId: step.id,
+        success: true,
+        rowsAffected: 0,
+        columnsAfter: current.columns,
+        skipped: true,
+      });
+      continue;
+    }
+
+    try {
+      const operation = getOperation(step.type);
+      let next: SQLTable;
+      let rejected: RowRejection[];
+      let assertions: AssertionResult[] | undefined;
+      let duplicateGroups: number | undefined;
+
+      // Validate the config and derive the output columns from the operation itself
+      const compiled = COMPILABLE_TYPES.has(step.type)
+        ? compileWithMetadata(db, step, current, context)
+        : null;
+
+      if (compiled) {
+        next = materialize(db, tableName, compiled.sql, current);
+        next.columns = compiled.columns;
+        next.warnings = compiled.warnings;
+        rejected = compiled.sql.rejected ?? [];
+        duplicateGroups = compiled.sql.duplicateGroups;
+
+        if (compiled.sql.complete) {
+          Object.assign(next, compiled.sql.complete(next));
+        }
+      } else {
+        const result = operation(loadTable(db, current), step.config, context);
+        next = writeTable(db, tableName, result.table, result.columns);
+        rejected = result.rejected ?? [];
+        assertions = result.assertions;
+        duplicateGroups = result.duplicateGroups;
+        fallbackSteps.push(step.id);
+      }
+
+      dropStepTable(db, current);
+      const rowsAffected = Math.abs(next.rowCount - current.rowCount);
+      current = next;
+
+      typeEvolution.push(current.columns);
+      for (const rejection of rejected) {
+        rejectedRows.push({ stepId: step.id, ...rejection });
+      }
+      stepResults.push({
+        stepId: step.id,
+        success: true,
+        rowsAffected,
+        columnsAfter: current.columns,
+        ...(rejected.length > 0 ? { rejectedRows: rejected.length } : {}),
+        ...(assertions ? { assertions } : {}),
+        ...(duplicateGroups !== undefined ? { duplicateGroups } : {}),
+      });
+    } catch (error) {
+      db.exec(`DROP TABLE IF EXISTS temp.${tableName}`);
+
+      stepResults.push({
+        stepId: step.id,
+        success: false,
+        columnsAfter: current.columns,
+        error: error instanceof Error ? error.message : String(error),
+        ...(error instanceof AssertionFailedError ? { assertions: error.assertions } : {}),
+      });
+      break;
+    }
+  }
+
+  return { table: current, stepResults, typeEvolution, fallbackSteps, rejectedRows };
+}
+
+/**
+ * Run the operation on an empty table for its validation and column metadata,
+ * then compile the step (null if it has to run in memory)
+ */
+function compileWithMetadata(
+  db: Database.Database,
+  step: TransformationStep,
+  input: SQLTable,
+  context?: ExecutionContext,
+): { sql: CompiledStep; columns: ColumnMetadata[]; warnings: string[] } | null {
+  const emptyTable: ParseResult = {
+    rows: [],
+    columns: input.columns,
+    rowCount: 0,
+    warnings: input.warnings,
+  };
+  const dryRun = getOperation(step.type)(emptyTable, step.config, context);
+
+  const sql = compileStep(db, step, input, context);
+  if (!sql) {
+    return null;
+  }
+
+  return { sql, columns: dryRun.columns, warnings: dryRun.table.warnings };
+}
+
+/**
+ * Write the output of a compiled step into a temporary table
+ */
+function materialize(
+  db: Database.Database,
+  tableName: string,
+  compiled: CompiledStep,
+  input: SQLTable,
+): SQLTable {
+  createStepTable(db, tableName);
+
+  const { changes } = db
+    .prepare(
+      `INSERT INTO ${tableName} (seq, data)
+       SELECT ROW_NUMBER() OVER (ORDER BY ${compiled.orderBy ?? "seq"}), data
+       FROM (${compiled.select})`,
+    )
+    .run();
+
+  for (const helper of compiled.tempTables ?? []) {
+    db.exec(`DROP TABLE IF EXISTS temp.${helper}`);
+  }
+
+  return { ...input, from: tableName, rowCount: changes };
+}
+
+function createStepTable(db: Database.Database, tableName: string): void {
+  db.exec(`DROP TABLE IF EXISTS temp.${tableName}`);
+  db.exec(`CREATE TEMP TABLE ${tableName} (seq INTEGER PRIMARY KEY, data TEXT NOT NULL)`);
+}
+
+/**
+ * Drop the table of a finished step (sources passed in by the caller are kept)
+ */
+function dropStepTable(db: Database.Database, table: SQLTable): void {
+  if (table.from.startsWith("pipeline_step_")) {
+    db.exec(`DROP TABLE IF EXISTS temp.${table.from}`);
+  }
+}
+
+/**
+ * Load a table for an in-memory step
+ */
+function loadTable(db: Database.Database, table: SQLTable): ParseResult {
+  const rows = (
+    db.prepare(`SELECT data FROM ${table.from} ORDER BY seq`).pluck().all() as string[]
+  ).map((data) => JSON.parse(data) as Record<string, unknown>);
+
+  return { rows, columns: table.columns, rowCount: rows.length, warnings: table.warnings };
+}
+
+/**
+ * Write the output of an in-memory step into a temporary table
+ */
+function writeTable(
+  db: Database.Database,
+  tableName: string,
+  table: ParseResult,
+  columns: ColumnMetadata[],
+): SQLTable {
+  createStepTable(db, tableName);
+
+  const insert = db.prepare(`INSERT INTO ${tableName} (seq, data) VALUES (?, ?)`);
+  const insertBatch = db.transaction((start: number) => {
+    const end = Math.min(start + INSERT_BATCH_SIZE, table.rows.length);
+    for (let i = start; i < end; i++) {
+      insert.run(i + 1, JSON.stringify(table.rows[i]));
+    }
+  });
+
+  for (let start = 0; start < table.rows.length; start += INSERT_BATCH_SIZE) {
+    insertBatch(start);
+  }
+
+  return {
+    from: tableName,
+    columns,
+    rowCount: table.rows.length,
+    warnings: table.warnings,
+  };
+}
+
+/**
+ * Write parsed rows into a temporary table to execute a pipeline over them
+ */
+export function createSourceTable(db: Database.Database, table: ParseResult): SQLTable {
+  return writeTable(db, "pipeline_step_source", table, table.columns);
+}
+
+/**
+ * Copy the result rows (in order) into a data table, then drop the step tables
+ */
+export function copyResultRows(
+  db: Database.Database,
+  result: SQLExecutionResult,
+  tableName: string,
+): void {
+  insertJSONRows(
+    db,
+    tableName,
+    result.table.from,
+    result.table.columns.map((column) => column.name),
+  );
+  releaseResult(db, result);
+}
+
+/**
+ * Drop the step tables of an execution result
+ */
+export function releaseResult(db: Database.Database, result: SQLExecutionResult): void {
+  dropStepTable(db, result.table);
+}
@@ -0,0 +1,151 @@
+/**
+ * SQL functions used by compiled pipeline steps
+ *
+ * Values whose semantics SQLite doesn't share with JavaScript (Unicode case
+ * mapping, whitespace trimming, type-aware filter comparisons, casting) are
+ * handled by these functions, so compiled steps produce exactly the same values
+ * as the in-memory operations.
+ *
+ * Cells are passed as JSON text (`data -> '$."column"'`) so booleans stay
+ * distinguishable from numbers; a missing key arrives as SQL NULL.
+ */
+
+import type Database from "better-sqlite3";
+import type { ColumnMetadata } from "@/lib/parsers/types";
+import { type CastOptions, tryCast } from "../casting/types";
+import { normalizeDuplicateValue } from "../operations/deduplicate";
+import { matchesFilterCondition } from "../operations/filter";
+import type { CastColumnConfig, DeduplicateConfig, FilterCondition } from "../types";
+
+/**
+ * Decode a JSON cell (SQL NULL means the key is missing)
+ */
+function decodeCell(cell: string | null): unknown {
+  return cell === null ? undefined : JSON.parse(cell);
+}
+
+/**
+ * Cache parsed arguments that are the same for every row (conditions, patterns)
+ */
+function memoize<T>(parse: (text: string) => T): (text: string) => T {
+  const cache = new Map<string, T>();
+  return (text) => {
+    let value = cache.get(text);
+    if (value === undefined) {
+      value = parse(text);
+      cache.set(text, value);
+    }
+    return value;
+  };
+}
+
+/**
+ * Register the pipeline functions on a connection
+ */
+export function registerPipelineFunctions(db: Database.Database): void {
+  // pipeline_text(op, text): trim/uppercase/lowercase a string
+  db.function("pipeline_text", { deterministic: true }, (op: unknown, text: unknown) => {
+    const value = String(text);
+    switch (op) {
+      case "trim":
+        return value.trim();
+      case "uppercase":
+        return value.toUpperCase();
+      case "lowercase":
+        return value.toLowerCase();
+      default:
+        throw new Error(`Unknown text operation: ${op}`);
+    }
+  });
+
+  // pipeline_filter(condition JSON, column type, cell): 1 if the cell matches
+  const parseCondition = memoize((text) => {
+    const condition = JSON.parse(text) as FilterCondition;
+    const regex =
+      condition.operator === "matches_regex"
+        ? new RegExp(String(condition.value ?? ""))
+        : undefined;
+    return { condition, regex };
+  });
+  db.function(
+    "pipeline_filter",
+    { deterministic: true },
+    (conditionJSON: unknown, columnType: unknown, cell: unknown) => {
+      const { condition, regex } = parseCondition(String(conditionJSON));
+      const matches = matchesFilterCondition(
+        condition,
+        decodeCell(cell as string | null),
+        (columnType ?? undefined) as ColumnMetadata["type"] | undefined,
+        regex,
+      );
+      return matches ? 1 : 0;
+    },
+  );
+
+  const parseCastOptions = memoize((text: string): CastOptions => JSON.parse(text));
+
+  // pipeline_cast(cell, target type, options JSON): cast value as JSON ("null" when the cast fails)
+  db.function(
+    "pipeline_cast",
+    { deterministic: true },
+    (cell: unknown, targetType: unknown, options: unknown) => {
+      const result = tryCast(
+        decodeCell(cell as string | null),
+        targetType as CastColumnConfig["targetType"],
+        parseCastOptions(options as string),
+      );
+      return JSON.stringify(result.success ? result.value : null);
+    },
+  );
+
+  // pipeline_cast_error(cell, target type, options JSON): error message, or NULL if the cast succeeds
+  db.function(
+    "pipeline_cast_error",
+    { deterministic: true },
+    (cell: unknown, targetType: unknown, options: unknown) => {
+      const result = tryCast(
+        decodeCell(cell as string | null),
+        targetType as CastColumnConfig["targetType"],
+        parseCastOptions(options as string),
+      );
+      return result.success ? null : (result.error ?? "Cast failed");
+    },
+  );
+
+  const parseDedupeOptions = memoize(
+    (text: string): Pick<DeduplicateConfig, "ignoreCase" | "ignoreWhitespace"> => JSON.parse(text),
+  );
+
+  // pipeline_dedupe_value(options JSON, cell): value compared by deduplicate as JSON (NULL if missing)
+  db.function(
+    "pipeline_dedupe_value",
+    { deterministic: true },
+    (options: unknown, cell: unknown) => {
+      const value = normalizeDuplicateValue(
+        decodeCell(cell as string | null),
+        parseDedupeOptions(options as string),
+      );
+      return value === undefined ? null : JSON.stringify(value);
+    },
+  );
+
+  // pipeline_merge(separator, skipNull, ...cells): cells joined as text
+  db.function(
+    "pipeline_merge",
+    { deterministic: true, varargs: true },
+    (separator: unknown, skipNull: unknown, ...cells: unknown[]) => {
+      const values: string[] = [];
+      for (const cell of cells) {
+        const value = decodeCell(cell as string | null);
+        if (value === null || value === undefined) {
+          if (!skipNull) {
+            values.push("");
+          }
+        } else {
+          values.push(String(value));
+        }
+      }
+      return values.join(String(separator));
+    },
+  );
+}
@@ -0,0 +1,331 @@
+/**
+ * Step-result cache for pipeline previews
+ *
+ * Intermediate tables are stored under content-addressed keys: each step's key
+ * hashes the previous key, the step's type and config and the content of any
+ * table it reads (join/append sources). The first key is derived from the
+ * input data (upload and parse options). Editing a step changes its key and
+ * every key after it, so a preview resumes from the longest unchanged prefix
+ * and only re-runs the steps from the edit onwards.
+ *
+ * Entries live in a SQLite file next to the project database, so they never
+ * end up in the stored artifact.
+ */
+
+import crypto from "node:crypto";
+import * as path from "node:path";
+import Database from "better-sqlite3";
+import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import { getDatabaseCache } from "@/lib/sqlite/cache";
+import { getDatabaseDirectory } from "@/lib/sqlite/database";
+import { executePipeline } from "./executor";
+import { getStepSources } from "./sources";
+import type {
+  ExecutionContext,
+  ExecutionResult,
+  RejectedRow,
+  StepResult,
+  TransformationStep,
+} from "./types";
+import { getSourceKey, isStepEnabled } from "./types";
+
+/** Entries kept across all pipelines of a project (least recently used are evicted) */
+const MAX_CACHE_ENTRIES = 100;
+
+/**
+ * How a preview used the cache
+ */
+export interface StepCacheStats {
+  /** Steps restored from the cache */
+  cachedSteps: number;
+  /** Steps executed for this request */
+  executedSteps: number;
+}
+
+export interface CachedExecutionResult extends ExecutionResult {
+  cache: StepCacheStats;
+}
+
+interface CacheEntry {
+  table: ParseResult;
+  /** Results of every step up to and including this one */
+  stepResults: StepResult[];
+  typeEvolution: ColumnMetadata[][];
+  rejectedRows: RejectedRow[];
+}
+
+/**
+ * Create the cache table
+ */
+export function initializeStepCache(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS step_cache (
+      pipeline_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      parent_key TEXT NOT NULL,
+      step_index INTEGER NOT NULL,
+      entry TEXT NOT NULL,
+      last_used INTEGER NOT NULL,
+      PRIMARY KEY (pipeline_id, key)
+    );
+    CREATE INDEX IF NOT EXISTS idx_step_cache_last_used ON step_cache (last_used);
+  `);
+}
+
+/**
+ * Open or retrieve the step cache database of a project
+ */
+export function getStepCacheDatabase(projectId: string): Database.Database {
+  const cacheKey = `${projectId}-step-cache`;
+  const cache = getDatabaseCache();
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const db = new Database(path.join(getDatabaseDirectory(), `${cacheKey}.db`), {
+    timeout: 5000,
+  });
+  db.pragma("journal_mode = WAL");
+  db.pragma("synchronous = NORMAL");
+  initializeStepCache(db);
+
+  cache.set(cacheKey, db);
+  return db;
+}
+
+function sha256(...parts: string[]): string {
+  const hasher = crypto.createHash("sha256");
+  for (const part of parts) {
+    hasher.update(part);
+    hasher.update("\0");
+  }
+  return hasher.digest("hex");
+}
+
+/**
+ * Serialize to JSON, keeping dates and non-finite numbers (which JSON turns into strings and nulls)
+ */
+function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, json) {
+    const raw = this[key];
+    if (raw instanceof Date) {
+      return { $date: Number.isNaN(raw.getTime()) ? null : raw.toISOString() };
+    }
+    if (typeof raw === "number" && !Number.isFinite(raw)) {
+      return { $number: String(raw) };
+    }
+    return json;
+  });
+}
+
+function deserialize<T>(json: string): T {
+  return JSON.parse(json, (_key, value) => {
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      const keys = Object.keys(value);
+      if (keys.length === 1 && keys[0] === "$date") {
+        return new Date(value.$date ?? Number.NaN);
+      }
+      if (keys.length === 1 && keys[0] === "$number") {
+        return Number(value.$number);
+      }
+    }
+    return value;
+  });
+}
+
+/**
+ * Fingerprint a table's content
+ */
+export function hashTable(table: ParseResult): string {
+  return sha256(serialize(table.columns), serialize(table.rows), String(table.rowCount));
+}
+
+/**
+ * Compute the cache key of every step
+ * `baseKey` identifies the input table; sources are the secondary tables of the context.
+ */
+export function computeStepKeys(
+  baseKey: string,
+  steps: TransformationStep[],
+  context?: ExecutionContext,
+): string[] {
+  const sourceHashes = new Map<string, string>();
+  const keys: string[] = [];
+
+  // Quarantine mode changes what steps output
+  let previousKey = sha256(baseKey, context?.rowErrorMode ?? "fail");
+  for (const step of steps) {
+    const sources = getStepSources(step).map((source) => {
+      const sourceKey = getSourceKey(source);
+      const table = context?.sources?.[sourceKey];
+      if (!table) {
+        return `${sourceKey}:missing`;
+      }
+      let hash = sourceHashes.get(sourceKey);
+      if (!hash) {
+        hash = hashTable(table);
+        sourceHashes.set(sourceKey, hash);
+      }
+      return `${sourceKey}:${hash}`;
+    });
+
+    // The step id and group are left out: they don't change what the step computes
+    previousKey = sha256(
+      previousKey,
+      JSON.stringify({
+        type: step.type,
+        config: step.config,
+        ...(isStepEnabled(step) ? {} : { enabled: false }),
+      }),
+      ...sources,
+    );
+    keys.push(previousKey);
+  }
+
+  return keys;
+}
+
+function readEntry(db: Database.Database, pipelineId: string, key: string): CacheEntry | null {
+  const row = db
+    .prepare(`SELECT entry FROM step_cache WHERE pipeline_id = ? AND key = ?`)
+    .get(pipelineId, key) as { entry: string } | undefined;
+  if (!row) {
+    return null;
+  }
+
+  db.prepare(`UPDATE step_cache SET last_used = ? WHERE pipeline_id = ? AND key = ?`).run(
+    Date.now(),
+    pipelineId,
+    key,
+  );
+  return deserialize<CacheEntry>(row.entry);
+}
+
+function writeEntry(
+  db: Database.Database,
+  pipelineId: string,
+  key: string,
+  parentKey: string,
+  stepIndex: number,
+  entry: CacheEntry,
+): void {
+  db.prepare(`
+    INSERT OR REPLACE INTO step_cache (pipeline_id, key, parent_key, step_index, entry, last_used)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(pipelineId, key, parentKey, stepIndex, serialize(entry), Date.now());
+}
+
+/**
+ * Drop entries of a pipeline that no longer match its steps
+ * Entries for the given steps must be on the current key chain; entries for
+ * later steps are kept only while the entry they were computed from is.
+ */
+export function pruneStepCache(db: Database.Database, pipelineId: string, keys: string[]): void {
+  const prune = db.transaction(() => {
+    db.prepare(`
+      DELETE FROM step_cache
+      WHERE pipeline_id = ? AND step_index < ? AND key NOT IN (SELECT value FROM json_each(?))
+    `).run(pipelineId, keys.length, JSON.stringify(keys));
+
+    db.prepare(`
+      WITH RECURSIVE live(key) AS (
+        SELECT key FROM step_cache WHERE pipeline_id = @pipelineId AND step_index = 0
+        UNION
+        SELECT step_cache.key FROM step_cache JOIN live ON step_cache.parent_key = live.key
+        WHERE step_cache.pipeline_id = @pipelineId
+      )
+      DELETE FROM step_cache WHERE pipeline_id = @pipelineId AND key NOT IN (SELECT key FROM live)
+    `).run({ pipelineId });
+
+    db.prepare(`
+      DELETE FROM step_cache WHERE rowid IN (
+        SELECT rowid FROM step_cache ORDER BY last_used DESC LIMIT -1 OFFSET ?
+      )
+    `).run(MAX_CACHE_ENTRIES);
+  });
+
+  prune();
+}
+
+/**
+ * Execute steps, resuming from the longest cached prefix
+ * The input table is only loaded when no step result is cached. Every step that
+ * succeeds is cached; execution stops at the first failing step.
+ */
+export async function executeWithStepCache(
+  db: Database.Database,
+  input: {
+    pipelineId: string;
+    baseKey: string;
+    loadTable: () => Promise<ParseResult>;
+    steps: TransformationStep[];
+    context?: ExecutionContext;
+  },
+): Promise<CachedExecutionResult> {
+  const { pipelineId, steps, context } = input;
+  const keys = computeStepKeys(input.baseKey, steps, context);
+
+  // Find the longest cached prefix
+  let resumeIndex = -1;
+  let cached: CacheEntry | null = null;
+  for (let i = keys.length - 1; i >= 0; i--) {
+    cached = readEntry(db, pipelineId, keys[i]);
+    if (cached) {
+      resumeIndex = i;
+      break;
+    }
+  }
+
+  let table: ParseResult;
+  let stepResults: StepResult[];
+  let typeEvolution: ColumnMetadata[][];
+  let rejectedRows: RejectedRow[];
+  if (cached) {
+    table = cached.table;
+    // Cached results may come from steps that were re-created with the same config
+    const stepIds = new Map(cached.stepResults.map((result, i) => [result.stepId, steps[i].id]));
+    stepResults = cached.stepResults.map((result, i) => ({ ...result, stepId: steps[i].id }));
+    typeEvolution = cached.typeEvolution;
+    rejectedRows = cached.rejectedRows.map((rejected) => ({
+      ...rejected,
+      stepId: stepIds.get(rejected.stepId) ?? rejected.stepId,
+    }));
+  } else {
+    table = await input.loadTable();
+    stepResults = [];
+    typeEvolution = [table.columns];
+    rejectedRows = [];
+  }
+
+  let executedSteps = 0;
+  for (let i = resumeIndex + 1; i < steps.length; i++) {
+    const result = executePipeline(table, [steps[i]], context);
+    executedSteps++;
+    stepResults.push(...result.stepResults);
+
+    if (!result.stepResults[0]?.success) {
+      break;
+    }
+
+    table = result.table;
+    typeEvolution.push(...result.typeEvolution.slice(1));
+    rejectedRows.push(...result.rejectedRows);
+    writeEntry(db, pipelineId, keys[i], i === 0 ? input.baseKey : keys[i - 1], i, {
+      table,
+      stepResults,
+      typeEvolution,
+      rejectedRows,
+    });
+  }
+
+  pruneStepCache(db, pipelineId, keys);
+
+  return {
+    table,
+    stepResults,
+    typeEvolution,
+    rejectedRows,
+    cache: { cachedSteps: resumeIndex + 1, executedSteps },
+  };
+}
@@ -2,7 +2,7 @@
  * Type definitions for transformation pipeline
  */
 
-import type { ColumnMetadata, ParseResult } from "@/lib/parsers/types";
+import type { ColumnMetadata, InferredType, ParseResult } from "@/lib/parsers/types";
 
 // Re-export for convenience
 export type { ParseResult, ColumnMetadata };
@@ -26,6 +26,15 @@ export const TRANSFORMATION_TYPES = [
   "fill_down",
   "fill_across",
   "sort",
+  "calculated_column",
+  "replace",
+  "join",
+  "group_by",
+  "append",
+  "assert",
+  "format_number",
+  "cluster_values",
+  "map_values",
 ] as const;
 
 export type TransformationType = (typeof TRANSFORMATION_TYPES)[number];
@@ -37,6 +46,42 @@ export interface TransformationStep {
   id: string;
   type: TransformationType;
   config: TransformationConfig;
+  enabled?: boolean; // False mutes the step: it stays in the pipeline but is skipped (default: true)
+  group?: string; // Name of the block of related steps it belongs to, e.g. "address cleanup"
+}
+
+/**
+ * Whether a step runs (steps are enabled unless muted)
+ */
+export function isStepEnabled(step: Pick<TransformationStep, "enabled">): boolean {
+  return step.enabled !== false;
+}
+
+/**
+ * A block of consecutive steps sharing a group name (or a single ungrouped step)
+ */
+export interface StepBlock<T> {
+  group?: string;
+  steps: Array<{ step: T; index: number }>;
+}
+
+/**
+ * Split steps into blocks for display
+ * A group only spans consecutive steps: moving a step away from its group starts a new block.
+ */
+export function groupSteps<T extends Pick<TransformationStep, "group">>(
+  steps: T[],
+): StepBlock<T>[] {
+  const blocks: StepBlock<T>[] = [];
+  steps.forEach((step, index) => {
+    const last = blocks[blocks.length - 1];
+    if (step.group && last?.group === step.group) {
+      last.steps.push({ step, index });
+    } else {
+      blocks.push({ ...(step.group ? { group: step.group } : {}), steps: [{ step, index }] });
+    }
+  });
+  return blocks;
 }
 
 /**
@@ -57,7 +102,16 @@ export type TransformationConfig =
   | CastColumnConfig
   | FillDownConfig
   | FillAcrossConfig
-  | SortConfig;
+  | SortConfig
+  | CalculatedColumnConfig
+  | ReplaceConfig
+  | JoinConfig
+  | GroupByConfig
+  | AppendConfig
+  | AssertConfig
+  | FormatNumberConfig
+  | ClusterValuesConfig
+  | MapValuesConfig;
 
 export interface TrimConfig {
   type: "trim";
@@ -77,21 +131,70 @@ export interface LowercaseConfig {
 export interface DeduplicateConfig {
   type: "deduplicate";
   columns?: string[]; // If specified, deduplicate based on these columns only
+  keep?: "first" | "last" | "none"; // Which row of a duplicate group survives; "none" drops them all (default: "first")
+  orderBy?: SortColumn; // Order deciding first and last within a group (default: row order)
+  ignoreCase?: boolean; // Compare text case-insensitively
+  ignoreWhitespace?: boolean; // Compare text with surrounding whitespace trimmed and inner runs collapsed
+  mode?: "remove" | "flag"; // "flag" keeps every row and adds is_duplicate/duplicate_group columns (default: "remove")
 }
 
+export type FilterOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "not_contains"
+  | "starts_with"
+  | "ends_with"
+  | "matches_regex"
+  | "greater_than"
+  | "greater_or_equal"
+  | "less_than"
+  | "less_or_equal"
+  | "between"
+  | "in"
+  | "not_in"
+  | "is_null"
+  | "not_null";
+
+export type FilterValue = string | number | boolean;
+
+/**
+ * A single comparison against one column
+ * Comparisons are date-aware: date columns (or Date values) compare as dates.
+ */
+export interface FilterCondition {
+  kind: "condition";
+  column: string;
+  operator: FilterOperator;
+  value?: FilterValue; // Optional for is_null/not_null operators
+  values?: FilterValue[]; // in/not_in: allowed values; between: [min, max] (inclusive)
+}
+
+/**
+ * AND/OR group of conditions
+ */
+export interface FilterGroup {
+  kind: "and" | "or";
+  conditions: FilterNode[];
+}
+
+/**
+ * Negation of a condition or group
+ */
+export interface FilterNot {
+  kind: "not";
+  condition: FilterNode;
+}
+
+export type FilterNode = FilterCondition | FilterGroup | FilterNot;
+
 export interface FilterConfig {
   type: "filter";
-  column: string;
-  operator:
-    | "equals"
-    | "not_equals"
-    | "contains"
-    | "not_contains"
-    | "greater_than"
-    | "less_than"
-    | "is_null"
-    | "not_null";
-  value?: string | number | boolean; // Optional for is_null/not_null operators
+  condition?: FilterNode; // Condition tree; takes precedence over column/operator/value
+  // Single condition (the original format, still accepted for saved pipelines)
+  column?: string;
+  operator?: FilterOperator;
+  value?: FilterValue;
 }
 
 export interface RenameColumnConfig {
@@ -168,7 +271,13 @@ export interface CastColumnConfig {
   column: string; // Column to cast
   targetType: "string" | "number" | "boolean" | "date";
   onError: "fail" | "null" | "skip"; // How to handle cast failures
-  format?: string; // Optional format string for dates
+  format?: string; // Date format tokens (e.g. "dd.MM.yyyy"), or "excel" for Excel serial numbers
+  dateOrder?: "day_first" | "month_first"; // How to read numeric dates without a format
+  timezone?: string; // IANA timezone the dates are in (default: UTC)
+  locale?: string; // Locale of month names and number separators (e.g. "de" for "3. März 2024", "1.234,56")
+  decimalSeparator?: string; // Overrides the locale's decimal separator for numbers
+  groupSeparator?: string; // Overrides the locale's grouping separator for numbers
+  outputFormat?: string; // Write dates as text in this format (the column becomes text)
 }
 
 /**
@@ -202,6 +311,225 @@ export interface SortColumn {
   direction: "asc" | "desc"; // Default: "asc"
 }
 
+/**
+ * Calculated Column transformation
+ * Adds a new column computed per row from an expression
+ * (e.g. "qty * unit_price" or "first || ' ' || last")
+ */
+export interface CalculatedColumnConfig {
+  type: "calculated_column";
+  newColumn: string; // Name for the computed column
+  expression: string; // Expression source, see src/lib/pipeline/expression/parser.ts
+  onError?: "fail" | "null"; // How to handle rows that fail to evaluate (default: "fail")
+}
+
+/**
+ * Replace transformation
+ * Substitutes literal text or regex matches in string columns
+ * (e.g. "N/A" → "", "St." → "Street", "(\d+)-(\d+)" → "$2-$1")
+ */
+export interface ReplaceConfig {
+  type: "replace";
+  columns: string[];
+  find: string; // Literal text, or a regex pattern when useRegex is true
+  replaceWith: string; // Supports $1, $2, $<name> backreferences when useRegex is true
+  useRegex?: boolean; // Default: false
+  caseSensitive?: boolean; // Default: true
+  matchEntireCell?: boolean; // Only replace cells that match completely (default: false)
+}
+
+/**
+ * Secondary table used by join/append: another upload (optionally a specific
+ * sheet), or another pipeline's result table
+ */
+export type TableSource =
+  | { type: "upload"; uploadId: string; sheetName?: string }
+  | { type: "pipeline"; pipelineId: string };
+
+/**
+ * Stable key used to look up a loaded source in the execution context
+ */
+export function getSourceKey(source: TableSource): string {
+  if (source.type === "pipeline") {
+    return `pipeline:${source.pipelineId}`;
+  }
+  return source.sheetName !== undefined
+    ? `upload:${source.uploadId}:${source.sheetName}`
+    : `upload:${source.uploadId}`;
+}
+
+/**
+ * Join transformation
+ * Merges rows from a secondary table on matching key columns
+ */
+export interface JoinConfig {
+  type: "join";
+  source: TableSource;
+  joinType: "left" | "inner" | "full" | "anti";
+  on: JoinKey[]; // Key column pairs, all must match
+  suffix?: string; // Appended to clashing right-hand column names (default: "_right")
+}
+
+export interface JoinKey {
+  left: string; // Column in the current table
+  right: string; // Column in the join source
+}
+
+/**
+ * Append transformation
+ * Stacks rows from other sheets, uploads or pipeline results below the current rows,
+ * aligning columns by name
+ */
+export interface AppendConfig {
+  type: "append";
+  sources: AppendSource[];
+  columnMode?: "union" | "intersection"; // Keep all columns or only shared ones (default: "union")
+  sourceColumn?: string; // If set, adds a column tagging each row with its source label
+  currentLabel?: string; // Tag for rows already in the table (default: "current")
+}
+
+export type AppendSource = TableSource & {
+  label?: string; // Tag used in sourceColumn (default: sheet name or source id)
+};
+
+/**
+ * Aggregation functions available to group_by (pivot supports a subset)
+ */
+export type AggregationFunction =
+  | "sum"
+  | "mean"
+  | "min"
+  | "max"
+  | "median"
+  | "count"
+  | "count_distinct"
+  | "first"
+  | "last"
+  | "string_agg";
+
+/**
+ * Group By transformation
+ * Collapses rows with the same key values into one row of aggregates
+ */
+export interface GroupByConfig {
+  type: "group_by";
+  groupBy: string[]; // Key columns (empty = aggregate the whole table into one row)
+  aggregations: GroupByAggregation[];
+}
+
+export interface GroupByAggregation {
+  column?: string; // Source column (optional for count, which then counts rows)
+  aggregation: AggregationFunction;
+  newColumn: string; // Output column name
+  separator?: string; // string_agg only (default: ", ")
+}
+
+/**
+ * Assert (expectation) step
+ * Checks rules without changing the data. Rules with severity "fail" fail the
+ * step (or quarantine the offending rows in quarantine mode); "warn" rules only
+ * add a warning. Every rule is reported in StepResult.assertions.
+ */
+export interface AssertConfig {
+  type: "assert";
+  rules: AssertRule[];
+}
+
+export type AssertSeverity = "warn" | "fail";
+
+export type AssertRule = (
+  | { kind: "not_null"; column: string }
+  | { kind: "unique"; columns: string[] } // Combination of values must be unique
+  | { kind: "in_set"; column: string; values: FilterValue[] }
+  | { kind: "matches_regex"; column: string; pattern: string }
+  | { kind: "range"; column: string; min?: number; max?: number } // Inclusive
+  | { kind: "row_count"; min?: number; max?: number } // Inclusive
+  | { kind: "column_type"; column: string; columnType?: InferredType } // Column exists (with this type)
+) & {
+  severity?: AssertSeverity; // Default: "fail"
+};
+
+/**
+ * Format Number transformation
+ * Renders numbers as text with fixed decimals, grouping and currency, for export
+ * (e.g. 1234.5 → "1,234.50", or "1.234,50 €" with locale "de-DE" and currency "EUR")
+ */
+export interface FormatNumberConfig {
+  type: "format_number";
+  columns: string[];
+  decimals?: number; // Fixed number of decimals, 0-20 (default: as many as needed)
+  grouping?: boolean; // Group thousands (default: true)
+  locale?: string; // Separators and currency placement (default: "en-US")
+  currency?: string; // ISO 4217 currency code, e.g. "EUR"
+}
+
+/**
+ * Cluster Values transformation
+ * Merges variants of the same value (e.g. "ACME Inc." and "Acme, Inc") into a
+ * canonical value. The clusters are found and reviewed when the step is
+ * configured (see clustering/clusters.ts); the step replays the reviewed
+ * merges, so it gives the same result on every run.
+ */
+export interface ClusterValuesConfig {
+  type: "cluster_values";
+  column: string;
+  clusters: ValueCluster[];
+  method?: ClusterMethod; // How the clusters were found, to repeat the review
+  threshold?: number; // Similarity threshold of the nearest-neighbour methods
+}
+
+export interface ValueCluster {
+  canonical: string; // Value the variants are replaced with
+  values: string[]; // Variants, matched exactly
+}
+
+/**
+ * How variants are recognized: by a shared key (fingerprint: same words ignoring
+ * case, accents, punctuation and order; metaphone: same pronunciation) or by a
+ * similarity score above a threshold
+ */
+export type ClusterMethod =
+  | "fingerprint"
+  | "metaphone"
+  | "levenshtein"
+  | "jaro_winkler"
+  | "token_set";
+
+/**
+ * Map Values transformation
+ * Recodes the values of a column with a lookup table, e.g. country names to ISO
+ * codes or status codes to labels ("A" → "Active", "I" → "Inactive").
+ * Empty cells are only replaced by a mapping from "".
+ */
+export interface MapValuesConfig {
+  type: "map_values";
+  column: string;
+  mappings: ValueMapping[];
+  caseSensitive?: boolean; // Default: true
+  defaultValue?: string; // Replaces non-empty values without a mapping (default: leave unchanged)
+}
+
+export interface ValueMapping {
+  from: string; // Whole cell value, compared as text
+  to: string;
+}
+
+/**
+ * Outcome of one assert rule
+ * Row-level rules ignore null values except not_null; row_count and
+ * column_type check the table as a whole and report a single failure.
+ */
+export interface AssertionResult {
+  rule: AssertRule;
+  description: string; // e.g. 'email is not null'
+  severity: AssertSeverity;
+  passed: boolean;
+  failedCount: number; // Failing rows (1 for a failing table-level rule)
+  sampleFailures: Record<string, unknown>[]; // Up to 5 failing rows
+  message?: string; // What was found, for table-level rules
+  quarantined?: boolean; // Failing rows were diverted to the rejects
+}
+
 /**
  * Result of executing a single transformation step
  */
@@ -212,6 +540,10 @@ export interface StepResult {
   columnsAfter: ColumnMetadata[]; // Column metadata after this step
   castErrors?: number; // Number of failed casts (for cast operations)
   skippedRows?: number; // Number of rows skipped (for cast/filter operations)
+  rejectedRows?: number; // Number of rows quarantined by this step
+  assertions?: AssertionResult[]; // Rule outcomes (for assert steps)
+  duplicateGroups?: number; // Groups of duplicate rows found (for deduplicate steps)
+  skipped?: boolean; // Disabled step: the table was passed through unchanged
   error?: string;
 }
 
@@ -222,6 +554,31 @@ export interface ExecutionResult {
   table: ParseResult;
   stepResults: StepResult[];
   typeEvolution: ColumnMetadata[][]; // Column types at each step
+  rejectedRows: RejectedRow[]; // Rows diverted in quarantine mode
+}
+
+/**
+ * How a pipeline handles rows that fail a cast, validation or expression
+ * - fail: the step fails and execution stops
+ * - quarantine: the row is diverted to the rejects and the rest of the data continues
+ */
+export type RowErrorMode = "fail" | "quarantine";
+
+/**
+ * A row an operation diverted instead of failing
+ */
+export interface RowRejection {
+  column: string | null; // Column whose value failed (null if not tied to one)
+  value: unknown; // Original value of that column
+  reason: string;
+  row: Record<string, unknown>; // The row as the step received it
+}
+
+/**
+ * A quarantined row, with the step that rejected it
+ */
+export interface RejectedRow extends RowRejection {
+  stepId: string;
 }
 
 /**
@@ -233,6 +590,14 @@ export interface PipelineConfig {
   steps: TransformationStep[];
 }
 
+/**
+ * Data resolved before execution and shared with operations
+ */
+export interface ExecutionContext {
+  sources?: Record<string, ParseResult>; // Secondary tables keyed by getSourceKey()
+  rowErrorMode?: RowErrorMode; // Default: fail
+}
+
 /**
  * Operation function signature
  * Operations now return both the transformed table and updated column metadata
@@ -241,7 +606,14 @@ export interface PipelineConfig {
 export type OperationFn<TConfig = TransformationConfig> = (
   table: ParseResult,
   config: TConfig,
-) => { table: ParseResult; columns: ColumnMetadata[] };
+  context?: ExecutionContext,
+) => {
+  table: ParseResult;
+  columns: ColumnMetadata[];
+  rejected?: RowRejection[];
+  assertions?: AssertionResult[];
+  duplicateGroups?: number;
+};
 
 /**
  * Error thrown during transformation
@@ -257,3 +629,17 @@ export class TransformationError extends Error {
     this.name = "TransformationError";
   }
 }
+
+/**
+ * Error thrown when an assert step has failing rules of severity "fail"
+ */
+export class AssertionFailedError extends TransformationError {
+  constructor(
+    message: string,
+    stepId: string,
+    public readonly assertions: AssertionResult[],
+  ) {
+    super(message, stepId, "assert", { assertions });
+    this.name = "AssertionFailedError";
+  }
+}
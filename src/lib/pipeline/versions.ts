@@ -0,0 +1,139 @@
+/**
+ * Step-level diffs between saved versions of a pipeline
+ *
+ * Steps are matched by id, so an edited step shows up as changed rather than
+ * as removed and re-added. Steps that kept their id but changed position
+ * relative to the other kept steps are flagged as moved.
+ */
+
+/**
+ * A step as stored in a pipeline version
+ */
+export interface VersionStep {
+  id: string;
+  type: string;
+  config: unknown;
+  enabled?: boolean;
+  group?: string;
+}
+
+export interface StepChange {
+  kind: "added" | "removed" | "changed" | "unchanged";
+  step: VersionStep; // The step after the change (before it, for removed steps)
+  previous?: VersionStep; // The step before the change (changed steps only)
+  index?: number; // Position in the newer version (not set for removed steps)
+  previousIndex?: number; // Position in the older version (not set for added steps)
+  moved?: boolean; // Reordered relative to the steps both versions share
+}
+
+/**
+ * Diff two step lists
+ * Changes are listed in the order of the newer version, with removed steps
+ * placed where they used to be.
+ */
+export function diffPipelineSteps(before: VersionStep[], after: VersionStep[]): StepChange[] {
+  const previousIndexes = new Map(before.map((step, index) => [step.id, index]));
+  const afterIds = new Set(after.map((step) => step.id));
+  const stable = getStableIds(
+    before.filter((step) => afterIds.has(step.id)).map((step) => step.id),
+    after.filter((step) => previousIndexes.has(step.id)).map((step) => step.id),
+  );
+
+  const changes: StepChange[] = [];
+  let nextRemoved = 0;
+
+  // Removed steps that came before the given position of the older version
+  const flushRemoved = (upTo: number) => {
+    for (; nextRemoved < upTo; nextRemoved++) {
+      const step = before[nextRemoved];
+      if (!afterIds.has(step.id)) {
+        changes.push({ kind: "removed", step, previousIndex: nextRemoved });
+      }
+    }
+  };
+
+  after.forEach((step, index) => {
+    const previousIndex = previousIndexes.get(step.id);
+    if (previousIndex === undefined) {
+      changes.push({ kind: "added", step, index });
+      return;
+    }
+
+    const moved = !stable.has(step.id);
+    if (!moved) {
+      flushRemoved(previousIndex);
+    }
+
+    const previous = before[previousIndex];
+    const changed =
+      previous.type !== step.type ||
+      !isEqual(previous.config, step.config) ||
+      (previous.enabled !== false) !== (step.enabled !== false) ||
+      previous.group !== step.group;
+    changes.push({
+      kind: changed ? "changed" : "unchanged",
+      step,
+      ...(changed ? { previous } : {}),
+      index,
+      previousIndex,
+      ...(moved ? { moved } : {}),
+    });
+  });
+  flushRemoved(before.length);
+
+  return changes;
+}
+
+/**
+ * Ids in the longest common subsequence of two orderings (the steps that did not move)
+ */
+function getStableIds(before: string[], after: string[]): Set<string> {
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const stable = new Set<string>();
+  for (let i = 0, j = 0; i < before.length && j < after.length; ) {
+    if (before[i] === after[j]) {
+      stable.add(before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return stable;
+}
+
+/**
+ * Structural equality of config values (key order is ignored)
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a === null || b === null || typeof a !== "object" || typeof b !== "object") {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const aEntries = Object.entries(a).filter(([, value]) => value !== undefined);
+  const bObject = b as Record<string, unknown>;
+  const bKeys = Object.keys(bObject).filter((key) => bObject[key] !== undefined);
+  return (
+    aEntries.length === bKeys.length &&
+    aEntries.every(([key, value]) => key in bObject && isEqual(value, bObject[key]))
+  );
+}
@@ -18,8 +18,12 @@ import {
   getRawData,
   getRowCount,
   insertColumns,
+  insertPipelineRejects,
   insertRawData,
+  pipelineRejectsExist,
 } from "../database";
+import { createPipelineTables, dropPipelineTables } from "../schema";
+import { readRows } from "../tables";
 import type { ColumnMetadata } from "../types";
 
 const TEST_PROJECT_ID = "test-project-123";
@@ -237,4 +241,45 @@ describe("SQLite Database Operations", () => {
       );
     });
   });
+
+  describe("Pipeline Rejects", () => {
+    const pipelineId = "pipeline-with-rejects";
+
+    after(() => {
+      deleteDatabase(TEST_PROJECT_ID);
+    });
+
+    it("should store quarantined rows with the row as JSON", () => {
+      const db = getDatabase(TEST_PROJECT_ID);
+      assert.ok(!pipelineRejectsExist(db, pipelineId), "Rejects table should not exist yet");
+
+      createPipelineTables(db, pipelineId);
+      insertPipelineRejects(db, pipelineId, [
+        {
+          stepId: "cast",
+          column: "age",
+          value: "n/a",
+          reason: 'Cannot convert "n/a" to number',
+          row: { name: "Alice", age: "n/a" },
+        },
+      ]);
+
+      assert.ok(pipelineRejectsExist(db, pipelineId), "Rejects table should exist");
+      const rows = readRows(db, "pipeline_pipeline_with_rejects_rejects", 0, 10);
+      assert.deepStrictEqual(rows[0].data, {
+        step_id: "cast",
+        column: "age",
+        value: "n/a",
+        reason: 'Cannot convert "n/a" to number',
+        row: '{"name":"Alice","age":"n/a"}',
+      });
+    });
+
+    it("should drop the rejects table with the pipeline tables", () => {
+      const db = getDatabase(TEST_PROJECT_ID);
+      dropPipelineTables(db, pipelineId);
+
+      assert.ok(!pipelineRejectsExist(db, pipelineId), "Rejects table should be dropped");
+    });
+  });
 });
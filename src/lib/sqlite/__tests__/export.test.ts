@@ -1,5 +1,5 @@
 /**
- * Tests for CSV export functionality
+ * Tests for CSV, XLSX, JSON, NDJSON and Parquet export functionality
  */
 
 import assert from "node:assert/strict";
@@ -7,8 +7,21 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { afterEach, beforeEach, describe, test } from "node:test";
+import { parquetMetadata, parquetReadObjects } from "hyparquet";
+import * as XLSX from "xlsx";
 import { closeDatabase, getDatabase } from "../database";
+import {
+  generateJSON,
+  generateNDJSON,
+  generateParquet,
+  generateXLSX,
+  toParquetValue,
+  toReadableStream,
+  toSheetName,
+  toXLSXCell,
+} from "../export";
 import { createPipelineTables, dropPipelineTables, initializeSchema } from "../schema";
+import { insertRows, selectRows } from "../tables";
 import type { ColumnMetadata, RawDataRow } from "../types";
 
 describe("CSV Export Utilities", () => {
@@ -101,14 +114,11 @@ describe("CSV Export Utilities", () => {
         { row_id: 3, data: { name: 'Charlie "The Great"', age: 35, city: "Chicago, IL" } },
       ];
 
-      const insertStmt = db.prepare(`
-        INSERT INTO raw_data (row_id, data)
-        VALUES (?, ?)
-      `);
-
-      for (const row of rows) {
-        insertStmt.run(row.row_id, JSON.stringify(row.data));
-      }
+      insertRows(
+        db,
+        "raw_data",
+        rows.map((row) => row.data),
+      );
 
       // Insert columns
       const columns: Array<Omit<ColumnMetadata, "sampleValues">> = [
@@ -156,14 +166,11 @@ describe("CSV Export Utilities", () => {
         { row_id: 2, data: { name: null, age: 25, city: null } },
       ];
 
-      const insertStmt = db.prepare(`
-        INSERT INTO raw_data (row_id, data)
-        VALUES (?, ?)
-      `);
-
-      for (const row of rows) {
-        insertStmt.run(row.row_id, JSON.stringify(row.data));
-      }
+      insertRows(
+        db,
+        "raw_data",
+        rows.map((row) => row.data),
+      );
 
       // Insert columns
       const columns: Array<Omit<ColumnMetadata, "sampleValues">> = [
@@ -217,14 +224,11 @@ describe("CSV Export Utilities", () => {
         { row_id: 2, data: { product: "Gadget", price: 29.99, inStock: false } },
       ];
 
-      const insertStmt = db.prepare(`
-        INSERT INTO ${resultTableName} (row_id, data)
-        VALUES (?, ?)
-      `);
-
-      for (const row of rows) {
-        insertStmt.run(row.row_id, JSON.stringify(row.data));
-      }
+      insertRows(
+        db,
+        resultTableName,
+        rows.map((row) => row.data),
+      );
 
       // Insert column metadata
       const columns: Array<Omit<ColumnMetadata, "sampleValues">> = [
@@ -269,25 +273,15 @@ describe("CSV Export Utilities", () => {
       initializeSchema(db);
 
       // Insert 10,000 rows
-      const insertStmt = db.prepare(`
-        INSERT INTO raw_data (row_id, data)
-        VALUES (?, ?)
-      `);
-
-      const transaction = db.transaction(() => {
-        for (let i = 1; i <= 10000; i++) {
-          insertStmt.run(
-            i,
-            JSON.stringify({
-              id: i,
-              name: `User ${i}`,
-              email: `user${i}@example.com`,
-            }),
-          );
-        }
-      });
-
-      transaction();
+      insertRows(
+        db,
+        "raw_data",
+        Array.from({ length: 10000 }, (_, i) => ({
+          id: i + 1,
+          name: `User ${i + 1}`,
+          email: `user${i + 1}@example.com`,
+        })),
+      );
 
       // Insert columns
       const columns: Array<Omit<ColumnMetadata, "sampleValues">> = [
@@ -323,6 +317,355 @@ describe("CSV Export Utilities", () => {
   });
 });
 
+describe("XLSX Export", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "xlsx-export-test-"));
+    process.env.SQLITE_DB_DIR = testDir;
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  function readSheetXML(buffer: Buffer, index: number): string {
+    const pkg = XLSX.CFB.read(buffer, { type: "buffer" });
+    const fileIndex = pkg.FullPaths.findIndex((p: string) =>
+      p.endsWith(`xl/worksheets/sheet${index}.xml`),
+    );
+    return Buffer.from(pkg.FileIndex[fileIndex].content).toString("utf8");
+  }
+
+  describe("Cell Conversion", () => {
+    test("should keep text with leading zeros as text", () => {
+      assert.deepEqual(toXLSXCell("00123", "string"), { t: "s", v: "00123" });
+    });
+
+    test("should write numbers and booleans as typed cells", () => {
+      assert.deepEqual(toXLSXCell(42.5, "number"), { t: "n", v: 42.5 });
+      assert.deepEqual(toXLSXCell("17", "number"), { t: "n", v: 17 });
+      assert.deepEqual(toXLSXCell("$1,234.50", "number"), { t: "n", v: 1234.5 });
+      assert.deepEqual(toXLSXCell(true, "boolean"), { t: "b", v: true });
+      assert.deepEqual(toXLSXCell("FALSE", "boolean"), { t: "b", v: false });
+    });
+
+    test("should write dates as Excel serial numbers with a date format", () => {
+      assert.deepEqual(toXLSXCell("2024-01-05", "date"), { t: "n", v: 45296, z: "yyyy-mm-dd" });
+      assert.deepEqual(toXLSXCell("2024-01-05T12:00:00.000Z", "date"), {
+        t: "n",
+        v: 45296.5,
+        z: "yyyy-mm-dd hh:mm:ss",
+      });
+    });
+
+    test("should fall back to text for values that don't match the column type", () => {
+      assert.deepEqual(toXLSXCell("n/a", "number"), { t: "s", v: "n/a" });
+      assert.deepEqual(toXLSXCell("someday", "date"), { t: "s", v: "someday" });
+    });
+
+    test("should leave empty values out", () => {
+      assert.equal(toXLSXCell(null, "string"), null);
+      assert.equal(toXLSXCell(undefined, "number"), null);
+      assert.equal(toXLSXCell("", "date"), null);
+    });
+  });
+
+  describe("Sheet Names", () => {
+    test("should replace invalid characters and truncate to 31 characters", () => {
+      const used = new Set<string>();
+      assert.equal(toSheetName("Q1/Q2: [draft]", used), "Q1_Q2_ _draft_");
+      assert.equal(toSheetName("a".repeat(40), used).length, 31);
+    });
+
+    test("should make duplicate names unique", () => {
+      const used = new Set<string>();
+      assert.equal(toSheetName("Results", used), "Results");
+      assert.equal(toSheetName("results", used), "results (2)");
+      assert.equal(toSheetName("Results", used), "Results (3)");
+    });
+  });
+
+  describe("Workbook Generation", () => {
+    test("should export typed cells, column widths and a frozen header", () => {
+      const projectId = `test-xlsx-1-${Date.now()}-${Math.random()}`;
+      const db = getDatabase(projectId);
+      initializeSchema(db);
+
+      insertRows(db, "raw_data", [
+        { zip: "02134", amount: 12.5, paid: true, due: "2024-01-05" },
+        { zip: "10001", amount: null, paid: false, due: null },
+      ]);
+
+      const buffer = generateXLSX(db, [
+        {
+          name: "raw_data",
+          tableName: "raw_data",
+          columns: [
+            { name: "zip", type: "string" },
+            { name: "amount", type: "number" },
+            { name: "paid", type: "boolean" },
+            { name: "due", type: "date" },
+          ],
+        },
+      ]);
+
+      const workbook = XLSX.read(buffer, { type: "buffer", cellDates: true });
+      assert.deepEqual(workbook.SheetNames, ["raw_data"]);
+
+      const sheet = workbook.Sheets.raw_data;
+      assert.equal(sheet["!ref"], "A1:D3");
+      assert.equal(sheet.A1.v, "zip");
+      assert.equal(sheet.A2.t, "s");
+      assert.equal(sheet.A2.v, "02134");
+      assert.equal(sheet.B2.t, "n");
+      assert.equal(sheet.B2.v, 12.5);
+      assert.equal(sheet.C2.t, "b");
+      assert.equal(sheet.D2.t, "d");
+      assert.equal((sheet.D2.v as Date).toISOString(), "2024-01-05T00:00:00.000Z");
+      assert.equal(sheet.B3, undefined);
+
+      const xml = readSheetXML(buffer, 1);
+      assert.match(
+        xml,
+        /<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"\/>/,
+      );
+      assert.match(xml, /<cols>/);
+
+      closeDatabase(projectId);
+    });
+
+    test("should write one sheet per table", () => {
+      const projectId = `test-xlsx-2-${Date.now()}-${Math.random()}`;
+      const db = getDatabase(projectId);
+      initializeSchema(db);
+      const pipelineId = "xlsx-pipeline";
+      createPipelineTables(db, pipelineId);
+
+      insertRows(db, "raw_data", [{ name: "Alice" }]);
+      insertRows(db, "pipeline_xlsx_pipeline_result", [{ name: "ALICE" }]);
+
+      const columns = [{ name: "name", type: "string" as const }];
+      const buffer = generateXLSX(db, [
+        { name: "raw_data", tableName: "raw_data", columns },
+        { name: "Clean names", tableName: "pipeline_xlsx_pipeline_result", columns },
+      ]);
+
+      const workbook = XLSX.read(buffer, { type: "buffer" });
+      assert.deepEqual(workbook.SheetNames, ["raw_data", "Clean names"]);
+      assert.equal(workbook.Sheets["Clean names"].A2.v, "ALICE");
+      assert.match(readSheetXML(buffer, 2), /state="frozen"/);
+
+      dropPipelineTables(db, pipelineId);
+      closeDatabase(projectId);
+    });
+  });
+});
+
+describe("Streamed Export", () => {
+  let testDir: string;
+  let projectId: string;
+  let db: ReturnType<typeof getDatabase>;
+
+  const columns = [
+    { name: "code", type: "string" as const },
+    { name: "amount", type: "number" as const },
+    { name: "paid", type: "boolean" as const },
+    { name: "due", type: "date" as const },
+  ];
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "stream-export-test-"));
+    process.env.SQLITE_DB_DIR = testDir;
+    projectId = `test-stream-${Date.now()}-${Math.random()}`;
+    db = getDatabase(projectId);
+    initializeSchema(db);
+  });
+
+  afterEach(() => {
+    closeDatabase(projectId);
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  async function readStream(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+    const parts: Uint8Array[] = [];
+    const reader = stream.getReader();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      parts.push(value);
+    }
+    return Buffer.concat(parts);
+  }
+
+  function toArrayBuffer(chunks: Iterable<Uint8Array>): ArrayBuffer {
+    const buffer = Buffer.concat([...chunks]);
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  }
+
+  describe("JSON", () => {
+    test("should export rows as a JSON array in column order", () => {
+      insertRows(db, "raw_data", [
+        { amount: 12.5, code: "007", paid: true, due: "2024-01-05", extra: "x" },
+        { code: "008", amount: null },
+      ]);
+
+      const json = [...generateJSON(db, "raw_data", columns)].join("");
+
+      assert.deepEqual(JSON.parse(json), [
+        { code: "007", amount: 12.5, paid: true, due: "2024-01-05" },
+        { code: "008", amount: null, paid: null, due: null },
+      ]);
+      assert.deepEqual(Object.keys(JSON.parse(json)[0]), ["code", "amount", "paid", "due"]);
+    });
+
+    test("should export an empty array for an empty table", () => {
+      const json = [...generateJSON(db, "raw_data", columns)].join("");
+      assert.deepEqual(JSON.parse(json), []);
+    });
+
+    test("should produce valid JSON across batches", () => {
+      insertRows(
+        db,
+        "raw_data",
+        Array.from({ length: 2500 }, (_, i) => ({ code: `c${i}` })),
+      );
+
+      const chunks = [...generateJSON(db, "raw_data", columns)];
+      const rows = JSON.parse(chunks.join(""));
+
+      assert.ok(chunks.length > 3);
+      assert.equal(rows.length, 2500);
+      assert.equal(rows[2499].code, "c2499");
+    });
+  });
+
+  describe("NDJSON", () => {
+    test("should export one JSON object per line", () => {
+      insertRows(db, "raw_data", [{ code: "007", amount: 1 }, { code: "008" }]);
+
+      const ndjson = [...generateNDJSON(db, "raw_data", columns)].join("");
+      const lines = ndjson.split("\n");
+
+      assert.equal(lines.length, 3);
+      assert.equal(lines[2], "");
+      assert.deepEqual(JSON.parse(lines[0]), { code: "007", amount: 1, paid: null, due: null });
+      assert.equal(JSON.parse(lines[1]).code, "008");
+    });
+  });
+
+  describe("Parquet", () => {
+    test("should convert values to the column type", () => {
+      assert.equal(toParquetValue("42", "number"), 42);
+      assert.equal(toParquetValue("1,234.56", "number"), 1234.56);
+      assert.equal(toParquetValue("$12", "number"), 12);
+      assert.equal(toParquetValue("(5)", "number"), -5);
+      assert.equal(toParquetValue("TRUE", "boolean"), true);
+      assert.equal(toParquetValue("yes", "boolean"), true);
+      assert.equal(
+        (toParquetValue("2024-01-05", "date") as Date).toISOString(),
+        "2024-01-05T00:00:00.000Z",
+      );
+      assert.equal(toParquetValue({ a: 1 }, "string"), '{"a":1}');
+      assert.equal(toParquetValue("", "string"), null);
+    });
+
+    test("should throw for values that don't fit the column type", () => {
+      assert.throws(() => toParquetValue("n/a", "number"), /Value "n\/a" is not a number/);
+      assert.throws(() => toParquetValue("maybe", "boolean"), /is not a boolean/);
+    });
+
+    test("should write a typed schema and readable rows", async () => {
+      insertRows(db, "raw_data", [
+        { code: "007", amount: 12.5, paid: true, due: "2024-01-05" },
+        { code: "008", amount: "1,234.56", paid: null, due: null },
+      ]);
+
+      const file = toArrayBuffer(generateParquet(db, "raw_data", columns));
+      const metadata = parquetMetadata(file);
+
+      assert.equal(metadata.num_rows, 2n);
+      assert.deepEqual(
+        metadata.schema.slice(1).map((el) => [el.name, el.type, el.converted_type]),
+        [
+          ["code", "BYTE_ARRAY", "UTF8"],
+          ["amount", "DOUBLE", undefined],
+          ["paid", "BOOLEAN", undefined],
+          ["due", "INT64", "TIMESTAMP_MILLIS"],
+        ],
+      );
+
+      const rows = await parquetReadObjects({ file });
+      assert.equal(rows[0].code, "007");
+      assert.equal(rows[0].amount, 12.5);
+      assert.equal(rows[0].paid, true);
+      assert.equal((rows[0].due as Date).toISOString(), "2024-01-05T00:00:00.000Z");
+      assert.equal(rows[1].amount, 1234.56);
+    });
+
+    test("should write columns with values that don't fit their type as text", async () => {
+      insertRows(db, "raw_data", [
+        { code: "007", amount: 12.5, paid: "maybe" },
+        { code: "008", amount: "n/a", paid: true },
+      ]);
+
+      const file = toArrayBuffer(generateParquet(db, "raw_data", columns));
+
+      assert.deepEqual(
+        parquetMetadata(file)
+          .schema.slice(1)
+          .map((el) => el.type),
+        ["BYTE_ARRAY", "BYTE_ARRAY", "BYTE_ARRAY", "INT64"],
+      );
+      const rows = await parquetReadObjects({ file });
+      assert.deepEqual(
+        rows.map((row) => [row.amount, row.paid]),
+        [
+          ["12.5", "maybe"],
+          ["n/a", "true"],
+        ],
+      );
+    });
+
+    test("should write one row group per 10,000 rows", () => {
+      insertRows(
+        db,
+        "raw_data",
+        Array.from({ length: 12000 }, (_, i) => ({ code: `c${i}`, amount: i })),
+      );
+
+      const chunks = [...generateParquet(db, "raw_data", columns)];
+      const metadata = parquetMetadata(toArrayBuffer(chunks));
+
+      assert.equal(metadata.num_rows, 12000n);
+      assert.deepEqual(
+        metadata.row_groups.map((group) => group.num_rows),
+        [10000n, 2000n],
+      );
+      // The file is streamed in parts rather than built in one buffer
+      assert.ok(chunks.length >= 3);
+    });
+
+    test("should write a valid file for an empty table", async () => {
+      const file = toArrayBuffer(generateParquet(db, "raw_data", columns));
+
+      assert.equal(parquetMetadata(file).num_rows, 0n);
+      assert.deepEqual(await parquetReadObjects({ file }), []);
+    });
+  });
+
+  describe("ReadableStream", () => {
+    test("should encode text chunks and pass bytes through", async () => {
+      const stream = toReadableStream(["ab", new Uint8Array([99]), "d"]);
+      assert.equal((await readStream(stream)).toString("utf8"), "abcd");
+    });
+  });
+});
+
 // Helper functions (same as in export route)
 function formatCSVValue(value: unknown): string {
   if (value === null || value === undefined) {
@@ -369,16 +712,10 @@ function generateCSV(
   lines.push(headerRow);
 
   // Add data rows
-  const stmt = db.prepare(`
-    SELECT row_id, data
-    FROM ${tableName}
-    ORDER BY row_id
-  `);
-
-  const rows = stmt.all() as Array<{ row_id: number; data: string }>;
+  const rows = selectRows(db, tableName, "ORDER BY row_id");
 
   for (const row of rows) {
-    const rowData = JSON.parse(row.data);
+    const rowData = row.data;
     const csvRow = columns
       .map((col) => {
         const value = rowData[col.name];
@@ -10,6 +10,7 @@ import type { Id } from "@convex/dataModel";
 import { resetDatabaseCache } from "../cache";
 import { deleteDatabase, getColumns, getDatabase, getRawData, getRowCount } from "../database";
 import { isProjectDataInitialized, parseAndStoreFile } from "../parser";
+import { getParseConfig } from "../schema";
 
 const TEST_PROJECT_ID = "test-parser-project-001" as Id<"projects">;
 const TEST_DATA_DIR = path.join(process.cwd(), "data", "sqlite", "test");
@@ -130,6 +131,24 @@ Charlie,35,Chicago`;
       assert.ok(columnNames.includes("B"), "Should include column B");
       assert.ok(columnNames.includes("C"), "Should include column C");
     });
+
+    it("should read numbers in the number locale", async () => {
+      deleteDatabase(TEST_PROJECT_ID);
+      const buffer = new TextEncoder().encode('item;price\nTea;"1.234,5"\nCake;"12,25"').buffer;
+
+      const result = await parseAndStoreFile(TEST_PROJECT_ID, buffer, "test.csv", "text/csv", {
+        delimiter: ";",
+        numberLocale: "de-DE",
+      });
+
+      assert.strictEqual(result.columns.find((c) => c.name === "price")?.type, "number");
+      const db = getDatabase(TEST_PROJECT_ID);
+      assert.deepStrictEqual(
+        getRawData(db, 0, 10).map((row) => row.data.price),
+        [1234.5, 12.25],
+      );
+      assert.strictEqual(getParseConfig(db)?.numberLocale, "de-DE");
+    });
   });
 
   describe("Batch Processing", () => {
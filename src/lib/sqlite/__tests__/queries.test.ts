@@ -15,8 +15,11 @@ import {
   getDistinctValues,
   getRandomSample,
   getRowRange,
+  queryTableRows,
   searchColumnValues,
 } from "../queries";
+import { parseTableQueryParams, tableQueryToParams } from "../queryParams";
+import { createDataTable, insertRows, storeNumbers } from "../tables";
 
 const TEST_PROJECT_ID = "test-query-project";
 const TEST_DATA_DIR = path.join(process.cwd(), "data", "sqlite", "test-queries");
@@ -218,6 +221,99 @@ describe("SQLite Query Operations", () => {
     });
   });
 
+  describe("Table Queries", () => {
+    it("should sort by several columns over the whole table", () => {
+      const db = getDatabase(TEST_PROJECT_ID);
+      const { rows, total } = queryTableRows(
+        db,
+        "raw_data",
+        {
+          sort: [
+            { column: "city", direction: "asc" },
+            { column: "age", direction: "desc" },
+          ],
+        },
+        0,
+        4,
+      );
+
+      assert.strictEqual(total, 10);
+      assert.deepStrictEqual(
+        rows.map((row) => row.data.name),
+        ["Charlie", "Iris", "Frank", "Eve"],
+      );
+    });
+
+    it("should count every row matching the filters and search", () => {
+      const db = getDatabase(TEST_PROJECT_ID);
+      const { rows, total } = queryTableRows(
+        db,
+        "raw_data",
+        { filters: { city: "ny" }, search: "a", sort: [{ column: "score", direction: "desc" }] },
+        1,
+        2,
+      );
+
+      // NYC rows with an "a" anywhere: Alice, Diana, Grace, Jack
+      assert.strictEqual(total, 4);
+      assert.deepStrictEqual(
+        rows.map((row) => row.data.name),
+        ["Diana", "Alice"],
+      );
+    });
+
+    it("should match wildcards literally and unknown columns not at all", () => {
+      const db = getDatabase(TEST_PROJECT_ID);
+
+      assert.strictEqual(queryTableRows(db, "raw_data", { search: "%" }, 0, 10).total, 0);
+      assert.strictEqual(
+        queryTableRows(db, "raw_data", { filters: { country: "US" } }, 0, 10).total,
+        0,
+      );
+      assert.strictEqual(
+        queryTableRows(db, "raw_data", { sort: [{ column: "country", direction: "asc" }] }, 0, 10)
+          .rows[0].data.name,
+        "Alice",
+      );
+    });
+
+    it("should sort stored numbers numerically and empty cells last", () => {
+      const db = getDatabase(TEST_PROJECT_ID);
+      createDataTable(db, "amounts");
+      insertRows(db, "amounts", [
+        { amount: "10" },
+        { amount: null },
+        { amount: "100" },
+        { amount: "2" },
+        { amount: "9" },
+      ]);
+      storeNumbers(db, "amounts", ["amount"]);
+
+      const sorted = (direction: "asc" | "desc") =>
+        queryTableRows(db, "amounts", { sort: [{ column: "amount", direction }] }, 0, 10).rows.map(
+          (row) => row.data.amount,
+        );
+
+      assert.deepStrictEqual(sorted("asc"), [2, 9, 10, 100, null]);
+      assert.deepStrictEqual(sorted("desc"), [100, 10, 9, 2, null]);
+    });
+
+    it("should round-trip queries through URL params", () => {
+      const query = {
+        sort: [
+          { column: "a:b", direction: "desc" as const },
+          { column: "city", direction: "asc" as const },
+        ],
+        filters: { "Customer Name": "smith" },
+        search: "x",
+      };
+      const params = tableQueryToParams(query);
+
+      assert.deepStrictEqual(parseTableQueryParams(new URLSearchParams(params.toString())), query);
+      assert.deepStrictEqual(parseTableQueryParams(new URLSearchParams("limit=10")), {});
+    });
+  });
+
   describe("Edge Cases", () => {
     it("should handle empty table", () => {
       const emptyProjectId = "empty-test-project";
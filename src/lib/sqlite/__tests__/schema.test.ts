@@ -6,8 +6,17 @@ import assert from "node:assert";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { after, before, describe, it } from "node:test";
+import Database from "better-sqlite3";
 import { resetDatabaseCache } from "../cache";
-import { deleteDatabase, getDatabase, insertRawData } from "../database";
+import {
+  deleteDatabase,
+  getColumns,
+  getDatabase,
+  getDatabasePath,
+  getPipelineResultData,
+  getRawData,
+  insertRawData,
+} from "../database";
 import {
   createPipelineTables,
   dropPipelineTables,
@@ -15,8 +24,10 @@ import {
   getPipelineResultRowCount,
   getRawDataRowCount,
   isInitialized,
+  SCHEMA_VERSION,
   storeParseConfig,
 } from "../schema";
+import { getStoredColumns, insertRows } from "../tables";
 import type { ParseConfig } from "../types";
 
 const TEST_PROJECT_ID = "test-schema-project";
@@ -117,12 +128,7 @@ describe("SQLite Schema Operations", () => {
     it("should insert data into pipeline result table", () => {
       const db = getDatabase(TEST_PROJECT_ID);
 
-      const stmt = db.prepare(`
-        INSERT INTO pipeline_${sanitizedId}_result (data)
-        VALUES (?)
-      `);
-
-      stmt.run(JSON.stringify({ result: "test" }));
+      insertRows(db, `pipeline_${sanitizedId}_result`, [{ result: "test" }]);
 
       const count = getPipelineResultRowCount(db, pipelineId);
       assert.strictEqual(count, 1, "Should have 1 row in pipeline result");
@@ -240,15 +246,89 @@ describe("SQLite Schema Operations", () => {
         "Should have 0 rows initially",
       );
 
-      const stmt = db.prepare(`
-        INSERT INTO pipeline_${sanitized}_result (data)
-        VALUES (?)
+      insertRows(db, `pipeline_${sanitized}_result`, [{ test: 1 }, { test: 2 }]);
+
+      assert.strictEqual(getPipelineResultRowCount(db, pipelineId), 2, "Should have 2 rows");
+    });
+  });
+
+  describe("Schema Migration", () => {
+    const projectId = "test-schema-migration";
+
+    before(() => {
+      deleteDatabase(projectId);
+
+      // Write a database with the JSON row layout (user_version 0)
+      const legacy = new Database(getDatabasePath(projectId));
+      legacy.exec(`
+        CREATE TABLE raw_data (row_id INTEGER PRIMARY KEY, data JSON NOT NULL);
+        CREATE TABLE columns (
+          name TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          null_count INTEGER DEFAULT 0,
+          sample_values TEXT,
+          min_value TEXT,
+          max_value TEXT
+        );
+        CREATE TABLE parse_config (id INTEGER PRIMARY KEY CHECK (id = 1), config JSON NOT NULL);
+        CREATE TABLE pipeline_legacy_result (row_id INTEGER PRIMARY KEY, data JSON NOT NULL);
+        CREATE TABLE pipeline_legacy_columns (
+          name TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          null_count INTEGER DEFAULT 0,
+          sample_values TEXT
+        );
       `);
 
-      stmt.run(JSON.stringify({ test: 1 }));
-      stmt.run(JSON.stringify({ test: 2 }));
+      const insertRaw = legacy.prepare("INSERT INTO raw_data (row_id, data) VALUES (?, ?)");
+      insertRaw.run(1, JSON.stringify({ "Zip code": "007", amount: 1.5, 'say "hi"': true }));
+      insertRaw.run(2, JSON.stringify({ "Zip code": "010", amount: null, 'say "hi"': false }));
+      insertRaw.run(3, JSON.stringify({ amount: 3, extra: "x" }));
 
-      assert.strictEqual(getPipelineResultRowCount(db, pipelineId), 2, "Should have 2 rows");
+      const insertColumn = legacy.prepare("INSERT INTO columns (name, type) VALUES (?, ?)");
+      insertColumn.run("amount", "number");
+      insertColumn.run("Zip code", "string");
+      insertColumn.run('say "hi"', "boolean");
+
+      legacy
+        .prepare("INSERT INTO pipeline_legacy_result (row_id, data) VALUES (?, ?)")
+        .run(1, JSON.stringify({ total: 4.5 }));
+      legacy.close();
+    });
+
+    after(() => {
+      deleteDatabase(projectId);
+    });
+
+    it("should move JSON rows into typed columns", () => {
+      const db = getDatabase(projectId);
+
+      assert.strictEqual(db.pragma("user_version", { simple: true }), SCHEMA_VERSION);
+      assert.deepStrictEqual(
+        getStoredColumns(db, "raw_data").map((column) => column.name),
+        ["amount", "Zip code", 'say "hi"', "extra"],
+        "Should keep the column metadata order",
+      );
+      assert.deepStrictEqual(getRawData(db, 0, 10), [
+        { row_id: 1, data: { amount: 1.5, "Zip code": "007", 'say "hi"': true, extra: null } },
+        { row_id: 2, data: { amount: null, "Zip code": "010", 'say "hi"': false, extra: null } },
+        { row_id: 3, data: { amount: 3, "Zip code": null, 'say "hi"': null, extra: "x" } },
+      ]);
+      assert.deepStrictEqual(
+        getColumns(db).map((column) => column.name),
+        ["amount", "Zip code", 'say "hi"'],
+      );
+    });
+
+    it("should migrate pipeline result tables", () => {
+      const db = getDatabase(projectId);
+
+      assert.deepStrictEqual(getPipelineResultData(db, "legacy"), [{ total: 4.5 }]);
+
+      const tables = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name GLOB '*_v0'")
+        .all();
+      assert.deepStrictEqual(tables, [], "Should drop the legacy tables");
     });
   });
 });
@@ -0,0 +1,199 @@
+/**
+ * Tests for typed column storage
+ */
+
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import Database from "better-sqlite3";
+import {
+  createColumnNamesTable,
+  createDataTable,
+  createSortIndex,
+  dropDataTable,
+  getColumnExpression,
+  getStoredColumns,
+  insertJSONRows,
+  insertRows,
+  jsonRowsQuery,
+  readJSONValueCounts,
+  readRows,
+  readValueCounts,
+  storeNumbers,
+} from "../tables";
+
+describe("Typed column storage", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    createColumnNamesTable(db);
+    createDataTable(db, "raw_data");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("should round-trip values with their types", () => {
+    insertRows(db, "raw_data", [
+      { zip: "007", amount: 12.5, count: 3, paid: true, note: null },
+      { zip: "010", amount: Number.NaN, count: 0, paid: false },
+    ]);
+
+    assert.deepEqual(readRows(db, "raw_data", 0, 10), [
+      { row_id: 1, data: { zip: "007", amount: 12.5, count: 3, paid: true, note: null } },
+      { row_id: 2, data: { zip: "010", amount: null, count: 0, paid: false, note: null } },
+    ]);
+
+    const types = db.prepare("SELECT typeof(c1) AS zip, typeof(c3) AS count FROM raw_data").get();
+    assert.deepEqual(types, { zip: "text", count: "real" });
+  });
+
+  it("should store dates as ISO text", () => {
+    insertRows(db, "raw_data", [{ due: new Date("2024-01-05T00:00:00.000Z") }]);
+
+    assert.deepEqual(readRows(db, "raw_data", 0, 1)[0].data, { due: "2024-01-05T00:00:00.000Z" });
+  });
+
+  it("should map arbitrary header text to positional columns", () => {
+    const headers = ["Customer Name", 'say "hi"', "a.b", "back\\slash", "", "row_id"];
+    insertRows(db, "raw_data", [Object.fromEntries(headers.map((name, i) => [name, i]))]);
+
+    const columns = getStoredColumns(db, "raw_data");
+    assert.deepEqual(
+      columns.map((column) => column.name),
+      headers,
+    );
+    assert.deepEqual(
+      columns.map((column) => column.sqlName),
+      ["c1", "c2", "c3", "c4", "c5", "c6"],
+    );
+    assert.equal(getColumnExpression(db, "raw_data", 'say "hi"'), '"c2"');
+    assert.equal(getColumnExpression(db, "raw_data", "missing"), "NULL");
+    assert.deepEqual(readRows(db, "raw_data", 0, 1)[0], {
+      row_id: 1,
+      data: Object.fromEntries(headers.map((name, i) => [name, i])),
+    });
+  });
+
+  it("should add columns for keys appearing in later batches", () => {
+    insertRows(db, "raw_data", [{ a: 1 }]);
+    insertRows(db, "raw_data", [{ b: "x" }]);
+
+    assert.deepEqual(
+      readRows(db, "raw_data", 0, 10).map((row) => row.data),
+      [
+        { a: 1, b: null },
+        { a: null, b: "x" },
+      ],
+    );
+  });
+
+  it("should decode columns mixing booleans and numbers as numbers", () => {
+    insertRows(db, "raw_data", [{ flag: true }, { flag: 2 }]);
+
+    assert.deepEqual(
+      readRows(db, "raw_data", 0, 10).map((row) => row.data.flag),
+      [1, 2],
+    );
+  });
+
+  it("should count values with their decoded types", () => {
+    insertRows(db, "raw_data", [{ paid: true }, { paid: true }, { paid: false }]);
+
+    assert.deepEqual(readValueCounts(db, "raw_data", "paid", 10), [
+      { value: true, count: 2 },
+      { value: false, count: 1 },
+    ]);
+  });
+
+  it("should count the values of a key of JSON rows", () => {
+    insertRows(db, "raw_data", [
+      { 'say "hi"': "a", paid: true },
+      { 'say "hi"': "a", paid: false },
+      { 'say "hi"': null, paid: true },
+    ]);
+    const query = jsonRowsQuery(db, "raw_data");
+
+    assert.deepEqual(readJSONValueCounts(db, query, 'say "hi"', 10), [
+      { value: "a", count: 2 },
+      { value: null, count: 1 },
+    ]);
+    assert.deepEqual(readJSONValueCounts(db, query, "paid", 10), [
+      { value: true, count: 2 },
+      { value: false, count: 1 },
+    ]);
+    assert.deepEqual(readJSONValueCounts(db, query, "missing", 10), [{ value: null, count: 3 }]);
+  });
+
+  it("should copy rows through JSON without changing them", () => {
+    const rows = [
+      { zip: "007", amount: 1.5, paid: true, 'say "hi"': "a" },
+      { zip: null, amount: 2, paid: false, 'say "hi"': null },
+    ];
+    insertRows(db, "raw_data", rows);
+
+    createDataTable(db, "copy");
+    insertJSONRows(db, "copy", jsonRowsQuery(db, "raw_data"), ["paid", ...Object.keys(rows[0])]);
+
+    assert.deepEqual(
+      getStoredColumns(db, "copy").map((column) => column.name),
+      ["paid", "zip", "amount", 'say "hi"'],
+    );
+    assert.deepEqual(readRows(db, "copy", 0, 10), readRows(db, "raw_data", 0, 10));
+  });
+
+  it("should store the numeric text of number columns as numbers", () => {
+    insertRows(db, "raw_data", [
+      { amount: "10", zip: "007", code: "A" },
+      { amount: "1.234,5", zip: "010", code: "B" },
+      { amount: "n/a", zip: null, code: "C" },
+    ]);
+
+    storeNumbers(db, "raw_data", ["amount", "missing"], { locale: "de-DE" });
+
+    assert.deepEqual(
+      readRows(db, "raw_data", 0, 10).map((row) => row.data),
+      [
+        { amount: 10, zip: "007", code: "A" },
+        { amount: 1234.5, zip: "010", code: "B" },
+        { amount: "n/a", zip: null, code: "C" },
+      ],
+    );
+  });
+
+  it("should reject more columns than SQLite allows", () => {
+    const row = Object.fromEntries(Array.from({ length: 2000 }, (_, i) => [`col${i}`, i]));
+
+    assert.throws(
+      () => insertRows(db, "raw_data", [row]),
+      /Too many columns: at most 1999 columns are supported/,
+    );
+  });
+
+  it("should index a column for sorting", () => {
+    insertRows(db, "raw_data", [{ name: "b" }, { name: "a" }]);
+    const [column] = getStoredColumns(db, "raw_data");
+
+    createSortIndex(db, "raw_data", column);
+    createSortIndex(db, "raw_data", column);
+
+    const plan = db
+      .prepare("EXPLAIN QUERY PLAN SELECT * FROM raw_data ORDER BY c1 COLLATE NOCASE NULLS LAST")
+      .all() as Array<{ detail: string }>;
+    assert.ok(plan.some((step) => step.detail.includes("raw_data_c1_sort")));
+  });
+
+  it("should drop a table with its column names", () => {
+    insertRows(db, "raw_data", [{ a: 1 }]);
+    dropDataTable(db, "raw_data");
+
+    assert.deepEqual(getStoredColumns(db, "raw_data"), []);
+    createDataTable(db, "raw_data");
+    insertRows(db, "raw_data", [{ b: 2 }]);
+    assert.deepEqual(
+      getStoredColumns(db, "raw_data").map((column) => column.sqlName),
+      ["c1"],
+    );
+  });
+});
@@ -3,11 +3,11 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import { api } from "@convex/api";
 import type { Id } from "@convex/dataModel";
-import type Database from "better-sqlite3";
+import Database from "better-sqlite3";
 import { downloadFileFromConvex, getConvexClient, storeFileInConvex } from "../convex/client";
 import type { ParseOptions } from "../parsers/types";
 import { checkpointDatabase, closeDatabase, getDatabaseDirectory } from "./database";
-import { prepareDatabaseForExport } from "./schema";
+import { migrateSchema, prepareDatabaseForExport } from "./schema";
 
 export interface SqliteArtifactInfo {
   artifactKey: string;
@@ -175,8 +175,19 @@ export async function ensureLocalDatabase(projectId: Id<"projects">): Promise<Sq
 
   if (!matches) {
     const buffer = await downloadFileFromConvex(storageId);
+    closeDatabase(projectId);
     fs.writeFileSync(dbPath, Buffer.from(buffer));
     writeLocalMetadata(metaPath, { artifactKey, storageId, sha256, size });
+
+    // Artifacts written with an older layout are upgraded and stored again
+    if (migrateLocalDatabase(dbPath)) {
+      return publishDatabaseFile(dbPath, metaPath, {
+        projectId,
+        uploadId,
+        artifactKey,
+        parseOptionsJson,
+      });
+    }
   }
 
   return {
@@ -210,6 +221,9 @@ export async function ensureLocalDatabaseForArtifact(
     const buffer = await downloadFileFromConvex(storageId);
     fs.writeFileSync(dbPath, Buffer.from(buffer));
     writeLocalMetadata(metaPath, { artifactKey, storageId, sha256, size });
+
+    // Upgraded locally only: storing it again would make this artifact the latest
+    migrateLocalDatabase(dbPath);
   }
 
   return {
@@ -246,6 +260,29 @@ export async function storeDatabaseArtifact(input: {
     fs.copyFileSync(sourceDbPath, dbPath);
   }
 
+  return publishDatabaseFile(dbPath, metaPath, {
+    projectId: input.projectId,
+    uploadId: input.uploadId,
+    artifactKey,
+    parseOptionsJson,
+  });
+}
+
+/**
+ * Upload a database file and record it as the artifact for its key
+ */
+async function publishDatabaseFile(
+  dbPath: string,
+  metaPath: string,
+  input: {
+    projectId: Id<"projects">;
+    uploadId: Id<"uploads">;
+    artifactKey: string;
+    parseOptionsJson: string;
+  },
+): Promise<SqliteArtifactInfo> {
+  const { artifactKey, parseOptionsJson } = input;
+
   const fileBuffer = fs.readFileSync(dbPath);
   const sha256 = crypto.createHash("sha256").update(fileBuffer).digest("hex");
   const size = fileBuffer.byteLength;
@@ -278,6 +315,23 @@ export async function storeDatabaseArtifact(input: {
   };
 }
 
+/**
+ * Upgrade a downloaded database file to the current layout
+ * Returns true if it was migrated.
+ */
+function migrateLocalDatabase(dbPath: string): boolean {
+  const db = new Database(dbPath);
+  try {
+    const migrated = migrateSchema(db);
+    if (migrated) {
+      prepareDatabaseForExport(db);
+    }
+    return migrated;
+  } finally {
+    db.close();
+  }
+}
+
 export function finalizeDatabaseForArtifact(
   projectId: Id<"projects">,
   db: Database.Database,
@@ -7,7 +7,8 @@ import * as os from "node:os";
 import * as path from "node:path";
 import Database from "better-sqlite3";
 import { getDatabaseCache } from "./cache";
-import { initializeSchema } from "./schema";
+import { initializeSchema, migrateSchema, sanitizePipelineId } from "./schema";
+import { createDataTable, dropDataTable, insertRows, readRows, selectRows } from "./tables";
 import type { ColumnMetadata, RawDataRow } from "./types";
 
 // Database directory (configurable via env)
@@ -66,9 +67,11 @@ export function getDatabase(projectId: string): Database.Database {
     verbose: process.env.NODE_ENV === "development" ? console.info : undefined,
   });
 
-  // Initialize schema if new database
+  // Initialize schema if new database, upgrade older layouts otherwise
   if (isNewDb) {
     initializeSchema(db);
+  } else {
+    migrateSchema(db);
   }
 
   // Cache the database
@@ -97,6 +100,8 @@ export function getDatabaseFromPath(dbPath: string, cacheKey: string): Database.
 
   if (isNewDb) {
     initializeSchema(db);
+  } else {
+    migrateSchema(db);
   }
 
   cache.set(cacheKey, db);
@@ -162,18 +167,7 @@ export function databaseExists(projectId: string): boolean {
  * Insert raw data rows in batch
  */
 export function insertRawData(db: Database.Database, rows: Array<Record<string, unknown>>): void {
-  const insert = db.prepare(`
-    INSERT INTO raw_data (data)
-    VALUES (?)
-  `);
-
-  const insertMany = db.transaction((rows: Array<Record<string, unknown>>) => {
-    for (const row of rows) {
-      insert.run(JSON.stringify(row));
-    }
-  });
-
-  insertMany(rows);
+  insertRows(db, "raw_data", rows);
 }
 
 /**
@@ -237,22 +231,7 @@ export function getRawData(
   offset: number = 0,
   limit: number = 100,
 ): RawDataRow[] {
-  const stmt = db.prepare(`
-    SELECT row_id, data
-    FROM raw_data
-    ORDER BY row_id
-    LIMIT ? OFFSET ?
-  `);
-
-  const rows = stmt.all(limit, offset) as Array<{
-    row_id: number;
-    data: string;
-  }>;
-
-  return rows.map((row) => ({
-    row_id: row.row_id,
-    data: JSON.parse(row.data),
-  }));
+  return readRows(db, "raw_data", offset, limit);
 }
 
 /**
@@ -264,11 +243,111 @@ export function getRowCount(db: Database.Database): number {
   return result.count;
 }
 
+/**
+ * Check whether a pipeline has stored results
+ */
+export function pipelineResultsExist(db: Database.Database, pipelineId: string): boolean {
+  const tableName = `pipeline_${sanitizePipelineId(pipelineId)}_result`;
+  const row = db
+    .prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name=?`)
+    .get(tableName);
+  return Boolean(row);
+}
+
+/**
+ * Get all stored result rows for a pipeline
+ */
+export function getPipelineResultData(
+  db: Database.Database,
+  pipelineId: string,
+): Array<Record<string, unknown>> {
+  const tableName = `pipeline_${sanitizePipelineId(pipelineId)}_result`;
+  return selectRows(db, tableName, "ORDER BY row_id").map((row) => row.data);
+}
+
+/**
+ * Get stored column metadata for a pipeline result
+ */
+export function getPipelineResultColumns(
+  db: Database.Database,
+  pipelineId: string,
+): ColumnMetadata[] {
+  const tableName = `pipeline_${sanitizePipelineId(pipelineId)}_columns`;
+  const rows = db
+    .prepare(`SELECT name, type, null_count, sample_values FROM ${tableName} ORDER BY rowid`)
+    .all() as Array<{
+    name: string;
+    type: string;
+    null_count: number;
+    sample_values: string | null;
+  }>;
+
+  return rows.map((row) => ({
+    name: row.name,
+    type: row.type as "string" | "number" | "boolean" | "date",
+    nullCount: row.null_count,
+    sampleValues: row.sample_values ? JSON.parse(row.sample_values) : undefined,
+  }));
+}
+
+/**
+ * Columns of a pipeline's rejects table (rows quarantined during execution)
+ * `row` holds the whole row as the rejecting step received it, as JSON.
+ */
+export const PIPELINE_REJECT_COLUMNS: ColumnMetadata[] = [
+  { name: "step_id", type: "string", nullCount: 0 },
+  { name: "column", type: "string", nullCount: 0 },
+  { name: "value", type: "string", nullCount: 0 },
+  { name: "reason", type: "string", nullCount: 0 },
+  { name: "row", type: "string", nullCount: 0 },
+];
+
+/**
+ * Store the rows a pipeline quarantined
+ */
+export function insertPipelineRejects(
+  db: Database.Database,
+  pipelineId: string,
+  rejects: Array<{
+    stepId: string;
+    column: string | null;
+    value: unknown;
+    reason: string;
+    row: Record<string, unknown>;
+  }>,
+): void {
+  const tableName = `pipeline_${sanitizePipelineId(pipelineId)}_rejects`;
+  insertRows(
+    db,
+    tableName,
+    rejects.map((reject) => ({
+      step_id: reject.stepId,
+      column: reject.column,
+      value: reject.value,
+      reason: reject.reason,
+      row: JSON.stringify(reject.row),
+    })),
+  );
+}
+
+/**
+ * Check whether a pipeline has a rejects table (pipelines executed before
+ * quarantine existed have none)
+ */
+export function pipelineRejectsExist(db: Database.Database, pipelineId: string): boolean {
+  const tableName = `pipeline_${sanitizePipelineId(pipelineId)}_rejects`;
+  const row = db
+    .prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name=?`)
+    .get(tableName);
+  return Boolean(row);
+}
+
 /**
  * Clear all data from database (for testing)
  */
 export function clearAllData(db: Database.Database): void {
-  db.exec(`DELETE FROM raw_data`);
+  dropDataTable(db, "raw_data");
+  createDataTable(db, "raw_data");
   db.exec(`DELETE FROM columns`);
   db.exec(`DELETE FROM parse_config`);
 }
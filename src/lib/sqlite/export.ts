@@ -0,0 +1,507 @@
+/**
+ * Export of SQLite tables (raw data and pipeline results)
+ *
+ * XLSX: cells keep the types recorded in the column metadata, so Excel doesn't
+ * re-interpret them: text stays text (leading zeros survive), numbers and
+ * booleans are written as such and date columns become real Excel dates.
+ * The header row is frozen and columns are sized to their content.
+ *
+ * JSON, NDJSON and Parquet are streamed: rows are read from SQLite in batches
+ * as the response is consumed. Parquet columns are typed from the column metadata,
+ * unless a value doesn't fit the type: such columns are written as text.
+ */
+
+import type { Database } from "better-sqlite3";
+import { ByteWriter, ParquetWriter, type SchemaElement } from "hyparquet-writer";
+import * as XLSX from "xlsx";
+import { castToBoolean, castToDate, castToNumber } from "@/lib/pipeline/casting/types";
+import { readRows } from "./tables";
+import type { ColumnMetadata } from "./types";
+
+export const XLSX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * Streamed export formats and their content types
+ */
+export const STREAM_CONTENT_TYPES = {
+  json: "application/json; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  parquet: "application/vnd.apache.parquet",
+} as const;
+
+export type StreamFormat = keyof typeof STREAM_CONTENT_TYPES;
+
+/** Rows read from SQLite per query */
+const BATCH_SIZE = 1000;
+
+/** Rows per Parquet row group */
+const PARQUET_ROW_GROUP_SIZE = 10000;
+
+/** Column width limits (in characters) */
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+
+/** Excel sheet names: at most 31 characters, none of : \ / ? * [ ] */
+const MAX_SHEET_NAME_LENGTH = 31;
+const INVALID_SHEET_NAME_CHARS = /[:\\/?*[\]]/g;
+
+const DATE_FORMAT = "yyyy-mm-dd";
+const DATETIME_FORMAT = "yyyy-mm-dd hh:mm:ss";
+
+/** Milliseconds per day and the Excel serial number of 1970-01-01 */
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const EXCEL_UNIX_EPOCH = 25569;
+
+/**
+ * A table to write as one worksheet
+ */
+export interface ExportSheet {
+  /** Worksheet name (sanitized when the workbook is generated) */
+  name: string;
+  tableName: string;
+  columns: Array<Pick<ColumnMetadata, "name" | "type">>;
+}
+
+/**
+ * Read the rows of a table in batches (ordered by row_id)
+ */
+function* readBatches(
+  db: Database,
+  tableName: string,
+  batchSize: number,
+): Generator<Record<string, unknown>[]> {
+  for (let offset = 0; ; offset += batchSize) {
+    const rows = readRows(db, tableName, offset, batchSize);
+    if (rows.length > 0) {
+      yield rows.map((row) => row.data);
+    }
+    if (rows.length < batchSize) {
+      return;
+    }
+  }
+}
+
+/**
+ * Convert a value to a typed Excel cell
+ * Returns null for empty values (the cell is left out).
+ */
+export function toXLSXCell(value: unknown, type: ColumnMetadata["type"]): XLSX.CellObject | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  if (type === "date") {
+    const date = castToDate(value);
+    if (date) {
+      return toDateCell(date);
+    }
+  }
+
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? { t: "n", v: value } : { t: "s", v: String(value) };
+  }
+
+  if (typeof value === "boolean") {
+    return { t: "b", v: value };
+  }
+
+  if (typeof value === "object") {
+    return { t: "s", v: JSON.stringify(value) };
+  }
+
+  const text = String(value);
+
+  // Number/boolean columns may still hold text from the original file
+  if (type === "number") {
+    const num = castToNumber(text);
+    if (num !== null) {
+      return { t: "n", v: num };
+    }
+  }
+
+  if (type === "boolean") {
+    const lower = text.trim().toLowerCase();
+    if (lower === "true" || lower === "false") {
+      return { t: "b", v: lower === "true" };
+    }
+  }
+
+  return { t: "s", v: text };
+}
+
+/**
+ * Write a date as an Excel serial number with a date (or date-time) format
+ */
+function toDateCell(date: Date): XLSX.CellObject {
+  const hasTime =
+    date.getUTCHours() !== 0 ||
+    date.getUTCMinutes() !== 0 ||
+    date.getUTCSeconds() !== 0 ||
+    date.getUTCMilliseconds() !== 0;
+
+  return {
+    t: "n",
+    v: date.getTime() / MS_PER_DAY + EXCEL_UNIX_EPOCH,
+    z: hasTime ? DATETIME_FORMAT : DATE_FORMAT,
+  };
+}
+
+/**
+ * Display width of a cell (in characters)
+ */
+function cellWidth(cell: XLSX.CellObject): number {
+  if (cell.z) {
+    return String(cell.z).length;
+  }
+  return String(cell.v).length;
+}
+
+/**
+ * Build a worksheet from a SQLite table
+ */
+export function buildWorksheet(
+  db: Database,
+  tableName: string,
+  columns: ExportSheet["columns"],
+): XLSX.WorkSheet {
+  const worksheet: XLSX.WorkSheet = {};
+  const widths = columns.map((col) => col.name.length);
+
+  // Header row
+  columns.forEach((col, c) => {
+    worksheet[XLSX.utils.encode_cell({ r: 0, c })] = { t: "s", v: col.name };
+  });
+
+  // Data rows
+  let r = 1;
+  for (const rows of readBatches(db, tableName, BATCH_SIZE)) {
+    for (const data of rows) {
+      columns.forEach((col, c) => {
+        const cell = toXLSXCell(data[col.name], col.type);
+        if (cell) {
+          worksheet[XLSX.utils.encode_cell({ r, c })] = cell;
+          widths[c] = Math.max(widths[c], cellWidth(cell));
+        }
+      });
+      r++;
+    }
+  }
+
+  worksheet["!ref"] = XLSX.utils.encode_range({
+    s: { r: 0, c: 0 },
+    e: { r: Math.max(r - 1, 0), c: Math.max(columns.length - 1, 0) },
+  });
+  worksheet["!cols"] = widths.map((width) => ({
+    wch: Math.min(Math.max(width + 2, MIN_COLUMN_WIDTH), MAX_COLUMN_WIDTH),
+  }));
+
+  return worksheet;
+}
+
+/**
+ * Make a valid, unique Excel sheet name
+ */
+export function toSheetName(name: string, usedNames: Set<string>): string {
+  const base =
+    name.replace(INVALID_SHEET_NAME_CHARS, "_").trim().slice(0, MAX_SHEET_NAME_LENGTH) || "Sheet";
+
+  let sheetName = base;
+  for (let i = 2; usedNames.has(sheetName.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    sheetName = `${base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length)}${suffix}`;
+  }
+
+  usedNames.add(sheetName.toLowerCase());
+  return sheetName;
+}
+
+/**
+ * Generate an XLSX workbook with one worksheet per table
+ */
+export function generateXLSX(db: Database, sheets: ExportSheet[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+
+  for (const sheet of sheets) {
+    const worksheet = buildWorksheet(db, sheet.tableName, sheet.columns);
+    XLSX.utils.book_append_sheet(workbook, worksheet, toSheetName(sheet.name, usedNames));
+  }
+
+  const buffer = XLSX.write(workbook, {
+    type: "buffer",
+    bookType: "xlsx",
+    compression: true,
+  }) as Buffer;
+
+  return freezeHeaderRows(buffer);
+}
+
+/**
+ * Freeze the first row of every worksheet
+ * The xlsx writer has no option for frozen panes, so the pane is added to each
+ * sheet's XML in the generated package.
+ */
+function freezeHeaderRows(buffer: Buffer): Buffer {
+  const pkg = XLSX.CFB.read(buffer, { type: "buffer" });
+  const pane = '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>';
+
+  pkg.FullPaths.forEach((fullPath: string, index: number) => {
+    if (!/xl\/worksheets\/sheet\d+\.xml$/.test(fullPath)) {
+      return;
+    }
+
+    const entry = pkg.FileIndex[index];
+    const xml = Buffer.from(entry.content).toString("utf8");
+    const frozen = xml.replace(
+      /<sheetView([^>]*?)\/>/,
+      `<sheetView$1>${pane}<selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView>`,
+    );
+
+    entry.content = Buffer.from(frozen, "utf8");
+    entry.size = entry.content.length;
+  });
+
+  return XLSX.CFB.write(pkg, { fileType: "zip", type: "buffer", compression: true }) as Buffer;
+}
+
+/**
+ * Pick the exported columns of a row, in column order
+ */
+function toRecord(
+  data: Record<string, unknown>,
+  columns: ExportSheet["columns"],
+): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const col of columns) {
+    record[col.name] = data[col.name] ?? null;
+  }
+  return record;
+}
+
+/**
+ * Stream a table as a JSON array of row objects
+ */
+export function* generateJSON(
+  db: Database,
+  tableName: string,
+  columns: ExportSheet["columns"],
+): Generator<string> {
+  let first = true;
+  yield "[";
+
+  for (const rows of readBatches(db, tableName, BATCH_SIZE)) {
+    const lines = rows.map((data) => JSON.stringify(toRecord(data, columns)));
+    yield `${first ? "\n" : ",\n"}${lines.join(",\n")}`;
+    first = false;
+  }
+
+  yield first ? "]\n" : "\n]\n";
+}
+
+/**
+ * Stream a table as newline-delimited JSON (one row object per line)
+ */
+export function* generateNDJSON(
+  db: Database,
+  tableName: string,
+  columns: ExportSheet["columns"],
+): Generator<string> {
+  for (const rows of readBatches(db, tableName, BATCH_SIZE)) {
+    yield rows.map((data) => `${JSON.stringify(toRecord(data, columns))}\n`).join("");
+  }
+}
+
+/**
+ * Parquet schema for the exported columns
+ * Every column is optional; dates are written as millisecond timestamps.
+ */
+export function toParquetSchema(columns: ExportSheet["columns"]): SchemaElement[] {
+  return [
+    { name: "root", num_children: columns.length },
+    ...columns.map((col): SchemaElement => {
+      switch (col.type) {
+        case "number":
+          return { name: col.name, type: "DOUBLE", repetition_type: "OPTIONAL" };
+        case "boolean":
+          return { name: col.name, type: "BOOLEAN", repetition_type: "OPTIONAL" };
+        case "date":
+          return {
+            name: col.name,
+            type: "INT64",
+            converted_type: "TIMESTAMP_MILLIS",
+            repetition_type: "OPTIONAL",
+          };
+        default:
+          return {
+            name: col.name,
+            type: "BYTE_ARRAY",
+            converted_type: "UTF8",
+            repetition_type: "OPTIONAL",
+          };
+      }
+    }),
+  ];
+}
+
+/**
+ * Convert a value to the Parquet type of its column
+ * Text is parsed with the rules of type inference ("1,234.56", "$12" and "(5)"
+ * are numbers). Throws for values that don't fit the column type, e.g. "n/a"
+ * in a number column: see getParquetColumns.
+ */
+export function toParquetValue(value: unknown, type: ColumnMetadata["type"]): unknown {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const converted = convertParquetValue(value, type);
+  if (converted === null) {
+    throw new Error(`Value ${JSON.stringify(String(value))} is not a ${type}`);
+  }
+  return converted;
+}
+
+/**
+ * Convert a non-empty value to a Parquet type (null when it doesn't fit)
+ */
+function convertParquetValue(value: unknown, type: ColumnMetadata["type"]): unknown {
+  switch (type) {
+    case "number":
+      return castToNumber(value);
+    case "boolean":
+      return castToBoolean(value);
+    case "date":
+      return castToDate(value);
+    default:
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Columns with the type they are written as in Parquet
+ * Number, boolean and date columns holding a value that doesn't fit their type
+ * are written as text, so no value is lost. Reads the table once.
+ */
+export function getParquetColumns(
+  db: Database,
+  tableName: string,
+  columns: ExportSheet["columns"],
+): ExportSheet["columns"] {
+  const typed = columns.filter((col) => ["number", "boolean", "date"].includes(col.type));
+  const misfits = new Set<string>();
+
+  if (typed.length > 0) {
+    for (const rows of readBatches(db, tableName, BATCH_SIZE)) {
+      for (const col of typed) {
+        if (misfits.has(col.name)) continue;
+        const misfit = rows.some((data) => {
+          const value = data[col.name];
+          return (
+            value !== null &&
+            value !== undefined &&
+            value !== "" &&
+            convertParquetValue(value, col.type) === null
+          );
+        });
+        if (misfit) misfits.add(col.name);
+      }
+    }
+  }
+
+  return columns.map((col) => (misfits.has(col.name) ? { ...col, type: "string" } : col));
+}
+
+/**
+ * Parquet byte writer that hands out the bytes written so far on flush
+ * (the Parquet writer flushes after every row group)
+ */
+class ChunkedByteWriter extends ByteWriter {
+  private chunks: Uint8Array[] = [];
+
+  flush(): void {
+    this.chunks.push(new Uint8Array(this.buffer.slice(0, this.index)));
+    this.index = 0;
+  }
+
+  takeChunks(): Uint8Array[] {
+    return this.chunks.splice(0);
+  }
+}
+
+/**
+ * Stream a table as a Parquet file (one row group per 10,000 rows)
+ */
+export function* generateParquet(
+  db: Database,
+  tableName: string,
+  sheetColumns: ExportSheet["columns"],
+): Generator<Uint8Array> {
+  const columns = getParquetColumns(db, tableName, sheetColumns);
+  const writer = new ChunkedByteWriter();
+  const parquet = new ParquetWriter({ writer, schema: toParquetSchema(columns) });
+
+  for (const rows of readBatches(db, tableName, PARQUET_ROW_GROUP_SIZE)) {
+    parquet.write({
+      columnData: columns.map((col) => ({
+        name: col.name,
+        data: rows.map((data) => toParquetValue(data[col.name], col.type)),
+      })),
+      rowGroupSize: PARQUET_ROW_GROUP_SIZE,
+    });
+    yield* writer.takeChunks();
+  }
+
+  parquet.finish();
+  writer.flush();
+  yield* writer.takeChunks();
+}
+
+/**
+ * Generate a streamed export of a table
+ */
+export function generateStream(
+  db: Database,
+  format: StreamFormat,
+  tableName: string,
+  columns: ExportSheet["columns"],
+): Iterable<string | Uint8Array> {
+  switch (format) {
+    case "json":
+      return generateJSON(db, tableName, columns);
+    case "ndjson":
+      return generateNDJSON(db, tableName, columns);
+    case "parquet":
+      return generateParquet(db, tableName, columns);
+  }
+}
+
+/**
+ * Wrap generated chunks in a ReadableStream
+ * Chunks are produced as the stream is read, so large tables are never held in memory.
+ */
+export function toReadableStream(
+  chunks: Iterable<string | Uint8Array>,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.iterator]();
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      try {
+        const { value, done } = iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(typeof value === "string" ? encoder.encode(value) : value);
+        }
+      } catch (error) {
+        console.error("Error streaming export:", error);
+        controller.error(error);
+      }
+    },
+    cancel() {
+      iterator.return?.();
+    },
+  });
+}
@@ -7,3 +7,4 @@ export * from "./database";
 export * from "./queries";
 export * from "./schema";
 export * from "./types";
+export * from "./tables";
@@ -4,9 +4,10 @@
  */
 
 import type { Id } from "@convex/dataModel";
-import { parseCSV } from "../parsers/csv";
+import { parseCSVStream } from "../parsers/csv";
+import { decodeTextChunks } from "../parsers/encoding";
 import { parseExcel } from "../parsers/excel";
-import type { ParseOptions, ParseResult } from "../parsers/types";
+import type { ParseOptions, StreamingParseResult } from "../parsers/types";
 import { ParseError } from "../parsers/types";
 import {
   finalizeDatabaseForArtifact,
@@ -21,6 +22,7 @@ import {
   insertRawData,
 } from "../sqlite/database";
 import { isInitialized, storeParseConfig } from "../sqlite/schema";
+import { storeNumbers } from "../sqlite/tables";
 import type { ColumnMetadata as SQLiteColumnMetadata } from "../sqlite/types";
 
 const BATCH_SIZE = 1000; // Process rows in batches for better memory management
@@ -28,7 +30,7 @@ const BATCH_SIZE = 1000; // Process rows in batches for better memory management
 /**
  * Convert parser ColumnMetadata to SQLite ColumnMetadata
  */
-function convertToSQLiteColumns(result: ParseResult): SQLiteColumnMetadata[] {
+function convertToSQLiteColumns(result: StreamingParseResult): SQLiteColumnMetadata[] {
   return result.columns.map((col) => {
     // Map InferredType to SQLite type (exclude "null")
     let type: "string" | "number" | "boolean" | "date" = "string";
@@ -63,19 +65,27 @@ export async function parseAndStoreFile(
       clearAllData(db);
     }
 
-    // Determine file type and parse
-    let result: ParseResult;
+    // Determine file type and parse, storing data in batches
+    let result: StreamingParseResult;
     const isExcel =
       mimeType.includes("spreadsheet") ||
       originalName.endsWith(".xlsx") ||
       originalName.endsWith(".xls");
 
     if (isExcel) {
-      result = parseExcel(fileBuffer, parseOptions);
+      const { rows, ...summary } = parseExcel(fileBuffer, parseOptions);
+      for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+        insertRawData(db, rows.slice(i, i + BATCH_SIZE));
+      }
+      result = summary;
     } else {
-      // Convert ArrayBuffer to string for CSV parsing
-      const text = new TextDecoder().decode(fileBuffer);
-      result = parseCSV(text, parseOptions);
+      // CSV is streamed: rows go to SQLite batch by batch and are never all in memory
+      result = await parseCSVStream(
+        decodeTextChunks(fileBuffer, parseOptions?.encoding),
+        (batch) => insertRawData(db, batch),
+        parseOptions,
+        BATCH_SIZE,
+      );
     }
 
     // Store parse config
@@ -83,6 +93,8 @@ export async function parseAndStoreFile(
       storeParseConfig(db, {
         delimiter: parseOptions.delimiter,
         hasHeaders: parseOptions.hasHeaders ?? true,
+        encoding: parseOptions.encoding,
+        numberLocale: parseOptions.numberLocale,
         sheetName: parseOptions.sheetName,
         cellRange:
           parseOptions.startRow ||
@@ -97,18 +109,19 @@ export async function parseAndStoreFile(
     // Convert to SQLite column format
     const columns = convertToSQLiteColumns(result);
 
+    // Types are only known once every row is in: store number columns as numbers
+    storeNumbers(
+      db,
+      "raw_data",
+      columns.filter((col) => col.type === "number").map((col) => col.name),
+      parseOptions?.numberLocale ? { locale: parseOptions.numberLocale } : undefined,
+    );
+
     // Store column metadata
     insertColumns(db, columns);
 
-    // Store data in batches
-    const totalRows = result.rows.length;
-    for (let i = 0; i < totalRows; i += BATCH_SIZE) {
-      const batch = result.rows.slice(i, i + BATCH_SIZE);
-      insertRawData(db, batch);
-    }
-
     return {
-      rowCount: totalRows,
+      rowCount: result.rowCount,
       columns,
     };
   } catch (error) {
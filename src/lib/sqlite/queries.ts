@@ -3,7 +3,16 @@
  */
 
 import type { Database } from "better-sqlite3";
-import type { ColumnDistribution, ColumnStats } from "./types";
+import {
+  createSortIndex,
+  getColumnExpression,
+  getStoredColumns,
+  quoteIdentifier,
+  readValueCounts,
+  type StoredColumn,
+  selectRows,
+} from "./tables";
+import type { ColumnDistribution, ColumnStats, RawDataRow, TableQuery } from "./types";
 
 /**
  * Get random sample of rows
@@ -13,15 +22,7 @@ export function getRandomSample(
   tableName: string = "raw_data",
   limit: number = 100,
 ): Array<Record<string, unknown>> {
-  const stmt = db.prepare(`
-    SELECT data
-    FROM ${tableName}
-    ORDER BY RANDOM()
-    LIMIT ?
-  `);
-
-  const rows = stmt.all(limit) as Array<{ data: string }>;
-  return rows.map((row) => JSON.parse(row.data));
+  return selectRows(db, tableName, "ORDER BY RANDOM() LIMIT ?", [limit]).map((row) => row.data);
 }
 
 /**
@@ -33,15 +34,10 @@ export function getRowRange(
   endRow: number,
   tableName: string = "raw_data",
 ): Array<Record<string, unknown>> {
-  const stmt = db.prepare(`
-    SELECT data
-    FROM ${tableName}
-    WHERE row_id >= ? AND row_id <= ?
-    ORDER BY row_id
-  `);
-
-  const rows = stmt.all(startRow, endRow) as Array<{ data: string }>;
-  return rows.map((row) => JSON.parse(row.data));
+  return selectRows(db, tableName, "WHERE row_id >= ? AND row_id <= ? ORDER BY row_id", [
+    startRow,
+    endRow,
+  ]).map((row) => row.data);
 }
 
 /**
@@ -54,54 +50,67 @@ export function getColumnStats(
   tableName: string = "raw_data",
   sampleSize: number = 10000,
 ): ColumnStats {
-  // Get sample of data
-  const stmt = db.prepare(`
-    SELECT data
-    FROM ${tableName}
-    ORDER BY RANDOM()
-    LIMIT ?
-  `);
+  const column = getColumnExpression(db, tableName, columnName);
+  const booleans = getStoredColumns(db, tableName).some(
+    (stored) => stored.name === columnName && stored.booleans,
+  );
 
-  const rows = stmt.all(sampleSize) as Array<{ data: string }>;
-  const values = rows
-    .map((row) => JSON.parse(row.data)[columnName])
-    .filter((val) => val !== null && val !== undefined);
+  // Aggregate over a random sample (materialized so every aggregate sees the same rows)
+  const sample = `
+    WITH sample AS MATERIALIZED (
+      SELECT ${column} AS value FROM ${tableName} ORDER BY RANDOM() LIMIT ?
+    )`;
 
-  const nullCount = rows.length - values.length;
-  const uniqueValues = new Set(values);
+  const summary = db
+    .prepare(`
+      ${sample}
+      SELECT
+        COUNT(*) AS count,
+        COUNT(value) AS nonNullCount,
+        COUNT(DISTINCT value) AS uniqueCount,
+        (SELECT typeof(value) FROM sample WHERE value IS NOT NULL LIMIT 1) AS firstType,
+        MIN(CASE WHEN typeof(value) IN ('integer', 'real') THEN value END) AS minNumber,
+        MAX(CASE WHEN typeof(value) IN ('integer', 'real') THEN value END) AS maxNumber,
+        AVG(CASE WHEN typeof(value) IN ('integer', 'real') THEN value END) AS avgNumber,
+        MIN(CASE WHEN typeof(value) = 'text' THEN value END) AS minText,
+        MAX(CASE WHEN typeof(value) = 'text' THEN value END) AS maxText
+      FROM sample
+    `)
+    .get(sampleSize) as {
+    count: number;
+    nonNullCount: number;
+    uniqueCount: number;
+    firstType: string | null;
+    minNumber: number | null;
+    maxNumber: number | null;
+    avgNumber: number | null;
+    minText: string | null;
+    maxText: string | null;
+  };
 
-  // Determine type
+  // Determine type from the first value
   let type = "string";
-  if (values.length > 0) {
-    const firstValue = values[0];
-    if (typeof firstValue === "number") {
-      type = "number";
-    } else if (typeof firstValue === "boolean") {
-      type = "boolean";
-    } else if (firstValue instanceof Date) {
-      type = "date";
-    }
+  if (summary.firstType === "integer" || summary.firstType === "real") {
+    type = booleans ? "boolean" : "number";
   }
 
   // Calculate stats
   const stats: ColumnStats = {
     name: columnName,
     type,
-    count: rows.length,
-    nullCount,
-    uniqueCount: uniqueValues.size,
+    count: summary.count,
+    nullCount: summary.count - summary.nonNullCount,
+    uniqueCount: summary.uniqueCount,
   };
 
   // Type-specific stats
   if (type === "number") {
-    const numValues = values as number[];
-    stats.minValue = Math.min(...numValues);
-    stats.maxValue = Math.max(...numValues);
-    stats.avgValue = numValues.reduce((a, b) => a + b, 0) / numValues.length;
+    stats.minValue = summary.minNumber ?? undefined;
+    stats.maxValue = summary.maxNumber ?? undefined;
+    stats.avgValue = summary.avgNumber ?? undefined;
   } else if (type === "string") {
-    const strValues = values as string[];
-    stats.minValue = strValues.sort()[0];
-    stats.maxValue = strValues.sort()[strValues.length - 1];
+    stats.minValue = summary.minText ?? undefined;
+    stats.maxValue = summary.maxText ?? undefined;
   }
 
   return stats;
@@ -117,32 +126,14 @@ export function getColumnDistribution(
   limit: number = 20,
   sampleSize: number = 10000,
 ): ColumnDistribution {
-  // Get sample of data
-  const stmt = db.prepare(`
-    SELECT data
-    FROM ${tableName}
-    ORDER BY RANDOM()
-    LIMIT ?
-  `);
-
-  const rows = stmt.all(sampleSize) as Array<{ data: string }>;
-  const values = rows.map((row) => JSON.parse(row.data)[columnName]);
+  // Count value frequencies over a sample of rows
+  const sample = `(SELECT * FROM ${tableName} ORDER BY RANDOM() LIMIT ${Math.floor(sampleSize)})`;
+  const total = (db.prepare(`SELECT COUNT(*) AS count FROM ${sample}`).get() as { count: number })
+    .count;
+  const counts = readValueCounts(db, tableName, columnName, limit, sample);
 
-  // Count value frequencies
-  const frequencies = new Map<string | number | null, number>();
-  for (const value of values) {
-    const key = value === null ? null : value;
-    frequencies.set(key, (frequencies.get(key) || 0) + 1);
-  }
-
-  // Sort by frequency and take top N
-  const sortedFreqs = Array.from(frequencies.entries())
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, limit);
-
-  const total = values.length;
-  const distribution = sortedFreqs.map(([value, count]) => ({
-    value,
+  const distribution = counts.map(({ value, count }) => ({
+    value: value as string | number | null,
     count,
     percentage: (count / total) * 100,
   }));
@@ -163,16 +154,10 @@ export function searchColumnValues(
   tableName: string = "raw_data",
   limit: number = 100,
 ): Array<Record<string, unknown>> {
-  // Use JSON extract for searching
-  const stmt = db.prepare(`
-    SELECT data
-    FROM ${tableName}
-    WHERE json_extract(data, '$.${columnName}') LIKE ?
-    LIMIT ?
-  `);
-
-  const rows = stmt.all(`%${pattern}%`, limit) as Array<{ data: string }>;
-  return rows.map((row) => JSON.parse(row.data));
+  const column = getColumnExpression(db, tableName, columnName);
+  return selectRows(db, tableName, `WHERE ${column} LIKE ? LIMIT ?`, [`%${pattern}%`, limit]).map(
+    (row) => row.data,
+  );
 }
 
 /**
@@ -184,10 +169,11 @@ export function countRowsWhere(
   value: unknown,
   tableName: string = "raw_data",
 ): number {
+  const column = getColumnExpression(db, tableName, columnName);
   const stmt = db.prepare(`
     SELECT COUNT(*) as count
     FROM ${tableName}
-    WHERE json_extract(data, '$.${columnName}') = ?
+    WHERE ${column} = ?
   `);
 
   const result = stmt.get(value) as { count: number };
@@ -203,8 +189,9 @@ export function getDistinctValues(
   tableName: string = "raw_data",
   limit: number = 100,
 ): Array<string | number | null> {
+  const column = getColumnExpression(db, tableName, columnName);
   const stmt = db.prepare(`
-    SELECT DISTINCT json_extract(data, '$.${columnName}') as value
+    SELECT DISTINCT ${column} as value
     FROM ${tableName}
     LIMIT ?
   `);
@@ -212,3 +199,83 @@ export function getDistinctValues(
   const rows = stmt.all(limit) as Array<{ value: string | number | null }>;
   return rows.map((row) => row.value);
 }
+
+/**
+ * Read a page of rows matching a table query, with the number of matching rows
+ * Sorting, filtering and search run over the whole table. Filters and sorts on
+ * columns the table doesn't have match no rows and are ignored, respectively.
+ */
+export function queryTableRows(
+  db: Database,
+  tableName: string,
+  query: TableQuery,
+  offset: number,
+  limit: number,
+): { rows: RawDataRow[]; total: number } {
+  const columns = new Map(getStoredColumns(db, tableName).map((column) => [column.name, column]));
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  for (const [name, value] of Object.entries(query.filters ?? {})) {
+    const column = columns.get(name);
+    if (!column) {
+      conditions.push("0");
+      continue;
+    }
+    conditions.push(`${textExpression(column)} LIKE ? ESCAPE '\\'`);
+    params.push(likePattern(value));
+  }
+
+  const search = query.search;
+  if (search) {
+    const matches = [...columns.values()].map(
+      (column) => `${textExpression(column)} LIKE ? ESCAPE '\\'`,
+    );
+    conditions.push(matches.length > 0 ? `(${matches.join(" OR ")})` : "0");
+    params.push(...matches.map(() => likePattern(search)));
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+  // Numbers sort before text, empty cells last
+  const sortColumns = (query.sort ?? []).flatMap(({ column: name, direction }) => {
+    const column = columns.get(name);
+    return column ? [{ column, direction }] : [];
+  });
+  const order = sortColumns.map(
+    ({ column, direction }) =>
+      `${quoteIdentifier(column.sqlName)} COLLATE NOCASE ${direction === "desc" ? "DESC" : "ASC"} NULLS LAST`,
+  );
+  if (sortColumns.length > 0) {
+    createSortIndex(db, tableName, sortColumns[0].column);
+  }
+
+  const { count } = db
+    .prepare(`SELECT COUNT(*) AS count FROM ${tableName} ${where}`)
+    .get(...params) as { count: number };
+  const rows = selectRows(
+    db,
+    tableName,
+    `${where} ORDER BY ${[...order, "row_id"].join(", ")} LIMIT ? OFFSET ?`,
+    [...params, limit, offset],
+  );
+
+  return { rows, total: count };
+}
+
+/**
+ * A column's values as displayed text, for substring matching
+ */
+function textExpression(column: StoredColumn): string {
+  const value = quoteIdentifier(column.sqlName);
+  return column.booleans
+    ? `CASE WHEN ${value} IS NULL THEN NULL WHEN ${value} THEN 'true' ELSE 'false' END`
+    : `CAST(${value} AS TEXT)`;
+}
+
+/**
+ * LIKE pattern matching values that contain the text (wildcards in it are literal)
+ */
+function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
@@ -0,0 +1,60 @@
+/**
+ * URL encoding of table queries for the data and results routes
+ *
+ *   ?sort=city:asc&sort=age:desc&filter.city=ny&search=alice
+ *
+ * `sort` is repeated per key (the direction follows the last colon, so column
+ * names may contain colons); each `filter.<column>` param filters one column.
+ */
+
+import type { TableQuery, TableSortKey } from "./types";
+
+const FILTER_PREFIX = "filter.";
+
+/**
+ * Read a table query from URL search params
+ */
+export function parseTableQueryParams(params: URLSearchParams): TableQuery {
+  const sort: TableSortKey[] = params.getAll("sort").flatMap((value) => {
+    const separator = value.lastIndexOf(":");
+    const direction = separator === -1 ? "" : value.slice(separator + 1);
+    if (direction !== "asc" && direction !== "desc") {
+      return value ? [{ column: value, direction: "asc" as const }] : [];
+    }
+    const column = value.slice(0, separator);
+    return column ? [{ column, direction }] : [];
+  });
+
+  const filters: Record<string, string> = {};
+  for (const [key, value] of params.entries()) {
+    if (key.startsWith(FILTER_PREFIX) && value) {
+      filters[key.slice(FILTER_PREFIX.length)] = value;
+    }
+  }
+
+  const search = params.get("search") ?? "";
+  return {
+    ...(sort.length > 0 ? { sort } : {}),
+    ...(Object.keys(filters).length > 0 ? { filters } : {}),
+    ...(search ? { search } : {}),
+  };
+}
+
+/**
+ * Write a table query as URL search params
+ */
+export function tableQueryToParams(query: TableQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of query.sort ?? []) {
+    params.append("sort", `${key.column}:${key.direction}`);
+  }
+  for (const [column, value] of Object.entries(query.filters ?? {})) {
+    if (value) {
+      params.append(`${FILTER_PREFIX}${column}`, value);
+    }
+  }
+  if (query.search) {
+    params.set("search", query.search);
+  }
+  return params;
+}
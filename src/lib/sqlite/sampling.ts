@@ -4,6 +4,7 @@
  */
 
 import type { Database } from "better-sqlite3";
+import { getColumnExpression, readValueCounts, selectRows } from "./tables";
 import type { ColumnMetadata } from "./types";
 
 /**
@@ -14,15 +15,7 @@ export function sampleRows(
   tableName: string,
   limit: number = 10,
 ): Array<Record<string, unknown>> {
-  const stmt = db.prepare(`
-    SELECT data
-    FROM ${tableName}
-    ORDER BY RANDOM()
-    LIMIT ?
-  `);
-
-  const rows = stmt.all(limit) as Array<{ data: string }>;
-  return rows.map((row) => JSON.parse(row.data));
+  return selectRows(db, tableName, "ORDER BY RANDOM() LIMIT ?", [limit]).map((row) => row.data);
 }
 
 /**
@@ -61,31 +54,7 @@ export function getUniqueValues(
   columnName: string,
   limit: number = 50,
 ): Array<{ value: unknown; count: number }> {
-  // Get all rows
-  const stmt = db.prepare(`
-    SELECT data
-    FROM ${tableName}
-  `);
-
-  const rows = stmt.all() as Array<{ data: string }>;
-
-  // Count values
-  const valueCounts = new Map<string, number>();
-  for (const row of rows) {
-    const data = JSON.parse(row.data);
-    const value = data[columnName];
-    const key = JSON.stringify(value);
-    valueCounts.set(key, (valueCounts.get(key) || 0) + 1);
-  }
-
-  // Sort by count and take top N
-  return Array.from(valueCounts.entries())
-    .map(([key, count]) => ({
-      value: JSON.parse(key),
-      count,
-    }))
-    .sort((a, b) => b.count - a.count)
-    .slice(0, limit);
+  return readValueCounts(db, tableName, columnName, limit);
 }
 
 /**
@@ -107,15 +76,11 @@ export function searchColumn(
   searchTerm: string,
   limit: number = 20,
 ): Array<Record<string, unknown>> {
-  const stmt = db.prepare(`
-    SELECT data
-    FROM ${tableName}
-    WHERE json_extract(data, '$.${columnName}') LIKE ?
-    LIMIT ?
-  `);
-
-  const rows = stmt.all(`%${searchTerm}%`, limit) as Array<{ data: string }>;
-  return rows.map((row) => JSON.parse(row.data));
+  const column = getColumnExpression(db, tableName, columnName);
+  return selectRows(db, tableName, `WHERE ${column} LIKE ? LIMIT ?`, [
+    `%${searchTerm}%`,
+    limit,
+  ]).map((row) => row.data);
 }
 
 /**
@@ -3,8 +3,16 @@
  */
 
 import type { Database } from "better-sqlite3";
+import { createColumnNamesTable, createDataTable, dropDataTable, insertJSONRows } from "./tables";
 import type { ParseConfig } from "./types";
 
+/**
+ * Layout version, stored in PRAGMA user_version
+ * 0: raw_data and pipeline result tables hold each row as one JSON blob (data JSON)
+ * 1: one SQL column per source column, named through column_names (see tables.ts)
+ */
+export const SCHEMA_VERSION = 1;
+
 /**
  * Initialize database schema for a new project
  */
@@ -15,13 +23,9 @@ export function initializeSchema(db: Database): void {
   db.pragma("cache_size = 10000"); // ~40MB cache
   db.pragma("temp_store = MEMORY");
 
-  // Create raw_data table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS raw_data (
-      row_id INTEGER PRIMARY KEY,
-      data JSON NOT NULL
-    );
-  `);
+  // Create raw_data table and the column name mapping
+  createColumnNamesTable(db);
+  createDataTable(db, "raw_data");
 
   // Create columns table
   db.exec(`
@@ -43,10 +47,79 @@ export function initializeSchema(db: Database): void {
     );
   `);
 
-  // Create indexes
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_raw_data_row_id ON raw_data(row_id);
-  `);
+  db.pragma(`user_version = ${SCHEMA_VERSION}`);
+}
+
+/**
+ * Upgrade a database written with an older layout (e.g. a stored artifact)
+ * Returns true if the database was changed.
+ */
+export function migrateSchema(db: Database): boolean {
+  const version = db.pragma("user_version", { simple: true }) as number;
+  if (version >= SCHEMA_VERSION) {
+    return false;
+  }
+
+  const migrate = db.transaction(() => {
+    createColumnNamesTable(db);
+
+    // 0 -> 1: move JSON rows into one column per key
+    const tables = db
+      .prepare(`
+        SELECT name FROM sqlite_master
+        WHERE type = 'table' AND (name = 'raw_data' OR name GLOB 'pipeline_*_result')
+      `)
+      .pluck()
+      .all() as string[];
+
+    for (const tableName of tables) {
+      const isJSON = (db.pragma(`table_info(${tableName})`) as Array<{ name: string }>).some(
+        (column) => column.name === "data",
+      );
+      if (isJSON) {
+        migrateJSONTable(db, tableName);
+      }
+    }
+
+    db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  });
+
+  migrate();
+  return true;
+}
+
+/**
+ * Rewrite a (row_id, data JSON) table with one column per key
+ * Keys keep the order of the column metadata; keys missing from it follow in
+ * order of first appearance.
+ */
+function migrateJSONTable(db: Database, tableName: string): void {
+  const columnsTable =
+    tableName === "raw_data" ? "columns" : tableName.replace(/_result$/, "_columns");
+  const hasColumnsTable = db
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`)
+    .get(columnsTable);
+  const metadataNames = hasColumnsTable
+    ? (db.prepare(`SELECT name FROM ${columnsTable} ORDER BY rowid`).pluck().all() as string[])
+    : [];
+  const keys = db
+    .prepare(`
+      SELECT key FROM ${tableName}, json_each(${tableName}.data)
+      GROUP BY key
+      ORDER BY MIN(${tableName}.row_id)
+    `)
+    .pluck()
+    .all() as string[];
+
+  const legacyTable = `${tableName}_v0`;
+  db.exec(`ALTER TABLE ${tableName} RENAME TO ${legacyTable}`);
+  dropDataTable(db, tableName);
+  createDataTable(db, tableName);
+  insertJSONRows(db, tableName, `(SELECT row_id AS seq, data FROM ${legacyTable})`, [
+    ...metadataNames,
+    ...keys,
+  ]);
+  db.exec(`DROP TABLE ${legacyTable}`);
 }
 
 /**
@@ -72,7 +145,7 @@ export function hasDatabaseData(db: Database): boolean {
  * Sanitize pipeline ID for use in table names
  * SQLite table names can't contain hyphens
  */
-function sanitizePipelineId(pipelineId: string): string {
+export function sanitizePipelineId(pipelineId: string): string {
   return pipelineId.replace(/-/g, "_");
 }
 
@@ -83,13 +156,10 @@ export function createPipelineTables(db: Database, pipelineId: string): void {
   const sanitized = sanitizePipelineId(pipelineId);
   const resultTableName = `pipeline_${sanitized}_result`;
   const columnsTableName = `pipeline_${sanitized}_columns`;
+  const rejectsTableName = `pipeline_${sanitized}_rejects`;
 
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS ${resultTableName} (
-      row_id INTEGER PRIMARY KEY,
-      data JSON NOT NULL
-    );
-  `);
+  createDataTable(db, resultTableName);
+  createDataTable(db, rejectsTableName);
 
   db.exec(`
     CREATE TABLE IF NOT EXISTS ${columnsTableName} (
@@ -99,10 +169,6 @@ export function createPipelineTables(db: Database, pipelineId: string): void {
       sample_values TEXT
     );
   `);
-
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_${resultTableName}_row_id ON ${resultTableName}(row_id);
-  `);
 }
 
 /**
@@ -112,8 +178,10 @@ export function dropPipelineTables(db: Database, pipelineId: string): void {
   const sanitized = sanitizePipelineId(pipelineId);
   const resultTableName = `pipeline_${sanitized}_result`;
   const columnsTableName = `pipeline_${sanitized}_columns`;
+  const rejectsTableName = `pipeline_${sanitized}_rejects`;
 
-  db.exec(`DROP TABLE IF EXISTS ${resultTableName};`);
+  dropDataTable(db, resultTableName);
+  dropDataTable(db, rejectsTableName);
   db.exec(`DROP TABLE IF EXISTS ${columnsTableName};`);
 }
 
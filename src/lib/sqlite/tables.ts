@@ -0,0 +1,513 @@
+/**
+ * Column storage for data tables (raw_data and pipeline results)
+ *
+ * Each source column is stored in its own SQL column, so values can be sorted,
+ * filtered, aggregated and indexed without parsing JSON. Header text can be
+ * anything, so SQL columns are named by position and mapped back through the
+ * column_names table:
+ *
+ *   column_names: ("raw_data", 1, "Customer Name", "c1", ...)
+ *   raw_data:     (row_id INTEGER PRIMARY KEY, c1, c2, ...)
+ *
+ * Columns are declared without a type (no affinity), so values keep the storage
+ * class they were written with: numbers are INTEGER/REAL and text stays TEXT.
+ * Once a column is known to hold numbers, its numeric text is stored as numbers
+ * (see storeNumbers), so it sorts and compares as numbers: "007" in a number
+ * column reads back as 7, while text elsewhere is kept as is. Booleans are
+ * stored as 0/1 and read back as booleans in columns holding no other numbers;
+ * dates are stored as ISO text. Missing cells read back as null.
+ *
+ * SQLite tables hold at most 2000 columns, so a table has at most
+ * MAX_DATA_COLUMNS source columns (row_id being the other one).
+ */
+
+import type { Database } from "better-sqlite3";
+import { castToNumber } from "@/lib/pipeline/casting/types";
+import type { NumberParseOptions } from "@/lib/pipeline/casting/numbers";
+import type { RawDataRow } from "./types";
+
+/** Source columns per data table (SQLite's column limit, minus row_id) */
+export const MAX_DATA_COLUMNS = 1999;
+
+/** Columns per json_object() call (SQLite limits function arguments) */
+const JSON_OBJECT_CHUNK_SIZE = 200;
+
+/** Columns per aggregate query when scanning JSON rows */
+const SCAN_CHUNK_SIZE = 500;
+
+/**
+ * A stored column: header text mapped to its SQL column
+ */
+export interface StoredColumn {
+  name: string;
+  sqlName: string;
+  /** Integer values are booleans */
+  booleans: boolean;
+}
+
+/**
+ * Quote a SQL identifier
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Create the column name mapping table
+ */
+export function createColumnNamesTable(db: Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS column_names (
+      table_name TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      sql_name TEXT NOT NULL,
+      has_booleans INTEGER NOT NULL DEFAULT 0,
+      has_numbers INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (table_name, position),
+      UNIQUE (table_name, name)
+    );
+  `);
+}
+
+/**
+ * Create an empty data table (columns are added as rows are written)
+ */
+export function createDataTable(db: Database, tableName: string): void {
+  db.exec(`CREATE TABLE IF NOT EXISTS ${tableName} (row_id INTEGER PRIMARY KEY)`);
+}
+
+/**
+ * Drop a data table and its column names
+ */
+export function dropDataTable(db: Database, tableName: string): void {
+  db.exec(`DROP TABLE IF EXISTS ${tableName}`);
+  db.prepare(`DELETE FROM column_names WHERE table_name = ?`).run(tableName);
+}
+
+/**
+ * Get the stored columns of a data table, in column order
+ */
+export function getStoredColumns(db: Database, tableName: string): StoredColumn[] {
+  const rows = db
+    .prepare(`
+      SELECT name, sql_name, has_booleans, has_numbers
+      FROM column_names
+      WHERE table_name = ?
+      ORDER BY position
+    `)
+    .all(tableName) as Array<{
+    name: string;
+    sql_name: string;
+    has_booleans: number;
+    has_numbers: number;
+  }>;
+
+  return rows.map((row) => ({
+    name: row.name,
+    sqlName: row.sql_name,
+    booleans: row.has_booleans === 1 && row.has_numbers === 0,
+  }));
+}
+
+/**
+ * Get the SQL expression for a column (NULL if the table has no such column)
+ */
+export function getColumnExpression(db: Database, tableName: string, columnName: string): string {
+  const row = db
+    .prepare(`SELECT sql_name FROM column_names WHERE table_name = ? AND name = ?`)
+    .get(tableName, columnName) as { sql_name: string } | undefined;
+  return row ? quoteIdentifier(row.sql_name) : "NULL";
+}
+
+/**
+ * Add columns for header names the table doesn't have yet
+ */
+function addColumns(db: Database, tableName: string, names: string[]): void {
+  const existing = new Set(getStoredColumns(db, tableName).map((column) => column.name));
+  const { count } = db
+    .prepare(`SELECT COUNT(*) AS count FROM column_names WHERE table_name = ?`)
+    .get(tableName) as { count: number };
+
+  const insertName = db.prepare(`
+    INSERT INTO column_names (table_name, position, name, sql_name)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  let position = count;
+  for (const name of names) {
+    if (existing.has(name)) continue;
+    existing.add(name);
+    if (existing.size > MAX_DATA_COLUMNS) {
+      throw new Error(`Too many columns: at most ${MAX_DATA_COLUMNS} columns are supported`);
+    }
+
+    position++;
+    const sqlName = `c${position}`;
+    db.exec(`ALTER TABLE ${tableName} ADD COLUMN ${quoteIdentifier(sqlName)}`);
+    insertName.run(tableName, position, name, sqlName);
+  }
+}
+
+/**
+ * Record that columns hold booleans and/or numbers
+ */
+function updateValueFlags(
+  db: Database,
+  tableName: string,
+  columns: StoredColumn[],
+  hasBooleans: boolean[],
+  hasNumbers: boolean[],
+): void {
+  const update = db.prepare(`
+    UPDATE column_names
+    SET has_booleans = MAX(has_booleans, ?), has_numbers = MAX(has_numbers, ?)
+    WHERE table_name = ? AND sql_name = ?
+  `);
+
+  columns.forEach((column, i) => {
+    if (hasBooleans[i] || hasNumbers[i]) {
+      update.run(hasBooleans[i] ? 1 : 0, hasNumbers[i] ? 1 : 0, tableName, column.sqlName);
+    }
+  });
+}
+
+/**
+ * Convert a cell to a SQLite value
+ */
+function encodeValue(value: unknown): string | number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Convert a SQLite value back to a cell
+ */
+function decodeValue(value: unknown, column: StoredColumn): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (column.booleans && typeof value === "number") {
+    return value !== 0;
+  }
+  return value;
+}
+
+/**
+ * Insert rows into a data table, adding columns for new keys
+ */
+export function insertRows(
+  db: Database,
+  tableName: string,
+  rows: Array<Record<string, unknown>>,
+): void {
+  if (rows.length === 0) {
+    return;
+  }
+
+  const insertMany = db.transaction(() => {
+    addColumns(
+      db,
+      tableName,
+      rows.flatMap((row) => Object.keys(row)),
+    );
+    const columns = getStoredColumns(db, tableName);
+
+    const insert =
+      columns.length === 0
+        ? db.prepare(`INSERT INTO ${tableName} DEFAULT VALUES`)
+        : db.prepare(`
+            INSERT INTO ${tableName} (${columns.map((column) => quoteIdentifier(column.sqlName)).join(", ")})
+            VALUES (${columns.map(() => "?").join(", ")})
+          `);
+
+    const hasBooleans = columns.map(() => false);
+    const hasNumbers = columns.map(() => false);
+
+    for (const row of rows) {
+      const values = columns.map((column, i) => {
+        const value = row[column.name];
+        if (typeof value === "boolean") hasBooleans[i] = true;
+        else if (typeof value === "number") hasNumbers[i] = true;
+        return encodeValue(value);
+      });
+      insert.run(values);
+    }
+
+    updateValueFlags(db, tableName, columns, hasBooleans, hasNumbers);
+  });
+
+  insertMany();
+}
+
+/**
+ * Index a column for sorting (created on first use, kept with the table)
+ */
+export function createSortIndex(db: Database, tableName: string, column: StoredColumn): void {
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS ${quoteIdentifier(`${tableName}_${column.sqlName}_sort`)}
+    ON ${tableName} (${quoteIdentifier(column.sqlName)} COLLATE NOCASE)
+  `);
+}
+
+/**
+ * Store the numeric text of number columns as numbers
+ * Text is parsed with the rules of type inference ("1,234.56", "$12", "(5)");
+ * text that isn't a number is left as is.
+ */
+export function storeNumbers(
+  db: Database,
+  tableName: string,
+  names: string[],
+  numberFormat?: NumberParseOptions,
+): void {
+  const columns = getStoredColumns(db, tableName).filter((column) => names.includes(column.name));
+  if (columns.length === 0) {
+    return;
+  }
+
+  db.function("stored_number", { deterministic: true }, (value) => {
+    return castToNumber(value, numberFormat) ?? value;
+  });
+
+  const update = db.transaction(() => {
+    const hasNumbers = columns.map((column) => {
+      const value = quoteIdentifier(column.sqlName);
+      const { changes } = db
+        .prepare(`
+          UPDATE ${tableName} SET ${value} = stored_number(${value})
+          WHERE typeof(${value}) = 'text' AND typeof(stored_number(${value})) <> 'text'
+        `)
+        .run();
+      return changes > 0;
+    });
+    updateValueFlags(
+      db,
+      tableName,
+      columns,
+      columns.map(() => false),
+      hasNumbers,
+    );
+  });
+
+  update();
+}
+
+/**
+ * Select rows from a data table
+ * `clause` follows FROM (WHERE/ORDER BY/LIMIT); its parameters are passed in `params`.
+ */
+export function selectRows(
+  db: Database,
+  tableName: string,
+  clause: string,
+  params: unknown[] = [],
+): RawDataRow[] {
+  const columns = getStoredColumns(db, tableName);
+  const select = ["row_id", ...columns.map((column) => quoteIdentifier(column.sqlName))];
+
+  const rows = db
+    .prepare(`SELECT ${select.join(", ")} FROM ${tableName} ${clause}`)
+    .raw()
+    .all(...params) as unknown[][];
+
+  return rows.map(([rowId, ...values]) => {
+    const data: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      data[column.name] = decodeValue(values[i], column);
+    });
+    return { row_id: rowId as number, data };
+  });
+}
+
+/**
+ * Read rows in row_id order with pagination
+ */
+export function readRows(
+  db: Database,
+  tableName: string,
+  offset: number,
+  limit: number,
+): RawDataRow[] {
+  return selectRows(db, tableName, "ORDER BY row_id LIMIT ? OFFSET ?", [limit, offset]);
+}
+
+/**
+ * Read the distinct values of a column with their counts (most frequent first)
+ */
+export function readValueCounts(
+  db: Database,
+  tableName: string,
+  columnName: string,
+  limit: number,
+  source = tableName,
+): Array<{ value: unknown; count: number }> {
+  const column = getStoredColumns(db, tableName).find((stored) => stored.name === columnName);
+  const expression = column ? quoteIdentifier(column.sqlName) : "NULL";
+
+  const rows = db
+    .prepare(`
+      SELECT ${expression} AS value, COUNT(*) AS count
+      FROM ${source}
+      GROUP BY 1
+      ORDER BY count DESC
+      LIMIT ?
+    `)
+    .all(limit) as Array<{ value: unknown; count: number }>;
+
+  return rows.map((row) => ({
+    value: column ? decodeValue(row.value, column) : null,
+    count: row.count,
+  }));
+}
+
+/**
+ * Read the distinct values of one key of (seq, data JSON) rows with their counts
+ * (most frequent first)
+ */
+export function readJSONValueCounts(
+  db: Database,
+  query: string,
+  columnName: string,
+  limit: number,
+): Array<{ value: unknown; count: number }> {
+  const cell = jsonCellSQL(columnName);
+
+  const rows = db
+    .prepare(`
+      SELECT ${cell.value} AS value, ${cell.type} AS type, COUNT(*) AS count
+      FROM ${query}
+      GROUP BY 1, 2
+      ORDER BY count DESC
+      LIMIT ?
+    `)
+    .all(limit) as Array<{ value: unknown; type: string | null; count: number }>;
+
+  return rows.map((row) => ({
+    value: row.type === "true" || row.type === "false" ? row.type === "true" : row.value,
+    count: row.count,
+  }));
+}
+
+/**
+ * SQL expression building a row's JSON object from its columns
+ */
+function rowObjectSQL(columns: StoredColumn[]): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < columns.length; i += JSON_OBJECT_CHUNK_SIZE) {
+    const pairs = columns.slice(i, i + JSON_OBJECT_CHUNK_SIZE).map((column) => {
+      const value = quoteIdentifier(column.sqlName);
+      const cell = column.booleans
+        ? `CASE WHEN ${value} IS NULL THEN NULL WHEN ${value} THEN json('true') ELSE json('false') END`
+        : value;
+      return `${sqlString(column.name)}, ${cell}`;
+    });
+    chunks.push(`json_object(${pairs.join(", ")})`);
+  }
+
+  if (chunks.length === 0) {
+    return "json_object()";
+  }
+
+  // Join the objects of wide tables: '{"a":1}' + '{"b":2}' -> '{"a":1,"b":2}'
+  return chunks.reduce(
+    (merged, chunk) =>
+      `json(substr(${merged}, 1, length(${merged}) - 1) || ',' || substr(${chunk}, 2))`,
+  );
+}
+
+/**
+ * Subquery returning a data table as (seq, data JSON) rows, seq being the row_id
+ */
+export function jsonRowsQuery(db: Database, tableName: string): string {
+  const columns = getStoredColumns(db, tableName);
+  return `(SELECT row_id AS seq, ${rowObjectSQL(columns)} AS data FROM ${tableName})`;
+}
+
+/**
+ * SQL expressions reading one key of a JSON row: its value and its JSON type
+ */
+function jsonCellSQL(name: string): { value: string; type: string } {
+  // Paths can't quote keys containing double quotes or backslashes
+  if (/["\\]/.test(name)) {
+    const lookup = `FROM json_each(data) WHERE key = ${sqlString(name)}`;
+    return { value: `(SELECT value ${lookup})`, type: `(SELECT type ${lookup})` };
+  }
+
+  const path = sqlString(`$."${name}"`);
+  return { value: `data ->> ${path}`, type: `json_type(data, ${path})` };
+}
+
+/**
+ * Copy (seq, data JSON) rows into a data table, seq becoming the row_id
+ * Only the given keys are copied, in that column order.
+ */
+export function insertJSONRows(
+  db: Database,
+  tableName: string,
+  query: string,
+  names: string[],
+): void {
+  const keys = [...new Set(names)];
+
+  const copy = db.transaction(() => {
+    addColumns(db, tableName, keys);
+    const columnsByName = new Map(
+      getStoredColumns(db, tableName).map((column) => [column.name, column]),
+    );
+    const columns = keys.map((name) => columnsByName.get(name) as StoredColumn);
+    const cells = keys.map(jsonCellSQL);
+
+    // Find which columns hold booleans and numbers before they both become integers
+    const hasBooleans: boolean[] = [];
+    const hasNumbers: boolean[] = [];
+    for (let i = 0; i < cells.length; i += SCAN_CHUNK_SIZE) {
+      const chunk = cells.slice(i, i + SCAN_CHUNK_SIZE);
+      const flags = db
+        .prepare(
+          `SELECT ${chunk
+            .map(
+              ({ type }) =>
+                `MAX(${type} IN ('true', 'false')), MAX(${type} IN ('integer', 'real'))`,
+            )
+            .join(", ")} FROM ${query}`,
+        )
+        .raw()
+        .get() as Array<number | null>;
+
+      chunk.forEach((_, j) => {
+        hasBooleans.push(flags[j * 2] === 1);
+        hasNumbers.push(flags[j * 2 + 1] === 1);
+      });
+    }
+
+    const targets = ["row_id", ...columns.map((column) => quoteIdentifier(column.sqlName))];
+    const values = ["seq", ...cells.map(({ value }) => value)];
+    db.exec(`
+      INSERT INTO ${tableName} (${targets.join(", ")})
+      SELECT ${values.join(", ")} FROM ${query} ORDER BY seq
+    `);
+
+    updateValueFlags(db, tableName, columns, hasBooleans, hasNumbers);
+  });
+
+  copy();
+}
@@ -29,6 +29,7 @@ export interface ParseConfig {
   delimiter?: string;
   hasHeaders?: boolean;
   encoding?: string;
+  numberLocale?: string;
   sheetName?: string;
   cellRange?: string;
 }
@@ -79,3 +80,17 @@ export interface ColumnDistribution {
     percentage: number;
   }>;
 }
+
+export interface TableSortKey {
+  column: string;
+  direction: "asc" | "desc";
+}
+
+/**
+ * Sorting and filtering applied to a data table before pagination
+ */
+export interface TableQuery {
+  sort?: TableSortKey[]; // Applied in order; nulls always sort last
+  filters?: Record<string, string>; // Column -> text its values must contain (case-insensitive)
+  search?: string; // Text any column must contain (case-insensitive)
+}